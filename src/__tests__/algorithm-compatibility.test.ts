@@ -9,6 +9,10 @@ import {
   getCoseAlgorithmName,
   COSE_TO_JWT_ALG,
 } from "@/lib/cose-to-jwt";
+import {
+  getSigningAlgorithm,
+  parseSigningAlgorithm,
+} from "@/lib/signing-algorithms";
 
 describe("Algorithm Compatibility", () => {
   describe("COSE to JWT Mapping", () => {
@@ -130,6 +134,43 @@ describe("Algorithm Compatibility", () => {
     });
   });
 
+  describe("Signing Key Algorithms", () => {
+    it("should take the algorithm from the key type", () => {
+      expect(getSigningAlgorithm({ kty: "OKP", crv: "Ed25519", x: "x" })).toBe(
+        "EdDSA",
+      );
+      expect(
+        getSigningAlgorithm({ kty: "EC", crv: "P-256", x: "x", y: "y" }),
+      ).toBe("ES256");
+    });
+
+    it("should reject other keys and contradicting alg members", () => {
+      expect(() =>
+        getSigningAlgorithm({ kty: "EC", crv: "P-384", x: "x", y: "y" }),
+      ).toThrow("Unsupported signing key");
+      expect(() =>
+        getSigningAlgorithm({ kty: "RSA", n: "n", e: "AQAB" }),
+      ).toThrow("Unsupported signing key");
+      expect(() =>
+        getSigningAlgorithm({
+          kty: "OKP",
+          crv: "Ed25519",
+          x: "x",
+          alg: "ES256",
+        }),
+      ).toThrow("cannot sign ES256");
+    });
+
+    it("should default new keys to EdDSA", () => {
+      expect(parseSigningAlgorithm(undefined)).toBe("EdDSA");
+      expect(parseSigningAlgorithm("")).toBe("EdDSA");
+      expect(parseSigningAlgorithm("ES256")).toBe("ES256");
+      expect(() => parseSigningAlgorithm("RS256")).toThrow(
+        "Unsupported signing algorithm",
+      );
+    });
+  });
+
   describe("Algorithm Compatibility Scenarios", () => {
     it("should handle the default passkey configuration (ES256, RS256)", () => {
       // This is our current supportedAlgorithmIDs: [-7, -257]
@@ -0,0 +1,93 @@
+/**
+ * Approval certificate tests
+ * Tests content signatures and the combined General JSON Serialization JWS
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { generalVerify, importJWK, base64url } from "jose";
+import { generateJWTKeyPair } from "@/lib/jwt-key-registration";
+import {
+  signStatementContent,
+  verifyContentSignature,
+  buildApprovalCertificate,
+} from "@/lib/approval-certificate";
+
+describe("Approval Certificate", () => {
+  const content = '{ "currency": "USD", "amount": 100 }';
+
+  it("should verify a content signature against its key", async () => {
+    const key = await generateJWTKeyPair();
+    const other = await generateJWTKeyPair();
+    const contentSignature = await signStatementContent(
+      content,
+      key.keyId,
+      key.privateKey,
+    );
+
+    expect(
+      await verifyContentSignature(
+        content,
+        contentSignature,
+        key.keyId,
+        key.publicKey,
+      ),
+    ).toBeUndefined();
+    expect(
+      await verifyContentSignature(
+        '{"currency":"USD","amount":1000}',
+        contentSignature,
+        key.keyId,
+        key.publicKey,
+      ),
+    ).toContain("Invalid content signature");
+    expect(
+      await verifyContentSignature(
+        content,
+        contentSignature,
+        key.keyId,
+        other.publicKey,
+      ),
+    ).toContain("Invalid content signature");
+  });
+
+  it("should combine approvals into one verifiable JWS", async () => {
+    const signers = [await generateJWTKeyPair(), await generateJWTKeyPair()];
+    const certificate = buildApprovalCertificate(
+      content,
+      await Promise.all(
+        signers.map((signer) =>
+          signStatementContent(content, signer.keyId, signer.privateKey),
+        ),
+      ),
+    );
+
+    // The payload is the canonical statement
+    expect(
+      new TextDecoder().decode(base64url.decode(certificate.payload)),
+    ).toBe('{"amount":100,"currency":"USD"}');
+    expect(certificate.signatures).toHaveLength(2);
+
+    // Each entry verifies with a standard JOSE library and the key for its kid
+    for (const signer of signers) {
+      const result = await generalVerify(
+        certificate,
+        await importJWK(signer.publicKeyJWK, "EdDSA"),
+      );
+      expect(result.protectedHeader?.kid).toBe(signer.keyId);
+    }
+  });
+
+  it("should reject a certificate with a modified payload", async () => {
+    const signer = await generateJWTKeyPair();
+    const certificate = buildApprovalCertificate(content, [
+      await signStatementContent(content, signer.keyId, signer.privateKey),
+    ]);
+
+    await expect(
+      generalVerify(
+        { ...certificate, payload: base64url.encode('{"amount":1}') },
+        signer.publicKey,
+      ),
+    ).rejects.toThrow();
+  });
+});
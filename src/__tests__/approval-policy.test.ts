@@ -0,0 +1,381 @@
+/**
+ * Approval policy tests
+ * Tests policy validation, evaluation and JSON Pointer resolution
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  parseApprovalPolicy,
+  evaluateApprovalPolicy,
+  countRequiredWeight,
+  findVetoes,
+  resolveJsonPointer,
+  type ApprovalPolicy,
+  type PolicySigner,
+} from "@/lib/approval-policy";
+
+const creator: PolicySigner = {
+  userId: "creator-1",
+  userName: "Alice",
+  userRole: "creator",
+};
+const bob: PolicySigner = {
+  userId: "investor-1",
+  userName: "Bob",
+  userRole: "investor",
+};
+const carol: PolicySigner = {
+  userId: "investor-2",
+  userName: "Carol",
+  userRole: "investor",
+};
+const dave: PolicySigner = {
+  userId: "investor-3",
+  userName: "Dave",
+  userRole: "investor",
+};
+
+const content = { investment: { amount: 1500000, currency: "USD" } };
+
+const evaluate = (policy: ApprovalPolicy, signatures: PolicySigner[]) =>
+  evaluateApprovalPolicy(policy, {
+    creatorId: creator.userId,
+    content,
+    signatures,
+  });
+
+describe("Approval Policy", () => {
+  describe("Validation", () => {
+    it("should accept a nested policy", () => {
+      const policy = parseApprovalPolicy({
+        type: "or",
+        clauses: [
+          {
+            type: "quorum",
+            threshold: 3,
+            signers: { type: "users", userIds: ["a", "b", "c", "d"] },
+          },
+          {
+            type: "quorum",
+            threshold: 1,
+            signers: { type: "users", userIds: ["chair"] },
+          },
+        ],
+      });
+
+      expect(policy.type).toBe("or");
+    });
+
+    it("should reject unknown clause types", () => {
+      expect(() => parseApprovalPolicy({ type: "xor" })).toThrow(
+        'policy.type must be one of "quorum", "and", "or", "if"',
+      );
+    });
+
+    it("should reject an empty user list", () => {
+      expect(() =>
+        parseApprovalPolicy({
+          type: "quorum",
+          threshold: 1,
+          signers: { type: "users", userIds: [] },
+        }),
+      ).toThrow("policy.signers.userIds must be a non-empty array of strings");
+    });
+
+    it("should report the path of an invalid nested clause", () => {
+      expect(() =>
+        parseApprovalPolicy({
+          type: "and",
+          clauses: [{ type: "quorum", threshold: 1 }, { type: "quorum" }],
+        }),
+      ).toThrow("policy.clauses[1].threshold must be a positive integer");
+    });
+
+    it("should reject a condition pointer that is not a JSON Pointer", () => {
+      expect(() =>
+        parseApprovalPolicy({
+          type: "if",
+          condition: { pointer: "investment.amount", operator: ">" },
+          then: { type: "quorum", threshold: 1 },
+        }),
+      ).toThrow("policy.condition.pointer must be a JSON Pointer");
+    });
+
+    it("should require both branches of an IF", () => {
+      // Without an else, content that fails the condition needs no approval
+      expect(() =>
+        parseApprovalPolicy({
+          type: "if",
+          condition: { pointer: "/investment/amount", operator: "exists" },
+          then: { type: "quorum", threshold: 1 },
+        }),
+      ).toThrow("policy.else must be an object");
+    });
+  });
+
+  describe("Evaluation", () => {
+    const investorsAndCreator: ApprovalPolicy = {
+      type: "and",
+      clauses: [
+        {
+          type: "quorum",
+          threshold: 2,
+          signers: { type: "role", role: "investor" },
+        },
+        { type: "quorum", threshold: 1, signers: { type: "creator" } },
+      ],
+    };
+
+    it("should require every clause of an AND", () => {
+      const result = evaluate(investorsAndCreator, [bob, carol]);
+
+      expect(result.satisfied).toBe(false);
+      expect(result.children?.[0].satisfied).toBe(true);
+      expect(result.children?.[1].satisfied).toBe(false);
+      expect(result.children?.[1].detail).toContain("missing 1");
+    });
+
+    it("should approve when every clause of an AND is met", () => {
+      const result = evaluate(investorsAndCreator, [bob, creator, carol]);
+
+      expect(result.satisfied).toBe(true);
+    });
+
+    it("should accept any clause of an OR", () => {
+      const policy: ApprovalPolicy = {
+        type: "or",
+        clauses: [
+          {
+            type: "quorum",
+            threshold: 3,
+            signers: { type: "role", role: "investor" },
+          },
+          {
+            type: "quorum",
+            threshold: 1,
+            signers: { type: "users", userIds: [creator.userId] },
+          },
+        ],
+      };
+
+      expect(evaluate(policy, [bob, carol]).satisfied).toBe(false);
+      expect(evaluate(policy, [creator]).satisfied).toBe(true);
+      expect(evaluate(policy, [bob, carol, dave]).satisfied).toBe(true);
+    });
+
+    it("should pick the branch of an IF from the statement content", () => {
+      const policy: ApprovalPolicy = {
+        type: "if",
+        condition: {
+          pointer: "/investment/amount",
+          operator: ">",
+          value: 1000000,
+        },
+        then: {
+          type: "quorum",
+          threshold: 3,
+          signers: { type: "role", role: "investor" },
+        },
+        else: {
+          type: "quorum",
+          threshold: 2,
+          signers: { type: "role", role: "investor" },
+        },
+      };
+
+      const result = evaluate(policy, [bob, carol]);
+      expect(result.satisfied).toBe(false);
+      expect(result.detail).toContain("applying then clause");
+      expect(countRequiredWeight(policy, content)).toBe(3);
+      expect(countRequiredWeight(policy, { investment: { amount: 10 } })).toBe(
+        2,
+      );
+    });
+
+    it("should count signatures only from matching signers", () => {
+      const policy: ApprovalPolicy = {
+        type: "quorum",
+        threshold: 2,
+        signers: { type: "role", role: "investor" },
+      };
+
+      const result = evaluate(policy, [creator, bob]);
+      expect(result.satisfied).toBe(false);
+      expect(result.detail).toBe("1/2 — signed by Bob; missing 1");
+    });
+  });
+
+  describe("Required weight", () => {
+    const investors = { type: "role", role: "investor" } as const;
+
+    it("should add up AND clauses with disjoint signers", () => {
+      const policy: ApprovalPolicy = {
+        type: "and",
+        clauses: [
+          { type: "quorum", threshold: 2, signers: investors },
+          { type: "quorum", threshold: 1, signers: { type: "creator" } },
+          {
+            type: "quorum",
+            threshold: 2,
+            signers: { type: "users", userIds: ["a", "b"] },
+          },
+        ],
+      };
+
+      // The listed users may be investors themselves
+      expect(countRequiredWeight(policy, content, creator.userId)).toBe(3);
+      expect(
+        countRequiredWeight(
+          { ...policy, clauses: policy.clauses.slice(0, 2) },
+          content,
+          creator.userId,
+        ),
+      ).toBe(3);
+    });
+
+    it("should count AND clauses with overlapping signers once", () => {
+      const same: ApprovalPolicy = {
+        type: "and",
+        clauses: [
+          {
+            type: "quorum",
+            threshold: 2,
+            signers: { type: "users", userIds: ["a", "b"] },
+          },
+          {
+            type: "quorum",
+            threshold: 2,
+            signers: { type: "users", userIds: ["b", "a"] },
+          },
+        ],
+      };
+      expect(countRequiredWeight(same, content)).toBe(2);
+
+      const anyAndCreator: ApprovalPolicy = {
+        type: "and",
+        clauses: [
+          { type: "quorum", threshold: 3 },
+          { type: "quorum", threshold: 1, signers: { type: "creator" } },
+        ],
+      };
+      expect(countRequiredWeight(anyAndCreator, content, creator.userId)).toBe(
+        3,
+      );
+
+      // The creator is only one of the listed users if named there
+      const creatorAndUsers = (userIds: string[]): ApprovalPolicy => ({
+        type: "and",
+        clauses: [
+          { type: "quorum", threshold: 1, signers: { type: "creator" } },
+          { type: "quorum", threshold: 1, signers: { type: "users", userIds } },
+        ],
+      });
+      expect(
+        countRequiredWeight(creatorAndUsers(["a"]), content, creator.userId),
+      ).toBe(2);
+      expect(
+        countRequiredWeight(
+          creatorAndUsers([creator.userId]),
+          content,
+          creator.userId,
+        ),
+      ).toBe(1);
+    });
+
+    it("should take the branch the content selects", () => {
+      const policy: ApprovalPolicy = {
+        type: "if",
+        condition: { pointer: "/board", operator: "exists" },
+        then: {
+          type: "or",
+          clauses: [
+            { type: "quorum", threshold: 3, signers: investors },
+            { type: "quorum", threshold: 1, signers: { type: "creator" } },
+          ],
+        },
+        else: { type: "quorum", threshold: 2, signers: investors },
+      };
+
+      expect(countRequiredWeight(policy, content)).toBe(2);
+      expect(countRequiredWeight(policy, { board: true })).toBe(1);
+    });
+  });
+
+  describe("Weighted signatures", () => {
+    it("should sum signer weights towards the threshold", () => {
+      const policy: ApprovalPolicy = {
+        type: "quorum",
+        threshold: 3,
+        signers: { type: "role", role: "investor" },
+      };
+
+      const lead = { ...bob, weight: 2 };
+
+      expect(evaluate(policy, [lead]).satisfied).toBe(false);
+      expect(evaluate(policy, [lead, carol]).satisfied).toBe(true);
+      expect(evaluate(policy, [lead, carol]).detail).toBe(
+        "3/3 — signed by Bob (×2), Carol",
+      );
+      expect(evaluate(policy, [carol, dave]).satisfied).toBe(false);
+    });
+  });
+
+  describe("Vetoes", () => {
+    const policy: ApprovalPolicy = {
+      type: "and",
+      clauses: [
+        {
+          type: "quorum",
+          threshold: 2,
+          signers: { type: "role", role: "investor" },
+        },
+        {
+          type: "quorum",
+          threshold: 1,
+          signers: { type: "creator" },
+          veto: true,
+        },
+      ],
+    };
+
+    const context = (declines: PolicySigner[]) => ({
+      creatorId: creator.userId,
+      content,
+      signatures: [bob, carol],
+      declines,
+    });
+
+    it("should reject a non-boolean veto flag", () => {
+      expect(() =>
+        parseApprovalPolicy({ type: "quorum", threshold: 1, veto: "yes" }),
+      ).toThrow("policy.veto must be a boolean");
+    });
+
+    it("should only let veto holders veto", () => {
+      expect(findVetoes(policy, context([dave]))).toEqual([]);
+      expect(findVetoes(policy, context([creator]))).toEqual([creator]);
+    });
+
+    it("should report a vetoed clause as unsatisfied", () => {
+      const result = evaluateApprovalPolicy(policy, context([creator]));
+
+      expect(result.satisfied).toBe(false);
+      expect(result.children?.[1].description).toBe("1 of the creator (veto)");
+      expect(result.children?.[1].detail).toBe(
+        "0/1 — no matching signatures; vetoed by Alice",
+      );
+    });
+  });
+
+  describe("JSON Pointer", () => {
+    it("should resolve nested values and array indexes", () => {
+      const doc = { a: { "b/c": [10, 20] }, "m~n": 1 };
+
+      expect(resolveJsonPointer(doc, "")).toBe(doc);
+      expect(resolveJsonPointer(doc, "/a/b~1c/1")).toBe(20);
+      expect(resolveJsonPointer(doc, "/m~0n")).toBe(1);
+      expect(resolveJsonPointer(doc, "/a/missing")).toBeUndefined();
+      expect(resolveJsonPointer(doc, "/a/b~1c/01")).toBeUndefined();
+    });
+  });
+});
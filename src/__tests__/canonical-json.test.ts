@@ -0,0 +1,77 @@
+/**
+ * JSON Canonicalization Scheme tests
+ * Tests RFC 8785 serialization and the statement content hash
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  canonicalize,
+  canonicalizeContent,
+  computeContentHash,
+} from "@/lib/canonical-json";
+
+describe("Canonical JSON", () => {
+  describe("canonicalize", () => {
+    it("should sort object keys and drop whitespace", () => {
+      expect(canonicalize({ b: 2, a: { d: [1, 2], c: null } })).toBe(
+        '{"a":{"c":null,"d":[1,2]},"b":2}',
+      );
+    });
+
+    it("should sort keys by UTF-16 code units", () => {
+      // "\u20ac" (euro) sorts before "\ud83d\ude00" (emoji surrogate pair)
+      // although the emoji has the higher code point
+      const value = { "\ud83d\ude00": 1, "\u20ac": 2, "\r": 3, "1": 4 };
+
+      expect(canonicalize(value)).toBe(
+        '{"\\r":3,"1":4,"\u20ac":2,"\ud83d\ude00":1}',
+      );
+    });
+
+    it("should serialize numbers like ECMAScript", () => {
+      expect(canonicalize([1e21, 1e-7, -0, 0.1, 100, 4.5])).toBe(
+        "[1e+21,1e-7,0,0.1,100,4.5]",
+      );
+    });
+
+    it("should escape strings minimally", () => {
+      expect(canonicalize('a"b\\c\n\u0001é')).toBe('"a\\"b\\\\c\\n\\u0001é"');
+    });
+
+    it("should reject non-finite numbers", () => {
+      expect(() => canonicalize({ amount: NaN })).toThrow("non-finite");
+    });
+  });
+
+  describe("computeContentHash", () => {
+    it("should give the same hash for equivalent JSON", async () => {
+      const a = await computeContentHash('{"amount": 100, "currency": "USD"}');
+      const b = await computeContentHash(
+        '{\n  "currency": "USD",\n  "amount": 1e2\n}',
+      );
+
+      expect(a).toBe(b);
+      expect(a).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it("should give a different hash for different content", async () => {
+      const a = await computeContentHash('{"amount":100}');
+      const b = await computeContentHash('{"amount":1000}');
+
+      expect(a).not.toBe(b);
+    });
+
+    it("should hash the canonical form", async () => {
+      const canonical = canonicalizeContent('{ "b": true, "a": "x" }');
+      const digest = await crypto.subtle.digest(
+        "SHA-256",
+        new TextEncoder().encode(canonical),
+      );
+
+      expect(canonical).toBe('{"a":"x","b":true}');
+      expect(await computeContentHash(canonical)).toBe(
+        Buffer.from(digest).toString("hex"),
+      );
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Software Passkey for Tests
+ *
+ * Produces real WebAuthn assertions (ES256) so that attestation checks run
+ * against genuine signatures instead of mocks.
+ */
+
+import { createHash, createSign, generateKeyPairSync } from "crypto";
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { isoBase64URL, isoCBOR } from "@simplewebauthn/server/helpers";
+
+export interface AssertionOptions {
+  rpId?: string;
+  origin?: string;
+  // Authenticator data flags (0x01 user present, 0x04 user verified)
+  flags?: number;
+}
+
+export interface TestPasskey {
+  credentialId: string;
+  // COSE public key, base64url (as stored in passkey_credentials)
+  publicKey: string;
+  // Sign a challenge the way navigator.credentials.get() would
+  assert(
+    challenge: string,
+    options?: AssertionOptions,
+  ): AuthenticationResponseJSON;
+  // Answer registration options the way navigator.credentials.create()
+  // would ("none" attestation). The credential ID must round-trip through
+  // base64url (a multiple of 4 characters)
+  register(
+    challenge: string,
+    options?: AssertionOptions,
+  ): RegistrationResponseJSON;
+}
+
+export function createTestPasskey(credentialId = "test-passkey"): TestPasskey {
+  const { privateKey, publicKey } = generateKeyPairSync("ec", {
+    namedCurve: "P-256",
+  });
+  const jwk = publicKey.export({ format: "jwk" });
+
+  // COSE_Key: kty EC2, alg ES256, crv P-256, x, y
+  const coseKey = isoCBOR.encode(
+    new Map<number, number | Uint8Array>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, isoBase64URL.toBuffer(jwk.x!)],
+      [-3, isoBase64URL.toBuffer(jwk.y!)],
+    ]),
+  );
+
+  const rpIdHash = (rpId: string) => createHash("sha256").update(rpId).digest();
+
+  return {
+    credentialId,
+    publicKey: isoBase64URL.fromBuffer(coseKey),
+    assert(challenge, options = {}) {
+      const {
+        rpId = "localhost",
+        origin = "http://localhost:3000",
+        flags = 0x05,
+      } = options;
+
+      const clientDataJSON = Buffer.from(
+        JSON.stringify({ type: "webauthn.get", challenge, origin }),
+      );
+      const authenticatorData = Buffer.concat([
+        rpIdHash(rpId),
+        Buffer.from([flags]),
+        Buffer.alloc(4), // signature counter
+      ]);
+      const signature = createSign("SHA256")
+        .update(authenticatorData)
+        .update(createHash("sha256").update(clientDataJSON).digest())
+        .sign(privateKey);
+
+      return {
+        id: credentialId,
+        rawId: credentialId,
+        type: "public-key",
+        clientExtensionResults: {},
+        response: {
+          clientDataJSON: isoBase64URL.fromBuffer(clientDataJSON),
+          authenticatorData: isoBase64URL.fromBuffer(authenticatorData),
+          signature: isoBase64URL.fromBuffer(signature),
+        },
+      };
+    },
+    register(challenge, options = {}) {
+      const {
+        rpId = "localhost",
+        origin = "http://localhost:3000",
+        flags = 0x45, // user present, user verified, attested credential data
+      } = options;
+
+      const rawId = isoBase64URL.toBuffer(credentialId);
+      const credentialIdLength = Buffer.alloc(2);
+      credentialIdLength.writeUInt16BE(rawId.length);
+      const authData = Buffer.concat([
+        rpIdHash(rpId),
+        Buffer.from([flags]),
+        Buffer.alloc(4), // signature counter
+        Buffer.alloc(16), // AAGUID
+        credentialIdLength,
+        rawId,
+        coseKey,
+      ]);
+      const attestationObject = isoCBOR.encode(
+        new Map<string, string | Map<string, string> | Uint8Array>([
+          ["fmt", "none"],
+          ["attStmt", new Map()],
+          ["authData", authData],
+        ]),
+      );
+      const clientDataJSON = Buffer.from(
+        JSON.stringify({ type: "webauthn.create", challenge, origin }),
+      );
+
+      return {
+        id: credentialId,
+        rawId: credentialId,
+        type: "public-key",
+        clientExtensionResults: {},
+        response: {
+          clientDataJSON: isoBase64URL.fromBuffer(clientDataJSON),
+          attestationObject: isoBase64URL.fromBuffer(attestationObject),
+          transports: ["internal"],
+        },
+      };
+    },
+  };
+}
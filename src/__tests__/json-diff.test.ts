@@ -0,0 +1,46 @@
+/**
+ * JSON diff tests
+ * Tests the side-by-side line diff used to compare statement versions
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { diffJson, diffLines } from "@/lib/json-diff";
+
+describe("JSON Diff", () => {
+  it("should mark identical documents as unchanged", () => {
+    const rows = diffJson({ a: 1, b: [1, 2] }, { a: 1, b: [1, 2] });
+
+    expect(rows.every((row) => row.type === "unchanged")).toBe(true);
+  });
+
+  it("should pair a modified line as changed", () => {
+    const rows = diffJson(
+      { amount: 100, currency: "USD" },
+      { amount: 1000, currency: "USD" },
+    );
+
+    const changed = rows.filter((row) => row.type === "changed");
+    expect(changed).toHaveLength(1);
+    expect(changed[0].left).toEqual({ number: 2, text: '  "amount": 100,' });
+    expect(changed[0].right).toEqual({ number: 2, text: '  "amount": 1000,' });
+  });
+
+  it("should report added and removed lines with their line numbers", () => {
+    const rows = diffLines(["a", "b", "c"], ["a", "c", "d"]);
+
+    expect(rows).toEqual([
+      {
+        type: "unchanged",
+        left: { number: 1, text: "a" },
+        right: { number: 1, text: "a" },
+      },
+      { type: "removed", left: { number: 2, text: "b" } },
+      {
+        type: "unchanged",
+        left: { number: 3, text: "c" },
+        right: { number: 2, text: "c" },
+      },
+      { type: "added", right: { number: 3, text: "d" } },
+    ]);
+  });
+});
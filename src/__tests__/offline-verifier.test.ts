@@ -0,0 +1,555 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  verifyBundle,
+  verifyJWTOffline,
+  verifyKeyAttestation,
+  type OfflineVerificationReport,
+} from "@/lib/offline-verifier";
+import {
+  generateJWTKeyPair,
+  type JWTKeyPair,
+} from "@/lib/jwt-key-registration";
+import {
+  signStatementJWT,
+  STATEMENT_APPROVAL_TYP,
+} from "@/lib/signature-profile";
+import {
+  signStatementContent,
+  buildApprovalCertificate,
+} from "@/lib/approval-certificate";
+import { computeContentHash } from "@/lib/canonical-json";
+import { computePasskeyApprovalChallenge } from "@/lib/passkey-approval";
+import { computeLegacyFingerprint } from "@/lib/key-thumbprint";
+import type { SigningAlgorithm } from "@/lib/signing-algorithms";
+import {
+  computeKeyBindingChallenge,
+  createKeyBinding,
+  type KeyBinding,
+} from "@/lib/key-binding";
+import type { BundleKey, VerificationBundle } from "@/lib/verification-bundle";
+import { decodeJwt, decodeProtectedHeader } from "jose";
+import {
+  createTestPasskey,
+  type AssertionOptions,
+} from "./fixtures/test-passkey";
+
+const relyingParty = { rpId: "localhost", origin: "http://localhost:3000" };
+const content = '{"amount":100,"currency":"USD"}';
+
+// Signer with an attested key, as the bundle export would describe it
+// Without a binding the passkey signs the bare fingerprint (legacy keys)
+async function createSigner(
+  userId: string,
+  assertion: AssertionOptions & { challenge?: string } = {},
+  binding?: Partial<KeyBinding>,
+  algorithm?: SigningAlgorithm,
+): Promise<{ jwtKey: JWTKeyPair; key: BundleKey }> {
+  const jwtKey = await generateJWTKeyPair(algorithm);
+  const passkey = createTestPasskey(`cred-${userId}`);
+  const keyBinding = binding && {
+    ...createKeyBinding(jwtKey, userId),
+    ...binding,
+  };
+  const challenge = keyBinding
+    ? await computeKeyBindingChallenge(keyBinding)
+    : jwtKey.publicKeyFingerprint;
+
+  return {
+    jwtKey,
+    key: {
+      keyId: jwtKey.keyId,
+      userId,
+      credentialId: passkey.credentialId,
+      publicKeyJWK: jwtKey.publicKeyJWK,
+      publicKeyFingerprint: jwtKey.publicKeyFingerprint,
+      ...(keyBinding && { keyBinding }),
+      passkeyAttestation: passkey.assert(
+        assertion.challenge ?? challenge,
+        assertion,
+      ),
+      passkeyPublicKey: passkey.publicKey,
+      passkeyAlgorithm: -7,
+      createdAt: Date.now(),
+    },
+  };
+}
+
+// Approved 2-of-2 statement signed by two investors
+async function createBundle(
+  algorithm?: SigningAlgorithm,
+): Promise<VerificationBundle> {
+  const contentHash = await computeContentHash(content);
+  const signers = [
+    await createSigner("alice", {}, undefined, algorithm),
+    await createSigner("bob", {}, undefined, algorithm),
+  ];
+
+  const signatures = [];
+  for (const { jwtKey, key } of signers) {
+    signatures.push({
+      userId: key.userId,
+      userName: key.userId,
+      userRole: "investor",
+      weight: 1,
+      decision: "approve" as const,
+      signedAt: Date.now(),
+      jwt: await signStatementJWT(
+        { contentHash, decision: "approve" },
+        {
+          typ: STATEMENT_APPROVAL_TYP,
+          statementId: "stmt-1",
+          signerId: key.userId,
+          audience: relyingParty.rpId,
+          keyId: key.keyId,
+          algorithm: jwtKey.algorithm,
+        },
+        jwtKey.privateKey,
+      ),
+      contentSignature: await signStatementContent(
+        content,
+        key.keyId,
+        jwtKey.privateKey,
+        jwtKey.algorithm,
+      ),
+    });
+  }
+
+  return {
+    format: "statement-verification-bundle",
+    version: 1,
+    exportedAt: Date.now(),
+    relyingParty,
+    statement: {
+      statementId: "stmt-1",
+      content,
+      contentHash,
+      creatorId: "creator",
+      creatorName: "Creator",
+      state: "approved",
+      version: 1,
+      createdAt: Date.now(),
+    },
+    policy: {
+      policy: { type: "quorum", threshold: 2 },
+      requiredSignatures: 2,
+      requiredWeight: 2,
+      eligibleSigners: 2,
+      signers: [],
+    },
+    signatures,
+    withdrawnSignatures: [],
+    keys: Object.fromEntries(signers.map(({ key }) => [key.keyId, key])),
+    certificate: buildApprovalCertificate(
+      content,
+      signatures.map((sig) => sig.contentSignature),
+    ),
+  };
+}
+
+function failedChecks(report: OfflineVerificationReport): string[] {
+  return report.sections.flatMap((section) =>
+    section.checks.filter((c) => !c.valid).map((c) => c.claim),
+  );
+}
+
+describe("Offline Verifier", () => {
+  describe("Key Attestation", () => {
+    it("should verify a genuine passkey assertion over the fingerprint", async () => {
+      const { key } = await createSigner("alice");
+      const result = await verifyKeyAttestation(key, relyingParty);
+
+      expect(result.valid).toBe(true);
+      expect(result.checks.map((c) => c.claim)).toEqual([
+        "fingerprint",
+        "credential",
+        "type",
+        "challenge",
+        "origin",
+        "rpIdHash",
+        "flags",
+        "assertion",
+      ]);
+    });
+
+    it("should verify an assertion over the key binding", async () => {
+      const { key } = await createSigner("alice", {}, {});
+      const result = await verifyKeyAttestation(key, relyingParty);
+
+      expect(result.valid).toBe(true);
+      expect(result.checks.map((c) => c.claim).slice(0, 7)).toEqual([
+        "fingerprint",
+        "thumbprint",
+        "keyId",
+        "userId",
+        "period",
+        "actions",
+        "credential",
+      ]);
+      expect(result.checks.find((c) => c.claim === "challenge")?.message).toBe(
+        "passkey signed the key binding",
+      );
+    });
+
+    it("should reject a binding changed after the attestation", async () => {
+      const { key } = await createSigner("alice", {}, { actions: ["approve"] });
+      const result = await verifyKeyAttestation(
+        { ...key, keyBinding: { ...key.keyBinding!, userId: "bob" } },
+        relyingParty,
+      );
+
+      expect(result.checks.filter((c) => !c.valid).map((c) => c.claim)).toEqual(
+        ["userId", "challenge"],
+      );
+    });
+
+    it("should verify a key attested over its legacy hex fingerprint", async () => {
+      const jwtKey = await generateJWTKeyPair();
+      const legacyFingerprint = await computeLegacyFingerprint(
+        jwtKey.publicKeyJWK,
+      );
+      const { key } = await createSigner("alice", {
+        challenge: legacyFingerprint,
+      });
+
+      const result = await verifyKeyAttestation(
+        {
+          ...key,
+          publicKeyJWK: jwtKey.publicKeyJWK,
+          publicKeyFingerprint: jwtKey.publicKeyFingerprint,
+          legacyFingerprint,
+        },
+        relyingParty,
+      );
+      expect(result.valid).toBe(true);
+      expect(result.checks.map((c) => c.claim).slice(0, 2)).toEqual([
+        "fingerprint",
+        "legacyFingerprint",
+      ]);
+
+      // The legacy fingerprint must still be the one of this public key
+      const forged = await verifyKeyAttestation(
+        { ...key, legacyFingerprint },
+        relyingParty,
+      );
+      expect(forged.checks.filter((c) => !c.valid).map((c) => c.claim)).toEqual(
+        ["legacyFingerprint"],
+      );
+    });
+
+    it("should reject an assertion over another challenge", async () => {
+      const { key } = await createSigner("alice", { challenge: "other" });
+      const result = await verifyKeyAttestation(key, relyingParty);
+
+      expect(result.valid).toBe(false);
+      expect(result.checks.find((c) => !c.valid)?.claim).toBe("challenge");
+    });
+
+    it("should reject the wrong origin and RP ID", async () => {
+      const { key } = await createSigner("alice", {
+        rpId: "evil.example",
+        origin: "https://evil.example",
+      });
+      const result = await verifyKeyAttestation(key, relyingParty);
+
+      expect(result.checks.filter((c) => !c.valid).map((c) => c.claim)).toEqual(
+        ["origin", "rpIdHash"],
+      );
+    });
+
+    it("should require user verification", async () => {
+      const { key } = await createSigner("alice", { flags: 0x01 });
+      const result = await verifyKeyAttestation(key, relyingParty);
+
+      expect(result.valid).toBe(false);
+      expect(result.checks.find((c) => !c.valid)?.message).toContain(
+        "not verified",
+      );
+    });
+
+    it("should reject an assertion made by another passkey", async () => {
+      const { key } = await createSigner("alice");
+      const result = await verifyKeyAttestation(
+        { ...key, passkeyPublicKey: createTestPasskey().publicKey },
+        relyingParty,
+      );
+
+      expect(result.checks.find((c) => !c.valid)?.claim).toBe("assertion");
+    });
+  });
+
+  describe("Bundle Verification", () => {
+    it("should verify an approved bundle and its threshold", async () => {
+      const report = await verifyBundle(await createBundle());
+
+      expect(failedChecks(report)).toEqual([]);
+      expect(report.valid).toBe(true);
+      expect(report.policyEvaluation?.satisfied).toBe(true);
+      expect(report.sections.map((s) => s.title)).toContain(
+        "Approval certificate",
+      );
+    });
+
+    it("should verify a bundle signed with ES256 keys", async () => {
+      const bundle = await createBundle("ES256");
+      const report = await verifyBundle(bundle);
+
+      expect(failedChecks(report)).toEqual([]);
+      expect(report.valid).toBe(true);
+      expect(decodeProtectedHeader(bundle.signatures[0].jwt!).alg).toBe(
+        "ES256",
+      );
+    });
+
+    it("should detect tampered content", async () => {
+      const bundle = await createBundle();
+      bundle.statement.content = '{"amount":1000,"currency":"USD"}';
+
+      const failed = failedChecks(await verifyBundle(bundle));
+      expect(failed).toContain("contentHash");
+      expect(failed).toContain("payload");
+    });
+
+    it("should not count signatures whose key is not attested", async () => {
+      const bundle = await createBundle();
+      const [firstKeyId] = Object.keys(bundle.keys);
+      bundle.keys[firstKeyId].publicKeyFingerprint = "0".repeat(64);
+
+      const report = await verifyBundle(bundle);
+      expect(report.valid).toBe(false);
+      expect(report.policyEvaluation?.satisfied).toBe(false);
+    });
+
+    it("should fail when the threshold is not reached", async () => {
+      const bundle = await createBundle();
+      bundle.policy.policy = { type: "quorum", threshold: 3 };
+
+      const report = await verifyBundle(bundle);
+      expect(report.valid).toBe(false);
+      expect(failedChecks(report)).toEqual(["threshold"]);
+    });
+
+    it("should reject a signature attributed to another signer", async () => {
+      const bundle = await createBundle();
+      bundle.signatures[0].userId = "mallory";
+
+      const failed = failedChecks(await verifyBundle(bundle));
+      expect(failed).toContain("key");
+      expect(failed).toContain("iss");
+    });
+
+    it("should count a duplicated signature once", async () => {
+      const bundle = await createBundle();
+      bundle.signatures[1] = { ...bundle.signatures[0] };
+
+      const report = await verifyBundle(bundle);
+      expect(report.valid).toBe(false);
+      expect(failedChecks(report)).toEqual(["duplicate", "threshold"]);
+      expect(report.policyEvaluation?.satisfied).toBe(false);
+
+      // The same JWT under another signer's name is no second approval
+      bundle.signatures[1].userId = "bob";
+      expect(failedChecks(await verifyBundle(bundle))).toEqual(
+        expect.arrayContaining(["duplicate", "threshold"]),
+      );
+    });
+
+    // carol approves with her passkey directly, making it 3 of 3
+    async function addPasskeySignature(
+      bundle: VerificationBundle,
+      passkey = createTestPasskey("cred-carol"),
+    ) {
+      const passkeySignature = {
+        userId: "carol",
+        userName: "carol",
+        userRole: "investor",
+        weight: 1,
+        decision: "approve" as const,
+        signedAt: Date.now(),
+        signingMethod: "passkey" as const,
+        passkeyAssertion: passkey.assert(
+          await computePasskeyApprovalChallenge({
+            statementId: bundle.statement.statementId,
+            contentHash: bundle.statement.contentHash,
+            userId: "carol",
+            nonce: "nonce-1",
+          }),
+        ),
+        passkeyNonce: "nonce-1",
+      };
+      bundle.signatures.push(passkeySignature);
+      bundle.passkeys = {
+        [passkey.credentialId]: {
+          credentialId: passkey.credentialId,
+          userId: "carol",
+          publicKey: passkey.publicKey,
+          algorithm: -7,
+        },
+      };
+      bundle.policy.policy = { type: "quorum", threshold: 3 };
+      return { passkey, passkeySignature };
+    }
+
+    it("should verify direct passkey signatures over the approval request", async () => {
+      const bundle = await createBundle();
+      const { passkey, passkeySignature } = await addPasskeySignature(bundle);
+
+      const report = await verifyBundle(bundle);
+      expect(failedChecks(report)).toEqual([]);
+      expect(report.policyEvaluation?.satisfied).toBe(true);
+
+      // An assertion over anything else does not count: the bare content
+      // hash, or the request with another nonce
+      bundle.signatures[2] = {
+        ...passkeySignature,
+        passkeyAssertion: passkey.assert(bundle.statement.contentHash),
+      };
+      const tampered = await verifyBundle(bundle);
+      expect(failedChecks(tampered)).toEqual(["challenge", "threshold"]);
+
+      bundle.signatures[2] = { ...passkeySignature, passkeyNonce: "nonce-2" };
+      expect(failedChecks(await verifyBundle(bundle))).toEqual([
+        "challenge",
+        "threshold",
+      ]);
+    });
+
+    it("should only accept a passkey of the signer", async () => {
+      const bundle = await createBundle();
+      await addPasskeySignature(bundle);
+
+      // carol's passkey approving in dave's name (the request names carol)
+      bundle.signatures[2].userId = "dave";
+      expect(failedChecks(await verifyBundle(bundle))).toEqual([
+        "credential",
+        "challenge",
+        "threshold",
+      ]);
+
+      // Missing from the bundle's passkeys
+      bundle.signatures[2].userId = "carol";
+      const { passkeys } = bundle;
+      delete bundle.passkeys;
+      expect(failedChecks(await verifyBundle(bundle))).toEqual([
+        "credential",
+        "threshold",
+      ]);
+      bundle.passkeys = passkeys;
+      expect((await verifyBundle(bundle)).valid).toBe(true);
+    });
+
+    it("should reject a passkey listed under more than one signer", async () => {
+      const bundle = await createBundle();
+      // alice's key was attested by cred-alice; the bundle also gives it
+      // to carol
+      await addPasskeySignature(bundle, createTestPasskey("cred-alice"));
+
+      const report = await verifyBundle(bundle);
+      expect(failedChecks(report)).toEqual([
+        "owner",
+        "credential",
+        "threshold",
+      ]);
+      const passkeySection = report.sections.find(
+        (s) => s.title === "Passkey cred-alice",
+      );
+      expect(passkeySection?.checks[1].message).toContain("alice, carol");
+    });
+  });
+
+  describe("Single JWT Verification", () => {
+    it("should verify a JWT with the key from the API", async () => {
+      const bundle = await createBundle();
+      const jwt = bundle.signatures[0].jwt!;
+      const [key] = Object.values(bundle.keys);
+      // GET /api/jwt-keys/:keyId has no userId or credentialId
+      const apiKey = {
+        keyId: key.keyId,
+        publicKeyJWK: key.publicKeyJWK,
+        publicKeyFingerprint: key.publicKeyFingerprint,
+        passkeyAttestation: key.passkeyAttestation,
+        passkeyPublicKey: key.passkeyPublicKey,
+      };
+
+      const report = await verifyJWTOffline(jwt, apiKey, relyingParty, {
+        contentHash: bundle.statement.contentHash,
+      });
+      expect(failedChecks(report)).toEqual([]);
+
+      const wrongStatement = await verifyJWTOffline(jwt, apiKey, relyingParty, {
+        statementId: "stmt-2",
+      });
+      expect(failedChecks(wrongStatement)).toEqual(["sub"]);
+    });
+
+    it("should only accept a rotated-out key for earlier signatures", async () => {
+      const bundle = await createBundle();
+      const jwt = bundle.signatures[0].jwt!;
+      const [key] = Object.values(bundle.keys);
+      const issuedAt = decodeJwt(jwt).iat! * 1000;
+
+      const historic = await verifyJWTOffline(
+        jwt,
+        { ...key, validUntil: issuedAt + 1000 },
+        relyingParty,
+      );
+      expect(failedChecks(historic)).toEqual([]);
+
+      const late = await verifyJWTOffline(
+        jwt,
+        { ...key, validUntil: issuedAt - 1000 },
+        relyingParty,
+      );
+      expect(failedChecks(late)).toEqual(["validUntil"]);
+    });
+
+    it("should hold a JWT to the period and actions of its key binding", async () => {
+      const signer = await createSigner(
+        "alice",
+        {},
+        { actions: ["decline", "comment"] },
+      );
+      const signDecision = (
+        decision: string,
+        { jwtKey, key }: typeof signer = signer,
+      ) =>
+        signStatementJWT(
+          { decision },
+          {
+            typ: STATEMENT_APPROVAL_TYP,
+            statementId: "stmt-1",
+            signerId: "alice",
+            audience: relyingParty.rpId,
+            keyId: key.keyId,
+          },
+          jwtKey.privateKey,
+        );
+
+      const decline = await verifyJWTOffline(
+        await signDecision("decline"),
+        signer.key,
+        relyingParty,
+      );
+      expect(failedChecks(decline)).toEqual([]);
+
+      const approval = await verifyJWTOffline(
+        await signDecision("approve"),
+        signer.key,
+        relyingParty,
+      );
+      expect(failedChecks(approval)).toEqual(["binding"]);
+
+      const expiredAt = Date.now() - 60 * 60 * 1000;
+      const expired = await createSigner(
+        "alice",
+        {},
+        { notBefore: expiredAt - 60 * 60 * 1000, notAfter: expiredAt },
+      );
+      const late = await verifyJWTOffline(
+        await signDecision("decline", expired),
+        expired.key,
+        relyingParty,
+      );
+      expect(failedChecks(late)).toEqual(["binding"]);
+    });
+  });
+});
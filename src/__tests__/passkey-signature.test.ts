@@ -8,22 +8,87 @@
  * 4. Passkey attestation stored in DB proves key legitimacy
  */
 
-import { describe, it, expect, afterAll } from "@jest/globals";
+import { describe, it, expect, afterAll, beforeAll } from "@jest/globals";
 import {
   generateJWTKeyPair,
-  verifyPublicKeyFingerprint,
+  type JWTKeyPair,
 } from "@/lib/jwt-key-registration";
+import {
+  computeLegacyFingerprint,
+  computePublicKeyFingerprint,
+  verifyPublicKeyFingerprint,
+} from "@/lib/key-thumbprint";
 import {
   verifyPasskeyJWT,
+  verifySignatureRecord,
   inspectPasskeyJWT,
+  clearAttestationCache,
 } from "@/lib/jwt-passkey-verifier";
+import { verifyBundle } from "@/lib/offline-verifier";
 import {
   saveJWTKey,
   getJWTKey,
   getJWTKeyByCredentialId,
   deleteTestDatabase,
 } from "@/lib/database";
-import { SignJWT, jwtVerify, importJWK } from "jose";
+import { computeContentHash } from "@/lib/canonical-json";
+import {
+  signStatementJWT,
+  STATEMENT_APPROVAL_TYP,
+  STATEMENT_REVOCATION_TYP,
+} from "@/lib/signature-profile";
+import {
+  issueSigningNonce,
+  checkReplay,
+  purgeExpiredReplayRecords,
+} from "@/lib/replay-protection";
+import {
+  amendStatement,
+  createStatement,
+  getStatementById,
+  signStatement,
+  signStatementWithPasskey,
+  transitionStatementState,
+  getVerificationBundle,
+  type Statement,
+} from "@/lib/statements";
+import type { SignatureDecision } from "@/lib/statement-lifecycle";
+import type { SigningAlgorithm } from "@/lib/signing-algorithms";
+import {
+  computeRevocationChallenge,
+  type KeyRevocationRequest,
+} from "@/lib/key-revocation";
+import {
+  computePasskeyChangeChallenge,
+  computePasskeyOptionsChallenge,
+} from "@/lib/user-passkeys";
+import { computePasskeyApprovalChallenge } from "@/lib/passkey-approval";
+import {
+  computeKeyBindingChallenge,
+  createKeyBinding,
+  MAX_KEY_BINDING_LIFETIME_MS,
+  type KeyBinding,
+} from "@/lib/key-binding";
+import { signStatementContent } from "@/lib/approval-certificate";
+import {
+  SignJWT,
+  jwtVerify,
+  importJWK,
+  generateKeyPair,
+  exportJWK,
+  calculateJwkThumbprint,
+} from "jose";
+import { NextRequest } from "next/server";
+import { POST as completeRegistrationRoute } from "@/app/api/register/complete/route";
+import { POST as passkeyOptionsRoute } from "@/app/api/passkeys/options/route";
+import { POST as createStatementRoute } from "@/app/api/statements/create/route";
+import { POST as revokeSignature } from "@/app/api/statements/[id]/revoke/route";
+import { POST as signStatementRoute } from "@/app/api/statements/[id]/sign/route";
+import {
+  GET as passkeySignOptions,
+  POST as passkeySignRoute,
+} from "@/app/api/statements/[id]/passkey-sign/route";
+import { createTestPasskey, type TestPasskey } from "./fixtures/test-passkey";
 
 describe("Multi-Signature Statement System", () => {
   beforeEach(async () => {
@@ -31,16 +96,31 @@ describe("Multi-Signature Statement System", () => {
     const { getDatabase } = await import("@/lib/database");
     const db = await getDatabase();
     db.exec("DELETE FROM statement_signatures");
+    db.exec("DELETE FROM signing_nonces");
+    db.exec("DELETE FROM used_jtis");
+    db.exec("DELETE FROM statement_transitions");
+    db.exec("DELETE FROM statement_signers");
     db.exec("DELETE FROM statements");
+    db.exec("DELETE FROM key_revocations");
     db.exec("DELETE FROM attested_jwt_keys");
     db.exec("DELETE FROM users");
     db.exec("DELETE FROM passkey_credentials");
+    clearAttestationCache();
   });
 
   afterAll(async () => {
     await deleteTestDatabase();
   });
 
+  // Store a software passkey and its assertion over the key fingerprint,
+  // as registration would
+  const attestKey = async (jwtKey: JWTKeyPair, credentialId: string) => {
+    const passkey = createTestPasskey(credentialId);
+    const { saveCredential } = await import("@/lib/database");
+    await saveCredential(credentialId, passkey.publicKey, 0, [], -7);
+    return JSON.stringify(passkey.assert(jwtKey.publicKeyFingerprint));
+  };
+
   describe("JWT Key Generation", () => {
     it("should generate a JWT signing key pair", async () => {
       const jwtKey = await generateJWTKeyPair();
@@ -81,6 +161,27 @@ describe("Multi-Signature Statement System", () => {
       console.log("✅ Fingerprint verification works");
     });
 
+    it("should use the RFC 7638 thumbprint as fingerprint and key ID", async () => {
+      const jwtKey = await generateJWTKeyPair();
+
+      expect(jwtKey.publicKeyFingerprint).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(jwtKey.publicKeyFingerprint).toBe(
+        await calculateJwkThumbprint(jwtKey.publicKeyJWK, "sha256"),
+      );
+      expect(jwtKey.keyId).toBe(jwtKey.publicKeyFingerprint);
+
+      // RFC 8037 appendix A.3: members other than crv, kty and x are ignored
+      expect(
+        await computePublicKeyFingerprint({
+          kty: "OKP",
+          crv: "Ed25519",
+          x: "11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo",
+          alg: "EdDSA",
+          use: "sig",
+        }),
+      ).toBe("kPrK_qmxVWaYVA9wwBF6Iuo3vVzz7TxHCTwXBygrS4k");
+    });
+
     it("should detect fingerprint mismatch", async () => {
       const jwtKey = await generateJWTKeyPair();
       const fakeFingerprint =
@@ -155,6 +256,1025 @@ describe("Multi-Signature Statement System", () => {
     });
   });
 
+  describe("JWT Key Enrolment", () => {
+    const originalOrigin = process.env.WEBAUTHN_ORIGIN;
+
+    beforeAll(() => {
+      // Outside a request the expected origin cannot come from headers
+      process.env.WEBAUTHN_ORIGIN = "http://localhost:3000";
+    });
+
+    afterAll(() => {
+      if (originalOrigin === undefined) delete process.env.WEBAUTHN_ORIGIN;
+      else process.env.WEBAUTHN_ORIGIN = originalOrigin;
+    });
+
+    // Registered user whose passkey attests new device keys
+    const registerUser = async (credentialId: string) => {
+      const { saveCredential, saveUser } = await import("@/lib/database");
+      const passkey = createTestPasskey(credentialId);
+      await saveCredential(credentialId, passkey.publicKey, 0, [], -7);
+      await saveUser(`user-${credentialId}`, "Alice", "investor", credentialId);
+      return passkey;
+    };
+
+    // Key binding for the passkey's user, with the given changes
+    const bindKey = async (
+      passkey: TestPasskey,
+      jwtKey: JWTKeyPair,
+      changes: Partial<KeyBinding> = {},
+    ): Promise<KeyBinding> => {
+      const { getUserByCredentialId } = await import("@/lib/database");
+      const owner = await getUserByCredentialId(passkey.credentialId);
+      return {
+        ...createKeyBinding(jwtKey, owner?.userId ?? "unknown"),
+        ...changes,
+      };
+    };
+
+    const enrolDeviceKey = async (
+      passkey: TestPasskey,
+      jwtKey: JWTKeyPair,
+      challenge?: string,
+      device?: { deviceId: string; deviceLabel: string },
+      binding: Partial<KeyBinding> = {},
+    ) => {
+      const { enrollJWTKey } = await import("@/lib/key-enrollment");
+      const keyBinding = await bindKey(passkey, jwtKey, binding);
+      return enrollJWTKey(
+        passkey.assert(
+          challenge ?? (await computeKeyBindingChallenge(keyBinding)),
+        ),
+        {
+          keyId: jwtKey.keyId,
+          publicKeyJWK: jwtKey.publicKeyJWK,
+          publicKeyFingerprint: jwtKey.publicKeyFingerprint,
+          keyBinding,
+          ...device,
+        },
+      );
+    };
+
+    it("should enrol one key per device and store only public material", async () => {
+      const credentialId = "enrol-credential";
+      const passkey = await registerUser(credentialId);
+
+      const laptopKey = await generateJWTKeyPair();
+      const phoneKey = await generateJWTKeyPair();
+      const laptop = await enrolDeviceKey(passkey, laptopKey);
+      const phone = await enrolDeviceKey(passkey, phoneKey);
+
+      expect(laptop.userId).toBe(`user-${credentialId}`);
+      expect(phone.userId).toBe(laptop.userId);
+      expect(phone.publicKeyPEM).toContain("BEGIN PUBLIC KEY");
+
+      // Both devices keep a working key; lookups return the newest one
+      expect((await getJWTKey(laptopKey.keyId))?.publicKeyJWK).toEqual(
+        laptopKey.publicKeyJWK,
+      );
+      const latest = await getJWTKeyByCredentialId(credentialId);
+      expect(latest?.keyId).toBe(phoneKey.keyId);
+      expect(latest).not.toHaveProperty("privateKeyJWK");
+
+      const { getDatabase } = await import("@/lib/database");
+      const columns = (
+        (await getDatabase())
+          .prepare("PRAGMA table_info(attested_jwt_keys)")
+          .all() as Array<{ name: string }>
+      ).map((c) => c.name);
+      expect(columns).not.toContain("private_key_jwk");
+    });
+
+    it("should keep a key per device and resolve each by kid", async () => {
+      const passkey = await registerUser("enrol-devices");
+      const laptopKey = await generateJWTKeyPair();
+      const phoneKey = await generateJWTKeyPair();
+      await enrolDeviceKey(passkey, laptopKey, undefined, {
+        deviceId: "laptop",
+        deviceLabel: "  Chrome on macOS ",
+      });
+      await enrolDeviceKey(passkey, phoneKey, undefined, {
+        deviceId: "phone",
+        deviceLabel: "Safari on iOS",
+      });
+
+      const laptop = await getJWTKey(laptopKey.keyId);
+      expect(laptop?.deviceId).toBe("laptop");
+      expect(laptop?.deviceLabel).toBe("Chrome on macOS");
+      expect(laptop?.lastUsedAt).toBeUndefined();
+
+      // Both devices sign with their own key, found by the JWT's kid
+      for (const jwtKey of [laptopKey, phoneKey]) {
+        const jwt = await new SignJWT({ message: "per device" })
+          .setProtectedHeader({ alg: "EdDSA", kid: jwtKey.keyId })
+          .setIssuedAt()
+          .sign(jwtKey.privateKey);
+        const result = await verifyPasskeyJWT(jwt);
+        expect(result.valid).toBe(true);
+        expect(result.keyId).toBe(jwtKey.keyId);
+      }
+
+      await expect(
+        enrolDeviceKey(passkey, await generateJWTKeyPair(), undefined, {
+          deviceId: "tablet",
+          deviceLabel: "x".repeat(101),
+        }),
+      ).rejects.toThrow("Device label");
+    });
+
+    it("should reject an assertion over another key", async () => {
+      const passkey = await registerUser("enrol-wrong-challenge");
+      const jwtKey = await generateJWTKeyPair();
+
+      await expect(
+        enrolDeviceKey(passkey, jwtKey, "0".repeat(64)),
+      ).rejects.toThrow();
+      expect(await getJWTKey(jwtKey.keyId)).toBeNull();
+    });
+
+    it("should reject a fingerprint that is not the key's", async () => {
+      const passkey = await registerUser("enrol-wrong-fingerprint");
+      const jwtKey = await generateJWTKeyPair();
+      const otherKey = await generateJWTKeyPair();
+
+      await expect(
+        enrolDeviceKey(passkey, {
+          ...jwtKey,
+          publicKeyFingerprint: otherKey.publicKeyFingerprint,
+        }),
+      ).rejects.toThrow("fingerprint does not match");
+    });
+
+    it("should reject an already registered key ID", async () => {
+      const passkey = await registerUser("enrol-duplicate");
+      const jwtKey = await generateJWTKeyPair();
+      await enrolDeviceKey(passkey, jwtKey);
+
+      await expect(enrolDeviceKey(passkey, jwtKey)).rejects.toThrow(
+        "already registered",
+      );
+    });
+
+    it("should reject a passkey with no registered user", async () => {
+      const jwtKey = await generateJWTKeyPair();
+      const passkey = createTestPasskey("enrol-unknown");
+      await expect(enrolDeviceKey(passkey, jwtKey)).rejects.toThrow(
+        "No user is registered",
+      );
+    });
+
+    describe("Registration", () => {
+      // POST /api/register/complete for a passkey answering fresh
+      // registration options, with the first key attested by `attester`
+      const completeRegistration = async (
+        passkey: TestPasskey,
+        jwtKey: JWTKeyPair,
+        attester = passkey,
+        challenge?: string,
+        userId = `user-${passkey.credentialId}`,
+      ) => {
+        const { getRegistrationOptions } = await import("@/lib/registry");
+        const options = await getRegistrationOptions(
+          userId,
+          "Alice",
+          "investor",
+        );
+        return submitRegistration(
+          passkey.register(options.challenge),
+          userId,
+          jwtKey,
+          attester,
+          challenge,
+        );
+      };
+
+      const submitRegistration = async (
+        registrationResponse: ReturnType<TestPasskey["register"]>,
+        userId: string,
+        jwtKey: JWTKeyPair,
+        attester: TestPasskey,
+        challenge?: string,
+      ) => {
+        const keyBinding = createKeyBinding(jwtKey, userId);
+        const response = await completeRegistrationRoute(
+          new NextRequest("http://localhost/api/register/complete", {
+            method: "POST",
+            body: JSON.stringify({
+              registrationResponse,
+              name: "Alice",
+              role: "investor",
+              passkeyAttestation: attester.assert(
+                challenge ?? (await computeKeyBindingChallenge(keyBinding)),
+              ),
+              jwtKeyData: {
+                keyId: jwtKey.keyId,
+                publicKeyJWK: jwtKey.publicKeyJWK,
+                publicKeyFingerprint: jwtKey.publicKeyFingerprint,
+                keyBinding,
+              },
+            }),
+          }),
+        );
+        return { userId, status: response.status, body: await response.json() };
+      };
+
+      it("should create the user together with the first key", async () => {
+        const jwtKey = await generateJWTKeyPair();
+        const { userId, status, body } = await completeRegistration(
+          createTestPasskey("regPasskey000001"),
+          jwtKey,
+        );
+
+        expect(status).toBe(200);
+        expect(body.user.userId).toBe(userId);
+        expect(body.keyId).toBe(jwtKey.keyId);
+        expect((await getJWTKey(jwtKey.keyId))?.userId).toBe(userId);
+      });
+
+      it("should not create a user when the key attestation fails", async () => {
+        const { getUser } = await import("@/lib/database");
+
+        // Attested by another passkey than the one being registered
+        const mismatched = await completeRegistration(
+          createTestPasskey("regPasskey000002"),
+          await generateJWTKeyPair(),
+          createTestPasskey("regPasskey000003"),
+        );
+        expect(mismatched.status).toBe(400);
+        expect(mismatched.body.error).toContain("registered passkey");
+        expect(await getUser(mismatched.userId)).toBeNull();
+
+        // Attested by the right passkey, but not over the key binding
+        const passkey = createTestPasskey("regPasskey000004");
+        const jwtKey = await generateJWTKeyPair();
+        const forged = await completeRegistration(
+          passkey,
+          jwtKey,
+          passkey,
+          "0".repeat(64),
+        );
+        expect(forged.status).toBe(400);
+        expect(forged.body.error).toContain("challenge");
+        expect(await getUser(forged.userId)).toBeNull();
+        expect(await getJWTKey(jwtKey.keyId)).toBeNull();
+      });
+
+      it("should not let a registration take over an existing user", async () => {
+        const { getUser } = await import("@/lib/database");
+        const victim = await registerUser("regVictim0000001");
+        const victimId = "user-regVictim0000001";
+        const attacker = createTestPasskey("regAttacker00001");
+        const requestOptions = (body: Record<string, unknown>) =>
+          passkeyOptionsRoute(
+            new NextRequest("http://localhost/api/passkeys/options", {
+              method: "POST",
+              body: JSON.stringify({ userId: victimId, ...body }),
+            }),
+          );
+
+        // Options for another passkey need one of the user's passkeys
+        const requestedAt = Date.now();
+        expect((await requestOptions({ requestedAt })).status).toBe(400);
+        const stranger = await registerUser("regStranger00001");
+        const denied = await requestOptions({
+          requestedAt,
+          passkeyAssertion: stranger.assert(
+            await computePasskeyOptionsChallenge({
+              userId: victimId,
+              requestedAt,
+            }),
+          ),
+        });
+        expect(denied.status).toBe(400);
+        expect((await denied.json()).error).toContain("user's passkeys");
+
+        // Even the user's own add-passkey options cannot complete a sign-up
+        const granted = await requestOptions({
+          requestedAt,
+          passkeyAssertion: victim.assert(
+            await computePasskeyOptionsChallenge({
+              userId: victimId,
+              requestedAt,
+            }),
+          ),
+        });
+        expect(granted.status).toBe(200);
+        const addPasskeyOptions = await granted.json();
+        const hijack = await submitRegistration(
+          attacker.register(addPasskeyOptions.challenge),
+          victimId,
+          await generateJWTKeyPair(),
+          attacker,
+        );
+        expect(hijack.status).toBe(400);
+        expect(hijack.body.user).toBeUndefined();
+
+        // Nor can sign-up options issued for an existing user's ID
+        const existing = await completeRegistration(
+          attacker,
+          await generateJWTKeyPair(),
+          attacker,
+          undefined,
+          victimId,
+        );
+        expect(existing.status).toBe(400);
+        expect(existing.body.error).toBe("User already exists");
+        expect((await getUser(victimId))?.credentialId).toBe(
+          "regVictim0000001",
+        );
+      });
+    });
+
+    describe("Key Rotation", () => {
+      const rotate = async (
+        passkey: TestPasskey,
+        retiredKeyId: string,
+        jwtKey: JWTKeyPair,
+      ) => {
+        const { rotateJWTKey } = await import("@/lib/key-enrollment");
+        const keyBinding = await bindKey(passkey, jwtKey);
+        return rotateJWTKey(
+          retiredKeyId,
+          passkey.assert(await computeKeyBindingChallenge(keyBinding)),
+          {
+            keyId: jwtKey.keyId,
+            publicKeyJWK: jwtKey.publicKeyJWK,
+            publicKeyFingerprint: jwtKey.publicKeyFingerprint,
+            keyBinding,
+          },
+        );
+      };
+
+      const sign = (jwtKey: JWTKeyPair, iat?: number) =>
+        new SignJWT({ message: "rotation" })
+          .setProtectedHeader({ alg: "EdDSA", kid: jwtKey.keyId })
+          .setIssuedAt(iat)
+          .sign(jwtKey.privateKey);
+
+      it("should retire the old key and keep its earlier signatures valid", async () => {
+        const passkey = await registerUser("rotate-credential");
+        const oldKey = await generateJWTKeyPair();
+        const newKey = await generateJWTKeyPair();
+        await enrolDeviceKey(passkey, oldKey, undefined, {
+          deviceId: "rotating-device",
+          deviceLabel: "Firefox on Linux",
+        });
+
+        const historicJWT = await sign(oldKey);
+        const rotated = await rotate(passkey, oldKey.keyId, newKey);
+
+        expect(rotated.retiredKeyId).toBe(oldKey.keyId);
+        // The new key belongs to the same device as the one it replaces
+        expect(rotated.deviceId).toBe("rotating-device");
+        expect(rotated.deviceLabel).toBe("Firefox on Linux");
+        expect((await getJWTKey(oldKey.keyId))?.validUntil).toBe(
+          rotated.validUntil,
+        );
+        const { getJWTKeyByUserId, getJWTKeysByUserId } =
+          await import("@/lib/database");
+        expect((await getJWTKeyByUserId(rotated.userId))?.keyId).toBe(
+          newKey.keyId,
+        );
+        expect(
+          (await getJWTKeysByUserId(rotated.userId)).map((key) => key.keyId),
+        ).toEqual([oldKey.keyId, newKey.keyId]);
+
+        // Judged by iat: before retirement is fine, after it is not
+        expect((await verifyPasskeyJWT(historicJWT)).valid).toBe(true);
+        const lateJWT = await sign(
+          oldKey,
+          Math.floor(rotated.validUntil / 1000) + 1,
+        );
+        const late = await verifyPasskeyJWT(lateJWT);
+        expect(late.valid).toBe(false);
+        expect(late.error).toContain("validUntil");
+        expect((await verifyPasskeyJWT(await sign(newKey))).valid).toBe(true);
+      });
+
+      it("should only let the key owner rotate an active key", async () => {
+        const owner = await registerUser("rotate-owner");
+        const other = await registerUser("rotate-other");
+        const oldKey = await generateJWTKeyPair();
+        await enrolDeviceKey(owner, oldKey);
+
+        await expect(
+          rotate(other, oldKey.keyId, await generateJWTKeyPair()),
+        ).rejects.toThrow("key owner");
+
+        await rotate(owner, oldKey.keyId, await generateJWTKeyPair());
+        await expect(
+          rotate(owner, oldKey.keyId, await generateJWTKeyPair()),
+        ).rejects.toThrow("already retired");
+      });
+    });
+
+    describe("Key Binding", () => {
+      const signDecision = (jwtKey: JWTKeyPair, decision: string) =>
+        signStatementJWT(
+          { decision },
+          {
+            typ: STATEMENT_APPROVAL_TYP,
+            statementId: "stmt-bound",
+            signerId: "bound-signer",
+            audience: "localhost",
+            keyId: jwtKey.keyId,
+          },
+          jwtKey.privateKey,
+        );
+
+      it("should only accept the actions the passkey attested", async () => {
+        const passkey = await registerUser("bind-actions");
+        const jwtKey = await generateJWTKeyPair();
+        const enrolled = await enrolDeviceKey(
+          passkey,
+          jwtKey,
+          undefined,
+          undefined,
+          { actions: ["approve"] },
+        );
+        expect(enrolled.keyBinding.actions).toEqual(["approve"]);
+        expect((await getJWTKey(jwtKey.keyId))?.keyBinding).toEqual(
+          enrolled.keyBinding,
+        );
+
+        const approval = await verifyPasskeyJWT(
+          await signDecision(jwtKey, "approve"),
+        );
+        expect(approval.valid).toBe(true);
+        const decline = await verifyPasskeyJWT(
+          await signDecision(jwtKey, "decline"),
+        );
+        expect(decline.valid).toBe(false);
+        expect(decline.error).toContain("'binding'");
+        expect(decline.error).toContain("not decline");
+
+        // Widening the stored binding breaks the passkey attestation
+        const { getDatabase } = await import("@/lib/database");
+        (await getDatabase())
+          .prepare(
+            "UPDATE attested_jwt_keys SET key_binding = ? WHERE key_id = ?",
+          )
+          .run(
+            JSON.stringify({
+              ...enrolled.keyBinding,
+              actions: ["approve", "decline"],
+            }),
+            jwtKey.keyId,
+          );
+        const widened = await verifyPasskeyJWT(
+          await signDecision(jwtKey, "decline"),
+        );
+        expect(widened.keyAuthorized).toBe(false);
+        expect(widened.error).toContain("challenge");
+      });
+
+      it("should only accept JWTs issued within the binding's period", async () => {
+        const passkey = await registerUser("bind-period");
+        const jwtKey = await generateJWTKeyPair();
+        const notBefore = Date.now() + 60 * 60 * 1000;
+        await enrolDeviceKey(passkey, jwtKey, undefined, undefined, {
+          notBefore,
+          notAfter: notBefore + 60 * 60 * 1000,
+        });
+
+        const early = await verifyPasskeyJWT(
+          await signDecision(jwtKey, "approve"),
+        );
+        expect(early.valid).toBe(false);
+        expect(early.error).toContain("before the key became valid");
+
+        await expect(
+          enrolDeviceKey(
+            passkey,
+            await generateJWTKeyPair(),
+            undefined,
+            undefined,
+            {
+              notBefore: Date.now() - 2 * 60 * 60 * 1000,
+              notAfter: Date.now() - 60 * 60 * 1000,
+            },
+          ),
+        ).rejects.toThrow("already expired");
+      });
+
+      it("should reject a binding for another key, owner or scope", async () => {
+        const passkey = await registerUser("bind-mismatch");
+        const jwtKey = await generateJWTKeyPair();
+        const enrolWith = (binding: Partial<KeyBinding>) =>
+          enrolDeviceKey(passkey, jwtKey, undefined, undefined, binding);
+
+        await expect(enrolWith({ userId: "someone-else" })).rejects.toThrow(
+          "userId",
+        );
+        await expect(enrolWith({ keyId: "other-key" })).rejects.toThrow(
+          "keyId",
+        );
+        await expect(
+          enrolWith({ notAfter: Date.now() + 2 * MAX_KEY_BINDING_LIFETIME_MS }),
+        ).rejects.toThrow("period");
+        await expect(enrolWith({ actions: [] })).rejects.toThrow("actions");
+
+        // An assertion over the bare fingerprint no longer enrols a key
+        await expect(
+          enrolDeviceKey(passkey, jwtKey, jwtKey.publicKeyFingerprint),
+        ).rejects.toThrow();
+        expect(await getJWTKey(jwtKey.keyId)).toBeNull();
+      });
+    });
+
+    describe("ES256 Signing Keys", () => {
+      it("should enrol a P-256 key and verify its ES256 JWTs", async () => {
+        const passkey = await registerUser("es256-key");
+        const jwtKey = await generateJWTKeyPair("ES256");
+        expect(jwtKey.publicKeyJWK).toMatchObject({ kty: "EC", crv: "P-256" });
+
+        const enrolled = await enrolDeviceKey(passkey, jwtKey);
+        expect(enrolled.publicKeyPEM).toContain("BEGIN PUBLIC KEY");
+
+        const jwt = await new SignJWT({ message: "es256" })
+          .setProtectedHeader({ alg: "ES256", kid: jwtKey.keyId })
+          .setIssuedAt()
+          .sign(jwtKey.privateKey);
+        const result = await verifyPasskeyJWT(jwt);
+        expect(result.valid).toBe(true);
+        expect(result.keyAuthorized).toBe(true);
+      });
+
+      it("should enrol each key with the algorithm chosen for it", async () => {
+        const { enrollJWTKey } = await import("@/lib/key-enrollment");
+        const passkey = await registerUser("per-key-alg");
+        const enrol = async (
+          jwtKey: JWTKeyPair,
+          algorithm: SigningAlgorithm,
+        ) => {
+          const keyBinding = await bindKey(passkey, jwtKey);
+          return enrollJWTKey(
+            passkey.assert(await computeKeyBindingChallenge(keyBinding)),
+            {
+              keyId: jwtKey.keyId,
+              publicKeyJWK: jwtKey.publicKeyJWK,
+              publicKeyFingerprint: jwtKey.publicKeyFingerprint,
+              keyBinding,
+              algorithm,
+            },
+          );
+        };
+
+        // One user, one key of each algorithm
+        const edKey = await generateJWTKeyPair("EdDSA");
+        const ecKey = await generateJWTKeyPair("ES256");
+        expect((await enrol(edKey, "EdDSA")).algorithm).toBe("EdDSA");
+        expect((await enrol(ecKey, "ES256")).algorithm).toBe("ES256");
+        expect((await getJWTKey(edKey.keyId))?.signingAlgorithm).toBe("EdDSA");
+        expect((await getJWTKey(ecKey.keyId))?.signingAlgorithm).toBe("ES256");
+
+        // The chosen algorithm must be the one the key signs with
+        const mismatched = await generateJWTKeyPair("ES256");
+        await expect(enrol(mismatched, "EdDSA")).rejects.toThrow(
+          "JWT key signs with ES256, not EdDSA",
+        );
+        await expect(
+          enrol(mismatched, "RS256" as SigningAlgorithm),
+        ).rejects.toThrow("Unsupported signing algorithm");
+        expect(await getJWTKey(mismatched.keyId)).toBeNull();
+      });
+
+      it("should take the algorithm from the stored key, not the JWT", async () => {
+        const passkey = await registerUser("es256-alg");
+        const jwtKey = await generateJWTKeyPair("ES256");
+        await enrolDeviceKey(passkey, jwtKey);
+
+        // An EdDSA token naming the ES256 key is not checked as EdDSA
+        const otherKey = await generateJWTKeyPair();
+        const jwt = await new SignJWT({ message: "wrong alg" })
+          .setProtectedHeader({ alg: "EdDSA", kid: jwtKey.keyId })
+          .setIssuedAt()
+          .sign(otherKey.privateKey);
+        const result = await verifyPasskeyJWT(jwt);
+        expect(result.valid).toBe(false);
+        expect(result.jwtVerified).toBe(false);
+      });
+
+      it("should not enrol keys of other types", async () => {
+        const passkey = await registerUser("es384-key");
+        const { publicKey } = await generateKeyPair("ES384");
+        const publicKeyJWK = await exportJWK(publicKey);
+        const publicKeyFingerprint =
+          await computePublicKeyFingerprint(publicKeyJWK);
+
+        await expect(
+          enrolDeviceKey(passkey, {
+            ...(await generateJWTKeyPair()),
+            publicKeyJWK,
+            publicKeyFingerprint,
+            keyId: publicKeyFingerprint,
+          }),
+        ).rejects.toThrow("Unsupported signing key");
+      });
+    });
+
+    describe("Multiple Passkeys", () => {
+      // Register a second passkey for a user, approved by `approver`
+      const addPasskey = async (
+        userId: string,
+        approver: TestPasskey,
+        newPasskey: TestPasskey,
+        approvedCredentialId = newPasskey.credentialId,
+      ) => {
+        const { getPasskeyRegistrationOptions, addUserPasskey } =
+          await import("@/lib/user-management");
+        const requestedAt = Date.now();
+        const options = await getPasskeyRegistrationOptions(
+          { userId, requestedAt },
+          approver.assert(
+            await computePasskeyOptionsChallenge({ userId, requestedAt }),
+          ),
+        );
+        return addUserPasskey(
+          userId,
+          newPasskey.register(options.challenge),
+          approver.assert(
+            await computePasskeyChangeChallenge({
+              action: "add-passkey",
+              userId,
+              credentialId: approvedCredentialId,
+            }),
+          ),
+          "Backup key",
+        );
+      };
+
+      it("should add a backup passkey that logs in and attests keys", async () => {
+        const primary = await registerUser("multi-primary");
+        const backup = createTestPasskey("backupPasskey001");
+        const userId = "user-multi-primary";
+
+        const added = await addPasskey(userId, primary, backup);
+        expect(added).toMatchObject({
+          credentialId: "backupPasskey001",
+          label: "Backup key",
+          primary: false,
+        });
+
+        const { getUserInfo, listUserPasskeys } =
+          await import("@/lib/user-management");
+        expect((await getUserInfo("backupPasskey001"))?.userId).toBe(userId);
+        expect((await getUserInfo("multi-primary"))?.credentialIds).toEqual([
+          "multi-primary",
+          "backupPasskey001",
+        ]);
+        expect((await listUserPasskeys(userId)).map((p) => p.primary)).toEqual([
+          true,
+          false,
+        ]);
+
+        // The backup passkey can enrol a device key on its own
+        const jwtKey = await generateJWTKeyPair();
+        const enrolled = await enrolDeviceKey(backup, jwtKey);
+        expect(enrolled.userId).toBe(userId);
+        expect(enrolled.credentialId).toBe("backupPasskey001");
+      });
+
+      it("should require approval by one of the user's passkeys", async () => {
+        const owner = await registerUser("multi-owner");
+        const stranger = await registerUser("multi-stranger");
+        const { getCredential } = await import("@/lib/database");
+
+        await expect(
+          addPasskey(
+            "user-multi-owner",
+            stranger,
+            createTestPasskey("newPasskey000001"),
+          ),
+        ).rejects.toThrow("one of the user's passkeys");
+        expect(await getCredential("newPasskey000001")).toBeNull();
+
+        // An approval for another credential does not carry over
+        await expect(
+          addPasskey(
+            "user-multi-owner",
+            owner,
+            createTestPasskey("newPasskey000002"),
+            "newPasskey000003",
+          ),
+        ).rejects.toThrow();
+        expect(await getCredential("newPasskey000002")).toBeNull();
+      });
+
+      it("should remove a passkey and stop authorizing the keys it attested", async () => {
+        const primary = await registerUser("multi-remove");
+        const backup = createTestPasskey("backupPasskey002");
+        const userId = "user-multi-remove";
+        await addPasskey(userId, primary, backup);
+        const jwtKey = await generateJWTKeyPair();
+        const notBefore = Date.now() - 60_000;
+        await enrolDeviceKey(primary, jwtKey, undefined, undefined, {
+          notBefore,
+          notAfter: notBefore + MAX_KEY_BINDING_LIFETIME_MS,
+        });
+        const signJWT = (iat: number) =>
+          new SignJWT({ message: "device key" })
+            .setProtectedHeader({ alg: "EdDSA", kid: jwtKey.keyId })
+            .setIssuedAt(iat)
+            .sign(jwtKey.privateKey);
+        const beforeRemoval = await signJWT(Math.floor(Date.now() / 1000) - 5);
+
+        const { removeUserPasskey, listUserPasskeys, getUserInfo } =
+          await import("@/lib/user-management");
+        const removal = async (approver: TestPasskey, credentialId: string) =>
+          removeUserPasskey(
+            userId,
+            credentialId,
+            approver.assert(
+              await computePasskeyChangeChallenge({
+                action: "remove-passkey",
+                userId,
+                credentialId,
+              }),
+            ),
+          );
+
+        // The lost primary passkey is removed with the backup
+        await removal(backup, "multi-remove");
+        const remaining = await listUserPasskeys(userId);
+        expect(remaining).toHaveLength(1);
+        expect(remaining[0]).toMatchObject({
+          credentialId: "backupPasskey002",
+          primary: true,
+        });
+        expect(await getUserInfo("multi-remove")).toBeNull();
+        await expect(removal(backup, "backupPasskey002")).rejects.toThrow(
+          "last passkey",
+        );
+
+        const { verifyAuthentication } = await import("@/lib/authentication");
+        await expect(
+          verifyAuthentication(primary.assert("login"), "login"),
+        ).rejects.toThrow("removed");
+
+        // The device key it attested only verifies what it signed before
+        const afterRemoval = await verifyPasskeyJWT(
+          await signJWT(Math.floor(Date.now() / 1000) + 1),
+        );
+        expect(afterRemoval.valid).toBe(false);
+        expect(afterRemoval.keyAuthorized).toBe(false);
+        expect(afterRemoval.error).toContain("multi-remove that attested it");
+        expect((await verifyPasskeyJWT(beforeRemoval)).valid).toBe(true);
+
+        // Signing with it is refused as unauthorized
+        const { saveCredential, saveUser } = await import("@/lib/database");
+        await saveCredential("multi-creator", "mock-public-key", 0, [], -7);
+        await saveUser("creator-1", "Creator", "creator", "multi-creator");
+        const statement = await createStatement('{"deal":"A"}', "creator-1", {
+          signerIds: [userId],
+          requiredSignatures: 1,
+        });
+        const response = await signStatementRoute(
+          new NextRequest(
+            `http://localhost/api/statements/${statement.statementId}/sign`,
+            {
+              method: "POST",
+              body: JSON.stringify({
+                jwt: await signStatementJWT(
+                  { contentHash: statement.contentHash, decision: "approve" },
+                  {
+                    typ: STATEMENT_APPROVAL_TYP,
+                    statementId: statement.statementId,
+                    signerId: userId,
+                    audience: "localhost",
+                    keyId: jwtKey.keyId,
+                  },
+                  jwtKey.privateKey,
+                ),
+              }),
+            },
+          ),
+          { params: Promise.resolve({ id: statement.statementId }) },
+        );
+        expect(response.status).toBe(401);
+        expect((await response.json()).error).toContain("no longer authorized");
+      });
+    });
+
+    describe("Key Revocation", () => {
+      const revokeAsOwner = async (
+        passkey: TestPasskey,
+        request: KeyRevocationRequest,
+        challengeRequest = request,
+      ) => {
+        const { revokeJWTKey } = await import("@/lib/key-enrollment");
+        return revokeJWTKey(request, {
+          revokedBy: "owner",
+          passkeyAssertion: passkey.assert(
+            await computeRevocationChallenge(challengeRequest),
+          ),
+        });
+      };
+
+      const sign = (jwtKey: JWTKeyPair, iat: number) =>
+        new SignJWT({ message: "revocation" })
+          .setProtectedHeader({ alg: "EdDSA", kid: jwtKey.keyId })
+          .setIssuedAt(iat)
+          .sign(jwtKey.privateKey);
+
+      it("should reject signatures made after the owner's revocation", async () => {
+        const passkey = await registerUser("revoke-owner");
+        const jwtKey = await generateJWTKeyPair();
+        // Lost an hour ago: earlier signatures stay valid
+        const effectiveAt = Date.now() - 60 * 60 * 1000;
+        await enrolDeviceKey(passkey, jwtKey, undefined, undefined, {
+          notBefore: effectiveAt - 60 * 60 * 1000,
+          notAfter: effectiveAt + 24 * 60 * 60 * 1000,
+        });
+
+        const revocation = await revokeAsOwner(passkey, {
+          keyId: jwtKey.keyId,
+          reason: "Laptop stolen",
+          effectiveAt,
+        });
+        expect(revocation.revokedBy).toBe("owner");
+        expect(revocation.userId).toBe("user-revoke-owner");
+
+        const before = await verifyPasskeyJWT(
+          await sign(jwtKey, Math.floor(effectiveAt / 1000) - 60),
+        );
+        expect(before.valid).toBe(true);
+        const after = await verifyPasskeyJWT(
+          await sign(jwtKey, Math.floor(Date.now() / 1000)),
+        );
+        expect(after.valid).toBe(false);
+        expect(after.error).toContain("revocation");
+
+        const storedKey = await getJWTKey(jwtKey.keyId);
+        expect(storedKey?.revokedAt).toBe(effectiveAt);
+        expect(storedKey?.revocationReason).toBe("Laptop stolen");
+        expect(await getJWTKeyByCredentialId("revoke-owner")).toBeNull();
+
+        const { listKeyRevocations } = await import("@/lib/key-enrollment");
+        const [published] = await listKeyRevocations();
+        expect(published).toMatchObject({
+          keyId: jwtKey.keyId,
+          reason: "Laptop stolen",
+          effectiveAt,
+          revokedBy: "owner",
+        });
+        expect(published.passkeyAssertion).toBeDefined();
+
+        await expect(
+          revokeAsOwner(passkey, {
+            keyId: jwtKey.keyId,
+            reason: "Again",
+            effectiveAt: Date.now(),
+          }),
+        ).rejects.toThrow("already revoked");
+      });
+
+      it("should only accept the owner's assertion over the exact request", async () => {
+        const owner = await registerUser("revoke-key-owner");
+        const other = await registerUser("revoke-other");
+        const jwtKey = await generateJWTKeyPair();
+        await enrolDeviceKey(owner, jwtKey);
+        const request = {
+          keyId: jwtKey.keyId,
+          reason: "Phone lost",
+          effectiveAt: Date.now(),
+        };
+
+        await expect(revokeAsOwner(other, request)).rejects.toThrow(
+          "key owner's passkey",
+        );
+        await expect(
+          revokeAsOwner(owner, request, { ...request, reason: "Other" }),
+        ).rejects.toThrow();
+        await expect(
+          revokeAsOwner(owner, { ...request, reason: " " }),
+        ).rejects.toThrow("reason is required");
+        expect((await getJWTKey(jwtKey.keyId))?.revokedAt).toBeUndefined();
+      });
+
+      it("should let an admin revoke a key without its owner", async () => {
+        const passkey = await registerUser("revoke-admin");
+        const jwtKey = await generateJWTKeyPair();
+        await enrolDeviceKey(passkey, jwtKey);
+
+        const { revokeJWTKey } = await import("@/lib/key-enrollment");
+        const revocation = await revokeJWTKey(
+          { keyId: jwtKey.keyId, reason: "Employee left", effectiveAt: 0 },
+          { revokedBy: "admin" },
+        );
+        expect(revocation.passkeyAssertion).toBeUndefined();
+        expect((await getJWTKey(jwtKey.keyId))?.revokedAt).toBe(0);
+        await expect(
+          revokeJWTKey(
+            { keyId: "missing-key", reason: "x", effectiveAt: 0 },
+            { revokedBy: "admin" },
+          ),
+        ).rejects.toThrow("JWT key not found");
+      });
+
+      it("should stop counting invalidated approvals and flag the statement", async () => {
+        const { saveCredential, saveUser } = await import("@/lib/database");
+        await saveCredential("cred-creator", "mock-public-key", 0, [], -7);
+        await saveUser("creator-1", "Creator", "creator", "cred-creator");
+        const passkey = await registerUser("revoke-signer");
+        const jwtKey = await generateJWTKeyPair();
+        await enrolDeviceKey(passkey, jwtKey);
+
+        const statement = await createStatement('{"deal":"R"}', "creator-1", {
+          signerIds: ["user-revoke-signer"],
+          requiredSignatures: 1,
+        });
+        const jwt = await signStatementJWT(
+          { contentHash: statement.contentHash, decision: "approve" },
+          {
+            typ: STATEMENT_APPROVAL_TYP,
+            statementId: statement.statementId,
+            signerId: "user-revoke-signer",
+            audience: "localhost",
+            keyId: jwtKey.keyId,
+          },
+          jwtKey.privateKey,
+        );
+        await signStatement(
+          statement.statementId,
+          "user-revoke-signer",
+          jwt.split(".")[2],
+          jwt,
+          "approve",
+        );
+
+        // The key was compromised before the approval was made
+        await revokeAsOwner(passkey, {
+          keyId: jwtKey.keyId,
+          reason: "Key compromised",
+          effectiveAt: Date.now() - 60 * 1000,
+        });
+
+        const updated = await getStatementById(statement.statementId);
+        expect(updated?.status).toBe("approved");
+        expect(updated?.signatures).toHaveLength(0);
+        expect(updated?.signatureCount).toBe(0);
+        expect(updated?.invalidatedSignatures).toHaveLength(1);
+        expect(updated?.invalidatedSignatures[0].keyRevocation).toMatchObject({
+          keyId: jwtKey.keyId,
+          reason: "Key compromised",
+        });
+        expect(updated?.approvalBelowThreshold).toBe(true);
+      });
+
+      it("should judge approvals by when they were recorded, not their iat", async () => {
+        const { saveCredential, saveUser } = await import("@/lib/database");
+        await saveCredential("cred-creator", "mock-public-key", 0, [], -7);
+        await saveUser("creator-1", "Creator", "creator", "cred-creator");
+        const passkey = await registerUser("revoke-backdated");
+        const jwtKey = await generateJWTKeyPair();
+        await enrolDeviceKey(passkey, jwtKey, undefined, undefined, {
+          notBefore: Date.now() - 60 * 60 * 1000,
+          notAfter: Date.now() + 60 * 60 * 1000,
+        });
+        const statement = await createStatement('{"deal":"B"}', "creator-1", {
+          signerIds: ["user-revoke-backdated"],
+          requiredSignatures: 1,
+        });
+
+        const effectiveAt = Date.now() - 60 * 1000;
+        await revokeAsOwner(passkey, {
+          keyId: jwtKey.keyId,
+          reason: "Key compromised",
+          effectiveAt,
+        });
+
+        // Signed after the revocation, claiming to predate it
+        const jwt = await new SignJWT({
+          contentHash: statement.contentHash,
+          decision: "approve",
+        })
+          .setProtectedHeader({
+            alg: "EdDSA",
+            typ: STATEMENT_APPROVAL_TYP,
+            kid: jwtKey.keyId,
+          })
+          .setIssuer("user-revoke-backdated")
+          .setSubject(statement.statementId)
+          .setAudience("localhost")
+          .setIssuedAt(Math.floor(effectiveAt / 1000) - 60)
+          .sign(jwtKey.privateKey);
+        await signStatement(
+          statement.statementId,
+          "user-revoke-backdated",
+          jwt.split(".")[2],
+          jwt,
+          "approve",
+        );
+
+        const updated = await getStatementById(statement.statementId);
+        expect(updated?.signatureCount).toBe(0);
+        expect(updated?.invalidatedSignatures).toHaveLength(1);
+        expect(updated?.status).toBe("open");
+      });
+    });
+  });
+
   describe("JWT Signing with Registered Key", () => {
     it("should sign JWT with registered key (no passkey needed)", async () => {
       const jwtKey = await generateJWTKeyPair();
@@ -256,17 +1376,10 @@ describe("Multi-Signature Statement System", () => {
       console.log("   This proves it's a STANDARD JWT!");
     });
 
-    it("should verify JWT with passkey verifier (mock DB)", async () => {
+    it("should verify JWT with passkey verifier", async () => {
       const jwtKey = await generateJWTKeyPair();
       const credentialId = "test-credential-789";
-      const mockAttestation = JSON.stringify({
-        id: credentialId,
-        response: { signature: "mock" },
-      });
-
-      // Create credential first (foreign key requirement)
-      const { saveCredential } = await import("@/lib/database");
-      await saveCredential(credentialId, "mock-public-key", 0, [], -7);
+      const attestation = await attestKey(jwtKey, credentialId);
 
       // Save JWT key to DB
       await saveJWTKey(
@@ -274,7 +1387,7 @@ describe("Multi-Signature Statement System", () => {
         credentialId,
         JSON.stringify(jwtKey.publicKeyJWK),
         jwtKey.publicKeyFingerprint,
-        mockAttestation,
+        attestation,
       );
 
       // Sign JWT
@@ -334,11 +1447,7 @@ describe("Multi-Signature Statement System", () => {
     it("should fail verification with invalid signature", async () => {
       const jwtKey = await generateJWTKeyPair();
       const credentialId = "test-credential-999";
-      const mockAttestation = JSON.stringify({ mock: "attestation" });
-
-      // Create credential first (foreign key requirement)
-      const { saveCredential } = await import("@/lib/database");
-      await saveCredential(credentialId, "mock-public-key", 0, [], -7);
+      const attestation = await attestKey(jwtKey, credentialId);
 
       // Save JWT key to DB
       await saveJWTKey(
@@ -346,7 +1455,7 @@ describe("Multi-Signature Statement System", () => {
         credentialId,
         JSON.stringify(jwtKey.publicKeyJWK),
         jwtKey.publicKeyFingerprint,
-        mockAttestation,
+        attestation,
       );
 
       // Create JWT with different key (invalid signature)
@@ -370,6 +1479,1518 @@ describe("Multi-Signature Statement System", () => {
 
       console.log("✅ Correctly rejects invalid signature");
     });
+
+    it("should reject a key whose attestation is not a passkey signature", async () => {
+      const jwtKey = await generateJWTKeyPair();
+      const credentialId = "test-credential-mock";
+      const { saveCredential } = await import("@/lib/database");
+      await saveCredential(credentialId, "mock-public-key", 0, [], -7);
+      await saveJWTKey(
+        jwtKey.keyId,
+        credentialId,
+        JSON.stringify(jwtKey.publicKeyJWK),
+        jwtKey.publicKeyFingerprint,
+        JSON.stringify({ mock: "attestation" }),
+      );
+
+      const jwt = await new SignJWT({ message: "test" })
+        .setProtectedHeader({ alg: "EdDSA", kid: jwtKey.keyId })
+        .sign(jwtKey.privateKey);
+      const result = await verifyPasskeyJWT(jwt);
+
+      expect(result.valid).toBe(false);
+      expect(result.keyAuthorized).toBe(false);
+      expect(result.error).toContain("JWT key attestation is invalid");
+    });
+
+    it("should reject a key swapped into an attested row", async () => {
+      const jwtKey = await generateJWTKeyPair();
+      const credentialId = "test-credential-swap";
+      await saveJWTKey(
+        jwtKey.keyId,
+        credentialId,
+        JSON.stringify(jwtKey.publicKeyJWK),
+        jwtKey.publicKeyFingerprint,
+        await attestKey(jwtKey, credentialId),
+      );
+
+      const sign = (key: JWTKeyPair) =>
+        new SignJWT({ message: "test" })
+          .setProtectedHeader({ alg: "EdDSA", kid: jwtKey.keyId })
+          .sign(key.privateKey);
+      expect((await verifyPasskeyJWT(await sign(jwtKey))).valid).toBe(true);
+
+      // Replace the key (and its fingerprint) but keep the old attestation
+      const attackerKey = await generateJWTKeyPair();
+      const { getDatabase } = await import("@/lib/database");
+      const db = await getDatabase();
+      db.prepare(
+        "UPDATE attested_jwt_keys SET public_key_jwk = ?, public_key_fingerprint = ? WHERE key_id = ?",
+      ).run(
+        JSON.stringify(attackerKey.publicKeyJWK),
+        attackerKey.publicKeyFingerprint,
+        jwtKey.keyId,
+      );
+
+      const result = await verifyPasskeyJWT(await sign(attackerKey));
+      expect(result.keyAuthorized).toBe(false);
+      expect(result.error).toContain("challenge");
+
+      // Keeping the old fingerprint does not help either
+      db.prepare(
+        "UPDATE attested_jwt_keys SET public_key_fingerprint = ? WHERE key_id = ?",
+      ).run(jwtKey.publicKeyFingerprint, jwtKey.keyId);
+
+      const stale = await verifyPasskeyJWT(await sign(attackerKey));
+      expect(stale.keyAuthorized).toBe(false);
+      expect(stale.error).toContain("fingerprint");
+    });
+
+    it("should migrate hex fingerprints to thumbprints and keep their attestations", async () => {
+      // A key enrolled before thumbprints: its passkey signed the hex fingerprint
+      const jwtKey = await generateJWTKeyPair();
+      const legacyFingerprint = await computeLegacyFingerprint(
+        jwtKey.publicKeyJWK,
+      );
+      const credentialId = "test-credential-legacy-fingerprint";
+      await saveJWTKey(
+        jwtKey.keyId,
+        credentialId,
+        JSON.stringify(jwtKey.publicKeyJWK),
+        legacyFingerprint,
+        await attestKey(
+          { ...jwtKey, publicKeyFingerprint: legacyFingerprint },
+          credentialId,
+        ),
+      );
+
+      // Reopen the database as it was before the migration
+      const { getDatabase, closeDatabase } = await import("@/lib/database");
+      (await getDatabase()).exec(
+        "ALTER TABLE attested_jwt_keys DROP COLUMN legacy_fingerprint",
+      );
+      await closeDatabase();
+      clearAttestationCache();
+
+      const migrated = await getJWTKey(jwtKey.keyId);
+      expect(migrated?.publicKeyFingerprint).toBe(jwtKey.publicKeyFingerprint);
+      expect(migrated?.legacyFingerprint).toBe(legacyFingerprint);
+
+      const jwt = await new SignJWT({ message: "test" })
+        .setProtectedHeader({ alg: "EdDSA", kid: jwtKey.keyId })
+        .sign(jwtKey.privateKey);
+      const result = await verifyPasskeyJWT(jwt);
+      expect(result.valid).toBe(true);
+      expect(result.keyAuthorized).toBe(true);
+    });
+  });
+
+  describe("Statement Signature Profile", () => {
+    const content = '{"amount":100,"currency":"USD"}';
+    const userId = "user-profile";
+
+    // Register a user whose attested key signs the returned tokens
+    const registerSigner = async () => {
+      const jwtKey = await generateJWTKeyPair();
+      const credentialId = `test-profile-${jwtKey.keyId}`;
+
+      const attestation = await attestKey(jwtKey, credentialId);
+      const { saveUser } = await import("@/lib/database");
+      await saveUser(userId, "Profile User", "investor", credentialId);
+      await saveJWTKey(
+        jwtKey.keyId,
+        userId,
+        credentialId,
+        JSON.stringify(jwtKey.publicKeyJWK),
+        "",
+        jwtKey.publicKeyFingerprint,
+        attestation,
+      );
+
+      return jwtKey;
+    };
+
+    const signForStatement = async (
+      claims: Record<string, unknown>,
+      overrides: {
+        statementId?: string;
+        signerId?: string;
+        audience?: string;
+      } = {},
+    ) => {
+      const jwtKey = await registerSigner();
+      return await signStatementJWT(
+        claims,
+        {
+          typ: STATEMENT_APPROVAL_TYP,
+          statementId: overrides.statementId ?? "stmt-a",
+          signerId: overrides.signerId ?? userId,
+          audience: overrides.audience ?? "localhost",
+          keyId: jwtKey.keyId,
+        },
+        jwtKey.privateKey,
+      );
+    };
+
+    it("should accept a profile JWT bound to the statement content", async () => {
+      const contentHash = await computeContentHash(content);
+      const jwt = await signForStatement({ content, contentHash });
+
+      const result = await verifyPasskeyJWT(jwt, {
+        statementId: "stmt-a",
+        contentHash,
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.details?.contentBinding).toContain(contentHash);
+      expect(result.details?.claims?.map((check) => check.claim)).toEqual([
+        "typ",
+        "iss",
+        "sub",
+        "aud",
+        "iat",
+        "exp",
+        "jti",
+        "validUntil",
+        "revocation",
+        "binding",
+      ]);
+      expect(result.details?.claims?.every((check) => check.valid)).toBe(true);
+    });
+
+    it("should reject a JWT signed for another statement", async () => {
+      const contentHash = await computeContentHash(content);
+      const jwt = await signForStatement({ content, contentHash });
+
+      const result = await verifyPasskeyJWT(jwt, {
+        statementId: "stmt-b",
+        contentHash,
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.jwtVerified).toBe(true);
+      expect(result.error).toContain("'sub' claim");
+      expect(result.error).toContain("signed for statement stmt-a");
+    });
+
+    it("should reject a JWT for another relying party", async () => {
+      const jwt = await signForStatement({}, { audience: "evil.example" });
+
+      const result = await verifyPasskeyJWT(jwt, { statementId: "stmt-a" });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("'aud' claim");
+    });
+
+    it("should reject an issuer that does not own the signing key", async () => {
+      const jwt = await signForStatement({}, { signerId: "someone-else" });
+
+      const result = await verifyPasskeyJWT(jwt, { statementId: "stmt-a" });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("'iss' claim");
+    });
+
+    it("should reject expired and non-profile JWTs", async () => {
+      const jwtKey = await registerSigner();
+      const now = Math.floor(Date.now() / 1000);
+
+      const expired = await new SignJWT({})
+        .setProtectedHeader({
+          alg: "EdDSA",
+          typ: STATEMENT_APPROVAL_TYP,
+          kid: jwtKey.keyId,
+        })
+        .setIssuer(userId)
+        .setSubject("stmt-a")
+        .setAudience("localhost")
+        .setIssuedAt(now - 600)
+        .setExpirationTime(now - 300)
+        .setJti("expired-token")
+        .sign(jwtKey.privateKey);
+
+      const plain = await new SignJWT({ statementId: "stmt-a" })
+        .setProtectedHeader({ alg: "EdDSA", typ: "JWT", kid: jwtKey.keyId })
+        .setIssuedAt()
+        .sign(jwtKey.privateKey);
+
+      const expiredResult = await verifyPasskeyJWT(expired, {
+        statementId: "stmt-a",
+      });
+      const plainResult = await verifyPasskeyJWT(plain, {
+        statementId: "stmt-a",
+      });
+
+      expect(expiredResult.valid).toBe(false);
+      expect(expiredResult.error).toContain("'exp' claim");
+      expect(plainResult.valid).toBe(false);
+      expect(plainResult.error).toContain("'typ' claim");
+      expect(
+        plainResult.details?.claims
+          ?.filter((check) => !check.valid)
+          .map((check) => check.claim),
+      ).toEqual(["typ", "iss", "sub", "aud", "exp", "jti"]);
+    });
+
+    it("should require the contentHash claim", async () => {
+      const jwt = await signForStatement({ content });
+
+      const result = await verifyPasskeyJWT(jwt, {
+        statementId: "stmt-a",
+        contentHash: await computeContentHash(content),
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("missing the contentHash claim");
+    });
+
+    it("should reject a content claim that does not match its hash", async () => {
+      const contentHash = await computeContentHash(content);
+      const jwt = await signForStatement({
+        content: '{"amount":1000,"currency":"USD"}',
+        contentHash,
+      });
+
+      const result = await verifyPasskeyJWT(jwt, {
+        statementId: "stmt-a",
+        contentHash,
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("content claim does not match");
+    });
+  });
+
+  describe("Replay Protection", () => {
+    // Creator, one investor with an attested key and two open statements
+    const setup = async () => {
+      const { saveCredential, saveUser } = await import("@/lib/database");
+      await saveCredential("cred-creator", "mock-public-key", 0, [], -7);
+      await saveUser("creator-1", "Creator", "creator", "cred-creator");
+      const jwtKey = await generateJWTKeyPair();
+      const attestation = await attestKey(jwtKey, "cred-investor");
+      await saveUser("investor-1", "Investor", "investor", "cred-investor");
+      await saveJWTKey(
+        jwtKey.keyId,
+        "investor-1",
+        "cred-investor",
+        JSON.stringify(jwtKey.publicKeyJWK),
+        "",
+        jwtKey.publicKeyFingerprint,
+        attestation,
+      );
+
+      const options = { signerIds: ["investor-1"], requiredSignatures: 1 };
+      const statementA = await createStatement(
+        '{"deal":"A"}',
+        "creator-1",
+        options,
+      );
+      const statementB = await createStatement(
+        '{"deal":"B"}',
+        "creator-1",
+        options,
+      );
+
+      const sign = (statementId: string, claims: Record<string, unknown>) =>
+        signStatementJWT(
+          claims,
+          {
+            typ: STATEMENT_APPROVAL_TYP,
+            statementId,
+            signerId: "investor-1",
+            audience: "localhost",
+            keyId: jwtKey.keyId,
+          },
+          jwtKey.privateKey,
+        );
+
+      return { jwtKey, statementA, statementB, sign };
+    };
+
+    it("should accept a signing nonce exactly once", async () => {
+      const { jwtKey, statementA, sign } = await setup();
+      const { nonce } = await issueSigningNonce(statementA.statementId);
+      const jwt = await sign(statementA.statementId, { nonce });
+      const { payload } = inspectPasskeyJWT(jwt);
+      const options = {
+        statementId: statementA.statementId,
+        keyId: jwtKey.keyId,
+        requireNonce: true,
+      };
+
+      expect(await checkReplay(payload, options)).toBeUndefined();
+      expect(await checkReplay(payload, options)).toContain("nonce");
+    });
+
+    it("should reject a JWT replayed to another statement", async () => {
+      const { jwtKey, statementA, statementB, sign } = await setup();
+      const { nonce } = await issueSigningNonce(statementA.statementId);
+      const jwt = await sign(statementA.statementId, {
+        nonce,
+        contentHash: statementA.contentHash,
+      });
+
+      // The signature is bound to statement A ...
+      const verification = await verifyPasskeyJWT(jwt, {
+        statementId: statementB.statementId,
+        contentHash: statementB.contentHash,
+      });
+      expect(verification.valid).toBe(false);
+      expect(verification.error).toContain("'sub' claim");
+
+      // ... and so is its nonce, which stays usable for statement A
+      const { payload } = inspectPasskeyJWT(jwt);
+      expect(
+        await checkReplay(payload, {
+          statementId: statementB.statementId,
+          keyId: jwtKey.keyId,
+          requireNonce: true,
+        }),
+      ).toContain("issued for another statement");
+      expect(
+        await checkReplay(payload, {
+          statementId: statementA.statementId,
+          keyId: jwtKey.keyId,
+          requireNonce: true,
+        }),
+      ).toBeUndefined();
+    });
+
+    it("should reject a reused jti even with a fresh nonce", async () => {
+      const { jwtKey, statementA, statementB, sign } = await setup();
+      const first = inspectPasskeyJWT(
+        await sign(statementA.statementId, {}),
+      ).payload;
+      const { nonce } = await issueSigningNonce(statementB.statementId);
+      const second = { ...first, nonce, sub: statementB.statementId };
+
+      expect(
+        await checkReplay(first, {
+          statementId: statementA.statementId,
+          keyId: jwtKey.keyId,
+          requireNonce: false,
+        }),
+      ).toBeUndefined();
+      expect(
+        await checkReplay(second, {
+          statementId: statementB.statementId,
+          keyId: jwtKey.keyId,
+          requireNonce: true,
+        }),
+      ).toContain("already been used");
+    });
+
+    it("should reject and garbage-collect expired nonces", async () => {
+      const { jwtKey, statementA } = await setup();
+      const { saveSigningNonce } = await import("@/lib/database");
+      await saveSigningNonce("expired-nonce", statementA.statementId, 1);
+
+      expect(
+        await checkReplay(
+          { nonce: "expired-nonce", jti: "jti-1", exp: 1 },
+          {
+            statementId: statementA.statementId,
+            keyId: jwtKey.keyId,
+            requireNonce: true,
+          },
+        ),
+      ).toContain("expired");
+      expect(await purgeExpiredReplayRecords()).toEqual({
+        nonces: 1,
+        jtis: 0,
+      });
+    });
+
+    it("should only issue nonces for open statements", async () => {
+      const { statementA } = await setup();
+      const { saveStatementTransition } = await import("@/lib/database");
+      await saveStatementTransition(
+        statementA.statementId,
+        "open",
+        "withdrawn",
+        "creator-1",
+      );
+
+      await expect(issueSigningNonce(statementA.statementId)).rejects.toThrow(
+        "not open for signing",
+      );
+      await expect(issueSigningNonce("missing")).rejects.toThrow(
+        "Statement not found",
+      );
+    });
+  });
+
+  describe("Statement Signing", () => {
+    // Creator and investors, each with an attested signing key
+    const setup = async (
+      investorIds = ["investor-1", "investor-2", "investor-3"],
+    ) => {
+      const { saveCredential, saveUser } = await import("@/lib/database");
+      await saveCredential("cred-creator", "mock-public-key", 0, [], -7);
+      await saveUser("creator-1", "Creator", "creator", "cred-creator");
+
+      const keys: Record<string, JWTKeyPair> = {};
+      for (const userId of investorIds) {
+        const jwtKey = await generateJWTKeyPair();
+        const credentialId = `cred-${userId}`;
+        const attestation = await attestKey(jwtKey, credentialId);
+        await saveUser(userId, userId, "investor", credentialId);
+        await saveJWTKey(
+          jwtKey.keyId,
+          userId,
+          credentialId,
+          JSON.stringify(jwtKey.publicKeyJWK),
+          "",
+          jwtKey.publicKeyFingerprint,
+          attestation,
+        );
+        keys[userId] = jwtKey;
+      }
+
+      // Sign through the statement store, as the sign route does once the
+      // JWT has been verified
+      const sign = async (
+        statement: Statement,
+        userId: string,
+        decision: SignatureDecision = "approve",
+        reason?: string,
+      ) => {
+        const jwt = await signStatementJWT(
+          { contentHash: statement.contentHash, decision, reason },
+          {
+            typ: STATEMENT_APPROVAL_TYP,
+            statementId: statement.statementId,
+            signerId: userId,
+            audience: "localhost",
+            keyId: keys[userId].keyId,
+          },
+          keys[userId].privateKey,
+        );
+        return signStatement(
+          statement.statementId,
+          userId,
+          jwt.split(".")[2],
+          jwt,
+          decision,
+          reason,
+        );
+      };
+
+      return { keys, sign };
+    };
+
+    it("should accept thresholds from 1 to N signers", async () => {
+      await setup();
+      const create = (requiredSignatures: number, eligibleSigners = 3) =>
+        createStatement('{"deal":"A"}', "creator-1", {
+          requiredSignatures,
+          eligibleSigners,
+        });
+
+      for (const requiredSignatures of [0, 4, 1.5, -1]) {
+        await expect(create(requiredSignatures)).rejects.toThrow(
+          "Required signatures must be between 1 and the total weight",
+        );
+      }
+      for (const eligibleSigners of [0, 2.5]) {
+        await expect(create(1, eligibleSigners)).rejects.toThrow(
+          "Eligible signers must be a positive integer",
+        );
+      }
+
+      expect(await create(1, 1)).toMatchObject({
+        requiredSignatures: 1,
+        eligibleSigners: 1,
+      });
+      expect(await create(3)).toMatchObject({
+        requiredSignatures: 3,
+        requiredWeight: 3,
+        eligibleSigners: 3,
+      });
+    });
+
+    it("should approve once k of N signers have signed", async () => {
+      const { sign } = await setup();
+      const statement = await createStatement('{"deal":"A"}', "creator-1", {
+        requiredSignatures: 3,
+        eligibleSigners: 3,
+      });
+
+      await sign(statement, "investor-1");
+      await sign(statement, "investor-2");
+      const pending = await getStatementById(statement.statementId);
+      expect(pending).toMatchObject({ status: "open", signatureCount: 2 });
+
+      await sign(statement, "investor-3");
+      const approved = await getStatementById(statement.statementId);
+      expect(approved).toMatchObject({ status: "approved", signatureCount: 3 });
+    });
+
+    it("should validate the threshold when creating through the API", async () => {
+      await setup();
+      const create = (threshold: Record<string, unknown>) =>
+        createStatementRoute(
+          new NextRequest("http://localhost/api/statements/create", {
+            method: "POST",
+            body: JSON.stringify({
+              content: '{"deal":"A"}',
+              creatorId: "creator-1",
+              ...threshold,
+            }),
+          }),
+        );
+
+      for (const threshold of [
+        { requiredSignatures: 0 },
+        { requiredSignatures: 1.5 },
+        { requiredSignatures: "2" },
+        { eligibleSigners: 0 },
+        { requiredWeight: -1 },
+      ]) {
+        const response = await create(threshold);
+        expect(response.status).toBe(400);
+        expect((await response.json()).error).toContain(
+          "must be a positive integer",
+        );
+      }
+
+      // Within the limits of the field, but more than N
+      const tooMany = await create({
+        requiredSignatures: 4,
+        eligibleSigners: 3,
+      });
+      expect(tooMany.status).toBe(500);
+      expect((await tooMany.json()).error).toContain(
+        "between 1 and the total weight",
+      );
+
+      const created = await create({
+        requiredSignatures: 2,
+        eligibleSigners: 4,
+      });
+      expect(created.status).toBe(200);
+      expect((await created.json()).statement).toMatchObject({
+        requiredSignatures: 2,
+        eligibleSigners: 4,
+      });
+    });
+
+    it("should only accept signatures from designated signers", async () => {
+      const { sign } = await setup();
+      const statement = await createStatement('{"deal":"A"}', "creator-1", {
+        signerIds: ["investor-1", "investor-2"],
+        requiredSignatures: 2,
+      });
+
+      await expect(sign(statement, "investor-3")).rejects.toThrow(
+        "not a designated signer",
+      );
+      expect(
+        (await getStatementById(statement.statementId))?.signatures,
+      ).toHaveLength(0);
+
+      await sign(statement, "investor-1");
+      await expect(sign(statement, "investor-1")).rejects.toThrow(
+        "already signed",
+      );
+
+      const signed = await getStatementById(statement.statementId);
+      expect(signed?.signatures.map((sig) => sig.userId)).toEqual([
+        "investor-1",
+      ]);
+      expect(signed?.status).toBe("open");
+    });
+
+    it("should let a policy take more signers than the default N", async () => {
+      const investorIds = [1, 2, 3, 4, 5].map((i) => `investor-${i}`);
+      const { sign } = await setup(investorIds);
+      const policy = {
+        type: "quorum",
+        threshold: 4,
+        signers: { type: "role", role: "investor" },
+      };
+
+      await expect(
+        createStatement('{"deal":"A"}', "creator-1", {
+          policy,
+          eligibleSigners: 3,
+        }),
+      ).rejects.toThrow("needs a signer weight of 4");
+      await expect(
+        createStatement('{"deal":"A"}', "creator-1", {
+          policy,
+          signerIds: investorIds.slice(0, 3),
+        }),
+      ).rejects.toThrow("needs a signer weight of 4");
+
+      const statement = await createStatement('{"deal":"A"}', "creator-1", {
+        policy,
+      });
+      expect(statement).toMatchObject({
+        requiredWeight: 4,
+        eligibleSigners: 4,
+      });
+
+      // A decline does not use up room needed for the approvals
+      await sign(statement, "investor-5", "decline");
+      for (const userId of investorIds.slice(0, 3)) {
+        await sign(statement, userId);
+      }
+      expect((await getStatementById(statement.statementId))?.status).toBe(
+        "open",
+      );
+      await sign(statement, "investor-4");
+      expect((await getStatementById(statement.statementId))?.status).toBe(
+        "approved",
+      );
+    });
+
+    it("should decide the status by signer weight", async () => {
+      const { sign } = await setup();
+      const options = {
+        signerIds: ["investor-1", "investor-2", "investor-3"],
+        signerWeights: { "investor-1": 3 },
+        requiredWeight: 3,
+      };
+      const major = await createStatement('{"deal":"A"}', "creator-1", options);
+      const minor = await createStatement('{"deal":"B"}', "creator-1", options);
+      expect(major.requiredSignatures).toBe(1);
+      expect(major.requiredWeight).toBe(3);
+
+      // The heavy signer alone reaches the threshold ...
+      await sign(major, "investor-1");
+      const approved = await getStatementById(major.statementId);
+      expect(approved?.status).toBe("approved");
+      expect(approved?.accumulatedWeight).toBe(3);
+
+      // ... while two light signers do not
+      await sign(minor, "investor-2");
+      await sign(minor, "investor-3");
+      const open = await getStatementById(minor.statementId);
+      expect(open?.status).toBe("open");
+      expect(open?.signatureCount).toBe(2);
+      expect(open?.accumulatedWeight).toBe(2);
+      expect(open?.policyEvaluation.satisfied).toBe(false);
+    });
+
+    it("should reject illegal transitions and record who made each one", async () => {
+      await setup();
+      const draft = await createStatement('{"deal":"A"}', "creator-1", {
+        signerIds: ["investor-1"],
+        requiredSignatures: 1,
+        draft: true,
+      });
+
+      await expect(
+        transitionStatementState(draft.statementId, "approved", "creator-1"),
+      ).rejects.toThrow("Cannot move statement from draft to approved");
+      await expect(
+        transitionStatementState(draft.statementId, "open", "investor-1"),
+      ).rejects.toThrow("Only the creator can move a statement to open");
+
+      await transitionStatementState(
+        draft.statementId,
+        "open",
+        "creator-1",
+        "Ready for review",
+      );
+      await expect(
+        transitionStatementState(draft.statementId, "approved", "creator-1"),
+      ).rejects.toThrow("approved once their approval policy is satisfied");
+      await expect(
+        transitionStatementState(draft.statementId, "expired", "creator-1"),
+      ).rejects.toThrow("expire automatically");
+      await transitionStatementState(
+        draft.statementId,
+        "withdrawn",
+        "creator-1",
+        "Deal cancelled",
+      );
+      await expect(
+        transitionStatementState(draft.statementId, "open", "creator-1"),
+      ).rejects.toThrow("Cannot move statement from withdrawn to open");
+
+      const withdrawn = await getStatementById(draft.statementId);
+      expect(withdrawn?.status).toBe("withdrawn");
+      expect(
+        withdrawn?.transitions.map(
+          ({ fromState, toState, actorId, actorName, reason }) => ({
+            fromState,
+            toState,
+            actorId,
+            actorName,
+            reason,
+          }),
+        ),
+      ).toEqual([
+        {
+          fromState: null,
+          toState: "draft",
+          actorId: "creator-1",
+          actorName: "Creator",
+          reason: undefined,
+        },
+        {
+          fromState: "draft",
+          toState: "open",
+          actorId: "creator-1",
+          actorName: "Creator",
+          reason: "Ready for review",
+        },
+        {
+          fromState: "open",
+          toState: "withdrawn",
+          actorId: "creator-1",
+          actorName: "Creator",
+          reason: "Deal cancelled",
+        },
+      ]);
+    });
+
+    it("should refuse signatures after the deadline and expire the statement", async () => {
+      const { sign } = await setup();
+      const options = { signerIds: ["investor-1"], requiredSignatures: 1 };
+      const overdue = await createStatement('{"deal":"A"}', "creator-1", {
+        ...options,
+        expiresAt: Date.now() + 60_000,
+      });
+      const current = await createStatement('{"deal":"B"}', "creator-1", {
+        ...options,
+        expiresAt: Date.now() + 60_000,
+      });
+      const openEnded = await createStatement(
+        '{"deal":"C"}',
+        "creator-1",
+        options,
+      );
+
+      // Let the deadline pass without waiting for it
+      const { getDatabase, getOverdueStatementIds } =
+        await import("@/lib/database");
+      (await getDatabase())
+        .prepare("UPDATE statements SET expires_at = ? WHERE statement_id = ?")
+        .run(Date.now() - 1000, overdue.statementId);
+
+      expect(await getOverdueStatementIds(Date.now())).toEqual([
+        overdue.statementId,
+      ]);
+      await expect(sign(overdue, "investor-1")).rejects.toThrow(
+        "Signing deadline has passed",
+      );
+
+      const expired = await getStatementById(overdue.statementId);
+      expect(expired?.status).toBe("expired");
+      expect(expired?.signatures).toHaveLength(0);
+      expect(expired?.transitions.at(-1)).toMatchObject({
+        fromState: "open",
+        toState: "expired",
+        actorId: null,
+        reason: "Signing deadline passed",
+      });
+      expect(await getOverdueStatementIds(Date.now())).toEqual([]);
+      await expect(sign(overdue, "investor-1")).rejects.toThrow(
+        "Statement is expired and cannot be signed",
+      );
+
+      // Statements before or without a deadline stay open
+      expect((await getStatementById(current.statementId))?.status).toBe(
+        "open",
+      );
+      await sign(openEnded, "investor-1");
+      expect((await getStatementById(openEnded.statementId))?.status).toBe(
+        "approved",
+      );
+    });
+
+    it("should reject the statement when a veto holder declines", async () => {
+      const { sign } = await setup();
+      const statement = await createStatement('{"deal":"A"}', "creator-1", {
+        signerIds: ["investor-1", "investor-2", "investor-3"],
+        policy: {
+          type: "and",
+          clauses: [
+            {
+              type: "quorum",
+              threshold: 2,
+              signers: { type: "role", role: "investor" },
+            },
+            {
+              type: "quorum",
+              threshold: 1,
+              signers: { type: "users", userIds: ["investor-1"] },
+              veto: true,
+            },
+          ],
+        },
+      });
+
+      // Other signers' declines only count against the threshold
+      await sign(statement, "investor-2", "decline", "Too risky");
+      const declined = await getStatementById(statement.statementId);
+      expect(declined?.status).toBe("open");
+      expect(declined?.declineCount).toBe(1);
+
+      await sign(statement, "investor-1", "decline", "Terms changed");
+      const rejected = await getStatementById(statement.statementId);
+      expect(rejected?.status).toBe("rejected");
+      expect(rejected?.transitions.at(-1)).toMatchObject({
+        fromState: "open",
+        toState: "rejected",
+        actorId: "investor-1",
+        reason: "Terms changed",
+      });
+      await expect(sign(statement, "investor-3")).rejects.toThrow(
+        "Statement is rejected and cannot be signed",
+      );
+    });
+
+    it("should require signing an amended statement again", async () => {
+      const { sign } = await setup();
+      const original = await createStatement('{"deal":"A"}', "creator-1", {
+        signerIds: ["investor-1", "investor-2", "investor-3"],
+        requiredSignatures: 2,
+      });
+      await sign(original, "investor-1");
+
+      await expect(
+        amendStatement(original.statementId, "investor-1", {
+          content: '{"deal":"A2"}',
+        }),
+      ).rejects.toThrow("Only the creator can amend");
+      const amended = await amendStatement(original.statementId, "creator-1", {
+        content: '{"deal":"A2"}',
+      });
+      expect(amended.version).toBe(2);
+      expect(amended.supersedes).toBe(original.statementId);
+      expect(amended.contentHash).not.toBe(original.contentHash);
+
+      // The approval stays with the superseded version ...
+      const superseded = await getStatementById(original.statementId);
+      expect(superseded?.status).toBe("superseded");
+      expect(superseded?.supersededBy).toBe(amended.statementId);
+      expect(superseded?.signatures).toHaveLength(1);
+      await expect(sign(original, "investor-2")).rejects.toThrow(
+        "Statement is superseded and cannot be signed",
+      );
+
+      // ... so the new version starts without signatures
+      const current = await getStatementById(amended.statementId);
+      expect(current?.status).toBe("open");
+      expect(current?.signatures).toHaveLength(0);
+      expect(current?.signers.map((signer) => signer.userId)).toEqual([
+        "investor-1",
+        "investor-2",
+        "investor-3",
+      ]);
+
+      await sign(amended, "investor-2");
+      expect((await getStatementById(amended.statementId))?.status).toBe(
+        "open",
+      );
+      await sign(amended, "investor-1");
+      expect((await getStatementById(amended.statementId))?.status).toBe(
+        "approved",
+      );
+    });
+
+    describe("Signature Withdrawal", () => {
+      // POST /api/statements/[id]/revoke
+      const submitRevocation = async (statementId: string, jwt: string) => {
+        const response = await revokeSignature(
+          new NextRequest(
+            `http://localhost/api/statements/${statementId}/revoke`,
+            { method: "POST", body: JSON.stringify({ jwt }) },
+          ),
+          { params: Promise.resolve({ id: statementId }) },
+        );
+        return { status: response.status, body: await response.json() };
+      };
+
+      const signRevocation = (
+        statementId: string,
+        signerId: string,
+        jwtKey: JWTKeyPair,
+        typ = STATEMENT_REVOCATION_TYP,
+      ) =>
+        signStatementJWT(
+          { action: "revoke" },
+          {
+            typ,
+            statementId,
+            signerId,
+            audience: "localhost",
+            keyId: jwtKey.keyId,
+          },
+          jwtKey.privateKey,
+        );
+
+      it("should withdraw a signature and recompute the status", async () => {
+        const { keys, sign } = await setup();
+        const statement = await createStatement('{"deal":"A"}', "creator-1", {
+          signerIds: ["investor-1", "investor-2", "investor-3"],
+          requiredSignatures: 2,
+        });
+        await sign(statement, "investor-1");
+
+        const revocationJwt = await signRevocation(
+          statement.statementId,
+          "investor-1",
+          keys["investor-1"],
+        );
+        const { status, body } = await submitRevocation(
+          statement.statementId,
+          revocationJwt,
+        );
+        expect(status).toBe(200);
+        expect(body.success).toBe(true);
+
+        // Both JWTs are kept, but the approval no longer counts
+        const withdrawn = await getStatementById(statement.statementId);
+        expect(withdrawn?.signatures).toHaveLength(0);
+        expect(withdrawn?.signatureCount).toBe(0);
+        expect(withdrawn?.withdrawnSignatures).toHaveLength(1);
+        expect(withdrawn?.withdrawnSignatures[0]).toMatchObject({
+          userId: "investor-1",
+          revocationJwt,
+        });
+        expect(withdrawn?.withdrawnSignatures[0].jwt).toBeDefined();
+
+        await sign(statement, "investor-2");
+        expect((await getStatementById(statement.statementId))?.status).toBe(
+          "open",
+        );
+        await sign(statement, "investor-3");
+        expect((await getStatementById(statement.statementId))?.status).toBe(
+          "approved",
+        );
+      });
+
+      it("should reject forged and mismatched revocations", async () => {
+        const { keys, sign } = await setup();
+        const options = {
+          signerIds: ["investor-1", "investor-2"],
+          requiredSignatures: 2,
+        };
+        const statementA = await createStatement(
+          '{"deal":"A"}',
+          "creator-1",
+          options,
+        );
+        const statementB = await createStatement(
+          '{"deal":"B"}',
+          "creator-1",
+          options,
+        );
+        await sign(statementA, "investor-1");
+        const { statementId } = statementA;
+
+        // Signed with a key that is not the registered one for its kid
+        const forgeryKey = await generateJWTKeyPair();
+        const forged = await signRevocation(statementId, "investor-1", {
+          ...forgeryKey,
+          keyId: keys["investor-1"].keyId,
+        });
+        // Another signer's key, a revocation for another statement, and
+        // an approval token
+        const rejected = [
+          forged,
+          await signRevocation(statementId, "investor-1", keys["investor-2"]),
+          await signRevocation(
+            statementB.statementId,
+            "investor-1",
+            keys["investor-1"],
+          ),
+          await signRevocation(
+            statementId,
+            "investor-1",
+            keys["investor-1"],
+            STATEMENT_APPROVAL_TYP,
+          ),
+        ];
+        for (const jwt of rejected) {
+          expect((await submitRevocation(statementId, jwt)).status).toBe(401);
+        }
+
+        const signed = await getStatementById(statementId);
+        expect(signed?.signatures).toHaveLength(1);
+        expect(signed?.withdrawnSignatures).toHaveLength(0);
+      });
+
+      it("should reject a second withdrawal", async () => {
+        const { keys, sign } = await setup();
+        const statement = await createStatement('{"deal":"A"}', "creator-1", {
+          signerIds: ["investor-1", "investor-2"],
+          requiredSignatures: 2,
+        });
+        await sign(statement, "investor-1");
+        const revoke = () =>
+          signRevocation(
+            statement.statementId,
+            "investor-1",
+            keys["investor-1"],
+          );
+
+        const revocationJwt = await revoke();
+        expect(
+          (await submitRevocation(statement.statementId, revocationJwt)).status,
+        ).toBe(200);
+
+        // The same token is a replay, a new one has nothing to withdraw
+        const replayed = await submitRevocation(
+          statement.statementId,
+          revocationJwt,
+        );
+        expect(replayed.status).toBe(400);
+        expect(replayed.body.error).toContain("already been used");
+        const again = await submitRevocation(
+          statement.statementId,
+          await revoke(),
+        );
+        expect(again.status).toBe(500);
+        expect(again.body.error).toContain("no signature to withdraw");
+
+        const withdrawn = await getStatementById(statement.statementId);
+        expect(withdrawn?.withdrawnSignatures).toHaveLength(1);
+        expect(withdrawn?.withdrawnSignatures[0].revocationJwt).toBe(
+          revocationJwt,
+        );
+      });
+    });
+  });
+
+  describe("Verification Bundle", () => {
+    it("should export an approved statement with its keys and policy", async () => {
+      const { saveCredential, saveUser } = await import("@/lib/database");
+      await saveCredential("cred-creator", "mock-public-key", 0, [], -7);
+      await saveUser("creator-1", "Creator", "creator", "cred-creator");
+      await saveCredential("cred-investor", "cose-public-key", 0, [], -8);
+      await saveUser("investor-1", "Investor", "investor", "cred-investor");
+
+      const jwtKey = await generateJWTKeyPair();
+      await saveJWTKey(
+        jwtKey.keyId,
+        "investor-1",
+        "cred-investor",
+        JSON.stringify(jwtKey.publicKeyJWK),
+        "",
+        jwtKey.publicKeyFingerprint,
+        JSON.stringify({ mock: "attestation" }),
+      );
+
+      const statement = await createStatement('{"deal":"A"}', "creator-1", {
+        signerIds: ["investor-1"],
+        requiredSignatures: 1,
+      });
+      const relyingParty = { rpId: "localhost", origin: "http://localhost" };
+      await expect(
+        getVerificationBundle(statement.statementId, relyingParty),
+      ).rejects.toThrow("not approved");
+
+      const jwt = await signStatementJWT(
+        { contentHash: statement.contentHash, decision: "approve" },
+        {
+          typ: STATEMENT_APPROVAL_TYP,
+          statementId: statement.statementId,
+          signerId: "investor-1",
+          audience: "localhost",
+          keyId: jwtKey.keyId,
+        },
+        jwtKey.privateKey,
+      );
+      const contentSignature = await signStatementContent(
+        statement.content,
+        jwtKey.keyId,
+        jwtKey.privateKey,
+      );
+      await signStatement(
+        statement.statementId,
+        "investor-1",
+        jwt.split(".")[2],
+        jwt,
+        "approve",
+        undefined,
+        contentSignature,
+      );
+
+      expect((await getJWTKey(jwtKey.keyId))?.lastUsedAt).toBeDefined();
+
+      const bundle = await getVerificationBundle(
+        statement.statementId,
+        relyingParty,
+      );
+      expect(bundle.format).toBe("statement-verification-bundle");
+      expect(bundle.relyingParty).toEqual(relyingParty);
+      expect(bundle.statement.contentHash).toBe(statement.contentHash);
+      expect(bundle.policy.policy).toEqual({ type: "quorum", threshold: 1 });
+      expect(bundle.policy.signers).toHaveLength(1);
+      expect(bundle.certificate?.signatures).toHaveLength(1);
+
+      // The bundled key alone verifies the signature and its attestation
+      const key = bundle.keys[jwtKey.keyId];
+      expect(key.passkeyPublicKey).toBe("cose-public-key");
+      expect(key.passkeyAlgorithm).toBe(-8);
+      expect(key.passkeyAttestation).toEqual({ mock: "attestation" });
+      expect(
+        await verifyPublicKeyFingerprint(
+          key.publicKeyJWK,
+          key.publicKeyFingerprint,
+        ),
+      ).toBe(true);
+      const { payload } = await jwtVerify(
+        bundle.signatures[0].jwt!,
+        await importJWK(key.publicKeyJWK, "EdDSA"),
+      );
+      expect(payload.contentHash).toBe(bundle.statement.contentHash);
+    });
+  });
+
+  describe("Direct Passkey Signatures", () => {
+    const originalOrigin = process.env.WEBAUTHN_ORIGIN;
+
+    beforeAll(() => {
+      process.env.WEBAUTHN_ORIGIN = "http://localhost:3000";
+    });
+
+    afterAll(() => {
+      if (originalOrigin === undefined) delete process.env.WEBAUTHN_ORIGIN;
+      else process.env.WEBAUTHN_ORIGIN = originalOrigin;
+    });
+
+    // Creator and two registered investors, with a passkey-signed statement
+    const createPasskeyStatement = async (
+      content = '{"deal":"A"}',
+      requiredSignatures = 1,
+    ) => {
+      const { saveCredential, saveUser } = await import("@/lib/database");
+      const investor = createTestPasskey("direct-investor");
+      const otherInvestor = createTestPasskey("direct-investor-2");
+      await saveCredential("direct-creator", "mock-public-key", 0, [], -7);
+      await saveUser("creator-1", "Creator", "creator", "direct-creator");
+      for (const [userId, passkey] of [
+        ["investor-1", investor],
+        ["investor-2", otherInvestor],
+      ] as const) {
+        await saveCredential(passkey.credentialId, passkey.publicKey, 0, []);
+        await saveUser(userId, "Investor", "investor", passkey.credentialId);
+      }
+
+      const statement = await createStatement(content, "creator-1", {
+        signerIds: ["investor-1", "investor-2"],
+        requiredSignatures,
+        signingMethod: "passkey",
+      });
+      return { statement, investor, otherInvestor };
+    };
+
+    // Assertion over the approval request, with a nonce issued for the
+    // statement (unless one is given)
+    const approve = async (
+      statement: Statement,
+      passkey: TestPasskey,
+      request: { userId?: string; nonce?: string; flags?: number } = {},
+    ) => {
+      const nonce =
+        request.nonce ?? (await issueSigningNonce(statement.statementId)).nonce;
+      const challenge = await computePasskeyApprovalChallenge({
+        statementId: statement.statementId,
+        contentHash: statement.contentHash,
+        userId: request.userId ?? "investor-1",
+        nonce,
+      });
+      const assertion = passkey.assert(
+        challenge,
+        request.flags === undefined ? {} : { flags: request.flags },
+      );
+      return { assertion, nonce };
+    };
+
+    it("should approve with a passkey assertion over the approval request", async () => {
+      const { statement, investor } = await createPasskeyStatement();
+      expect(statement.signingMethod).toBe("passkey");
+
+      const { assertion, nonce } = await approve(statement, investor);
+      const { userId } = await signStatementWithPasskey(
+        statement.statementId,
+        assertion,
+        nonce,
+      );
+      expect(userId).toBe("investor-1");
+
+      const signed = await getStatementById(statement.statementId);
+      expect(signed?.status).toBe("approved");
+      const [signature] = signed!.signatures;
+      expect(signature.signingMethod).toBe("passkey");
+      expect(signature.jwt).toBeUndefined();
+      expect(signature.passkeyAssertion?.id).toBe(investor.credentialId);
+      expect(signature.passkeyNonce).toBe(nonce);
+      expect(signature.signature).toBe(
+        signature.passkeyAssertion?.response.signature,
+      );
+
+      const expected = {
+        statementId: statement.statementId,
+        contentHash: statement.contentHash,
+      };
+      const verified = await verifySignatureRecord(signature, expected);
+      expect(verified).toMatchObject({
+        signingMethod: "passkey",
+        valid: true,
+        credentialId: investor.credentialId,
+        userId: "investor-1",
+      });
+
+      const otherContent = await verifySignatureRecord(signature, {
+        ...expected,
+        contentHash: "0".repeat(64),
+      });
+      expect(otherContent.valid).toBe(false);
+      expect(otherContent.error).toContain("challenge");
+
+      const otherSigner = await verifySignatureRecord(
+        { ...signature, userId: "investor-2" },
+        expected,
+      );
+      expect(otherSigner.valid).toBe(false);
+      expect(otherSigner.error).toContain("does not belong to investor-2");
+    });
+
+    it("should only accept assertions over the approval request", async () => {
+      const { statement, investor } = await createPasskeyStatement();
+      const { nonce } = await issueSigningNonce(statement.statementId);
+
+      // The bare content hash is not an approval request
+      await expect(
+        signStatementWithPasskey(
+          statement.statementId,
+          investor.assert(statement.contentHash),
+          nonce,
+        ),
+      ).rejects.toThrow("Unexpected authentication response challenge");
+
+      // Nor is a request in another signer's name
+      const otherSigner = await approve(statement, investor, {
+        userId: "investor-2",
+        nonce,
+      });
+      await expect(
+        signStatementWithPasskey(
+          statement.statementId,
+          otherSigner.assertion,
+          nonce,
+        ),
+      ).rejects.toThrow("Unexpected authentication response challenge");
+
+      // Nor one for another statement
+      const copy = await createStatement('{"deal":"A"}', "creator-1", {
+        signerIds: ["investor-1"],
+        requiredSignatures: 1,
+        signingMethod: "passkey",
+      });
+      const otherStatement = await approve(copy, investor, { nonce });
+      await expect(
+        signStatementWithPasskey(
+          statement.statementId,
+          otherStatement.assertion,
+          nonce,
+        ),
+      ).rejects.toThrow("Unexpected authentication response challenge");
+
+      // Without user verification the passkey owner is not proven
+      const unverified = await approve(statement, investor, {
+        nonce,
+        flags: 0x01,
+      });
+      await expect(
+        signStatementWithPasskey(
+          statement.statementId,
+          unverified.assertion,
+          nonce,
+        ),
+      ).rejects.toThrow("User verification required");
+    });
+
+    it("should require a fresh nonce issued for the statement, once", async () => {
+      const { statement, investor, otherInvestor } =
+        await createPasskeyStatement('{"deal":"A"}', 2);
+
+      // Issued for another statement
+      const copy = await createStatement('{"deal":"A"}', "creator-1", {
+        signerIds: ["investor-1"],
+        requiredSignatures: 1,
+        signingMethod: "passkey",
+      });
+      const foreign = await approve(statement, investor, {
+        nonce: (await issueSigningNonce(copy.statementId)).nonce,
+      });
+      await expect(
+        signStatementWithPasskey(
+          statement.statementId,
+          foreign.assertion,
+          foreign.nonce,
+        ),
+      ).rejects.toThrow("Signing nonce is unknown, expired, already used");
+
+      // Expired
+      const expired = await approve(statement, investor);
+      const { getDatabase } = await import("@/lib/database");
+      (await getDatabase())
+        .prepare("UPDATE signing_nonces SET expires_at = ? WHERE nonce = ?")
+        .run(Date.now() - 1, expired.nonce);
+      await expect(
+        signStatementWithPasskey(
+          statement.statementId,
+          expired.assertion,
+          expired.nonce,
+        ),
+      ).rejects.toThrow("Signing nonce is unknown, expired, already used");
+
+      // Used once, by investor-1
+      const first = await approve(statement, investor);
+      await signStatementWithPasskey(
+        statement.statementId,
+        first.assertion,
+        first.nonce,
+      );
+      const reused = await approve(statement, otherInvestor, {
+        userId: "investor-2",
+        nonce: first.nonce,
+      });
+      await expect(
+        signStatementWithPasskey(
+          statement.statementId,
+          reused.assertion,
+          reused.nonce,
+        ),
+      ).rejects.toThrow("Signing nonce is unknown, expired, already used");
+
+      const second = await approve(statement, otherInvestor, {
+        userId: "investor-2",
+      });
+      await signStatementWithPasskey(
+        statement.statementId,
+        second.assertion,
+        second.nonce,
+      );
+      expect((await getStatementById(statement.statementId))?.status).toBe(
+        "approved",
+      );
+    });
+
+    it("should issue signing options for the signer with a nonce", async () => {
+      const { statement, investor } = await createPasskeyStatement();
+      const url = `http://localhost/api/statements/${statement.statementId}/passkey-sign`;
+      const context = {
+        params: Promise.resolve({ id: statement.statementId }),
+      };
+
+      const withoutUser = await passkeySignOptions(
+        new NextRequest(url),
+        context,
+      );
+      expect(withoutUser.status).toBe(400);
+
+      const response = await passkeySignOptions(
+        new NextRequest(`${url}?userId=investor-1`),
+        context,
+      );
+      expect(response.status).toBe(200);
+      const options = await response.json();
+      expect(options.userVerification).toBe("required");
+      expect(options.allowCredentials).toEqual([
+        { id: investor.credentialId, type: "public-key" },
+      ]);
+      expect(options.challenge).toBe(
+        await computePasskeyApprovalChallenge({
+          statementId: statement.statementId,
+          contentHash: statement.contentHash,
+          userId: "investor-1",
+          nonce: options.nonce,
+        }),
+      );
+
+      const submit = (body: unknown) =>
+        passkeySignRoute(
+          new NextRequest(url, { method: "POST", body: JSON.stringify(body) }),
+          context,
+        );
+      const passkeyAssertion = investor.assert(options.challenge);
+      expect((await submit({ passkeyAssertion })).status).toBe(400);
+      const signed = await submit({ passkeyAssertion, nonce: options.nonce });
+      expect(signed.status).toBe(200);
+      expect(await signed.json()).toMatchObject({ userId: "investor-1" });
+    });
+
+    it("should keep the signing method apart from JWT approvals", async () => {
+      const { statement, investor } = await createPasskeyStatement();
+      const jwtKey = await generateJWTKeyPair();
+      const jwt = await signStatementJWT(
+        { contentHash: statement.contentHash, decision: "approve" },
+        {
+          typ: STATEMENT_APPROVAL_TYP,
+          statementId: statement.statementId,
+          signerId: "investor-1",
+          audience: "localhost",
+          keyId: jwtKey.keyId,
+        },
+        jwtKey.privateKey,
+      );
+
+      await expect(
+        signStatement(
+          statement.statementId,
+          "investor-1",
+          jwt.split(".")[2],
+          jwt,
+        ),
+      ).rejects.toThrow("must be signed directly with a passkey");
+
+      const jwtStatement = await createStatement('{"deal":"B"}', "creator-1", {
+        signerIds: ["investor-1"],
+        requiredSignatures: 1,
+      });
+      expect(jwtStatement.signingMethod).toBe("jwt");
+      await expect(
+        signStatementWithPasskey(
+          jwtStatement.statementId,
+          investor.assert(jwtStatement.contentHash),
+          "nonce",
+        ),
+      ).rejects.toThrow("not signed directly with passkeys");
+
+      const amended = await amendStatement(statement.statementId, "creator-1", {
+        content: '{"deal":"A2"}',
+      });
+      expect(amended.signingMethod).toBe("passkey");
+    });
+
+    it("should bundle direct passkey signatures for offline verification", async () => {
+      const { statement, investor } = await createPasskeyStatement();
+      const { assertion, nonce } = await approve(statement, investor);
+      await signStatementWithPasskey(statement.statementId, assertion, nonce);
+
+      const bundle = await getVerificationBundle(statement.statementId, {
+        rpId: "localhost",
+        origin: "http://localhost:3000",
+      });
+      expect(bundle.keys).toEqual({});
+      expect(bundle.certificate).toBeUndefined();
+      expect(bundle.signatures[0]).toMatchObject({
+        signingMethod: "passkey",
+        passkeyNonce: nonce,
+      });
+      expect(bundle.passkeys).toEqual({
+        [investor.credentialId]: {
+          credentialId: investor.credentialId,
+          userId: "investor-1",
+          publicKey: investor.publicKey,
+          algorithm: -7,
+        },
+      });
+
+      const report = await verifyBundle(bundle);
+      expect(report.valid).toBe(true);
+    });
   });
 
   describe("Complete Flow", () => {
@@ -386,23 +3007,14 @@ describe("Multi-Signature Statement System", () => {
       // Step 2: Register with passkey (simulated)
       console.log("\n2️⃣  Register JWT key with passkey attestation");
       const credentialId = "test-passkey-complete";
-      const mockAttestation = JSON.stringify({
-        id: credentialId,
-        response: {
-          signature: "passkey-signed-fingerprint",
-        },
-      });
-
-      // Create credential first (foreign key requirement)
-      const { saveCredential } = await import("@/lib/database");
-      await saveCredential(credentialId, "mock-public-key", 0, [], -7);
+      const attestation = await attestKey(jwtKey, credentialId);
 
       await saveJWTKey(
         jwtKey.keyId,
         credentialId,
         JSON.stringify(jwtKey.publicKeyJWK),
         jwtKey.publicKeyFingerprint,
-        mockAttestation,
+        attestation,
       );
       console.log("   ✅ JWT key registered");
       console.log("   Passkey attested key:", credentialId);
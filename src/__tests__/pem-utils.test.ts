@@ -0,0 +1,86 @@
+/**
+ * PEM conversion tests
+ * Checks both converters against Node's own SubjectPublicKeyInfo encoding
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { generateKeyPairSync, createPublicKey, type KeyObject } from "crypto";
+import type { JWK } from "jose";
+import { jwkToPem, jwkToPemServer } from "@/lib/pem-utils";
+
+// Public JWK and the PEM Node exports for it
+function describeKey(publicKey: KeyObject): { jwk: JWK; pem: string } {
+  return {
+    jwk: publicKey.export({ format: "jwk" }) as JWK,
+    pem: (publicKey.export({ type: "spki", format: "pem" }) as string).trim(),
+  };
+}
+
+const keyTypes: Array<[string, () => KeyObject]> = [
+  ["Ed25519", () => generateKeyPairSync("ed25519").publicKey],
+  [
+    "EC P-256",
+    () => generateKeyPairSync("ec", { namedCurve: "P-256" }).publicKey,
+  ],
+  [
+    "EC P-384",
+    () => generateKeyPairSync("ec", { namedCurve: "P-384" }).publicKey,
+  ],
+  [
+    "RSA 2048",
+    () => generateKeyPairSync("rsa", { modulusLength: 2048 }).publicKey,
+  ],
+];
+
+describe("PEM Conversion", () => {
+  describe.each(keyTypes)("%s", (_name, generate) => {
+    it("should match Node's PEM encoding", () => {
+      const { jwk, pem } = describeKey(generate());
+
+      expect(jwkToPemServer(jwk)).toBe(pem);
+      expect(jwkToPem(jwk)).toBe(pem);
+    });
+
+    it("should import back to the same public key", () => {
+      const { jwk } = describeKey(generate());
+      const imported = createPublicKey(jwkToPem(jwk));
+
+      expect(imported.export({ format: "jwk" })).toEqual(jwk);
+    });
+  });
+
+  it("should encode RSA integers in minimal positive form", () => {
+    // A modulus with its high bit set needs a leading zero byte in DER
+    const { jwk, pem } = describeKey(
+      generateKeyPairSync("rsa", { modulusLength: 1024, publicExponent: 3 })
+        .publicKey,
+    );
+
+    expect(jwkToPem(jwk)).toBe(pem);
+  });
+
+  it("should ignore private members of a JWK", () => {
+    const { privateKey, publicKey } = generateKeyPairSync("ec", {
+      namedCurve: "P-256",
+    });
+
+    expect(jwkToPemServer(privateKey.export({ format: "jwk" }) as JWK)).toBe(
+      describeKey(publicKey).pem,
+    );
+  });
+
+  it("should reject unsupported keys", () => {
+    const p521 = describeKey(
+      generateKeyPairSync("ec", { namedCurve: "P-521" }).publicKey,
+    ).jwk;
+
+    expect(() => jwkToPem(p521)).toThrow("Unsupported key type: EC P-521");
+    expect(() => jwkToPemServer(p521)).toThrow("Unsupported key type");
+    expect(() => jwkToPemServer({ kty: "oct", k: "c2VjcmV0" })).toThrow(
+      "Unsupported key type",
+    );
+    expect(() => jwkToPem({ kty: "EC", crv: "P-256", x: "AA" })).toThrow(
+      "Unsupported key type",
+    );
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Statement signature JWT profile tests
+ * Tests the per-claim checks and the clock-skew policy
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  checkSignatureProfile,
+  checkTimeClaims,
+  checkKeyRevocation,
+  CLOCK_SKEW_SECONDS,
+  SIGNATURE_LIFETIME_SECONDS,
+  STATEMENT_APPROVAL_TYP,
+} from "@/lib/signature-profile";
+
+describe("Signature Profile", () => {
+  const now = 1_700_000_000;
+  const expected = {
+    typ: STATEMENT_APPROVAL_TYP,
+    audience: "localhost",
+    subject: "stmt-1",
+    issuer: "user-1",
+  };
+  const claims = {
+    iss: "user-1",
+    sub: "stmt-1",
+    aud: "localhost",
+    iat: now,
+    exp: now + SIGNATURE_LIFETIME_SECONDS,
+    jti: "token-1",
+  };
+
+  const failedClaims = (checks: { claim: string; valid: boolean }[]) =>
+    checks.filter((check) => !check.valid).map((check) => check.claim);
+
+  it("should pass a conforming token", () => {
+    const checks = checkSignatureProfile(
+      { typ: STATEMENT_APPROVAL_TYP },
+      claims,
+      expected,
+      now,
+    );
+
+    expect(failedClaims(checks)).toEqual([]);
+  });
+
+  it("should report each mismatching claim", () => {
+    const checks = checkSignatureProfile(
+      { typ: "JWT" },
+      { ...claims, iss: "user-2", sub: "stmt-2", aud: ["other"], jti: "" },
+      expected,
+      now,
+    );
+
+    expect(failedClaims(checks)).toEqual(["typ", "iss", "sub", "aud", "jti"]);
+  });
+
+  it("should accept an audience list that contains the RP ID", () => {
+    const checks = checkSignatureProfile(
+      { typ: STATEMENT_APPROVAL_TYP },
+      { ...claims, aud: ["other", "localhost"] },
+      expected,
+      now,
+    );
+
+    expect(failedClaims(checks)).toEqual([]);
+  });
+
+  it("should allow clock skew on iat and exp", () => {
+    const ahead = checkTimeClaims(
+      { iat: now + CLOCK_SKEW_SECONDS, exp: now + 120 },
+      true,
+      now,
+    );
+    const tooFarAhead = checkTimeClaims(
+      { iat: now + CLOCK_SKEW_SECONDS + 1, exp: now + 120 },
+      true,
+      now,
+    );
+    const justExpired = checkTimeClaims(
+      { iat: now - 300, exp: now - CLOCK_SKEW_SECONDS + 1 },
+      true,
+      now,
+    );
+    const expired = checkTimeClaims(
+      { iat: now - 300, exp: now - CLOCK_SKEW_SECONDS },
+      true,
+      now,
+    );
+
+    expect(failedClaims(ahead)).toEqual([]);
+    expect(failedClaims(tooFarAhead)).toEqual(["iat"]);
+    expect(failedClaims(justExpired)).toEqual([]);
+    expect(failedClaims(expired)).toEqual(["exp"]);
+  });
+
+  it("should reject a lifetime longer than the profile allows", () => {
+    const checks = checkTimeClaims(
+      { iat: now, exp: now + SIGNATURE_LIFETIME_SECONDS + 1 },
+      true,
+      now,
+    );
+
+    expect(failedClaims(checks)).toEqual(["exp"]);
+  });
+
+  it("should only require time claims for profile tokens", () => {
+    expect(checkTimeClaims({}, false, now)).toEqual([]);
+    expect(failedClaims(checkTimeClaims({}, true, now))).toEqual([
+      "iat",
+      "exp",
+    ]);
+  });
+
+  it("should treat a JWT from the second of a revocation as made after it", () => {
+    // Revoked half a second into `now`
+    const revokedAt = now * 1000 + 500;
+
+    expect(checkKeyRevocation({ iat: now }, revokedAt).valid).toBe(false);
+    expect(checkKeyRevocation({ iat: now - 1 }, revokedAt).valid).toBe(true);
+    // On the second boundary the whole earlier second came before it
+    expect(checkKeyRevocation({ iat: now - 1 }, now * 1000).valid).toBe(true);
+    expect(checkKeyRevocation({ iat: now }, now * 1000).valid).toBe(false);
+    expect(checkKeyRevocation({ iat: now })).toMatchObject({ valid: true });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Statement lifecycle tests
+ * Tests the allowed state transitions and signing deadline helpers
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import {
+  canTransition,
+  getAllowedTransitions,
+  isStatementState,
+  isTerminalState,
+  parseDeadline,
+  formatTimeRemaining,
+} from "@/lib/statement-lifecycle";
+
+describe("Statement Lifecycle", () => {
+  it("should allow a draft to be opened or withdrawn", () => {
+    expect(getAllowedTransitions("draft")).toEqual(["open", "withdrawn"]);
+    expect(canTransition("draft", "approved")).toBe(false);
+  });
+
+  it("should allow an open statement to reach every outcome", () => {
+    for (const to of [
+      "approved",
+      "rejected",
+      "expired",
+      "withdrawn",
+      "superseded",
+    ] as const) {
+      expect(canTransition("open", to)).toBe(true);
+    }
+    expect(canTransition("open", "draft")).toBe(false);
+  });
+
+  it("should not leave a terminal state", () => {
+    for (const state of [
+      "approved",
+      "rejected",
+      "expired",
+      "withdrawn",
+      "superseded",
+    ] as const) {
+      expect(isTerminalState(state)).toBe(true);
+      expect(canTransition(state, "open")).toBe(false);
+    }
+    expect(isTerminalState("open")).toBe(false);
+  });
+
+  it("should recognise valid state names", () => {
+    expect(isStatementState("open")).toBe(true);
+    expect(isStatementState("pending")).toBe(false);
+    expect(isStatementState(undefined)).toBe(false);
+  });
+
+  describe("Signing deadlines", () => {
+    it("should parse timestamps and ISO dates", () => {
+      expect(parseDeadline(undefined)).toBeUndefined();
+      expect(parseDeadline("")).toBeUndefined();
+      expect(parseDeadline(1767225600000)).toBe(1767225600000);
+      expect(parseDeadline("2026-01-01T00:00:00Z")).toBe(1767225600000);
+      expect(parseDeadline("next week")).toBeNaN();
+    });
+
+    it("should format the time remaining", () => {
+      const now = 0;
+      const minute = 60 * 1000;
+
+      expect(formatTimeRemaining(now + 45 * minute, now)).toBe("45m");
+      expect(formatTimeRemaining(now + 195 * minute, now)).toBe("3h 15m");
+      expect(formatTimeRemaining(now + (52 * 60 + 5) * minute, now)).toBe(
+        "2d 4h",
+      );
+      expect(formatTimeRemaining(now + 10000, now)).toBe("less than a minute");
+    });
+  });
+});
@@ -17,15 +17,16 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { challenge, credentialId } = body;
+    const { challenge, credentialId, credentialIds } = body;
 
     // Challenge is optional - if not provided, the server generates one
     // For login: no challenge needed (server generates)
     // For JWT key attestation: client provides fingerprint as challenge
+    // credentialIds allows any of a user's passkeys
 
     const authenticationOptions = await getAuthenticationOptions(
       challenge,
-      credentialId,
+      credentialIds ?? credentialId,
     );
     return NextResponse.json(authenticationOptions);
   } catch (error) {
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/server";
+import {
+  revokeJWTKey,
+  type RevocationAuthorization,
+} from "@/lib/key-enrollment";
+
+/**
+ * Revoke a JWT signing key
+ * Either the owner's passkey signs the revocation request (challenge =
+ * computeRevocationChallenge({keyId, reason, effectiveAt})), or an admin
+ * sends `Authorization: Bearer <ADMIN_API_TOKEN>`. JWTs issued from
+ * effectiveAt on (default: now) are no longer accepted
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: keyId } = await params;
+    const { reason, effectiveAt, passkeyAssertion } =
+      (await request.json()) as {
+        reason: string;
+        effectiveAt?: number;
+        passkeyAssertion?: AuthenticationResponseJSON;
+      };
+
+    let authorization: RevocationAuthorization;
+    if (passkeyAssertion?.id) {
+      authorization = { revokedBy: "owner", passkeyAssertion };
+    } else if (isAdminRequest(request)) {
+      authorization = { revokedBy: "admin" };
+    } else {
+      return NextResponse.json(
+        { error: "A passkey assertion or the admin token is required" },
+        { status: 401 },
+      );
+    }
+
+    const revocation = await revokeJWTKey(
+      { keyId, reason, effectiveAt: effectiveAt ?? Date.now() },
+      authorization,
+    );
+
+    return NextResponse.json({ success: true, revocation });
+  } catch (error) {
+    console.error("❌ Error revoking JWT key:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to revoke JWT key";
+    return NextResponse.json(
+      { error: message },
+      { status: message.startsWith("JWT key not found") ? 404 : 400 },
+    );
+  }
+}
+
+// Admin revocations are disabled unless ADMIN_API_TOKEN is set
+function isAdminRequest(request: NextRequest): boolean {
+  const token = process.env.ADMIN_API_TOKEN;
+  const header = request.headers.get("authorization");
+  if (!token || !header?.startsWith("Bearer ")) return false;
+
+  const given = Buffer.from(header.slice("Bearer ".length));
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
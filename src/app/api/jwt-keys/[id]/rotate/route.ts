@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/server";
+import { rotateJWTKey, type JWTKeyEnrollment } from "@/lib/key-enrollment";
+
+/**
+ * Rotate a JWT signing key
+ * The owner's passkey attests the new key (challenge = its key binding);
+ * the old key is retired and keeps verifying signatures issued before
+ * the returned validUntil
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: keyId } = await params;
+    const { passkeyAttestation, jwtKeyData } = (await request.json()) as {
+      passkeyAttestation: AuthenticationResponseJSON;
+      jwtKeyData: JWTKeyEnrollment;
+    };
+
+    if (!passkeyAttestation?.id || !jwtKeyData?.keyId) {
+      return NextResponse.json(
+        { error: "passkeyAttestation and jwtKeyData are required" },
+        { status: 400 },
+      );
+    }
+
+    const rotatedKey = await rotateJWTKey(
+      keyId,
+      passkeyAttestation,
+      jwtKeyData,
+    );
+
+    return NextResponse.json({ success: true, ...rotatedKey });
+  } catch (error) {
+    console.error("❌ Error rotating JWT key:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to rotate JWT key";
+    return NextResponse.json(
+      { error: message },
+      { status: message.startsWith("JWT key not found") ? 404 : 400 },
+    );
+  }
+}
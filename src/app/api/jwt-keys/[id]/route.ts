@@ -22,6 +22,8 @@ export async function GET(
       keyId: jwtKey.keyId,
       publicKeyJWK: jwtKey.publicKeyJWK,
       publicKeyFingerprint: jwtKey.publicKeyFingerprint,
+      legacyFingerprint: jwtKey.legacyFingerprint,
+      keyBinding: jwtKey.keyBinding,
       passkeyAttestation: {
         id: jwtKey.passkeyAttestation.id,
         rawId: jwtKey.passkeyAttestation.rawId,
@@ -29,6 +31,14 @@ export async function GET(
         type: jwtKey.passkeyAttestation.type,
       },
       passkeyPublicKey: jwtKey.passkeyPublicKey,
+      createdAt: jwtKey.createdAt,
+      validUntil: jwtKey.validUntil,
+      revokedAt: jwtKey.revokedAt,
+      revocationReason: jwtKey.revocationReason,
+      userId: jwtKey.userId,
+      deviceId: jwtKey.deviceId,
+      deviceLabel: jwtKey.deviceLabel,
+      lastUsedAt: jwtKey.lastUsedAt,
     });
   } catch (error) {
     console.error("❌ Error fetching JWT key:", error);
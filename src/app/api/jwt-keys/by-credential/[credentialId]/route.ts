@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { getJWTKeyByCredentialId } from "@/lib/database";
 
 /**
- * Get JWT key information by credential ID
- * Used when logging in to fetch a user's JWT key
+ * Get public JWT key information by credential ID
+ * Returns the most recently enrolled key attested by this passkey; private
+ * keys are never stored on the server
  */
 export async function GET(
   request: NextRequest,
@@ -23,14 +24,12 @@ export async function GET(
       );
     }
 
-    // Return the key information including private key JWK for session restoration
     return NextResponse.json({
       success: true,
       key: {
         keyId: jwtKey.keyId,
         credentialId: jwtKey.credentialId,
         publicKeyJWK: jwtKey.publicKeyJWK,
-        privateKeyJWK: jwtKey.privateKeyJWK,
         publicKeyFingerprint: jwtKey.publicKeyFingerprint,
         createdAt: jwtKey.createdAt,
       },
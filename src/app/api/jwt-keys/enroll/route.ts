@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/server";
+import { enrollJWTKey, type JWTKeyEnrollment } from "@/lib/key-enrollment";
+
+/**
+ * Enrol the JWT signing key of a new device
+ * Used when logging in on a device that holds no key for the user: the
+ * device generates a key pair, its passkey signs the key binding (public key
+ * fingerprint, owner, validity period and permitted actions) and only the
+ * public key, the binding and that attestation are sent here
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { passkeyAttestation, jwtKeyData } = (await request.json()) as {
+      passkeyAttestation: AuthenticationResponseJSON;
+      jwtKeyData: JWTKeyEnrollment;
+    };
+
+    if (!passkeyAttestation?.id || !jwtKeyData?.keyId) {
+      return NextResponse.json(
+        { error: "passkeyAttestation and jwtKeyData are required" },
+        { status: 400 },
+      );
+    }
+
+    const enrolledKey = await enrollJWTKey(passkeyAttestation, jwtKeyData);
+
+    return NextResponse.json({ success: true, ...enrolledKey });
+  } catch (error) {
+    console.error("❌ Error enrolling JWT key:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to enrol JWT key",
+      },
+      { status: 400 },
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { listKeyRevocations } from "@/lib/key-enrollment";
+
+/**
+ * Key revocation list
+ * Every revoked signing key with its reason and effective time; owner
+ * revocations include the passkey assertion that authorized them
+ */
+export async function GET() {
+  try {
+    const revocations = await listKeyRevocations();
+    return NextResponse.json({
+      success: true,
+      generatedAt: Date.now(),
+      revocations,
+    });
+  } catch (error) {
+    console.error("❌ Error fetching key revocations:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch key revocations",
+      },
+      { status: 500 },
+    );
+  }
+}
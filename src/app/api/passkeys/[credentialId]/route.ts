@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/server";
+import { removeUserPasskey } from "@/lib/user-management";
+
+/**
+ * Remove one of a user's passkeys
+ * passkeyAssertion comes from one of the user's passkeys over
+ * computePasskeyChangeChallenge({ action: "remove-passkey", userId,
+ * credentialId })
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ credentialId: string }> },
+) {
+  try {
+    const { credentialId } = await params;
+    const { userId, passkeyAssertion } = (await request.json()) as {
+      userId: string;
+      passkeyAssertion: AuthenticationResponseJSON;
+    };
+
+    if (!userId || !passkeyAssertion?.id) {
+      return NextResponse.json(
+        { error: "userId and passkeyAssertion are required" },
+        { status: 400 },
+      );
+    }
+
+    await removeUserPasskey(userId, credentialId, passkeyAssertion);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("❌ Error removing passkey:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to remove passkey";
+    return NextResponse.json(
+      { error: message },
+      { status: message.startsWith("Passkey not found") ? 404 : 400 },
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/server";
+import { getPasskeyRegistrationOptions } from "@/lib/user-management";
+
+/**
+ * Registration options for another passkey of an existing user
+ * passkeyAssertion comes from one of the user's existing passkeys over
+ * computePasskeyOptionsChallenge({ userId, requestedAt }); the user's
+ * current passkeys are excluded
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, requestedAt, passkeyAssertion } =
+      (await request.json()) as {
+        userId: string;
+        requestedAt: number;
+        passkeyAssertion: AuthenticationResponseJSON;
+      };
+
+    if (!userId || typeof requestedAt !== "number" || !passkeyAssertion?.id) {
+      return NextResponse.json(
+        { error: "userId, requestedAt and passkeyAssertion are required" },
+        { status: 400 },
+      );
+    }
+
+    const registrationOptions = await getPasskeyRegistrationOptions(
+      { userId, requestedAt },
+      passkeyAssertion,
+    );
+
+    return NextResponse.json(registrationOptions);
+  } catch (error) {
+    console.error("❌ Error generating passkey options:", error);
+    const message =
+      error instanceof Error
+        ? error.message
+        : "Failed to generate registration options";
+    return NextResponse.json(
+      { error: message },
+      { status: message.startsWith("User not found") ? 404 : 400 },
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { addUserPasskey, listUserPasskeys } from "@/lib/user-management";
+
+/**
+ * List a user's passkeys (?userId=...)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = request.nextUrl.searchParams.get("userId");
+    if (!userId) {
+      return NextResponse.json(
+        { error: "userId is required" },
+        { status: 400 },
+      );
+    }
+
+    const passkeys = await listUserPasskeys(userId);
+
+    return NextResponse.json({ success: true, passkeys });
+  } catch (error) {
+    console.error("❌ Error listing passkeys:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to list passkeys";
+    return NextResponse.json(
+      { error: message },
+      { status: message.startsWith("User not found") ? 404 : 500 },
+    );
+  }
+}
+
+/**
+ * Add another passkey to a user
+ * registrationResponse answers the options from POST /api/passkeys/options;
+ * passkeyAssertion comes from one of the user's existing passkeys over
+ * computePasskeyChangeChallenge({ action: "add-passkey", userId,
+ * credentialId: registrationResponse.id })
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, registrationResponse, passkeyAssertion, label } =
+      (await request.json()) as {
+        userId: string;
+        registrationResponse: RegistrationResponseJSON;
+        passkeyAssertion: AuthenticationResponseJSON;
+        label?: string;
+      };
+
+    if (!userId || !registrationResponse?.id || !passkeyAssertion?.id) {
+      return NextResponse.json(
+        {
+          error:
+            "userId, registrationResponse and passkeyAssertion are required",
+        },
+        { status: 400 },
+      );
+    }
+
+    const passkey = await addUserPasskey(
+      userId,
+      registrationResponse,
+      passkeyAssertion,
+      label,
+    );
+
+    return NextResponse.json({ success: true, passkey });
+  } catch (error) {
+    console.error("❌ Error adding passkey:", error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Failed to add passkey",
+      },
+      { status: 400 },
+    );
+  }
+}
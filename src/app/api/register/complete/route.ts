@@ -1,35 +1,32 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getDatabase, getCredential, saveJWTKey } from "@/lib/database";
+import { getDatabase, getUser } from "@/lib/database";
 import { verifyRegistration } from "@/lib/registry";
 import { createOrUpdateUser } from "@/lib/user-management";
 import {
-  verifyAuthenticationResponse,
-  type RegistrationResponseJSON,
-  type AuthenticationResponseJSON,
+  saveJWTKeyEnrollment,
+  verifyJWTKeyEnrollment,
+  type JWTKeyEnrollment,
+} from "@/lib/key-enrollment";
+import type {
+  RegistrationResponseJSON,
+  AuthenticationResponseJSON,
 } from "@simplewebauthn/server";
-import { isoBase64URL } from "@simplewebauthn/server/helpers";
-import { jwkToPemServer } from "@/lib/pem-utils";
-import type { JWK } from "jose";
-import { getWebAuthnConfig, getExpectedOrigin } from "@/lib/webauthn-config";
+import { verifyPublicKeyFingerprint } from "@/lib/key-thumbprint";
 
 interface RegisterCompleteRequest {
   registrationResponse: RegistrationResponseJSON;
   name: string;
   role: "creator" | "investor";
   passkeyAttestation: AuthenticationResponseJSON;
-  jwtKeyData: {
-    keyId: string;
-    publicKeyJWK: JWK;
-    privateKeyJWK?: JWK;
-    publicKeyFingerprint: string;
-  };
+  // Public key material only; the private key never leaves the device
+  jwtKeyData: JWTKeyEnrollment;
 }
 
 /**
  * Combined registration endpoint that handles:
  * 1. Passkey verification
- * 2. User creation
- * 3. JWT key registration with passkey attestation
+ * 2. Verification of the JWT key's passkey attestation (public key only)
+ * 3. User creation and JWT key registration
  *
  * This reduces the registration flow from 5 API calls to just 2
  * (POST /api/credentials for options + this endpoint)
@@ -69,13 +66,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The key binding names the fingerprint, so it must belong to this key
+    if (
+      !(await verifyPublicKeyFingerprint(
+        jwtKeyData.publicKeyJWK,
+        jwtKeyData.publicKeyFingerprint,
+      ))
+    ) {
+      return NextResponse.json(
+        { error: "JWT key fingerprint does not match its public key" },
+        { status: 400 },
+      );
+    }
+
     // Step 1: Verify passkey registration
     console.log("🔐 Step 1: Verifying passkey registration...");
 
+    // Only sign-up options: options for another passkey of an existing user
+    // go through POST /api/passkeys
     const db = await getDatabase();
     const pendingRegs = db
       .prepare(
-        "SELECT user_id FROM pending_passkey_registrations ORDER BY created_at DESC",
+        "SELECT user_id FROM pending_passkey_registrations WHERE purpose = 'sign-up' ORDER BY created_at DESC",
       )
       .all() as Array<{ user_id: string }>;
 
@@ -114,67 +126,61 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Registration creates a user; it never takes over an existing one
+    if (await getUser(successfulUserId)) {
+      return NextResponse.json(
+        { error: "User already exists" },
+        { status: 400 },
+      );
+    }
+
     const credentialId = registrationResponse.id;
     console.log("✅ Passkey registration verified:", credentialId);
 
-    // Step 2: Create user
-    console.log("👤 Step 2: Creating user...");
-    const user = await createOrUpdateUser(name, role, credentialId);
-    console.log("✅ User created:", user.userId);
-
-    // Step 3: Verify passkey attestation for JWT key
-    console.log("🔑 Step 3: Verifying JWT key attestation...");
+    // Step 2: Verify the passkey attestation of the JWT public key (the
+    // private key stays on the user's device), before anything is saved
+    // for the user
+    console.log("🔑 Step 2: Verifying attested JWT key...");
 
-    const credential = await getCredential(credentialId);
-    if (!credential) {
+    if (passkeyAttestation.id !== credentialId) {
       return NextResponse.json(
-        { error: "Credential not found after registration" },
-        { status: 500 },
+        { error: "JWT key must be attested by the registered passkey" },
+        { status: 400 },
       );
     }
 
-    const expectedOrigin = await getExpectedOrigin();
-    const { rpId } = getWebAuthnConfig();
-
-    const attestationResult = await verifyAuthenticationResponse({
-      response: passkeyAttestation,
-      expectedChallenge: jwtKeyData.publicKeyFingerprint,
-      expectedOrigin,
-      expectedRPID: rpId,
-      credential: {
-        id: credentialId,
-        publicKey: isoBase64URL.toBuffer(credential.publicKey),
-        counter: credential.counter,
-        transports: credential.transports,
-      },
-    });
-
-    if (!attestationResult.verified) {
+    let enrolledKey;
+    try {
+      // Same ID as in the registration options: the key binding names it
+      enrolledKey = await verifyJWTKeyEnrollment(
+        passkeyAttestation,
+        jwtKeyData,
+        successfulUserId,
+      );
+    } catch (error) {
       return NextResponse.json(
-        { error: "JWT key attestation verification failed" },
+        {
+          error:
+            error instanceof Error
+              ? error.message
+              : "JWT key attestation verification failed",
+        },
         { status: 400 },
       );
     }
-
     console.log("✅ JWT key attestation verified");
 
-    // Step 4: Save JWT key
-    console.log("💾 Step 4: Saving JWT key...");
-    const publicKeyPEM = jwkToPemServer(jwtKeyData.publicKeyJWK);
-
-    await saveJWTKey(
-      jwtKeyData.keyId,
-      user.userId,
+    // Step 3: Create the user and save the key
+    console.log("👤 Step 3: Creating user...");
+    const user = await createOrUpdateUser(
+      name,
+      role,
       credentialId,
-      JSON.stringify(jwtKeyData.publicKeyJWK),
-      publicKeyPEM,
-      jwtKeyData.publicKeyFingerprint,
-      JSON.stringify(passkeyAttestation),
-      jwtKeyData.privateKeyJWK
-        ? JSON.stringify(jwtKeyData.privateKeyJWK)
-        : undefined,
+      successfulUserId,
     );
+    console.log("✅ User created:", user.userId);
 
+    await saveJWTKeyEnrollment(passkeyAttestation, jwtKeyData, enrolledKey);
     console.log("✅ Registration complete!");
 
     return NextResponse.json({
@@ -185,8 +191,8 @@ export async function POST(request: NextRequest) {
         role: user.role,
         credentialId: user.credentialId,
       },
-      keyId: jwtKeyData.keyId,
-      publicKeyPEM,
+      keyId: enrolledKey.keyId,
+      publicKeyPEM: enrolledKey.publicKeyPEM,
     });
   } catch (error) {
     console.error("❌ Registration error:", error);
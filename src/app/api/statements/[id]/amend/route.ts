@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { amendStatement } from "@/lib/statements";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { editorId, title, content } = body;
+
+    if (!editorId || typeof content !== "string" || !content) {
+      return NextResponse.json(
+        { error: "editorId and content are required" },
+        { status: 400 },
+      );
+    }
+
+    const statement = await amendStatement(id, editorId, { title, content });
+
+    return NextResponse.json({
+      success: true,
+      statement,
+    });
+  } catch (error) {
+    console.error("Error amending statement:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to amend statement",
+      },
+      { status: 500 },
+    );
+  }
+}
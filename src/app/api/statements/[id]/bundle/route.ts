@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getVerificationBundle } from "@/lib/statements";
+import { getWebAuthnConfig, getExpectedOrigin } from "@/lib/webauthn-config";
+
+// Served as a download: the bundle is meant to be archived with the statement
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const bundle = await getVerificationBundle(id, {
+      rpId: getWebAuthnConfig().rpId,
+      origin: await getExpectedOrigin(),
+    });
+
+    return NextResponse.json(bundle, {
+      headers: {
+        "Content-Disposition": `attachment; filename="statement-${id}-bundle.json"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error building verification bundle:", error);
+    const message =
+      error instanceof Error
+        ? error.message
+        : "Failed to build verification bundle";
+    return NextResponse.json(
+      { error: message },
+      { status: message === "Statement not found" ? 404 : 400 },
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getApprovalCertificate } from "@/lib/statements";
+
+// Serves the bare JWS document so that standard JOSE tooling can consume it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const certificate = await getApprovalCertificate(id);
+
+    return NextResponse.json(certificate, {
+      headers: { "Content-Type": "application/jose+json" },
+    });
+  } catch (error) {
+    console.error("Error building approval certificate:", error);
+    const message =
+      error instanceof Error
+        ? error.message
+        : "Failed to build approval certificate";
+    return NextResponse.json(
+      { error: message },
+      { status: message === "Statement not found" ? 404 : 400 },
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { issueSigningNonce } from "@/lib/replay-protection";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const { nonce, expiresAt } = await issueSigningNonce(id);
+
+    return NextResponse.json({
+      success: true,
+      nonce,
+      expiresAt,
+    });
+  } catch (error) {
+    console.error("Error issuing signing nonce:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to issue signing nonce",
+      },
+      { status: 500 },
+    );
+  }
+}
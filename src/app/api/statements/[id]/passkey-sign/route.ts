@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStatementById, signStatementWithPasskey } from "@/lib/statements";
+import { getAuthenticationOptions } from "@/lib/authentication";
+import { getUserCredentials } from "@/lib/database";
+import { issueSigningNonce } from "@/lib/replay-protection";
+import { computePasskeyApprovalChallenge } from "@/lib/passkey-approval";
+
+/**
+ * Authentication options for a direct passkey signature by ?userId=
+ * The challenge is the hash of the approval request, with a signing nonce
+ * issued for the statement (returned alongside); only that user's passkeys
+ * are allowed
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: statementId } = await params;
+    const userId = request.nextUrl.searchParams.get("userId");
+    if (!userId) {
+      return NextResponse.json(
+        { error: "userId is required" },
+        { status: 400 },
+      );
+    }
+
+    const statement = await getStatementById(statementId);
+    if (!statement) {
+      return NextResponse.json(
+        { error: "Statement not found" },
+        { status: 404 },
+      );
+    }
+
+    if (statement.signingMethod !== "passkey") {
+      return NextResponse.json(
+        { error: "Statement is not signed directly with passkeys" },
+        { status: 400 },
+      );
+    }
+
+    if (statement.status !== "open") {
+      return NextResponse.json(
+        { error: `Statement is ${statement.status}, not open for signing` },
+        { status: 400 },
+      );
+    }
+
+    const { nonce } = await issueSigningNonce(statementId);
+    const credentialIds = (await getUserCredentials(userId)).map(
+      (c) => c.credentialId,
+    );
+    const authenticationOptions = await getAuthenticationOptions(
+      await computePasskeyApprovalChallenge({
+        statementId,
+        contentHash: statement.contentHash,
+        userId,
+        nonce,
+      }),
+      credentialIds,
+    );
+    // The signature must come from the verified passkey owner
+    authenticationOptions.userVerification = "required";
+
+    return NextResponse.json({ ...authenticationOptions, nonce });
+  } catch (error) {
+    console.error("Error generating passkey signing options:", error);
+    return NextResponse.json(
+      { error: "Failed to generate passkey signing options" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Approve a statement with a passkey assertion over its approval request
+ * The signer is the owner of the passkey that made the assertion; nonce is
+ * the one issued with the options.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: statementId } = await params;
+    const { passkeyAssertion, nonce } = await request.json();
+
+    if (
+      !passkeyAssertion?.id ||
+      !passkeyAssertion?.response?.signature ||
+      typeof nonce !== "string"
+    ) {
+      return NextResponse.json(
+        { error: "passkeyAssertion and nonce are required" },
+        { status: 400 },
+      );
+    }
+
+    const { signatureId, userId } = await signStatementWithPasskey(
+      statementId,
+      passkeyAssertion,
+      nonce,
+    );
+
+    return NextResponse.json({
+      success: true,
+      signatureId: signatureId.toString(),
+      userId,
+    });
+  } catch (error) {
+    console.error("Error signing statement with passkey:", error);
+    const message =
+      error instanceof Error
+        ? error.message
+        : "Failed to sign statement with passkey";
+    return NextResponse.json(
+      { error: message },
+      { status: message === "Statement not found" ? 404 : 400 },
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withdrawSignature } from "@/lib/statements";
+import { verifyPasskeyJWT } from "@/lib/jwt-passkey-verifier";
+import { STATEMENT_REVOCATION_TYP } from "@/lib/signature-profile";
+import { checkReplay } from "@/lib/replay-protection";
+import { getUserByCredentialId } from "@/lib/database";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: statementId } = await params;
+    const body = await request.json();
+    const { jwt } = body;
+
+    if (!jwt) {
+      return NextResponse.json({ error: "jwt is required" }, { status: 400 });
+    }
+
+    // 1. Verify the revocation JWT signature, authorization and profile
+    // claims (sub must be this statement)
+    const verificationResult = await verifyPasskeyJWT(jwt, {
+      statementId,
+      typ: STATEMENT_REVOCATION_TYP,
+    });
+
+    if (!verificationResult.valid || !verificationResult.credentialId) {
+      console.error("Revocation JWT verification failed:", verificationResult);
+      return NextResponse.json(
+        { error: verificationResult.error || "Invalid JWT signature" },
+        { status: 401 },
+      );
+    }
+
+    // 2. The token must revoke a signature on this statement
+    const { action } = verificationResult.payload ?? {};
+    if (action !== "revoke") {
+      return NextResponse.json(
+        { error: "JWT is not a revocation for this statement" },
+        { status: 400 },
+      );
+    }
+
+    // 3. Each revocation JWT is accepted once
+    const replayError = await checkReplay(verificationResult.payload ?? {}, {
+      statementId,
+      keyId: verificationResult.keyId!,
+      requireNonce: false,
+    });
+    if (replayError) {
+      return NextResponse.json({ error: replayError }, { status: 400 });
+    }
+
+    // 4. Derive user from the verified credential ID
+    const user = await getUserByCredentialId(verificationResult.credentialId);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found for this credential" },
+        { status: 404 },
+      );
+    }
+
+    // 5. Withdraw the user's signature, keeping both JWTs
+    await withdrawSignature(statementId, user.userId, jwt);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error withdrawing signature:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to withdraw signature",
+      },
+      { status: 500 },
+    );
+  }
+}
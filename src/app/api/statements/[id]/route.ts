@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getStatementById } from "@/lib/statements";
+import { getStatementById, updateDraftStatement } from "@/lib/statements";
+import { parseDeadline } from "@/lib/statement-lifecycle";
 
 export async function GET(
   request: NextRequest,
@@ -32,3 +33,50 @@ export async function GET(
     );
   }
 }
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const {
+      editorId,
+      title,
+      content,
+      requiredSignatures,
+      requiredWeight,
+      expiresAt,
+    } = body;
+
+    if (!editorId) {
+      return NextResponse.json(
+        { error: "editorId is required" },
+        { status: 400 },
+      );
+    }
+
+    const statement = await updateDraftStatement(id, editorId, {
+      title,
+      content,
+      requiredSignatures,
+      requiredWeight,
+      expiresAt: parseDeadline(expiresAt),
+    });
+
+    return NextResponse.json({
+      success: true,
+      statement,
+    });
+  } catch (error) {
+    console.error("Error updating statement:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to update statement",
+      },
+      { status: 500 },
+    );
+  }
+}
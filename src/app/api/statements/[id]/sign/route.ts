@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { signStatement } from "@/lib/statements";
+import { signStatement, getStatementById } from "@/lib/statements";
 import { verifyPasskeyJWT } from "@/lib/jwt-passkey-verifier";
-import { getUserByCredentialId } from "@/lib/database";
+import { getUserByCredentialId, getJWTKey } from "@/lib/database";
+import { isSignatureDecision } from "@/lib/statement-lifecycle";
+import { checkReplay } from "@/lib/replay-protection";
+import { verifyContentSignature } from "@/lib/approval-certificate";
+import { importSigningKey } from "@/lib/signing-algorithms";
 
 export async function POST(
   request: NextRequest,
@@ -10,24 +14,49 @@ export async function POST(
   try {
     const { id: statementId } = await params;
     const body = await request.json();
-    const { jwt } = body;
+    const { jwt, contentSignature } = body;
 
     if (!jwt) {
       return NextResponse.json({ error: "jwt is required" }, { status: 400 });
     }
 
-    // 1. Verify the JWT signature and authorization
-    const verificationResult = await verifyPasskeyJWT(jwt);
+    const statement = await getStatementById(statementId);
+    if (!statement) {
+      return NextResponse.json(
+        { error: "Statement not found" },
+        { status: 404 },
+      );
+    }
+
+    // 1. Verify the JWT signature, authorization, profile claims and that
+    // it was signed for exactly this statement's content
+    const verificationResult = await verifyPasskeyJWT(jwt, {
+      statementId,
+      contentHash: statement.contentHash,
+    });
 
     if (!verificationResult.valid || !verificationResult.credentialId) {
       console.error("JWT verification failed:", verificationResult);
+      // A valid signature whose claims were rejected is a bad request
+      const claimsRejected =
+        verificationResult.jwtVerified && verificationResult.keyAuthorized;
       return NextResponse.json(
         { error: verificationResult.error || "Invalid JWT signature" },
-        { status: 401 },
+        { status: claimsRejected ? 400 : 401 },
       );
     }
 
-    // 2. Derive user from the verified credential ID
+    // 2. Consume the signing nonce and register the jti, once per JWT
+    const replayError = await checkReplay(verificationResult.payload ?? {}, {
+      statementId,
+      keyId: verificationResult.keyId!,
+      requireNonce: true,
+    });
+    if (replayError) {
+      return NextResponse.json({ error: replayError }, { status: 400 });
+    }
+
+    // 3. Derive user from the verified credential ID
     const user = await getUserByCredentialId(verificationResult.credentialId);
 
     if (!user) {
@@ -37,7 +66,7 @@ export async function POST(
       );
     }
 
-    // 3. Extract signature from JWT (3rd part)
+    // 4. Extract signature from JWT (3rd part)
     const parts = jwt.split(".");
     if (parts.length !== 3) {
       return NextResponse.json(
@@ -47,12 +76,76 @@ export async function POST(
     }
     const signature = parts[2];
 
-    // 4. Save the signature
+    // 5. Read the signed decision (tokens without the claim are approvals)
+    const {
+      decision = "approve",
+      reason,
+      action,
+    } = verificationResult.payload ?? {};
+    if (action !== undefined) {
+      return NextResponse.json(
+        { error: "JWT is not a signature" },
+        { status: 400 },
+      );
+    }
+    if (!isSignatureDecision(decision)) {
+      return NextResponse.json(
+        { error: 'decision claim must be "approve" or "decline"' },
+        { status: 400 },
+      );
+    }
+    if (reason !== undefined && typeof reason !== "string") {
+      return NextResponse.json(
+        { error: "reason claim must be a string" },
+        { status: 400 },
+      );
+    }
+
+    // 6. Approvals also sign the canonical content for the certificate
+    if (decision === "approve") {
+      if (
+        typeof contentSignature?.protected !== "string" ||
+        typeof contentSignature?.signature !== "string"
+      ) {
+        return NextResponse.json(
+          { error: "contentSignature is required for approvals" },
+          { status: 400 },
+        );
+      }
+
+      const jwtKey = await getJWTKey(verificationResult.keyId!);
+      const { algorithm, publicKey } = await importSigningKey(
+        jwtKey!.publicKeyJWK,
+      );
+      const contentSignatureError = await verifyContentSignature(
+        statement.content,
+        contentSignature,
+        verificationResult.keyId!,
+        publicKey,
+        algorithm,
+      );
+      if (contentSignatureError) {
+        return NextResponse.json(
+          { error: contentSignatureError },
+          { status: 400 },
+        );
+      }
+    }
+
+    // 7. Save the signature
     const signatureId = await signStatement(
       statementId,
       user.userId,
       signature,
       jwt,
+      decision,
+      reason,
+      decision === "approve"
+        ? {
+            protected: contentSignature.protected,
+            signature: contentSignature.signature,
+          }
+        : undefined,
     );
 
     return NextResponse.json({
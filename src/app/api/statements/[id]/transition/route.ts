@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { transitionStatementState } from "@/lib/statements";
+import { isStatementState } from "@/lib/statement-lifecycle";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: statementId } = await params;
+    const body = await request.json();
+    const { to, actorId, reason } = body;
+
+    if (!isStatementState(to) || !actorId) {
+      return NextResponse.json(
+        { error: "A valid target state and actorId are required" },
+        { status: 400 },
+      );
+    }
+
+    const statement = await transitionStatementState(
+      statementId,
+      to,
+      actorId,
+      typeof reason === "string" && reason.trim() ? reason.trim() : undefined,
+    );
+
+    return NextResponse.json({
+      success: true,
+      statement,
+    });
+  } catch (error) {
+    console.error("Error changing statement state:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to change statement state",
+      },
+      { status: 500 },
+    );
+  }
+}
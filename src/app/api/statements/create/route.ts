@@ -1,10 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createStatement } from "@/lib/statements";
+import { parseDeadline } from "@/lib/statement-lifecycle";
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { title, content, creatorId } = body;
+    const {
+      title,
+      content,
+      creatorId,
+      requiredSignatures,
+      requiredWeight,
+      eligibleSigners,
+      signerIds,
+      signerWeights,
+      policy,
+      draft,
+      expiresAt,
+      signingMethod,
+    } = body;
 
     if (!content || !creatorId) {
       return NextResponse.json(
@@ -13,7 +27,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const statement = await createStatement(content, creatorId, title);
+    if (signerIds !== undefined && !Array.isArray(signerIds)) {
+      return NextResponse.json(
+        { error: "signerIds must be an array of user IDs" },
+        { status: 400 },
+      );
+    }
+
+    // Thresholds are counts (or weights) of signers
+    const counts = { requiredSignatures, requiredWeight, eligibleSigners };
+    for (const [name, value] of Object.entries(counts)) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        return NextResponse.json(
+          { error: `${name} must be a positive integer` },
+          { status: 400 },
+        );
+      }
+    }
+
+    const statement = await createStatement(content, creatorId, {
+      title,
+      requiredSignatures,
+      requiredWeight,
+      eligibleSigners,
+      signerIds,
+      signerWeights,
+      policy,
+      draft: draft === true,
+      expiresAt: parseDeadline(expiresAt),
+      signingMethod,
+    });
 
     return NextResponse.json({
       success: true,
@@ -1,9 +1,25 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getStatements } from "@/lib/statements";
+import { isStatementState } from "@/lib/statement-lifecycle";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const statements = await getStatements();
+    // Optional comma-separated state filter, e.g. ?state=open,approved
+    const stateParam = request.nextUrl.searchParams.get("state");
+    const states = stateParam ? stateParam.split(",") : undefined;
+
+    if (states && !states.every(isStatementState)) {
+      return NextResponse.json(
+        { error: `Unknown statement state: ${stateParam}` },
+        { status: 400 },
+      );
+    }
+
+    // ?hideExpired=true leaves out statements past their signing deadline
+    const hideExpired =
+      request.nextUrl.searchParams.get("hideExpired") === "true";
+
+    const statements = await getStatements({ states, hideExpired });
 
     return NextResponse.json({
       success: true,
@@ -20,13 +20,78 @@ interface JWTKey {
   publicKeyJWK: Record<string, unknown>;
   publicKeyPEM: string;
   publicKeyFingerprint: string;
+  // Hex fingerprint the passkey signed before RFC 7638 thumbprints
+  legacyFingerprint?: string;
   passkeyAttestation: Record<string, unknown>;
   createdAt: number;
+  // Set once the key was rotated out
+  validUntil?: number;
+  revokedAt?: number;
+  revocationReason?: string;
+  deviceId?: string;
+  deviceLabel?: string;
+  lastUsedAt?: number;
+  // What the passkey attested (keys enrolled before bindings have none)
+  keyBinding?: {
+    notBefore: number;
+    notAfter: number;
+    actions: string[];
+  };
+}
+
+// The keys one device has held (rotations keep the device ID)
+interface DeviceKeys {
+  deviceId?: string;
+  deviceLabel: string;
+  lastUsedAt?: number;
+  keys: JWTKey[];
+}
+
+// Keys enrolled before devices were recorded share one "unknown" group
+function groupKeysByDevice(keys: JWTKey[]): DeviceKeys[] {
+  const devices = new Map<string | undefined, DeviceKeys>();
+  for (const key of keys) {
+    const device = devices.get(key.deviceId) ?? {
+      deviceId: key.deviceId,
+      deviceLabel: "Unknown device",
+      keys: [],
+    };
+    device.keys.push(key);
+    // Keys are oldest first, so the latest label wins
+    device.deviceLabel = key.deviceLabel ?? device.deviceLabel;
+    if (key.lastUsedAt !== undefined) {
+      device.lastUsedAt = Math.max(device.lastUsedAt ?? 0, key.lastUsedAt);
+    }
+    devices.set(key.deviceId, device);
+  }
+  return [...devices.values()];
+}
+
+const KEY_STATUS_STYLES = {
+  ACTIVE: {
+    border: "border-green-500",
+    badge:
+      "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200",
+  },
+  RETIRED: {
+    border: "border-gray-300 dark:border-gray-600 opacity-75",
+    badge: "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300",
+  },
+  REVOKED: {
+    border: "border-red-500 opacity-75",
+    badge: "bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200",
+  },
+};
+
+function getKeyStatus(key: JWTKey): keyof typeof KEY_STATUS_STYLES {
+  if (key.revokedAt !== undefined) return "REVOKED";
+  return key.validUntil === undefined ? "ACTIVE" : "RETIRED";
 }
 
 export default function KeysPage() {
   const [users, setUsers] = useState<User[]>([]);
-  const [keys, setKeys] = useState<Map<string, JWTKey>>(new Map());
+  // Full key history per user, oldest first
+  const [keys, setKeys] = useState<Map<string, JWTKey[]>>(new Map());
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -36,20 +101,18 @@ export default function KeysPage() {
   const loadData = async () => {
     try {
       // Load users from database
-      const { getAllUsers, getJWTKeyByUserId } = await import("@/lib/database");
+      const { getAllUsers, getJWTKeysByUserId } =
+        await import("@/lib/database");
       const usersData = await getAllUsers();
       setUsers(usersData);
 
-      // Load JWT keys for each user
-      const keysMap = new Map<string, JWTKey>();
+      // Load the JWT key history of each user
+      const keysMap = new Map<string, JWTKey[]>();
       for (const user of usersData) {
         try {
-          const key = await getJWTKeyByUserId(user.user_id);
-          if (key) {
-            keysMap.set(user.user_id, key);
-          }
+          keysMap.set(user.user_id, await getJWTKeysByUserId(user.user_id));
         } catch (error) {
-          console.error(`Failed to load key for user ${user.user_id}:`, error);
+          console.error(`Failed to load keys for user ${user.user_id}:`, error);
         }
       }
       setKeys(keysMap);
@@ -72,7 +135,8 @@ export default function KeysPage() {
           </Link>
           <h1 className="text-3xl font-bold mb-2">Registered Users & Keys</h1>
           <p className="text-gray-600 dark:text-gray-400">
-            Registry of all users and their passkey-attested JWT signing keys.
+            Registry of all users and their passkey-attested JWT signing keys,
+            grouped by the device that holds them.
           </p>
         </div>
 
@@ -88,7 +152,7 @@ export default function KeysPage() {
             ) : (
               <div className="space-y-6">
                 {users.map((user) => {
-                  const key = keys.get(user.user_id);
+                  const userKeys = keys.get(user.user_id) ?? [];
                   return (
                     <div
                       key={user.user_id}
@@ -116,57 +180,151 @@ export default function KeysPage() {
                         </div>
                       </div>
 
-                      {key ? (
-                        <div className="space-y-3">
-                          <div>
-                            <p className="text-sm font-medium mb-1">
-                              JWT Key ID:
-                            </p>
-                            <code className="block bg-gray-50 dark:bg-gray-900 p-2 rounded text-xs break-all">
-                              {key.keyId}
-                            </code>
-                          </div>
-                          <div>
-                            <p className="text-sm font-medium mb-1">
-                              Public Key (PEM):
-                            </p>
-                            <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto">
-                              {key.publicKeyPEM}
-                            </pre>
-                          </div>
-                          <div>
-                            <p className="text-sm font-medium mb-1">
-                              Public Key JWK:
-                            </p>
-                            <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto">
-                              {JSON.stringify(key.publicKeyJWK, null, 2)}
-                            </pre>
-                          </div>
-                          <div>
-                            <p className="text-sm font-medium mb-1">
-                              Fingerprint:
-                            </p>
-                            <code className="block bg-gray-50 dark:bg-gray-900 p-2 rounded text-xs break-all">
-                              {key.publicKeyFingerprint}
-                            </code>
-                          </div>
-                          <div>
-                            <p className="text-sm font-medium mb-1">
-                              Passkey Attestation (WebAuthn Assertion):
-                            </p>
-                            <details className="group">
-                              <summary className="cursor-pointer text-xs text-blue-600 dark:text-blue-400 hover:underline mb-2 select-none">
-                                Show/Hide Attestation JSON
-                              </summary>
-                              <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto max-h-60">
-                                {JSON.stringify(
-                                  key.passkeyAttestation,
-                                  null,
-                                  2,
-                                )}
-                              </pre>
-                            </details>
-                          </div>
+                      {userKeys.length > 0 ? (
+                        <div className="space-y-4">
+                          {groupKeysByDevice(userKeys).map((device) => (
+                            <div
+                              key={device.deviceId ?? "unknown"}
+                              className="rounded-lg bg-gray-50 dark:bg-gray-900/40 p-3 space-y-4"
+                            >
+                              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                                <h4 className="font-semibold">
+                                  {device.deviceLabel}
+                                  {device.deviceId && (
+                                    <span className="ml-2 text-xs font-mono text-gray-500">
+                                      {device.deviceId.substring(0, 8)}
+                                    </span>
+                                  )}
+                                </h4>
+                                <span className="text-xs text-gray-500">
+                                  {device.keys.length} key
+                                  {device.keys.length === 1 ? "" : "s"} · last
+                                  used{" "}
+                                  {device.lastUsedAt !== undefined
+                                    ? new Date(
+                                        device.lastUsedAt,
+                                      ).toLocaleString()
+                                    : "never"}
+                                </span>
+                              </div>
+                              {device.keys.map((key) => (
+                                <div
+                                  key={key.keyId}
+                                  className={`space-y-3 border-l-4 pl-3 ${
+                                    KEY_STATUS_STYLES[getKeyStatus(key)].border
+                                  }`}
+                                >
+                                  <div className="flex items-center gap-2 text-xs">
+                                    <span
+                                      className={`px-2 py-1 rounded font-medium ${
+                                        KEY_STATUS_STYLES[getKeyStatus(key)]
+                                          .badge
+                                      }`}
+                                    >
+                                      {getKeyStatus(key)}
+                                    </span>
+                                    <span className="text-gray-500">
+                                      Valid from{" "}
+                                      {new Date(key.createdAt).toLocaleString()}
+                                      {key.validUntil !== undefined &&
+                                        ` until ${new Date(
+                                          key.validUntil,
+                                        ).toLocaleString()}`}
+                                      {key.lastUsedAt !== undefined &&
+                                        ` · last used ${new Date(
+                                          key.lastUsedAt,
+                                        ).toLocaleString()}`}
+                                    </span>
+                                  </div>
+                                  {key.revokedAt !== undefined && (
+                                    <p className="text-xs text-red-700 dark:text-red-300">
+                                      Revoked from{" "}
+                                      {new Date(key.revokedAt).toLocaleString()}
+                                      :{" "}
+                                      <span className="italic">
+                                        &ldquo;{key.revocationReason}&rdquo;
+                                      </span>
+                                    </p>
+                                  )}
+                                  <div>
+                                    <p className="text-sm font-medium mb-1">
+                                      JWT Key ID:
+                                    </p>
+                                    <code className="block bg-gray-50 dark:bg-gray-900 p-2 rounded text-xs break-all">
+                                      {key.keyId}
+                                    </code>
+                                  </div>
+                                  <div>
+                                    <p className="text-sm font-medium mb-1">
+                                      Public Key (PEM):
+                                    </p>
+                                    <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto">
+                                      {key.publicKeyPEM}
+                                    </pre>
+                                  </div>
+                                  <div>
+                                    <p className="text-sm font-medium mb-1">
+                                      Public Key JWK:
+                                    </p>
+                                    <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto">
+                                      {JSON.stringify(
+                                        key.publicKeyJWK,
+                                        null,
+                                        2,
+                                      )}
+                                    </pre>
+                                  </div>
+                                  <div>
+                                    <p className="text-sm font-medium mb-1">
+                                      Fingerprint:
+                                    </p>
+                                    <code className="block bg-gray-50 dark:bg-gray-900 p-2 rounded text-xs break-all">
+                                      {key.publicKeyFingerprint}
+                                    </code>
+                                    {key.legacyFingerprint && (
+                                      <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 break-all">
+                                        Attested as legacy fingerprint{" "}
+                                        {key.legacyFingerprint}
+                                      </p>
+                                    )}
+                                  </div>
+                                  <div>
+                                    <p className="text-sm font-medium mb-1">
+                                      Key Binding:
+                                    </p>
+                                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                                      {key.keyBinding
+                                        ? `May ${key.keyBinding.actions.join(
+                                            ", ",
+                                          )} from ${new Date(
+                                            key.keyBinding.notBefore,
+                                          ).toLocaleString()} to ${new Date(
+                                            key.keyBinding.notAfter,
+                                          ).toLocaleString()}`
+                                        : "None (attested over the bare fingerprint)"}
+                                    </p>
+                                  </div>
+                                  <div>
+                                    <p className="text-sm font-medium mb-1">
+                                      Passkey Attestation (WebAuthn Assertion):
+                                    </p>
+                                    <details className="group">
+                                      <summary className="cursor-pointer text-xs text-blue-600 dark:text-blue-400 hover:underline mb-2 select-none">
+                                        Show/Hide Attestation JSON
+                                      </summary>
+                                      <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto max-h-60">
+                                        {JSON.stringify(
+                                          key.passkeyAttestation,
+                                          null,
+                                          2,
+                                        )}
+                                      </pre>
+                                    </details>
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          ))}
                         </div>
                       ) : (
                         <p className="text-sm text-gray-500">
@@ -65,7 +65,8 @@ export default function TechnicalPage() {
                 </p>
                 <p>
                   <strong>Architecture:</strong> Multi-signature threshold
-                  system (2-of-3) with passkey-attested JWT signing keys
+                  system (k-of-N per statement) with passkey-attested JWT
+                  signing keys
                 </p>
                 <p>
                   <strong>Passkey Signature Algorithm:</strong> Default:{" "}
@@ -73,10 +74,12 @@ export default function TechnicalPage() {
                   {getCoseAlgorithmName(-257)}
                 </p>
                 <p>
-                  <strong>JWT Signature Algorithm:</strong> EdDSA (Ed25519)
+                  <strong>JWT Signature Algorithm:</strong> EdDSA (Ed25519) or
+                  ES256 (P-256), per signing key
                 </p>
                 <p>
-                  <strong>Threshold:</strong> 2 signatures required for validity
+                  <strong>Threshold:</strong> Set per statement by its creator
+                  (default 2-of-3)
                 </p>
                 <p>
                   <strong>Total Registered Users:</strong> {users.length} (
@@ -4,7 +4,13 @@ import { useState, useEffect } from "react";
 import Link from "next/link";
 import { use } from "react";
 import SignatureIndicator from "@/components/signature-indicator";
-import { StatementStatus } from "@/lib/statements";
+import PolicyTrace from "@/components/policy-trace";
+import StatementStateBadge from "@/components/statement-state";
+import JsonDiff from "@/components/json-diff";
+import { StatementStatus, StatementTransition } from "@/lib/statements";
+import type { ApprovalPolicy, PolicyEvaluation } from "@/lib/approval-policy";
+import type { SigningMethod } from "@/lib/statement-lifecycle";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/browser";
 
 // Helper function to decode base64url
 function decodeBase64Url(base64url: string): string {
@@ -25,21 +31,91 @@ interface StatementSignature {
   userId: string;
   userName: string;
   userRole: string;
+  weight: number;
+  decision: "approve" | "decline";
+  reason?: string;
+  signingMethod: SigningMethod;
   signature: string;
-  jwt: string;
+  // Absent for direct passkey signatures, which keep the assertion instead
+  jwt?: string;
+  passkeyAssertion?: AuthenticationResponseJSON;
   signedAt: number;
+  revocationJwt?: string;
+  revokedAt?: number;
+  keyRevocation?: {
+    keyId: string;
+    revokedAt: number;
+    reason: string;
+  };
 }
 
 interface Statement {
   statementId: string;
   title?: string;
   content: string;
+  contentHash: string;
   creatorId: string;
+  requiredSignatures: number;
+  eligibleSigners: number;
+  requiredWeight: number;
+  policy?: ApprovalPolicy;
+  expiresAt?: number;
+  signingMethod: SigningMethod;
+  version: number;
+  supersedes?: string;
+  supersededBy?: string;
   createdAt: number;
   signatures: StatementSignature[];
+  withdrawnSignatures: StatementSignature[];
+  invalidatedSignatures: StatementSignature[];
   signatureCount: number;
+  accumulatedWeight: number;
   status: StatementStatus;
   creatorName: string;
+  policyEvaluation: PolicyEvaluation;
+  transitions: StatementTransition[];
+  approvalBelowThreshold: boolean;
+}
+
+interface SignatureEvent {
+  key: string;
+  userName: string;
+  action: "approved" | "declined" | "withdrew";
+  at: number;
+  reason?: string;
+  jwt?: string;
+  passkeyAssertion?: AuthenticationResponseJSON;
+}
+
+// Chronological signing history, including withdrawn signatures and those
+// invalidated by a key revocation
+function getSignatureHistory(statement: Statement): SignatureEvent[] {
+  const events: SignatureEvent[] = [];
+  for (const sig of [
+    ...statement.signatures,
+    ...statement.withdrawnSignatures,
+    ...statement.invalidatedSignatures,
+  ]) {
+    events.push({
+      key: `${sig.id}-signed`,
+      userName: sig.userName,
+      action: sig.decision === "decline" ? "declined" : "approved",
+      at: sig.signedAt,
+      reason: sig.reason,
+      jwt: sig.jwt,
+      passkeyAssertion: sig.passkeyAssertion,
+    });
+    if (sig.revocationJwt && sig.revokedAt) {
+      events.push({
+        key: `${sig.id}-revoked`,
+        userName: sig.userName,
+        action: "withdrew",
+        at: sig.revokedAt,
+        jwt: sig.revocationJwt,
+      });
+    }
+  }
+  return events.sort((a, b) => a.at - b.at);
 }
 
 export default function StatementDetailPage({
@@ -49,6 +125,9 @@ export default function StatementDetailPage({
 }) {
   const { id } = use(params);
   const [statement, setStatement] = useState<Statement | null>(null);
+  const [previousVersion, setPreviousVersion] = useState<Statement | null>(
+    null,
+  );
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -63,6 +142,18 @@ export default function StatementDetailPage({
 
       const data = await response.json();
       setStatement(data.statement);
+
+      // Load the version this one amends for the diff
+      setPreviousVersion(null);
+      if (data.statement.supersedes) {
+        const previousResponse = await fetch(
+          `/api/statements/${data.statement.supersedes}`,
+        );
+        if (previousResponse.ok) {
+          const previousData = await previousResponse.json();
+          setPreviousVersion(previousData.statement);
+        }
+      }
     } catch (error) {
       console.error("Error loading statement:", error);
     } finally {
@@ -121,6 +212,49 @@ export default function StatementDetailPage({
                 {statement.statementId}
               </code>
             </p>
+            <p>
+              <strong>Content Hash:</strong>{" "}
+              <code
+                className="bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded text-xs break-all"
+                title="SHA-256 of the RFC 8785 canonical content"
+              >
+                {statement.contentHash}
+              </code>
+            </p>
+            <p>
+              <strong>Signing Method:</strong>{" "}
+              {statement.signingMethod === "passkey"
+                ? "Direct passkey (the passkey signs the content hash)"
+                : "JWT (passkey-attested signing key)"}
+            </p>
+            <p>
+              <strong>Version:</strong> {statement.version}
+              {statement.supersedes && (
+                <>
+                  {" "}
+                  (amends{" "}
+                  <Link
+                    href={`/technical/statement/${statement.supersedes}`}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    version {statement.version - 1}
+                  </Link>
+                  )
+                </>
+              )}
+              {statement.supersededBy && (
+                <>
+                  {" "}
+                  · superseded by{" "}
+                  <Link
+                    href={`/technical/statement/${statement.supersededBy}`}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    version {statement.version + 1}
+                  </Link>
+                </>
+              )}
+            </p>
             <p>
               <strong>Creator:</strong> {statement.creatorName}
             </p>
@@ -128,24 +262,87 @@ export default function StatementDetailPage({
               <strong>Created:</strong>{" "}
               {new Date(statement.createdAt).toLocaleString()}
             </p>
+            {statement.expiresAt && (
+              <p>
+                <strong>Signing Deadline:</strong>{" "}
+                {new Date(statement.expiresAt).toLocaleString()}
+              </p>
+            )}
+            <p>
+              <strong>Signatures:</strong> {statement.signatureCount} of{" "}
+              {statement.requiredSignatures} required (
+              {statement.eligibleSigners} eligible)
+            </p>
             <p>
-              <strong>Signatures:</strong> {statement.signatureCount}/3
+              <strong>Signature Weight:</strong> {statement.accumulatedWeight}{" "}
+              of {statement.requiredWeight} required
             </p>
             <p>
               <strong>Status:</strong>{" "}
-              <span
-                className={
-                  statement.status === "approved"
-                    ? "text-green-600 dark:text-green-400 font-bold"
-                    : "text-yellow-600 dark:text-yellow-400 font-bold"
-                }
-              >
-                {statement.status === "approved"
-                  ? "APPROVED ✓"
-                  : "PENDING! (requires [more] signatures)"}
-              </span>
+              <StatementStateBadge state={statement.status} />
             </p>
           </div>
+          {statement.approvalBelowThreshold && (
+            <div className="mt-4 p-3 rounded border border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/20 text-sm text-red-800 dark:text-red-200">
+              Approved, but signing key revocations have invalidated{" "}
+              {statement.invalidatedSignatures.length} signature
+              {statement.invalidatedSignatures.length === 1 ? "" : "s"} and the
+              approval policy is no longer satisfied.
+            </div>
+          )}
+        </div>
+
+        {/* Lifecycle History */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-xl font-bold mb-4">Lifecycle History</h2>
+          {statement.transitions.length === 0 ? (
+            <p className="text-gray-500">No recorded transitions</p>
+          ) : (
+            <ol className="space-y-2 text-sm">
+              {statement.transitions.map((transition) => (
+                <li key={transition.id} className="flex items-start gap-2">
+                  <span className="text-gray-400 text-xs whitespace-nowrap mt-0.5">
+                    {new Date(transition.createdAt).toLocaleString()}
+                  </span>
+                  <div>
+                    {transition.fromState ? (
+                      <>
+                        <StatementStateBadge state={transition.fromState} />{" "}
+                        →{" "}
+                      </>
+                    ) : (
+                      "Created as "
+                    )}
+                    <StatementStateBadge state={transition.toState} />{" "}
+                    <span className="text-gray-600 dark:text-gray-400">
+                      by {transition.actorName ?? "system"}
+                    </span>
+                    {transition.reason && (
+                      <p className="text-gray-500 dark:text-gray-400 italic mt-1">
+                        &ldquo;{transition.reason}&rdquo;
+                      </p>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {/* Approval Policy */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+          <h2 className="text-xl font-bold mb-4">Approval Policy</h2>
+          <PolicyTrace evaluation={statement.policyEvaluation} />
+          {statement.policy && (
+            <details className="mt-4">
+              <summary className="cursor-pointer text-xs text-blue-600 dark:text-blue-400 hover:underline mb-2 select-none">
+                Show/Hide Policy JSON
+              </summary>
+              <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto">
+                {JSON.stringify(statement.policy, null, 2)}
+              </pre>
+            </details>
+          )}
         </div>
 
         {/* Statement Content */}
@@ -158,6 +355,65 @@ export default function StatementDetailPage({
           </pre>
         </div>
 
+        {/* Approval Certificate */}
+        {statement.status === "approved" && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+            <h2 className="text-xl font-bold mb-4">Approval Certificate</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+              All approvals combined into one JWS (RFC 7515 General JSON
+              Serialization) over the canonical statement. Each entry names its
+              signing key in the protected <code>kid</code> header.
+            </p>
+            <a
+              href={`/api/statements/${statement.statementId}/certificate`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 text-sm underline"
+            >
+              View certificate JSON →
+            </a>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-4 mb-3">
+              The verification bundle adds every signature JWT, the signing keys
+              with their passkey attestations and the applied policy, so the
+              approval can be checked without this server.
+            </p>
+            <a
+              href={`/api/statements/${statement.statementId}/bundle`}
+              download
+              className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 text-sm underline"
+            >
+              Download verification bundle →
+            </a>
+          </div>
+        )}
+
+        {/* Changes from the previous version */}
+        {previousVersion && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-6">
+            <h2 className="text-xl font-bold mb-4">
+              Changes from Version {previousVersion.version}
+            </h2>
+            {previousVersion.title !== statement.title && (
+              <p className="text-sm mb-3">
+                <strong>Title:</strong>{" "}
+                <span className="line-through text-red-700 dark:text-red-300">
+                  {previousVersion.title || "(untitled)"}
+                </span>{" "}
+                →{" "}
+                <span className="text-green-700 dark:text-green-300">
+                  {statement.title || "(untitled)"}
+                </span>
+              </p>
+            )}
+            <JsonDiff
+              before={JSON.parse(previousVersion.content)}
+              after={JSON.parse(statement.content)}
+              beforeLabel={`Version ${previousVersion.version}`}
+              afterLabel={`Version ${statement.version}`}
+            />
+          </div>
+        )}
+
         {/* Signatures */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
           <h2 className="text-xl font-bold mb-4">
@@ -176,6 +432,9 @@ export default function StatementDetailPage({
                     userName={sig.userName}
                     signature={sig.signature}
                     signedAt={sig.signedAt}
+                    weight={sig.weight}
+                    decision={sig.decision}
+                    reason={sig.reason}
                     showDetails={true}
                   />
 
@@ -198,46 +457,205 @@ export default function StatementDetailPage({
                         {sig.userRole.toUpperCase()}
                       </span>
                     </div>
-                    <div>
-                      <p className="text-sm font-medium mb-1">Full JWT:</p>
-                      <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto break-all">
-                        {sig.jwt}
-                      </pre>
-                    </div>
-                    <div>
-                      <p className="text-sm font-medium mb-1">
-                        Signature (base64url):
-                      </p>
-                      <code className="block bg-gray-50 dark:bg-gray-900 p-2 rounded text-xs break-all">
-                        {sig.signature}
-                      </code>
-                    </div>
-                    <div>
-                      <p className="text-sm font-medium mb-1">JWT Header:</p>
-                      <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto">
-                        {JSON.stringify(
-                          JSON.parse(decodeBase64Url(sig.jwt.split(".")[0])),
-                          null,
-                          2,
-                        )}
-                      </pre>
-                    </div>
-                    <div>
-                      <p className="text-sm font-medium mb-1">JWT Payload:</p>
-                      <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto">
-                        {JSON.stringify(
-                          JSON.parse(decodeBase64Url(sig.jwt.split(".")[1])),
-                          null,
-                          2,
-                        )}
-                      </pre>
-                    </div>
+                    {sig.jwt ? (
+                      <>
+                        <div>
+                          <p className="text-sm font-medium mb-1">Full JWT:</p>
+                          <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto break-all">
+                            {sig.jwt}
+                          </pre>
+                        </div>
+                        <div>
+                          <p className="text-sm font-medium mb-1">
+                            Signature (base64url):
+                          </p>
+                          <code className="block bg-gray-50 dark:bg-gray-900 p-2 rounded text-xs break-all">
+                            {sig.signature}
+                          </code>
+                        </div>
+                        <div>
+                          <p className="text-sm font-medium mb-1">
+                            JWT Header:
+                          </p>
+                          <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto">
+                            {JSON.stringify(
+                              JSON.parse(
+                                decodeBase64Url(sig.jwt.split(".")[0]),
+                              ),
+                              null,
+                              2,
+                            )}
+                          </pre>
+                        </div>
+                        <div>
+                          <p className="text-sm font-medium mb-1">
+                            JWT Payload:
+                          </p>
+                          <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto">
+                            {JSON.stringify(
+                              JSON.parse(
+                                decodeBase64Url(sig.jwt.split(".")[1]),
+                              ),
+                              null,
+                              2,
+                            )}
+                          </pre>
+                        </div>
+                      </>
+                    ) : (
+                      sig.passkeyAssertion && (
+                        <>
+                          <div>
+                            <p className="text-sm font-medium mb-1">
+                              Signed directly with passkey:
+                            </p>
+                            <code className="block bg-gray-50 dark:bg-gray-900 p-2 rounded text-xs break-all">
+                              {sig.passkeyAssertion.id}
+                            </code>
+                          </div>
+                          <div>
+                            <p className="text-sm font-medium mb-1">
+                              Passkey signature (base64url):
+                            </p>
+                            <code className="block bg-gray-50 dark:bg-gray-900 p-2 rounded text-xs break-all">
+                              {sig.signature}
+                            </code>
+                          </div>
+                          <div>
+                            <p className="text-sm font-medium mb-1">
+                              Client Data (challenge = content hash):
+                            </p>
+                            <pre className="bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto">
+                              {JSON.stringify(
+                                JSON.parse(
+                                  decodeBase64Url(
+                                    sig.passkeyAssertion.response
+                                      .clientDataJSON,
+                                  ),
+                                ),
+                                null,
+                                2,
+                              )}
+                            </pre>
+                          </div>
+                        </>
+                      )
+                    )}
                   </div>
                 </div>
               ))}
             </div>
           )}
         </div>
+
+        {/* Invalidated Signatures */}
+        {statement.invalidatedSignatures.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mt-6">
+            <h2 className="text-xl font-bold mb-4">
+              Invalidated by Key Revocation (
+              {statement.invalidatedSignatures.length})
+            </h2>
+            <ul className="space-y-3 text-sm">
+              {statement.invalidatedSignatures.map((sig) => (
+                <li
+                  key={sig.id}
+                  className="border-l-4 border-red-500 pl-3 space-y-1"
+                >
+                  <p>
+                    <span className="font-medium">{sig.userName}</span>{" "}
+                    {sig.decision === "decline" ? "declined" : "approved"} on{" "}
+                    {new Date(sig.signedAt).toLocaleString()}
+                  </p>
+                  {sig.keyRevocation && (
+                    <p className="text-gray-500 dark:text-gray-400">
+                      Key{" "}
+                      <code className="text-xs">
+                        {sig.keyRevocation.keyId.substring(0, 16)}…
+                      </code>{" "}
+                      revoked from{" "}
+                      {new Date(sig.keyRevocation.revokedAt).toLocaleString()}:{" "}
+                      <span className="italic">
+                        &ldquo;{sig.keyRevocation.reason}&rdquo;
+                      </span>
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Signature History */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mt-6">
+          <h2 className="text-xl font-bold mb-4">Signature History</h2>
+          {statement.signatures.length === 0 &&
+          statement.withdrawnSignatures.length === 0 &&
+          statement.invalidatedSignatures.length === 0 ? (
+            <p className="text-gray-500">No signatures yet</p>
+          ) : (
+            <ol className="space-y-3 text-sm">
+              {getSignatureHistory(statement).map((event) => (
+                <li key={event.key}>
+                  <div className="flex items-start gap-2">
+                    <span className="text-gray-400 text-xs whitespace-nowrap mt-0.5">
+                      {new Date(event.at).toLocaleString()}
+                    </span>
+                    <span
+                      className={
+                        event.action === "approved"
+                          ? "text-green-600 dark:text-green-400"
+                          : event.action === "declined"
+                            ? "text-red-600 dark:text-red-400"
+                            : "text-gray-500 dark:text-gray-400"
+                      }
+                    >
+                      {event.action === "approved"
+                        ? "✓"
+                        : event.action === "declined"
+                          ? "✗"
+                          : "↩"}
+                    </span>
+                    <div className="flex-1">
+                      <span className="font-medium">{event.userName}</span>{" "}
+                      {event.action === "withdrew"
+                        ? "withdrew their signature"
+                        : event.action}
+                      {event.reason && (
+                        <span className="text-gray-500 dark:text-gray-400 italic">
+                          {" "}
+                          &ldquo;{event.reason}&rdquo;
+                        </span>
+                      )}
+                      <details className="mt-1">
+                        <summary className="cursor-pointer text-xs text-blue-600 dark:text-blue-400 hover:underline select-none">
+                          {event.action === "withdrew"
+                            ? "Revocation JWT payload"
+                            : event.jwt
+                              ? "JWT payload"
+                              : "Passkey client data"}
+                        </summary>
+                        <pre className="mt-1 bg-gray-50 dark:bg-gray-900 p-3 rounded text-xs overflow-x-auto">
+                          {JSON.stringify(
+                            JSON.parse(
+                              decodeBase64Url(
+                                event.jwt
+                                  ? event.jwt.split(".")[1]
+                                  : event.passkeyAssertion!.response
+                                      .clientDataJSON,
+                              ),
+                            ),
+                            null,
+                            2,
+                          )}
+                        </pre>
+                      </details>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
       </div>
     </div>
   );
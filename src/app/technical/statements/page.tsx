@@ -2,7 +2,15 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
+import { ThresholdIndicator } from "@/components/signature-indicator";
+import StatementStateBadge, {
+  StatementStateFilter,
+} from "@/components/statement-state";
 import { StatementStatus } from "@/lib/statements";
+import {
+  STATEMENT_STATES,
+  type StatementState,
+} from "@/lib/statement-lifecycle";
 
 interface StatementSignature {
   id: number;
@@ -10,6 +18,9 @@ interface StatementSignature {
   userId: string;
   userName: string;
   userRole: string;
+  weight: number;
+  decision: "approve" | "decline";
+  reason?: string;
   signature: string;
   jwt: string;
   signedAt: number;
@@ -20,9 +31,15 @@ interface Statement {
   title?: string;
   content: string;
   creatorId: string;
+  requiredSignatures: number;
+  eligibleSigners: number;
+  requiredWeight: number;
+  expiresAt?: number;
+  version: number;
   createdAt: number;
   signatures: StatementSignature[];
   signatureCount: number;
+  accumulatedWeight: number;
   status: StatementStatus;
   creatorName: string;
 }
@@ -30,14 +47,17 @@ interface Statement {
 export default function TechnicalStatementsPage() {
   const [statements, setStatements] = useState<Statement[]>([]);
   const [loading, setLoading] = useState(true);
+  const [stateFilter, setStateFilter] = useState<StatementState | "all">("all");
 
   useEffect(() => {
     loadStatements();
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stateFilter]);
 
   const loadStatements = async () => {
     try {
-      const response = await fetch("/api/statements");
+      const query = stateFilter === "all" ? "" : `?state=${stateFilter}`;
+      const response = await fetch(`/api/statements${query}`);
       if (!response.ok) throw new Error("Failed to load statements");
 
       const data = await response.json();
@@ -72,13 +92,21 @@ export default function TechnicalStatementsPage() {
         <h1 className="text-3xl font-bold mb-2">
           Statement List & Signature Status
         </h1>
-        <p className="text-gray-600 dark:text-gray-400 mb-8">
+        <p className="text-gray-600 dark:text-gray-400 mb-4">
           All statements with multi-signature verification details
         </p>
 
+        <div className="mb-8">
+          <StatementStateFilter value={stateFilter} onChange={setStateFilter} />
+        </div>
+
         {statements.length === 0 ? (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 text-center">
-            <p className="text-gray-500">No statements created yet</p>
+            <p className="text-gray-500">
+              {stateFilter === "all"
+                ? "No statements created yet"
+                : `No ${stateFilter} statements`}
+            </p>
             <Link
               href="/creator"
               className="mt-4 inline-block text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 underline"
@@ -101,16 +129,15 @@ export default function TechnicalStatementsPage() {
                         {statement.title ||
                           `Statement #${statement.statementId.substring(0, 8)}`}
                       </h2>
-                      <div
-                        className={`px-3 py-1 rounded-full text-sm font-medium ${
-                          statement.status === "approved"
-                            ? "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200"
-                            : "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200"
-                        }`}
-                      >
-                        {statement.signatureCount}/3 signatures
-                        {statement.status === "approved" && " ✓"}
-                      </div>
+                      <StatementStateBadge state={statement.status} />
+                      <ThresholdIndicator
+                        signatureCount={statement.signatureCount}
+                        requiredSignatures={statement.requiredSignatures}
+                        eligibleSigners={statement.eligibleSigners}
+                        approved={statement.status === "approved"}
+                        accumulatedWeight={statement.accumulatedWeight}
+                        requiredWeight={statement.requiredWeight}
+                      />
                     </div>
                     <div className="space-y-1 text-sm text-gray-600 dark:text-gray-400">
                       <p>
@@ -130,18 +157,31 @@ export default function TechnicalStatementsPage() {
                         <strong>Created:</strong>{" "}
                         {new Date(statement.createdAt).toLocaleString()}
                       </p>
+                      <p>
+                        <strong>Version:</strong> {statement.version}
+                      </p>
+                      {statement.expiresAt && (
+                        <p>
+                          <strong>Signing Deadline:</strong>{" "}
+                          {new Date(statement.expiresAt).toLocaleString()}
+                        </p>
+                      )}
                       <p>
                         <strong>Status:</strong>{" "}
                         <span
                           className={
                             statement.status === "approved"
                               ? "text-green-600 dark:text-green-400 font-bold"
-                              : "text-yellow-600 dark:text-yellow-400 font-bold"
+                              : statement.status === "open"
+                                ? "text-yellow-600 dark:text-yellow-400 font-bold"
+                                : "text-gray-600 dark:text-gray-400 font-bold"
                           }
                         >
                           {statement.status === "approved"
                             ? "APPROVED ✓"
-                            : "PENDING! (requires [more] signatures)"}
+                            : statement.status === "open"
+                              ? "OPEN (approval policy not yet satisfied)"
+                              : statement.status.toUpperCase()}
                         </span>
                       </p>
                     </div>
@@ -160,9 +200,15 @@ export default function TechnicalStatementsPage() {
                           key={sig.id}
                           className="flex items-center gap-2 text-sm"
                         >
-                          <span className="text-green-600 dark:text-green-400">
-                            ✓
-                          </span>
+                          {sig.decision === "decline" ? (
+                            <span className="text-red-600 dark:text-red-400">
+                              ✗
+                            </span>
+                          ) : (
+                            <span className="text-green-600 dark:text-green-400">
+                              ✓
+                            </span>
+                          )}
                           <span className="font-medium">{sig.userName}</span>
                           <span className="text-gray-500">
                             ({sig.userRole})
@@ -170,6 +216,11 @@ export default function TechnicalStatementsPage() {
                           <span className="text-gray-400 text-xs">
                             {new Date(sig.signedAt).toLocaleString()}
                           </span>
+                          {sig.reason && (
+                            <span className="text-gray-500 italic">
+                              &ldquo;{sig.reason}&rdquo;
+                            </span>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -208,14 +259,14 @@ export default function TechnicalStatementsPage() {
               <p>
                 <strong>Total Statements:</strong> {statements.length}
               </p>
-              <p>
-                <strong>Approved Statements:</strong>{" "}
-                {statements.filter((s) => s.status === "approved").length}
-              </p>
-              <p>
-                <strong>Pending Statements:</strong>{" "}
-                {statements.filter((s) => s.status === "pending").length}
-              </p>
+              {STATEMENT_STATES.map((state) => (
+                <p key={state}>
+                  <strong>
+                    {state.charAt(0).toUpperCase() + state.slice(1)} Statements:
+                  </strong>{" "}
+                  {statements.filter((s) => s.status === state).length}
+                </p>
+              ))}
               <p>
                 <strong>Total Signatures:</strong>{" "}
                 {statements.reduce((sum, s) => sum + s.signatureCount, 0)}
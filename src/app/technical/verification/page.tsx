@@ -105,21 +105,38 @@ const keyId = header.kid;`}</code>
           <p>
             The API returns a <code>passkeyAttestation</code> object. This is a
             WebAuthn authentication response where the passkey signed the{" "}
-            <strong>fingerprint of the JWT public key</strong>.
+            <strong>key binding</strong>: the fingerprint of the JWT public key
+            (its RFC 7638 thumbprint, which is also the key ID), its key ID and
+            owner, the period it may sign in (<code>notBefore</code> /{" "}
+            <code>notAfter</code>) and the actions it may sign (
+            <code>approve</code>, <code>decline</code>, <code>comment</code>).
           </p>
           <p>
-            To verify this, you check that the passkey signed the correct
-            challenge (the JWT key fingerprint).
+            To verify this, you check that the binding names this key and that
+            the passkey signed the correct challenge (the SHA-256 of the
+            canonical binding). Keys enrolled before bindings existed have no{" "}
+            <code>keyBinding</code>; their challenge is the bare fingerprint.
+            Keys enrolled before RFC 7638 thumbprints were used were attested
+            over their <code>legacyFingerprint</code> instead.
           </p>
           <pre className="bg-gray-100 dark:bg-gray-900 p-4 rounded-lg overflow-x-auto">
             <code>{`import { verifyAuthenticationResponse } from "@simplewebauthn/server";
 
 async function verifyAttestation(keyData: any) {
   // keyData is the JSON returned from getSigningKeyData()
-  const { passkeyAttestation, publicKeyFingerprint, credentialId } = keyData;
+  const { passkeyAttestation, keyBinding, credentialId } = keyData;
+  // The thumbprint, or the hex fingerprint of keys enrolled before it
+  const attestedFingerprint =
+    keyData.legacyFingerprint ?? keyData.publicKeyFingerprint;
 
-  // The "challenge" the passkey signed was the JWT key&apos;s fingerprint
-  const expectedChallenge = publicKeyFingerprint;
+  // The "challenge" the passkey signed was the hash of the key binding
+  // (computeKeyBindingChallenge), or the fingerprint for legacy keys
+  if (keyBinding && keyBinding.thumbprint !== attestedFingerprint) {
+    throw new Error("Key binding names another key");
+  }
+  const expectedChallenge = keyBinding
+    ? await computeKeyBindingChallenge(keyBinding)
+    : attestedFingerprint;
 
   const verification = await verifyAuthenticationResponse({
     response: passkeyAttestation,
@@ -167,10 +184,26 @@ async function verifyStatementSignature(jwt: string) {
   // await verifyAttestation(keyData);
   
   // 4. Verify JWT
-  const publicKey = await importJWK(keyData.publicKeyJWK, "EdDSA");
+  // The key type decides the algorithm (Ed25519: EdDSA, P-256: ES256),
+  // never the JWT header
+  const alg = keyData.publicKeyJWK.kty === "EC" ? "ES256" : "EdDSA";
+  const publicKey = await importJWK(keyData.publicKeyJWK, alg);
   const { payload } = await jwtVerify(jwt, publicKey, {
-    algorithms: ["EdDSA"]
+    algorithms: [alg]
   });
+
+  // 5. Enforce the key binding: iat within notBefore / notAfter and the
+  //    decision among the permitted actions
+  const { keyBinding } = keyData;
+  if (keyBinding) {
+    const issuedAt = payload.iat! * 1000;
+    if (issuedAt < keyBinding.notBefore || issuedAt > keyBinding.notAfter) {
+      throw new Error("JWT was issued outside the key's validity period");
+    }
+    if (!keyBinding.actions.includes(payload.decision ?? "approve")) {
+      throw new Error("Signing key may not sign this decision");
+    }
+  }
   
   return payload;
 }`}</code>
@@ -184,13 +217,21 @@ async function verifyStatementSignature(jwt: string) {
           </p>
           <pre className="bg-gray-100 dark:bg-gray-900 p-4 rounded-lg overflow-x-auto">
             <code>{`{
-  "keyId": "942c92a4901ae28969c8eb586b0672f4",
+  "keyId": "2aBvtfTUlfsvt9eJKct7edKaSrhDB619IVHwODxmnAw",
   "publicKeyJWK": {
     "kty": "OKP",
     "crv": "Ed25519",
     "x": "11qYAYKxCrfVS_7TyWQHOg7hcvP9QV8AwYp5yQghwFE"
   },
-  "publicKeyFingerprint": "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+  "publicKeyFingerprint": "2aBvtfTUlfsvt9eJKct7edKaSrhDB619IVHwODxmnAw",
+  "keyBinding": {
+    "keyId": "2aBvtfTUlfsvt9eJKct7edKaSrhDB619IVHwODxmnAw",
+    "userId": "3f2b6c1e-5d7a-4a8e-9b0c-1d2e3f4a5b6c",
+    "thumbprint": "2aBvtfTUlfsvt9eJKct7edKaSrhDB619IVHwODxmnAw",
+    "notBefore": 1767225600000,
+    "notAfter": 1798761600000,
+    "actions": ["approve", "decline", "comment"]
+  },
   "passkeyAttestation": {
     "id": "mMhuCn9BzTq4...",
     "rawId": "(same as id)", // Represents the binary buffer
@@ -216,6 +257,15 @@ async function verifyStatementSignature(jwt: string) {
             this attestation.
           </p>
 
+          <h3>Q: Can a signing key be limited?</h3>
+          <p>
+            Yes. The key binding the passkey signs sets the period the key may
+            sign in and the actions it may sign. A JWT whose <code>iat</code>{" "}
+            falls outside <code>notBefore</code> / <code>notAfter</code>, or a
+            decision the binding does not permit, fails verification even though
+            its signature is valid.
+          </p>
+
           <h3>Q: Why verify the attestation?</h3>
           <p>
             Verifying the attestation allows you to independently confirm that
@@ -4,15 +4,35 @@ import { useState, useEffect } from "react";
 import { startAuthentication } from "@simplewebauthn/browser";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import {
+  attestDeviceKey,
+  generateDeviceKey,
+  loadDeviceKey,
+  saveDeviceKey,
+  toRegistration,
+} from "@/lib/device-keys";
 
 interface User {
   userId: string;
   name: string;
   role: "creator" | "investor";
   credentialId: string;
+  credentialIds: string[];
   createdAt: number;
 }
 
+// Registered, not rotated out, not revoked and within its key binding
+async function isKeyUsable(keyId: string): Promise<boolean> {
+  const response = await fetch(`/api/jwt-keys/${keyId}`);
+  if (!response.ok) return false;
+  const key = await response.json();
+  return (
+    key.validUntil === undefined &&
+    key.revokedAt === undefined &&
+    (key.keyBinding === undefined || key.keyBinding.notAfter > Date.now())
+  );
+}
+
 export default function UsersPage() {
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -45,66 +65,78 @@ export default function UsersPage() {
       setIsAuthenticating(true);
       setAuthenticatingUserId(user.userId);
 
-      // Get authentication options from API
-      const optionsResponse = await fetch("/api/authenticate/options", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ credentialId: user.credentialId }),
-      });
-      const authOptions = await optionsResponse.json();
-
-      // Start authentication
-      const authResponse = await startAuthentication({
-        optionsJSON: authOptions,
-      });
-
-      // Verify authentication
-      const verifyResponse = await fetch("/api/authenticate", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          authenticationResponse: authResponse,
-          challenge: authOptions.challenge,
-        }),
-      });
-
-      if (!verifyResponse.ok) {
-        throw new Error("Authentication verification failed");
-      }
+      const deviceKey = await loadDeviceKey(user.userId);
+      const keyIsUsable =
+        deviceKey !== undefined && (await isKeyUsable(deviceKey.keyId));
 
-      // Get user info to determine role
-      const userInfoResponse = await fetch(`/api/users/${user.credentialId}`);
-      const userInfo = await userInfoResponse.json();
+      // Any of the user's passkeys can log in; the session keeps the one used
+      let keyId: string;
+      let credentialId: string;
+      if (deviceKey && keyIsUsable) {
+        // This device already holds the user's signing key: plain passkey login
+        const optionsResponse = await fetch("/api/authenticate/options", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ credentialIds: user.credentialIds }),
+        });
+        const authOptions = await optionsResponse.json();
 
-      if (!userInfo.success) {
-        throw new Error("Failed to fetch user info");
-      }
+        const authResponse = await startAuthentication({
+          optionsJSON: authOptions,
+        });
 
-      // Get JWT key for this user
-      const jwtKeysResponse = await fetch(
-        `/api/jwt-keys/by-credential/${user.credentialId}`,
-      );
-      const jwtKeysData = await jwtKeysResponse.json();
+        const verifyResponse = await fetch("/api/authenticate", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            authenticationResponse: authResponse,
+            challenge: authOptions.challenge,
+          }),
+        });
 
-      if (!jwtKeysData.success || !jwtKeysData.key) {
-        throw new Error("No JWT key found for this user");
-      }
+        if (!verifyResponse.ok) {
+          throw new Error("Authentication verification failed");
+        }
+        keyId = deviceKey.keyId;
+        credentialId = authResponse.id;
+      } else {
+        // New device (or its key was rotated out, revoked or expired): enrol
+        // a signing key for it. The passkey assertion over the new key's
+        // binding both attests the key and logs in
+        const newKey = await generateDeviceKey(user.userId);
+        const passkeyAttestation = await attestDeviceKey(
+          newKey,
+          user.credentialIds,
+        );
 
-      const jwtKey = jwtKeysData.key;
+        const enrollResponse = await fetch("/api/jwt-keys/enroll", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            passkeyAttestation,
+            jwtKeyData: toRegistration(newKey),
+          }),
+        });
 
-      // Import the private key
-      const { importJWK } = await import("jose");
-      const privateKey = await importJWK(jwtKey.privateKeyJWK, "EdDSA");
+        if (!enrollResponse.ok) {
+          const error = await enrollResponse.json();
+          throw new Error(
+            error.error || "Failed to enrol a key for this device",
+          );
+        }
+
+        await saveDeviceKey(user.userId, newKey);
+        keyId = newKey.keyId;
+        credentialId = passkeyAttestation.id;
+      }
 
-      // Create session data
+      // Create session data (the private key stays in IndexedDB)
       const sessionData = {
         userId: user.userId,
         name: user.name,
         role: user.role,
-        credentialId: user.credentialId,
-        keyId: jwtKey.keyId,
-        privateKeyJWK: jwtKey.privateKeyJWK,
-        privateKey, // This will be reconstructed on page load
+        credentialId,
+        keyId,
       };
 
       // Store unified session
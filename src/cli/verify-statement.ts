@@ -0,0 +1,190 @@
+#!/usr/bin/env node
+/**
+ * Offline Statement Verifier (command line)
+ *
+ * Usage:
+ *   verify-statement <bundle.json> [--json]
+ *   verify-statement --jwt <token | file> --bundle <bundle.json> [--json]
+ *   verify-statement --jwt <token | file> --key <key.json>
+ *                    [--rp-id <id>] [--origin <origin>] [--statement <id>]
+ *                    [--json]
+ *
+ * A bundle comes from GET /api/statements/:id/bundle and is verified in
+ * full, including the approval threshold. A single JWT is checked with its
+ * key taken from a bundle, or from a saved GET /api/jwt-keys/:keyId
+ * response (the relying party then defaults to WEBAUTHN_RP_ID /
+ * WEBAUTHN_ORIGIN, like the server).
+ *
+ * Exit codes:
+ *   0  everything verified
+ *   1  verification failed
+ *   2  usage error or unreadable input
+ *
+ * Build with `npm run build:cli`, then run `node dist/cli/verify-statement.js`.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { parseArgs } from "util";
+import { decodeProtectedHeader } from "jose";
+import {
+  verifyBundle,
+  verifyJWTOffline,
+  type AttestedKey,
+  type OfflineVerificationReport,
+  type RelyingParty,
+} from "../lib/offline-verifier";
+import type { PolicyEvaluation } from "../lib/approval-policy";
+import type { VerificationBundle } from "../lib/verification-bundle";
+
+const USAGE = `Usage:
+  verify-statement <bundle.json> [--json]
+  verify-statement --jwt <token | file> --bundle <bundle.json> [--json]
+  verify-statement --jwt <token | file> --key <key.json>
+                   [--rp-id <id>] [--origin <origin>] [--statement <id>] [--json]`;
+
+const EXIT_VERIFIED = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+async function main(argv: string[]): Promise<number> {
+  let args;
+  try {
+    args = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        jwt: { type: "string" },
+        bundle: { type: "string" },
+        key: { type: "string" },
+        "rp-id": { type: "string" },
+        origin: { type: "string" },
+        statement: { type: "string" },
+        json: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    return usage(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = args;
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_VERIFIED;
+  }
+
+  let report: OfflineVerificationReport;
+  try {
+    if (values.jwt === undefined) {
+      const bundlePath = positionals[0] ?? values.bundle;
+      if (!bundlePath || positionals.length > 1) {
+        return usage("Expected a bundle file or --jwt");
+      }
+      report = await verifyBundle(readBundle(bundlePath));
+    } else {
+      const jwt = readToken(values.jwt);
+      if (values.bundle) {
+        const bundle = readBundle(values.bundle);
+        const kid = decodeProtectedHeader(jwt).kid;
+        const key = kid ? bundle.keys[kid] : undefined;
+        if (!key) {
+          throw new Error(`Bundle has no key ${kid ?? "(JWT has no kid)"}`);
+        }
+        report = await verifyJWTOffline(jwt, key, bundle.relyingParty, {
+          statementId: values.statement ?? bundle.statement.statementId,
+          contentHash: bundle.statement.contentHash,
+        });
+      } else if (values.key) {
+        const relyingParty: RelyingParty = {
+          rpId: values["rp-id"] ?? process.env.WEBAUTHN_RP_ID ?? "localhost",
+          origin:
+            values.origin ??
+            process.env.WEBAUTHN_ORIGIN ??
+            "http://localhost:3000",
+        };
+        report = await verifyJWTOffline(
+          jwt,
+          readJSON<AttestedKey>(values.key),
+          relyingParty,
+          { statementId: values.statement },
+        );
+      } else {
+        return usage("--jwt needs --bundle or --key");
+      }
+    }
+  } catch (error) {
+    console.error(
+      `Cannot verify: ${error instanceof Error ? error.message : error}`,
+    );
+    return EXIT_USAGE;
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report);
+  }
+
+  return report.valid ? EXIT_VERIFIED : EXIT_FAILED;
+}
+
+function printReport(report: OfflineVerificationReport): void {
+  for (const section of report.sections) {
+    console.log(`${mark(section.valid)} ${section.title}`);
+    for (const check of section.checks) {
+      console.log(`    ${mark(check.valid)} ${check.claim}: ${check.message}`);
+    }
+  }
+
+  if (report.policyEvaluation) {
+    console.log("\nPolicy evaluation:");
+    printEvaluation(report.policyEvaluation, 1);
+  }
+
+  console.log(
+    `\n${report.valid ? "VERIFIED" : "VERIFICATION FAILED"} (${
+      report.sections.filter((section) => !section.valid).length
+    } of ${report.sections.length} sections failed)`,
+  );
+}
+
+function printEvaluation(evaluation: PolicyEvaluation, depth: number): void {
+  console.log(
+    `${"    ".repeat(depth)}${mark(evaluation.satisfied)} ${
+      evaluation.description
+    }: ${evaluation.detail}`,
+  );
+  for (const child of evaluation.children ?? []) {
+    printEvaluation(child, depth + 1);
+  }
+}
+
+function mark(valid: boolean): string {
+  return valid ? "✔" : "✘";
+}
+
+function readBundle(path: string): VerificationBundle {
+  const bundle = readJSON<VerificationBundle>(path);
+  if (!bundle.statement || !bundle.keys) {
+    throw new Error(`${path} is not a verification bundle`);
+  }
+  return bundle;
+}
+
+// The token itself, or a file containing it
+function readToken(value: string): string {
+  return existsSync(value) ? readFileSync(value, "utf8").trim() : value;
+}
+
+function readJSON<T>(path: string): T {
+  return JSON.parse(readFileSync(path, "utf8")) as T;
+}
+
+function usage(message: string): number {
+  console.error(`${message}\n\n${USAGE}`);
+  return EXIT_USAGE;
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
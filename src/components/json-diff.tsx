@@ -0,0 +1,79 @@
+"use client";
+
+import { diffJson, type DiffRowType } from "@/lib/json-diff";
+
+const ROW_STYLES: Record<DiffRowType, { left: string; right: string }> = {
+  unchanged: { left: "", right: "" },
+  removed: {
+    left: "bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200",
+    right: "bg-gray-50 dark:bg-gray-900",
+  },
+  added: {
+    left: "bg-gray-50 dark:bg-gray-900",
+    right:
+      "bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200",
+  },
+  changed: {
+    left: "bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200",
+    right:
+      "bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200",
+  },
+};
+
+interface JsonDiffProps {
+  before: unknown;
+  after: unknown;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+/**
+ * Side-by-side diff of two JSON documents
+ */
+export default function JsonDiff({
+  before,
+  after,
+  beforeLabel,
+  afterLabel,
+}: JsonDiffProps) {
+  const rows = diffJson(before, after);
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+      <table className="w-full text-xs font-mono border-collapse">
+        <thead>
+          <tr className="bg-gray-100 dark:bg-gray-700 text-left">
+            <th colSpan={2} className="px-2 py-1 font-semibold">
+              {beforeLabel}
+            </th>
+            <th colSpan={2} className="px-2 py-1 font-semibold">
+              {afterLabel}
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index}>
+              <td className="w-8 px-2 text-right text-gray-400 select-none">
+                {row.left?.number}
+              </td>
+              <td
+                className={`px-2 whitespace-pre border-r border-gray-200 dark:border-gray-700 ${ROW_STYLES[row.type].left}`}
+              >
+                {row.left?.text}
+              </td>
+              <td className="w-8 px-2 text-right text-gray-400 select-none">
+                {row.right?.number}
+              </td>
+              <td
+                className={`px-2 whitespace-pre ${ROW_STYLES[row.type].right}`}
+              >
+                {row.right?.text}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { startRegistration } from "@simplewebauthn/browser";
+import { signWithPasskey } from "@/lib/device-keys";
+import {
+  computePasskeyChangeChallenge,
+  computePasskeyOptionsChallenge,
+  type UserPasskey,
+} from "@/lib/user-passkeys";
+import { getCoseAlgorithmName } from "@/lib/cose-to-jwt";
+
+interface PasskeyManagerProps {
+  userId: string;
+  // The passkey this session logged in with (cannot be removed here)
+  currentCredentialId: string;
+}
+
+export default function PasskeyManager({
+  userId,
+  currentCredentialId,
+}: PasskeyManagerProps) {
+  const [passkeys, setPasskeys] = useState<UserPasskey[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    loadPasskeys();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId]);
+
+  const loadPasskeys = async () => {
+    try {
+      const response = await fetch(
+        `/api/passkeys?userId=${encodeURIComponent(userId)}`,
+      );
+      if (!response.ok) throw new Error("Failed to load passkeys");
+
+      const data = await response.json();
+      setPasskeys(data.passkeys);
+    } catch (err) {
+      console.error("Error loading passkeys:", err);
+    }
+  };
+
+  const handleAddPasskey = async () => {
+    const label = prompt(
+      "Name for the new passkey (e.g. 'Backup security key'):",
+    );
+    if (label === null) return;
+
+    try {
+      setIsBusy(true);
+
+      // Only the user's own passkeys can ask for another one
+      const existingCredentialIds = passkeys.map((p) => p.credentialId);
+      const requestedAt = Date.now();
+      const optionsResponse = await fetch("/api/passkeys/options", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId,
+          requestedAt,
+          passkeyAssertion: await signWithPasskey(
+            existingCredentialIds,
+            await computePasskeyOptionsChallenge({ userId, requestedAt }),
+          ),
+        }),
+      });
+      if (!optionsResponse.ok) {
+        const error = await optionsResponse.json();
+        throw new Error(error.error || "Failed to start passkey registration");
+      }
+
+      // Create the new passkey, then approve it with an existing one
+      const registrationResponse = await startRegistration({
+        optionsJSON: await optionsResponse.json(),
+      });
+      const passkeyAssertion = await signWithPasskey(
+        existingCredentialIds,
+        await computePasskeyChangeChallenge({
+          action: "add-passkey",
+          userId,
+          credentialId: registrationResponse.id,
+        }),
+      );
+
+      const response = await fetch("/api/passkeys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId,
+          registrationResponse,
+          passkeyAssertion,
+          label,
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to add passkey");
+      }
+
+      await loadPasskeys();
+    } catch (error) {
+      console.error("Add passkey error:", error);
+      alert(
+        `Failed to add passkey: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRemovePasskey = async (passkey: UserPasskey) => {
+    if (
+      !confirm(
+        `Remove passkey "${passkey.label || passkey.credentialId.substring(0, 12)}"? It will no longer be able to log in, and the signing keys it attested will stop working.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+
+      const passkeyAssertion = await signWithPasskey(
+        passkeys.map((p) => p.credentialId),
+        await computePasskeyChangeChallenge({
+          action: "remove-passkey",
+          userId,
+          credentialId: passkey.credentialId,
+        }),
+      );
+
+      const response = await fetch(
+        `/api/passkeys/${encodeURIComponent(passkey.credentialId)}`,
+        {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ userId, passkeyAssertion }),
+        },
+      );
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to remove passkey");
+      }
+
+      await loadPasskeys();
+    } catch (error) {
+      console.error("Remove passkey error:", error);
+      alert(
+        `Failed to remove passkey: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      );
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold">Passkeys ({passkeys.length})</h2>
+        <button
+          onClick={handleAddPasskey}
+          disabled={isBusy}
+          className="text-sm px-4 py-2 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          Add another passkey
+        </button>
+      </div>
+      {passkeys.length === 1 && (
+        <p className="text-sm text-amber-700 dark:text-amber-300 mb-3">
+          You only have one passkey. Add a backup so losing this device does not
+          lock you out.
+        </p>
+      )}
+      <ul className="space-y-2">
+        {passkeys.map((passkey) => (
+          <li
+            key={passkey.credentialId}
+            className="flex items-center justify-between gap-4 border border-gray-200 dark:border-gray-700 rounded p-3 text-sm"
+          >
+            <div className="min-w-0">
+              <div className="font-medium">
+                {passkey.label || "Passkey"}
+                {passkey.primary && (
+                  <span className="ml-2 text-xs text-gray-500">(primary)</span>
+                )}
+                {passkey.credentialId === currentCredentialId && (
+                  <span className="ml-2 px-2 py-0.5 rounded text-xs bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200">
+                    This session
+                  </span>
+                )}
+              </div>
+              <div className="text-xs text-gray-500 font-mono truncate">
+                {passkey.credentialId} ·{" "}
+                {getCoseAlgorithmName(passkey.algorithm)} · added{" "}
+                {new Date(passkey.createdAt).toLocaleDateString()}
+              </div>
+            </div>
+            <button
+              onClick={() => handleRemovePasskey(passkey)}
+              disabled={
+                isBusy ||
+                passkeys.length === 1 ||
+                passkey.credentialId === currentCredentialId
+              }
+              className="text-xs px-3 py-1 rounded border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import type { PolicyEvaluation } from "@/lib/approval-policy";
+
+interface PolicyTraceProps {
+  evaluation: PolicyEvaluation;
+}
+
+/**
+ * Render an approval policy evaluation as a tree of satisfied/missing clauses
+ */
+export default function PolicyTrace({ evaluation }: PolicyTraceProps) {
+  return (
+    <div>
+      <div className="flex items-start gap-2 text-sm">
+        <span
+          className={
+            evaluation.satisfied
+              ? "text-green-600 dark:text-green-400"
+              : "text-yellow-600 dark:text-yellow-400"
+          }
+        >
+          {evaluation.satisfied ? "✓" : "○"}
+        </span>
+        <div>
+          <span className="font-medium">{evaluation.description}</span>
+          <span className="ml-2 text-gray-500 dark:text-gray-400">
+            {evaluation.detail}
+          </span>
+        </div>
+      </div>
+      {evaluation.children && evaluation.children.length > 0 && (
+        <div className="ml-6 mt-1 pl-3 border-l border-gray-200 dark:border-gray-700 space-y-1">
+          {evaluation.children.map((child, i) => (
+            <PolicyTrace key={i} evaluation={child} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,11 @@ interface SignatureIndicatorProps {
   userName: string;
   signature: string;
   signedAt: number;
+  // Voting weight of the signer (shown when greater than 1)
+  weight?: number;
+  // Signed decision; declines are shown in red with their reason
+  decision?: "approve" | "decline";
+  reason?: string;
   showDetails?: boolean;
 }
 
@@ -11,9 +16,25 @@ export default function SignatureIndicator({
   userName,
   signature,
   signedAt,
+  weight = 1,
+  decision = "approve",
+  reason,
   showDetails = false,
 }: SignatureIndicatorProps) {
   const formattedDate = new Date(signedAt).toLocaleString();
+  const weightLabel = weight > 1 ? ` (weight ${weight})` : "";
+
+  if (decision === "decline") {
+    return (
+      <DeclineIndicator
+        userName={userName}
+        signature={signature}
+        formattedDate={formattedDate}
+        reason={reason}
+        showDetails={showDetails}
+      />
+    );
+  }
 
   if (showDetails) {
     return (
@@ -23,6 +44,7 @@ export default function SignatureIndicator({
           <div className="flex-1">
             <div className="font-medium text-green-900 dark:text-green-100">
               {userName}
+              {weightLabel}
             </div>
             <div className="text-xs text-green-700 dark:text-green-300 mt-1">
               Signed on {formattedDate}
@@ -49,7 +71,10 @@ export default function SignatureIndicator({
       title={`Signed by ${userName} on ${formattedDate}`}
     >
       <span className="text-green-600 dark:text-green-400">✓</span>
-      <span>{userName}</span>
+      <span>
+        {userName}
+        {weightLabel}
+      </span>
 
       {/* Tooltip on hover */}
       <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 hidden group-hover:block z-10">
@@ -61,3 +86,107 @@ export default function SignatureIndicator({
     </div>
   );
 }
+
+interface DeclineIndicatorProps {
+  userName: string;
+  signature: string;
+  formattedDate: string;
+  reason?: string;
+  showDetails: boolean;
+}
+
+function DeclineIndicator({
+  userName,
+  signature,
+  formattedDate,
+  reason,
+  showDetails,
+}: DeclineIndicatorProps) {
+  if (showDetails) {
+    return (
+      <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+        <div className="flex items-start gap-2">
+          <span className="text-red-600 dark:text-red-400 text-xl">✗</span>
+          <div className="flex-1">
+            <div className="font-medium text-red-900 dark:text-red-100">
+              {userName} declined
+            </div>
+            <div className="text-xs text-red-700 dark:text-red-300 mt-1">
+              Declined on {formattedDate}
+            </div>
+            {reason && (
+              <div className="text-sm text-red-800 dark:text-red-200 mt-1 italic">
+                &ldquo;{reason}&rdquo;
+              </div>
+            )}
+            <details className="mt-2">
+              <summary className="text-xs text-red-600 dark:text-red-400 cursor-pointer hover:underline">
+                View signature
+              </summary>
+              <div className="mt-2 p-2 bg-white dark:bg-gray-800 rounded border border-red-200 dark:border-red-700">
+                <p className="font-mono text-xs break-all text-gray-700 dark:text-gray-300">
+                  {signature.substring(0, 100)}...
+                </p>
+              </div>
+            </details>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="inline-flex items-center gap-1 px-2 py-1 bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200 rounded-md text-sm"
+      title={`Declined by ${userName} on ${formattedDate}${
+        reason ? `: ${reason}` : ""
+      }`}
+    >
+      <span className="text-red-600 dark:text-red-400">✗</span>
+      <span>{userName}</span>
+    </div>
+  );
+}
+
+interface ThresholdIndicatorProps {
+  signatureCount: number;
+  requiredSignatures: number;
+  eligibleSigners: number;
+  approved: boolean;
+  accumulatedWeight?: number;
+  requiredWeight?: number;
+}
+
+/**
+ * Threshold progress badge, e.g. "1 of 2 (3 eligible)"
+ * Weighted statements also show the accumulated vs. required weight
+ */
+export function ThresholdIndicator({
+  signatureCount,
+  requiredSignatures,
+  eligibleSigners,
+  approved,
+  accumulatedWeight,
+  requiredWeight,
+}: ThresholdIndicatorProps) {
+  const isWeighted =
+    accumulatedWeight !== undefined &&
+    requiredWeight !== undefined &&
+    (accumulatedWeight !== signatureCount ||
+      requiredWeight !== requiredSignatures);
+
+  return (
+    <div
+      className={`px-3 py-1 rounded-full text-sm font-medium ${
+        approved
+          ? "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200"
+          : "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200"
+      }`}
+      title={`${requiredSignatures} of ${eligibleSigners} eligible signers must sign`}
+    >
+      {signatureCount} of {requiredSignatures} ({eligibleSigners} eligible)
+      {isWeighted && ` · weight ${accumulatedWeight}/${requiredWeight}`}
+      {approved && " ✓"}
+    </div>
+  );
+}
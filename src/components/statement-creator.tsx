@@ -1,6 +1,12 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
+
+interface User {
+  userId: string;
+  name: string;
+  role: "creator" | "investor";
+}
 
 interface StatementCreatorProps {
   userId: string;
@@ -37,10 +43,54 @@ export default function StatementCreator({
   const [content, setContent] = useState(
     JSON.stringify(getSampleJson(), null, 2),
   );
+  const [requiredWeight, setRequiredWeight] = useState(2);
+  const [users, setUsers] = useState<User[]>([]);
+  const [signerIds, setSignerIds] = useState<Set<string>>(new Set());
+  const [signerWeights, setSignerWeights] = useState<Record<string, number>>(
+    {},
+  );
+  const [policy, setPolicy] = useState("");
+  // datetime-local value, empty for no deadline
+  const [deadline, setDeadline] = useState("");
+  // High assurance: approvals are direct passkey signatures
+  const [passkeySigning, setPasskeySigning] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handleCreate = async () => {
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    try {
+      const response = await fetch("/api/users");
+      if (!response.ok) throw new Error("Failed to load users");
+
+      const data = await response.json();
+      setUsers(data.users);
+      // Every registered user is a designated signer by default
+      setSignerIds(new Set(data.users.map((u: User) => u.userId)));
+    } catch (err) {
+      console.error("Error loading users:", err);
+    }
+  };
+
+  const toggleSigner = (signerId: string) => {
+    const newSignerIds = new Set(signerIds);
+    if (newSignerIds.has(signerId)) {
+      newSignerIds.delete(signerId);
+    } else {
+      newSignerIds.add(signerId);
+    }
+    setSignerIds(newSignerIds);
+  };
+
+  const totalWeight = Array.from(signerIds).reduce(
+    (sum, id) => sum + (signerWeights[id] ?? 1),
+    0,
+  );
+
+  const handleCreate = async (draft: boolean) => {
     try {
       setError(null);
       setIsCreating(true);
@@ -48,6 +98,12 @@ export default function StatementCreator({
       // Validate JSON
       JSON.parse(content);
 
+      const parsedPolicy = policy.trim() ? JSON.parse(policy) : undefined;
+
+      if (signerIds.size === 0) {
+        throw new Error("Select at least one designated signer");
+      }
+
       const response = await fetch("/api/statements/create", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -55,6 +111,15 @@ export default function StatementCreator({
           title,
           content,
           creatorId: userId,
+          requiredWeight,
+          signerIds: Array.from(signerIds),
+          signerWeights: Object.fromEntries(
+            Array.from(signerIds).map((id) => [id, signerWeights[id] ?? 1]),
+          ),
+          policy: parsedPolicy,
+          draft,
+          expiresAt: deadline ? new Date(deadline).getTime() : undefined,
+          signingMethod: passkeySigning ? "passkey" : "jwt",
         }),
       });
 
@@ -66,9 +131,16 @@ export default function StatementCreator({
       // Reset form
       setTitle(generateDefaultTitle());
       setContent(JSON.stringify(getSampleJson(), null, 2));
+      setPolicy("");
+      setDeadline("");
+      setPasskeySigning(false);
       onStatementCreated();
 
-      alert("Statement created successfully!");
+      alert(
+        draft
+          ? "Draft saved. Open it for signatures from your statement list."
+          : "Statement created successfully!",
+      );
     } catch (err) {
       if (err instanceof SyntaxError) {
         setError("Invalid JSON format. Please check your syntax.");
@@ -104,6 +176,100 @@ export default function StatementCreator({
           />
         </div>
 
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-2">
+            Designated Signers ({signerIds.size} eligible)
+          </label>
+          {users.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No registered users found
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {users.map((user) => (
+                <label
+                  key={user.userId}
+                  className="flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={signerIds.has(user.userId)}
+                    onChange={() => toggleSigner(user.userId)}
+                    disabled={isCreating}
+                  />
+                  <span>{user.name}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    ({user.role})
+                  </span>
+                  {signerIds.has(user.userId) && (
+                    <input
+                      type="number"
+                      min={1}
+                      value={signerWeights[user.userId] ?? 1}
+                      onChange={(e) =>
+                        setSignerWeights({
+                          ...signerWeights,
+                          [user.userId]: Number(e.target.value),
+                        })
+                      }
+                      className="w-14 px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                      disabled={isCreating}
+                      title="Signature weight"
+                    />
+                  )}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-2">
+            Required Signature Weight (of {totalWeight} total)
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={totalWeight}
+            value={requiredWeight}
+            onChange={(e) => setRequiredWeight(Number(e.target.value))}
+            className="w-full px-4 py-3 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            disabled={isCreating || policy.trim() !== ""}
+          />
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-2">
+            Signing Deadline (optional)
+          </label>
+          <p className="text-gray-600 dark:text-gray-400 mb-2 text-xs">
+            The statement expires if it is not approved by this time
+          </p>
+          <input
+            type="datetime-local"
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+            className="w-full px-4 py-3 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            disabled={isCreating}
+          />
+        </div>
+
+        <div className="mb-4">
+          <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+            <input
+              type="checkbox"
+              checked={passkeySigning}
+              onChange={(e) => setPasskeySigning(e.target.checked)}
+              disabled={isCreating}
+            />
+            Require direct passkey signatures
+          </label>
+          <p className="text-gray-600 dark:text-gray-400 mt-1 text-xs">
+            For high-stakes statements: each approval is a passkey assertion
+            over the content hash instead of a JWT from the device key
+          </p>
+        </div>
+
         <div className="mb-4">
           <label className="block text-sm font-medium mb-2">
             Statement Content (JSON)
@@ -116,6 +282,27 @@ export default function StatementCreator({
           />
         </div>
 
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-2">
+            Approval Policy (JSON, optional)
+          </label>
+          <p className="text-gray-600 dark:text-gray-400 mb-2 text-xs">
+            Overrides the required signature weight, e.g.{" "}
+            <code>
+              {
+                '{"type":"and","clauses":[{"type":"quorum","threshold":2,"signers":{"type":"role","role":"investor"}},{"type":"quorum","threshold":1,"signers":{"type":"creator"}}]}'
+              }
+            </code>
+          </p>
+          <textarea
+            value={policy}
+            onChange={(e) => setPolicy(e.target.value)}
+            className="w-full h-32 px-4 py-3 font-mono text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            disabled={isCreating}
+            placeholder="Leave empty for a plain signature threshold"
+          />
+        </div>
+
         {error && (
           <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-300 text-sm">
             {error}
@@ -124,13 +311,21 @@ export default function StatementCreator({
 
         <div className="flex gap-4">
           <button
-            onClick={handleCreate}
+            onClick={() => handleCreate(false)}
             disabled={isCreating || !content.trim()}
             className="rounded-full border border-solid border-transparent transition-colors flex items-center justify-center bg-blue-600 text-white gap-2 hover:bg-blue-700 font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isCreating ? "Creating..." : "Create Statement"}
           </button>
 
+          <button
+            onClick={() => handleCreate(true)}
+            disabled={isCreating || !content.trim()}
+            className="rounded-full border border-solid border-gray-300 dark:border-gray-600 transition-colors flex items-center justify-center bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 gap-2 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium text-sm sm:text-base h-10 sm:h-12 px-4 sm:px-5 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save as Draft
+          </button>
+
           <button
             onClick={() => setContent(JSON.stringify(getSampleJson(), null, 2))}
             disabled={isCreating}
@@ -1,9 +1,18 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import SignatureIndicator from "./signature-indicator";
+import SignatureIndicator, { ThresholdIndicator } from "./signature-indicator";
+import StatementStateBadge, {
+  StatementStateFilter,
+  DeadlineCountdown,
+} from "./statement-state";
 import Link from "next/link";
 import { StatementStatus } from "@/lib/statements";
+import type {
+  SignatureDecision,
+  SigningMethod,
+  StatementState,
+} from "@/lib/statement-lifecycle";
 
 interface StatementSignature {
   id: number;
@@ -11,50 +20,91 @@ interface StatementSignature {
   userId: string;
   userName: string;
   userRole: string;
+  weight: number;
+  decision: SignatureDecision;
+  reason?: string;
+  signingMethod: SigningMethod;
   signature: string;
-  jwt: string;
+  jwt?: string;
   signedAt: number;
 }
 
+interface StatementSigner {
+  userId: string;
+  userName: string;
+  userRole: string;
+  weight: number;
+}
+
 interface Statement {
   statementId: string;
   title?: string;
   content: string;
   creatorId: string;
+  requiredSignatures: number;
+  eligibleSigners: number;
+  requiredWeight: number;
+  expiresAt?: number;
+  signingMethod: SigningMethod;
+  version: number;
   createdAt: number;
   signatures: StatementSignature[];
   signatureCount: number;
+  declineCount: number;
+  accumulatedWeight: number;
   status: StatementStatus;
   creatorName: string;
+  signers: StatementSigner[];
+}
+
+interface DraftEdit {
+  statementId: string;
+  title: string;
+  content: string;
+  // Drafts are edited in place, open statements get a new version
+  mode: "draft" | "amend";
 }
 
 interface StatementListProps {
   currentUserId?: string;
   canSign?: boolean;
   onSignStatement?: (statementId: string) => void;
+  onDeclineStatement?: (statementId: string) => void;
+  onWithdrawSignature?: (statementId: string) => void;
   refreshTrigger?: number;
+  // Leave out expired statements (e.g. for the investor inbox)
+  hideExpired?: boolean;
 }
 
 export default function StatementList({
   currentUserId,
   canSign = false,
   onSignStatement,
+  onDeclineStatement,
+  onWithdrawSignature,
   refreshTrigger = 0,
+  hideExpired = false,
 }: StatementListProps) {
   const [statements, setStatements] = useState<Statement[]>([]);
   const [loading, setLoading] = useState(true);
   const [expandedStatements, setExpandedStatements] = useState<Set<string>>(
     new Set(),
   );
+  const [stateFilter, setStateFilter] = useState<StatementState | "all">("all");
+  const [draftEdit, setDraftEdit] = useState<DraftEdit | null>(null);
 
   useEffect(() => {
     loadStatements();
-  }, [refreshTrigger]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refreshTrigger, stateFilter, hideExpired]);
 
   const loadStatements = async () => {
     try {
       setLoading(true);
-      const response = await fetch("/api/statements");
+      const query = new URLSearchParams();
+      if (stateFilter !== "all") query.set("state", stateFilter);
+      if (hideExpired) query.set("hideExpired", "true");
+      const response = await fetch(`/api/statements?${query}`);
       if (!response.ok) throw new Error("Failed to load statements");
 
       const data = await response.json();
@@ -81,9 +131,114 @@ export default function StatementList({
     return statement.signatures.some((sig) => sig.userId === currentUserId);
   };
 
+  const isDesignatedSigner = (statement: Statement) => {
+    if (!currentUserId) return false;
+    if (statement.signers.length === 0) return true;
+    return statement.signers.some((signer) => signer.userId === currentUserId);
+  };
+
+  const handleTransition = async (statementId: string, to: StatementState) => {
+    try {
+      const response = await fetch(
+        `/api/statements/${statementId}/transition`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ to, actorId: currentUserId }),
+        },
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to change statement state");
+      }
+
+      await loadStatements();
+    } catch (error) {
+      console.error("Error changing statement state:", error);
+      alert(
+        error instanceof Error
+          ? error.message
+          : "Failed to change statement state",
+      );
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draftEdit) return;
+
+    try {
+      JSON.parse(draftEdit.content);
+    } catch {
+      alert("Invalid JSON format");
+      return;
+    }
+
+    const isAmendment = draftEdit.mode === "amend";
+    const url = isAmendment
+      ? `/api/statements/${draftEdit.statementId}/amend`
+      : `/api/statements/${draftEdit.statementId}`;
+    const failure = isAmendment
+      ? "Failed to amend statement"
+      : "Failed to update draft";
+
+    try {
+      const response = await fetch(url, {
+        method: isAmendment ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          editorId: currentUserId,
+          title: draftEdit.title.trim() || undefined,
+          content: draftEdit.content,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || failure);
+      }
+
+      setDraftEdit(null);
+      await loadStatements();
+    } catch (error) {
+      console.error("Error saving statement:", error);
+      alert(error instanceof Error ? error.message : failure);
+    }
+  };
+
+  const getOutstandingSigners = (statement: Statement) => {
+    return statement.signers.filter(
+      (signer) =>
+        !statement.signatures.some((sig) => sig.userId === signer.userId),
+    );
+  };
+
+  const startEditing = (statement: Statement, mode: DraftEdit["mode"]) => {
+    setDraftEdit({
+      statementId: statement.statementId,
+      title: statement.title || "",
+      content: JSON.stringify(JSON.parse(statement.content), null, 2),
+      mode,
+    });
+  };
+
   const renderStatementCard = (statement: Statement) => {
     const isExpanded = expandedStatements.has(statement.statementId);
     const userSigned = hasUserSigned(statement);
+    // Approvals and declines both use up an eligible signer
+    const allSigned = statement.signatures.length >= statement.eligibleSigners;
+    const userDeclined = statement.signatures.some(
+      (sig) => sig.userId === currentUserId && sig.decision === "decline",
+    );
+    const canUserSign = isDesignatedSigner(statement);
+    const outstandingSigners = getOutstandingSigners(statement);
+    const isCreator = statement.creatorId === currentUserId;
+    // Treat a statement whose deadline passed while the page was open as closed
+    const isOpen =
+      statement.status === "open" &&
+      !(statement.expiresAt && statement.expiresAt <= Date.now());
+    const isDraft = statement.status === "draft";
+    const isEditing = draftEdit?.statementId === statement.statementId;
 
     return (
       <div
@@ -98,24 +253,87 @@ export default function StatementList({
                 {statement.title ||
                   `Statement #${statement.statementId.substring(0, 8)}`}
               </h3>
-              <div
-                className={`px-3 py-1 rounded-full text-sm font-medium ${
-                  statement.status === "approved"
-                    ? "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200"
-                    : "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200"
-                }`}
-              >
-                {statement.signatureCount}/3 signatures
-                {statement.status === "approved" && " ✓"}
-              </div>
+              {statement.version > 1 && (
+                <span className="text-xs font-mono text-gray-500 dark:text-gray-400">
+                  v{statement.version}
+                </span>
+              )}
+              <StatementStateBadge state={statement.status} />
+              {statement.signingMethod === "passkey" && (
+                <span
+                  className="px-2 py-0.5 rounded text-xs font-medium bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-200"
+                  title="Approvals are signed directly by the signer's passkey"
+                >
+                  Passkey signing
+                </span>
+              )}
+              <ThresholdIndicator
+                signatureCount={statement.signatureCount}
+                requiredSignatures={statement.requiredSignatures}
+                eligibleSigners={statement.eligibleSigners}
+                approved={statement.status === "approved"}
+                accumulatedWeight={statement.accumulatedWeight}
+                requiredWeight={statement.requiredWeight}
+              />
             </div>
             <p className="text-sm text-gray-600 dark:text-gray-400">
               Created by {statement.creatorName} on{" "}
               {new Date(statement.createdAt).toLocaleDateString()}
             </p>
+            {statement.expiresAt && (isOpen || isDraft) && (
+              <div className="mt-1">
+                <DeadlineCountdown expiresAt={statement.expiresAt} />
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Draft editor */}
+        {isEditing && draftEdit && (
+          <div className="mb-4 space-y-3 p-4 bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700">
+            {draftEdit.mode === "amend" && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Amending creates version {statement.version + 1}. Existing
+                signatures stay with version {statement.version} and signers
+                have to sign again.
+              </p>
+            )}
+            <input
+              type="text"
+              value={draftEdit.title}
+              onChange={(e) =>
+                setDraftEdit({ ...draftEdit, title: e.target.value })
+              }
+              placeholder="Statement title"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+            />
+            <textarea
+              value={draftEdit.content}
+              onChange={(e) =>
+                setDraftEdit({ ...draftEdit, content: e.target.value })
+              }
+              rows={8}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 font-mono text-sm"
+            />
+            <div className="flex gap-3">
+              <button
+                onClick={handleSaveDraft}
+                className="rounded-full border border-solid border-transparent transition-colors flex items-center justify-center bg-blue-600 text-white gap-2 hover:bg-blue-700 font-medium text-sm h-10 px-4"
+              >
+                {draftEdit.mode === "amend"
+                  ? "Publish Amendment"
+                  : "Save Draft"}
+              </button>
+              <button
+                onClick={() => setDraftEdit(null)}
+                className="rounded-full border border-solid border-gray-300 dark:border-gray-600 transition-colors flex items-center justify-center bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 gap-2 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium text-sm h-10 px-4"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Content */}
         <div className="mb-4">
           <button
@@ -135,7 +353,7 @@ export default function StatementList({
 
         {/* Signatures */}
         <div className="mb-4">
-          <h4 className="text-sm font-medium mb-2">Signed by:</h4>
+          <h4 className="text-sm font-medium mb-2">Responses:</h4>
           {statement.signatures.length > 0 ? (
             <div className="flex flex-wrap gap-2">
               {statement.signatures.map((sig) => (
@@ -144,6 +362,9 @@ export default function StatementList({
                   userName={sig.userName}
                   signature={sig.signature}
                   signedAt={sig.signedAt}
+                  weight={sig.weight}
+                  decision={sig.decision}
+                  reason={sig.reason}
                 />
               ))}
             </div>
@@ -154,30 +375,126 @@ export default function StatementList({
           )}
         </div>
 
+        {/* Outstanding designated signers */}
+        {isOpen && outstandingSigners.length > 0 && (
+          <div className="mb-4">
+            <h4 className="text-sm font-medium mb-2">
+              Awaiting signature from:
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {outstandingSigners.map((signer) => (
+                <span
+                  key={signer.userId}
+                  className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md text-sm"
+                >
+                  <span className="text-gray-400">○</span>
+                  {signer.userName}
+                  {signer.userId === currentUserId && " (you)"}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Actions */}
-        <div className="flex gap-3">
-          {canSign &&
+        <div className="flex flex-wrap gap-3">
+          {isCreator && isDraft && !isEditing && (
+            <>
+              <button
+                onClick={() => startEditing(statement, "draft")}
+                className="rounded-full border border-solid border-gray-300 dark:border-gray-600 transition-colors flex items-center justify-center bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 gap-2 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium text-sm h-10 px-4"
+              >
+                Edit Draft
+              </button>
+              <button
+                onClick={() => handleTransition(statement.statementId, "open")}
+                className="rounded-full border border-solid border-transparent transition-colors flex items-center justify-center bg-blue-600 text-white gap-2 hover:bg-blue-700 font-medium text-sm h-10 px-4"
+              >
+                Open for Signatures
+              </button>
+            </>
+          )}
+          {isCreator && isOpen && !isEditing && (
+            <button
+              onClick={() => startEditing(statement, "amend")}
+              className="rounded-full border border-solid border-gray-300 dark:border-gray-600 transition-colors flex items-center justify-center bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 gap-2 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium text-sm h-10 px-4"
+            >
+              Amend
+            </button>
+          )}
+          {isCreator && (isDraft || isOpen) && (
+            <button
+              onClick={() => {
+                if (confirm("Withdraw this statement?")) {
+                  handleTransition(statement.statementId, "withdrawn");
+                }
+              }}
+              className="rounded-full border border-solid border-gray-300 dark:border-gray-600 transition-colors flex items-center justify-center bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 gap-2 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium text-sm h-10 px-4"
+            >
+              Withdraw
+            </button>
+          )}
+          {isOpen &&
+            canSign &&
+            canUserSign &&
             !userSigned &&
             onSignStatement &&
-            statement.signatureCount < 3 && (
+            !allSigned && (
               <button
                 onClick={() => onSignStatement(statement.statementId)}
                 className="rounded-full border border-solid border-transparent transition-colors flex items-center justify-center bg-green-600 text-white gap-2 hover:bg-green-700 font-medium text-sm h-10 px-4"
               >
-                Sign Statement
+                {statement.signingMethod === "passkey"
+                  ? "Sign with Passkey"
+                  : "Sign Statement"}
               </button>
             )}
-          {statement.signatureCount >= 3 && !userSigned && (
+          {isOpen &&
+            canSign &&
+            canUserSign &&
+            !userSigned &&
+            onDeclineStatement &&
+            !allSigned && (
+              <button
+                onClick={() => onDeclineStatement(statement.statementId)}
+                className="rounded-full border border-solid border-red-300 dark:border-red-700 transition-colors flex items-center justify-center bg-white dark:bg-gray-800 text-red-600 dark:text-red-400 gap-2 hover:bg-red-50 dark:hover:bg-red-900/20 font-medium text-sm h-10 px-4"
+              >
+                Decline
+              </button>
+            )}
+          {isOpen && !canUserSign && !userSigned && (
+            <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+              <span>You are not a designated signer</span>
+            </div>
+          )}
+          {isOpen && canUserSign && allSigned && !userSigned && (
             <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
-              <span>Maximum signatures reached (3/3)</span>
+              <span>
+                Maximum signatures reached ({statement.signatures.length}/
+                {statement.eligibleSigners})
+              </span>
             </div>
           )}
-          {userSigned && (
+          {userSigned && !userDeclined && (
             <div className="flex items-center gap-2 text-sm text-green-600 dark:text-green-400">
               <span>✓</span>
               <span>You signed this statement</span>
             </div>
           )}
+          {userDeclined && (
+            <div className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+              <span>✗</span>
+              <span>You declined this statement</span>
+            </div>
+          )}
+          {isOpen && userSigned && onWithdrawSignature && (
+            <button
+              onClick={() => onWithdrawSignature(statement.statementId)}
+              className="rounded-full border border-solid border-gray-300 dark:border-gray-600 transition-colors flex items-center justify-center bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 gap-2 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium text-sm h-10 px-4"
+            >
+              Withdraw Signature
+            </button>
+          )}
           <Link
             href={`/technical/statement/${statement.statementId}`}
             className="rounded-full border border-solid border-gray-300 dark:border-gray-600 transition-colors flex items-center justify-center bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 gap-2 hover:bg-gray-50 dark:hover:bg-gray-700 font-medium text-sm h-10 px-4"
@@ -197,15 +514,16 @@ export default function StatementList({
     );
   }
 
-  // Split statements into own and others
+  // Split statements into own and others (drafts are private to their creator)
   const myStatements = statements.filter(
     (statement) => statement.creatorId === currentUserId,
   );
   const otherStatements = statements.filter(
-    (statement) => statement.creatorId !== currentUserId,
+    (statement) =>
+      statement.creatorId !== currentUserId && statement.status !== "draft",
   );
 
-  if (statements.length === 0) {
+  if (statements.length === 0 && stateFilter === "all") {
     return (
       <div className="text-center py-8 text-gray-600 dark:text-gray-400">
         No statements yet. Create your first statement to get started.
@@ -215,6 +533,8 @@ export default function StatementList({
 
   return (
     <div className="space-y-8">
+      <StatementStateFilter value={stateFilter} onChange={setStateFilter} />
+
       {/* My Statements Section - only show if user has created statements */}
       {myStatements.length > 0 && (
         <div>
@@ -229,8 +549,8 @@ export default function StatementList({
       <div>
         <h2 className="text-2xl font-bold mb-4">Available Statements</h2>
         <p className="text-gray-600 dark:text-gray-400 mb-6">
-          Review statements from other users and add your signature. A statement
-          requires 2 out of 3 signatures to be valid.
+          Review statements from other users and add your signature. Each
+          statement is valid once it reaches its own signature threshold.
         </p>
         {otherStatements.length > 0 ? (
           <div className="w-full max-w-4xl space-y-4">
@@ -238,7 +558,9 @@ export default function StatementList({
           </div>
         ) : (
           <div className="text-center py-8 text-gray-600 dark:text-gray-400">
-            No statements from other users available.
+            {stateFilter === "all"
+              ? "No statements from other users available."
+              : `No ${stateFilter} statements from other users.`}
           </div>
         )}
       </div>
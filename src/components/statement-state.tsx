@@ -0,0 +1,113 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  STATEMENT_STATES,
+  formatTimeRemaining,
+  type StatementState,
+} from "@/lib/statement-lifecycle";
+
+const STATE_STYLES: Record<StatementState, string> = {
+  draft: "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300",
+  open: "bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200",
+  approved:
+    "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200",
+  rejected: "bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200",
+  expired:
+    "bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-200",
+  withdrawn: "bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400",
+  superseded:
+    "bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-200",
+};
+
+interface StatementStateBadgeProps {
+  state: StatementState;
+}
+
+/**
+ * Lifecycle state badge, e.g. "OPEN"
+ */
+export default function StatementStateBadge({
+  state,
+}: StatementStateBadgeProps) {
+  return (
+    <span
+      className={`px-2 py-0.5 rounded text-xs font-bold uppercase ${STATE_STYLES[state]}`}
+    >
+      {state}
+    </span>
+  );
+}
+
+interface StatementStateFilterProps {
+  value: StatementState | "all";
+  onChange: (value: StatementState | "all") => void;
+}
+
+/**
+ * Select for filtering statement lists by lifecycle state
+ */
+export function StatementStateFilter({
+  value,
+  onChange,
+}: StatementStateFilterProps) {
+  return (
+    <label className="inline-flex items-center gap-2 text-sm">
+      <span className="text-gray-600 dark:text-gray-400">State:</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as StatementState | "all")}
+        className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700"
+      >
+        <option value="all">All</option>
+        {STATEMENT_STATES.map((state) => (
+          <option key={state} value={state}>
+            {state.charAt(0).toUpperCase() + state.slice(1)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+interface DeadlineCountdownProps {
+  expiresAt: number;
+}
+
+/**
+ * Live countdown to a statement's signing deadline
+ */
+export function DeadlineCountdown({ expiresAt }: DeadlineCountdownProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const deadline = new Date(expiresAt).toLocaleString();
+
+  if (expiresAt <= now) {
+    return (
+      <span className="text-sm text-gray-500 dark:text-gray-400">
+        Signing closed {deadline}
+      </span>
+    );
+  }
+
+  // Highlight the last 24 hours
+  const urgent = expiresAt - now < 24 * 60 * 60 * 1000;
+
+  return (
+    <span
+      className={`text-sm ${
+        urgent
+          ? "text-orange-600 dark:text-orange-400 font-medium"
+          : "text-gray-600 dark:text-gray-400"
+      }`}
+      title={`Signing deadline: ${deadline}`}
+    >
+      ⏱ Signing closes in {formatTimeRemaining(expiresAt, now)}
+    </span>
+  );
+}
@@ -2,14 +2,39 @@
 
 import { useState, useEffect } from "react";
 import {
+  base64URLStringToBuffer,
   startAuthentication,
   startRegistration,
 } from "@simplewebauthn/browser";
-import { SignJWT, generateKeyPair, exportJWK, type KeyLike } from "jose";
+import type { KeyLike } from "jose";
 import UserSetup from "@/components/user-setup";
 import StatementCreator from "@/components/statement-creator";
 import StatementList from "@/components/statement-list";
+import PasskeyManager from "@/components/passkey-manager";
 import Link from "next/link";
+import type { SignatureDecision } from "@/lib/statement-lifecycle";
+import { computeContentHash } from "@/lib/canonical-json";
+import {
+  signStatementJWT,
+  STATEMENT_APPROVAL_TYP,
+  STATEMENT_REVOCATION_TYP,
+} from "@/lib/signature-profile";
+import { signStatementContent } from "@/lib/approval-certificate";
+import {
+  attestDeviceKey,
+  deleteDeviceKey,
+  generateDeviceKey,
+  loadDeviceKey,
+  saveDeviceKey,
+  signWithPasskey,
+  toRegistration,
+} from "@/lib/device-keys";
+import { computeRevocationChallenge } from "@/lib/key-revocation";
+import { computePasskeyApprovalChallenge } from "@/lib/passkey-approval";
+import {
+  getSigningAlgorithm,
+  type SigningAlgorithm,
+} from "@/lib/signing-algorithms";
 
 interface UserSession {
   userId: string;
@@ -18,6 +43,8 @@ interface UserSession {
   credentialId: string;
   keyId: string;
   privateKey: KeyLike;
+  // Algorithm of the device key (see signing-algorithms.ts)
+  algorithm: SigningAlgorithm;
 }
 
 interface UserPortalProps {
@@ -45,18 +72,23 @@ export default function UserPortal({ role }: UserPortalProps) {
         const parsedSession = JSON.parse(stored);
 
         // Only load session if the role matches the current page
-        if (parsedSession.role === role && parsedSession.privateKeyJWK) {
-          // Reconstruct CryptoKey from JWK
-          const { importJWK } = await import("jose");
-          const privateKey = await importJWK(
-            parsedSession.privateKeyJWK,
-            "EdDSA",
-          );
-          setSession({
-            ...parsedSession,
-            privateKey,
-          });
-        } else if (parsedSession.role !== role) {
+        if (parsedSession.role === role) {
+          // The signing key lives in this device's IndexedDB. Sessions from
+          // before that (with a private JWK) must log in again, which enrols
+          // a device key
+          const deviceKey = parsedSession.privateKeyJWK
+            ? undefined
+            : await loadDeviceKey(parsedSession.userId);
+          if (deviceKey && deviceKey.keyId === parsedSession.keyId) {
+            setSession({
+              ...parsedSession,
+              privateKey: deviceKey.privateKey,
+              algorithm: getSigningAlgorithm(deviceKey.publicKeyJWK),
+            });
+          } else {
+            localStorage.removeItem("userSession");
+          }
+        } else {
           // User is logged in but with a different role - don't show session
           setSession(null);
         }
@@ -69,7 +101,7 @@ export default function UserPortal({ role }: UserPortalProps) {
     }
   };
 
-  const handleUserSetup = async (name: string) => {
+  const handleUserSetup = async (name: string, algorithm: SigningAlgorithm) => {
     try {
       setIsLoading(true);
 
@@ -88,47 +120,17 @@ export default function UserPortal({ role }: UserPortalProps) {
 
       // Get credentialId from registration response (no API call needed!)
       const credentialId = registrationResponse.id;
+      // The new user gets the ID the passkey was registered for
+      const userId = new TextDecoder().decode(
+        base64URLStringToBuffer(options.user.id),
+      );
 
-      // Generate JWT key pair locally (with extractable: true for session storage)
-      const keyPair = await generateKeyPair("EdDSA", {
-        crv: "Ed25519",
-        extractable: true,
-      });
-      const publicKeyJWK = await exportJWK(keyPair.publicKey);
-      const privateKeyJWK = await exportJWK(keyPair.privateKey);
-
-      // Compute public key fingerprint
-      const canonical = JSON.stringify({
-        kty: publicKeyJWK.kty,
-        crv: publicKeyJWK.crv,
-        x: publicKeyJWK.x,
-      });
-      const msgBuffer = new TextEncoder().encode(canonical);
-      const hashBuffer = await crypto.subtle.digest("SHA-256", msgBuffer);
-      const publicKeyFingerprint = Array.from(new Uint8Array(hashBuffer))
-        .map((b) => b.toString(16).padStart(2, "0"))
-        .join("");
-
-      const keyId = Array.from(crypto.getRandomValues(new Uint8Array(16)))
-        .map((b) => b.toString(16).padStart(2, "0"))
-        .join("");
-
-      // Construct authentication options locally (no API call needed!)
-      const authOptions = {
-        challenge: publicKeyFingerprint,
-        rpId:
-          window.location.hostname === "localhost"
-            ? "localhost"
-            : window.location.hostname,
-        timeout: 60000,
-        userVerification: "preferred" as const,
-        allowCredentials: [{ id: credentialId, type: "public-key" as const }],
-      };
-
-      // Perform passkey authentication for JWT key attestation (browser interaction)
-      const passkeyAttestation = await startAuthentication({
-        optionsJSON: authOptions,
-      });
+      // Generate this device's JWT key pair (the private key is not
+      // extractable) and have the passkey attest its key binding
+      const deviceKey = await generateDeviceKey(userId, algorithm);
+      const passkeyAttestation = await attestDeviceKey(deviceKey, [
+        credentialId,
+      ]);
 
       // Step 2: Complete registration (API call 2 of 2)
       const registerResponse = await fetch("/api/register/complete", {
@@ -139,12 +141,7 @@ export default function UserPortal({ role }: UserPortalProps) {
           name,
           role,
           passkeyAttestation,
-          jwtKeyData: {
-            keyId,
-            publicKeyJWK,
-            privateKeyJWK,
-            publicKeyFingerprint,
-          },
+          jwtKeyData: toRegistration(deviceKey),
         }),
       });
 
@@ -154,22 +151,23 @@ export default function UserPortal({ role }: UserPortalProps) {
       }
 
       const { user } = await registerResponse.json();
+      await saveDeviceKey(user.userId, deviceKey);
 
-      // Save unified session
+      // Save unified session (the private key stays in IndexedDB)
       const sessionData = {
         userId: user.userId,
         name: user.name,
         role: user.role,
         credentialId: user.credentialId,
-        keyId,
-        privateKeyJWK,
+        keyId: deviceKey.keyId,
       };
 
       localStorage.setItem("userSession", JSON.stringify(sessionData));
 
       setSession({
         ...sessionData,
-        privateKey: keyPair.privateKey,
+        privateKey: deviceKey.privateKey,
+        algorithm: getSigningAlgorithm(deviceKey.publicKeyJWK),
       });
 
       // Dispatch event to notify other components of login
@@ -188,7 +186,11 @@ export default function UserPortal({ role }: UserPortalProps) {
     }
   };
 
-  const handleSignStatement = async (statementId: string) => {
+  const submitSignature = async (
+    statementId: string,
+    decision: SignatureDecision,
+    reason?: string,
+  ) => {
     if (!session) return;
 
     try {
@@ -198,23 +200,60 @@ export default function UserPortal({ role }: UserPortalProps) {
 
       const { statement } = await stmtResponse.json();
 
+      if (statement.signingMethod === "passkey" && decision === "approve") {
+        await submitPasskeySignature(statementId, statement.content);
+        alert("Statement signed successfully with your passkey!");
+        setRefreshTrigger((prev) => prev + 1);
+        return;
+      }
+
+      // Get a single-use signing nonce for this statement
+      const nonceResponse = await fetch(
+        `/api/statements/${statementId}/nonce`,
+        { method: "POST" },
+      );
+      if (!nonceResponse.ok) {
+        const error = await nonceResponse.json();
+        throw new Error(error.error || "Failed to get signing nonce");
+      }
+      const { nonce } = await nonceResponse.json();
+
       // Create JWT payload with statement content
       const payload = {
-        statementId,
+        nonce,
+        version: statement.version,
         content: statement.content,
-        signer: session.userId,
-        timestamp: Date.now(),
+        // Hash of the canonical content, computed locally from what is signed
+        contentHash: await computeContentHash(statement.content),
+        decision,
+        ...(reason && { reason }),
       };
 
-      // Sign with JWT key
-      const jwt = await new SignJWT(payload)
-        .setProtectedHeader({
-          alg: "EdDSA",
-          typ: "JWT",
-          kid: session.keyId,
-        })
-        .setIssuedAt()
-        .sign(session.privateKey);
+      // Sign with JWT key (iss, sub, aud, iat, exp and jti per the profile)
+      const jwt = await signStatementJWT(
+        payload,
+        {
+          typ: STATEMENT_APPROVAL_TYP,
+          statementId,
+          signerId: session.userId,
+          audience: window.location.hostname,
+          keyId: session.keyId,
+          algorithm: session.algorithm,
+        },
+        session.privateKey,
+      );
+
+      // Approvals also sign the bare canonical content, so that all
+      // approvals can be combined into one certificate
+      const contentSignature =
+        decision === "approve"
+          ? await signStatementContent(
+              statement.content,
+              session.keyId,
+              session.privateKey,
+              session.algorithm,
+            )
+          : undefined;
 
       // Save signature
       // The backend will validate the signature and fech the associated user id, require the user to sign in
@@ -224,6 +263,7 @@ export default function UserPortal({ role }: UserPortalProps) {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           jwt,
+          contentSignature,
         }),
       });
 
@@ -232,7 +272,11 @@ export default function UserPortal({ role }: UserPortalProps) {
         throw new Error(error.error || "Failed to sign statement");
       }
 
-      alert("Statement signed successfully!");
+      alert(
+        decision === "approve"
+          ? "Statement signed successfully!"
+          : "Statement declined.",
+      );
       setRefreshTrigger((prev) => prev + 1);
     } catch (error) {
       console.error("Signing error:", error);
@@ -244,6 +288,195 @@ export default function UserPortal({ role }: UserPortalProps) {
     }
   };
 
+  // High-assurance statements: the passkey itself signs the content hash
+  const submitPasskeySignature = async (
+    statementId: string,
+    content: string,
+  ) => {
+    if (!session) return;
+
+    const optionsResponse = await fetch(
+      `/api/statements/${statementId}/passkey-sign?userId=${encodeURIComponent(session.userId)}`,
+    );
+    if (!optionsResponse.ok) {
+      const error = await optionsResponse.json();
+      throw new Error(error.error || "Failed to get passkey signing options");
+    }
+    const { nonce, ...optionsJSON } = await optionsResponse.json();
+
+    // Only approve the content shown here, in our own name
+    const challenge = await computePasskeyApprovalChallenge({
+      statementId,
+      contentHash: await computeContentHash(content),
+      userId: session.userId,
+      nonce,
+    });
+    if (optionsJSON.challenge !== challenge) {
+      throw new Error("Challenge is not the approval of the statement content");
+    }
+
+    const passkeyAssertion = await startAuthentication({ optionsJSON });
+
+    const response = await fetch(
+      `/api/statements/${statementId}/passkey-sign`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ passkeyAssertion, nonce }),
+      },
+    );
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || "Failed to sign statement");
+    }
+  };
+
+  const handleWithdrawSignature = async (statementId: string) => {
+    if (!session) return;
+    if (!confirm("Withdraw your signature from this statement?")) return;
+
+    try {
+      // Revocations are signed with the same attested JWT key
+      const jwt = await signStatementJWT(
+        { action: "revoke" },
+        {
+          typ: STATEMENT_REVOCATION_TYP,
+          statementId,
+          signerId: session.userId,
+          audience: window.location.hostname,
+          keyId: session.keyId,
+          algorithm: session.algorithm,
+        },
+        session.privateKey,
+      );
+
+      const response = await fetch(`/api/statements/${statementId}/revoke`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jwt }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to withdraw signature");
+      }
+
+      alert("Signature withdrawn.");
+      setRefreshTrigger((prev) => prev + 1);
+    } catch (error) {
+      console.error("Withdrawal error:", error);
+      alert(
+        `Failed to withdraw: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      );
+    }
+  };
+
+  const handleRotateKey = async () => {
+    if (!session) return;
+    if (
+      !confirm(
+        "Replace this device's signing key? Your passkey attests the new key; signatures already made stay valid.",
+      )
+    ) {
+      return;
+    }
+
+    try {
+      // The new key keeps the algorithm of the one it replaces
+      const newKey = await generateDeviceKey(session.userId, session.algorithm);
+      const passkeyAttestation = await attestDeviceKey(newKey, [
+        session.credentialId,
+      ]);
+
+      const response = await fetch(`/api/jwt-keys/${session.keyId}/rotate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          passkeyAttestation,
+          jwtKeyData: toRegistration(newKey),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to rotate signing key");
+      }
+
+      await saveDeviceKey(session.userId, newKey);
+      const stored = JSON.parse(localStorage.getItem("userSession") ?? "{}");
+      localStorage.setItem(
+        "userSession",
+        JSON.stringify({ ...stored, keyId: newKey.keyId }),
+      );
+      setSession({
+        ...session,
+        keyId: newKey.keyId,
+        privateKey: newKey.privateKey,
+        algorithm: getSigningAlgorithm(newKey.publicKeyJWK),
+      });
+
+      alert("Signing key rotated.");
+    } catch (error) {
+      console.error("Key rotation error:", error);
+      alert(
+        `Failed to rotate key: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      );
+    }
+  };
+
+  const handleRevokeKey = async () => {
+    if (!session) return;
+    const reason = prompt(
+      "Revoke this device's signing key? Signatures it makes from now on are rejected. Reason:",
+    );
+    if (reason === null || !reason.trim()) return;
+
+    try {
+      const request = { keyId: session.keyId, reason, effectiveAt: Date.now() };
+      const passkeyAssertion = await signWithPasskey(
+        [session.credentialId],
+        await computeRevocationChallenge(request),
+      );
+
+      const response = await fetch(`/api/jwt-keys/${session.keyId}/revoke`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...request, passkeyAssertion }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to revoke signing key");
+      }
+
+      // The next login on this device enrols a new key
+      await deleteDeviceKey(session.userId);
+      localStorage.removeItem("userSession");
+      setSession(null);
+      alert("Signing key revoked. Log in again to enrol a new key.");
+    } catch (error) {
+      console.error("Key revocation error:", error);
+      alert(
+        `Failed to revoke key: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      );
+    }
+  };
+
+  const handleSignStatement = (statementId: string) =>
+    submitSignature(statementId, "approve");
+
+  const handleDeclineStatement = (statementId: string) => {
+    const reason = prompt("Reason for declining this statement (optional):");
+    if (reason === null) return;
+    submitSignature(statementId, "decline", reason.trim() || undefined);
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -315,8 +548,27 @@ export default function UserPortal({ role }: UserPortalProps) {
               Welcome, {session?.name}
             </p>
           </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleRotateKey}
+              className="text-sm px-4 py-2 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              Rotate signing key
+            </button>
+            <button
+              onClick={handleRevokeKey}
+              className="text-sm px-4 py-2 rounded border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20"
+            >
+              Revoke signing key
+            </button>
+          </div>
         </div>
 
+        <PasskeyManager
+          userId={session!.userId}
+          currentCredentialId={session!.credentialId}
+        />
+
         {/* Creator-specific: Create Statement */}
         {isCreator && (
           <div className="mb-8">
@@ -332,7 +584,10 @@ export default function UserPortal({ role }: UserPortalProps) {
           currentUserId={session?.userId}
           canSign={true}
           onSignStatement={handleSignStatement}
+          onDeclineStatement={handleDeclineStatement}
+          onWithdrawSignature={handleWithdrawSignature}
           refreshTrigger={refreshTrigger}
+          hideExpired={session?.role === "investor"}
         />
       </div>
     </div>
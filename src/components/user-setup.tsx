@@ -1,14 +1,27 @@
 "use client";
 
 import { useState } from "react";
+import { DEFAULT_DEVICE_KEY_ALGORITHM } from "@/lib/device-keys";
+import {
+  SIGNING_ALGORITHMS,
+  type SigningAlgorithm,
+} from "@/lib/signing-algorithms";
 
 interface UserSetupProps {
   role: "creator" | "investor";
-  onComplete: (name: string) => void;
+  onComplete: (name: string, algorithm: SigningAlgorithm) => void;
 }
 
+const ALGORITHM_LABELS: Record<SigningAlgorithm, string> = {
+  EdDSA: "EdDSA (Ed25519)",
+  ES256: "ES256 (P-256, for verifiers that only accept NIST curves)",
+};
+
 export default function UserSetup({ role, onComplete }: UserSetupProps) {
   const [name, setName] = useState("");
+  const [algorithm, setAlgorithm] = useState<SigningAlgorithm>(
+    DEFAULT_DEVICE_KEY_ALGORITHM,
+  );
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -16,7 +29,7 @@ export default function UserSetup({ role, onComplete }: UserSetupProps) {
     if (!name.trim()) return;
 
     setIsSubmitting(true);
-    onComplete(name.trim());
+    onComplete(name.trim(), algorithm);
   };
 
   return (
@@ -43,6 +56,24 @@ export default function UserSetup({ role, onComplete }: UserSetupProps) {
             disabled={isSubmitting}
           />
         </div>
+        <div>
+          <label htmlFor="algorithm" className="block text-sm font-medium mb-2">
+            Signing Key Algorithm
+          </label>
+          <select
+            id="algorithm"
+            value={algorithm}
+            onChange={(e) => setAlgorithm(e.target.value as SigningAlgorithm)}
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            disabled={isSubmitting}
+          >
+            {SIGNING_ALGORITHMS.map((alg) => (
+              <option key={alg} value={alg}>
+                {ALGORITHM_LABELS[alg]}
+              </option>
+            ))}
+          </select>
+        </div>
         <button
           type="submit"
           disabled={!name.trim() || isSubmitting}
@@ -0,0 +1,107 @@
+/**
+ * Approval Certificate (RFC 7515 JWS General JSON Serialization)
+ *
+ * Signature JWTs each have their own claims, so they cannot share a payload.
+ * When approving, a signer therefore also signs the canonical statement
+ * content itself as a detached JWS ("content signature"). Once the statement
+ * is approved, the content signatures are combined into one document:
+ *
+ * {
+ *   "payload": BASE64URL(canonical statement JSON),
+ *   "signatures": [
+ *     { "protected": BASE64URL({"alg":"EdDSA","kid":"..."}), "signature": "..." },
+ *     ...
+ *   ]
+ * }
+ *
+ * Any JOSE library can verify each entry against the signer's public key
+ * (looked up by kid) without knowing anything about this system. Each entry
+ * carries the alg of its signer's key (EdDSA or ES256).
+ */
+
+import { FlattenedSign, flattenedVerify, base64url, type KeyLike } from "jose";
+import { canonicalizeContent } from "./canonical-json";
+import {
+  DEFAULT_SIGNING_ALGORITHM,
+  type SigningAlgorithm,
+} from "./signing-algorithms";
+
+export interface ContentSignature {
+  protected: string;
+  signature: string;
+}
+
+export interface GeneralJWS {
+  payload: string;
+  signatures: ContentSignature[];
+}
+
+/**
+ * Sign the canonical statement content as a JWS (browser and server)
+ */
+export async function signStatementContent(
+  content: string,
+  keyId: string,
+  privateKey: KeyLike | Uint8Array,
+  algorithm: SigningAlgorithm = DEFAULT_SIGNING_ALGORITHM,
+): Promise<ContentSignature> {
+  const jws = await new FlattenedSign(
+    new TextEncoder().encode(canonicalizeContent(content)),
+  )
+    .setProtectedHeader({ alg: algorithm, kid: keyId })
+    .sign(privateKey);
+
+  return { protected: jws.protected!, signature: jws.signature };
+}
+
+/**
+ * Check a content signature against the statement content and signing key
+ * Returns an error message, or undefined when the signature is valid
+ */
+export async function verifyContentSignature(
+  content: string,
+  contentSignature: ContentSignature,
+  keyId: string,
+  publicKey: KeyLike | Uint8Array,
+  algorithm: SigningAlgorithm = DEFAULT_SIGNING_ALGORITHM,
+): Promise<string | undefined> {
+  try {
+    const { protectedHeader } = await flattenedVerify(
+      {
+        payload: encodeContent(content),
+        protected: contentSignature.protected,
+        signature: contentSignature.signature,
+      },
+      publicKey,
+      { algorithms: [algorithm] },
+    );
+    if (protectedHeader?.kid !== keyId) {
+      return "Content signature was made with a different key";
+    }
+    return undefined;
+  } catch (error) {
+    return `Invalid content signature: ${
+      error instanceof Error ? error.message : "Unknown error"
+    }`;
+  }
+}
+
+/**
+ * Combine content signatures into a General JSON Serialization document
+ */
+export function buildApprovalCertificate(
+  content: string,
+  signatures: ContentSignature[],
+): GeneralJWS {
+  return {
+    payload: encodeContent(content),
+    signatures: signatures.map((sig) => ({
+      protected: sig.protected,
+      signature: sig.signature,
+    })),
+  };
+}
+
+function encodeContent(content: string): string {
+  return base64url.encode(canonicalizeContent(content));
+}
@@ -0,0 +1,574 @@
+/**
+ * Approval Policy Language
+ *
+ * A small declarative format describing when a statement is approved.
+ * Policies are stored as JSON with each statement and evaluated against
+ * its signatures whenever the status is computed.
+ *
+ * Building blocks:
+ * - quorum: signatures from a set of signers whose combined weight reaches
+ *   `threshold` (any signer, a role from `users.role`, specific user IDs, or
+ *   the creator). Each signer weighs 1 unless the statement's signer set
+ *   assigns a weight, so an unweighted threshold is a plain count.
+ *   With `"veto": true` the clause's signers are veto holders: a decline
+ *   from any of them rejects the statement.
+ * - and / or: combine clauses
+ * - if: choose a clause based on the statement content (JSON Pointer,
+ *   RFC 6901); both branches are required, so every statement needs some
+ *   approval
+ *
+ * Examples:
+ *   2 investors AND the creator:
+ *     { "type": "and", "clauses": [
+ *       { "type": "quorum", "threshold": 2, "signers": { "type": "role", "role": "investor" } },
+ *       { "type": "quorum", "threshold": 1, "signers": { "type": "creator" } } ] }
+ *
+ *   3 investors if investment.amount > 1,000,000, else 2:
+ *     { "type": "if",
+ *       "condition": { "pointer": "/investment/amount", "operator": ">", "value": 1000000 },
+ *       "then": { "type": "quorum", "threshold": 3, "signers": { "type": "role", "role": "investor" } },
+ *       "else": { "type": "quorum", "threshold": 2, "signers": { "type": "role", "role": "investor" } } }
+ *
+ *   2 investors, and the creator may veto:
+ *     { "type": "and", "clauses": [
+ *       { "type": "quorum", "threshold": 2, "signers": { "type": "role", "role": "investor" } },
+ *       { "type": "quorum", "threshold": 1, "signers": { "type": "creator" }, "veto": true } ] }
+ */
+
+export type SignerSelector =
+  | { type: "any" }
+  | { type: "role"; role: string }
+  | { type: "users"; userIds: string[] }
+  | { type: "creator" };
+
+export type ContentOperator = "==" | "!=" | ">" | ">=" | "<" | "<=" | "exists";
+
+export interface ContentCondition {
+  pointer: string;
+  operator: ContentOperator;
+  value?: unknown;
+}
+
+export type ApprovalPolicy =
+  | {
+      type: "quorum";
+      threshold: number;
+      signers?: SignerSelector;
+      // Matching signers can reject the statement by declining
+      veto?: boolean;
+    }
+  | { type: "and"; clauses: ApprovalPolicy[] }
+  | { type: "or"; clauses: ApprovalPolicy[] }
+  | {
+      type: "if";
+      condition: ContentCondition;
+      then: ApprovalPolicy;
+      else: ApprovalPolicy;
+    };
+
+export interface PolicySigner {
+  userId: string;
+  userName: string;
+  userRole: string;
+  // Voting weight of the signer (defaults to 1)
+  weight?: number;
+}
+
+export interface PolicyContext {
+  creatorId: string;
+  content: unknown;
+  // Signers who approved
+  signatures: PolicySigner[];
+  // Signers who declined
+  declines?: PolicySigner[];
+  // Optional display names for users referenced by the policy
+  userNames?: Record<string, string>;
+}
+
+/**
+ * Evaluation trace node: one per clause, mirroring the policy tree
+ */
+export interface PolicyEvaluation {
+  satisfied: boolean;
+  description: string;
+  detail: string;
+  children?: PolicyEvaluation[];
+}
+
+const CONTENT_OPERATORS: ContentOperator[] = [
+  "==",
+  "!=",
+  ">",
+  ">=",
+  "<",
+  "<=",
+  "exists",
+];
+
+/**
+ * Validate untrusted input and return it as a policy
+ * Throws an Error describing the first problem found
+ */
+export function parseApprovalPolicy(
+  input: unknown,
+  path = "policy",
+): ApprovalPolicy {
+  if (!isObject(input)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  switch (input.type) {
+    case "quorum": {
+      const { threshold, signers, veto } = input;
+      if (
+        typeof threshold !== "number" ||
+        !Number.isInteger(threshold) ||
+        threshold < 1
+      ) {
+        throw new Error(`${path}.threshold must be a positive integer`);
+      }
+      if (veto !== undefined && typeof veto !== "boolean") {
+        throw new Error(`${path}.veto must be a boolean`);
+      }
+      return {
+        type: "quorum",
+        threshold,
+        ...(signers !== undefined && {
+          signers: parseSignerSelector(signers, `${path}.signers`),
+        }),
+        ...(veto === true && { veto }),
+      };
+    }
+    case "and":
+    case "or": {
+      if (!Array.isArray(input.clauses) || input.clauses.length === 0) {
+        throw new Error(`${path}.clauses must be a non-empty array`);
+      }
+      return {
+        type: input.type,
+        clauses: input.clauses.map((clause, i) =>
+          parseApprovalPolicy(clause, `${path}.clauses[${i}]`),
+        ),
+      };
+    }
+    case "if": {
+      const condition = parseContentCondition(
+        input.condition,
+        `${path}.condition`,
+      );
+      return {
+        type: "if",
+        condition,
+        then: parseApprovalPolicy(input.then, `${path}.then`),
+        else: parseApprovalPolicy(input.else, `${path}.else`),
+      };
+    }
+    default:
+      throw new Error(
+        `${path}.type must be one of "quorum", "and", "or", "if"`,
+      );
+  }
+}
+
+function parseSignerSelector(input: unknown, path: string): SignerSelector {
+  if (!isObject(input)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  switch (input.type) {
+    case "any":
+    case "creator":
+      return { type: input.type };
+    case "role":
+      if (typeof input.role !== "string" || !input.role) {
+        throw new Error(`${path}.role must be a non-empty string`);
+      }
+      return { type: "role", role: input.role };
+    case "users":
+      if (
+        !Array.isArray(input.userIds) ||
+        input.userIds.length === 0 ||
+        !input.userIds.every((id) => typeof id === "string")
+      ) {
+        throw new Error(`${path}.userIds must be a non-empty array of strings`);
+      }
+      return { type: "users", userIds: Array.from(new Set(input.userIds)) };
+    default:
+      throw new Error(
+        `${path}.type must be one of "any", "role", "users", "creator"`,
+      );
+  }
+}
+
+function parseContentCondition(input: unknown, path: string): ContentCondition {
+  if (!isObject(input)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  if (typeof input.pointer !== "string" || !isJsonPointer(input.pointer)) {
+    throw new Error(`${path}.pointer must be a JSON Pointer (e.g. "/a/b")`);
+  }
+
+  if (!CONTENT_OPERATORS.includes(input.operator as ContentOperator)) {
+    throw new Error(
+      `${path}.operator must be one of ${CONTENT_OPERATORS.join(", ")}`,
+    );
+  }
+
+  return {
+    pointer: input.pointer,
+    operator: input.operator as ContentOperator,
+    ...(input.value !== undefined && { value: input.value }),
+  };
+}
+
+/**
+ * Evaluate a policy against a statement's signatures and content
+ */
+export function evaluateApprovalPolicy(
+  policy: ApprovalPolicy,
+  context: PolicyContext,
+): PolicyEvaluation {
+  switch (policy.type) {
+    case "quorum": {
+      const selector = policy.signers ?? { type: "any" };
+      const matching = context.signatures.filter((sig) =>
+        matchesSelector(sig, selector, context),
+      );
+      const declined = (context.declines ?? []).filter((sig) =>
+        matchesSelector(sig, selector, context),
+      );
+      const weight = matching.reduce((sum, sig) => sum + (sig.weight ?? 1), 0);
+      const vetoed = policy.veto === true && declined.length > 0;
+      const satisfied = !vetoed && weight >= policy.threshold;
+      const signedBy =
+        matching.length > 0
+          ? `signed by ${matching.map(describeSigner).join(", ")}`
+          : "no matching signatures";
+      const declinedBy =
+        declined.length > 0
+          ? `; ${vetoed ? "vetoed" : "declined"} by ${declined
+              .map(describeSigner)
+              .join(", ")}`
+          : "";
+
+      return {
+        satisfied,
+        description: `${policy.threshold} of ${describeSelector(selector, context)}${
+          policy.veto ? " (veto)" : ""
+        }`,
+        detail:
+          satisfied || vetoed
+            ? `${weight}/${policy.threshold} — ${signedBy}${declinedBy}`
+            : `${weight}/${policy.threshold} — ${signedBy}; missing ${
+                policy.threshold - weight
+              }${declinedBy}`,
+      };
+    }
+    case "and":
+    case "or": {
+      const children = policy.clauses.map((clause) =>
+        evaluateApprovalPolicy(clause, context),
+      );
+      const satisfiedCount = children.filter((c) => c.satisfied).length;
+      const satisfied =
+        policy.type === "and"
+          ? satisfiedCount === children.length
+          : satisfiedCount > 0;
+
+      return {
+        satisfied,
+        description: policy.type === "and" ? "ALL of" : "ANY of",
+        detail: `${satisfiedCount}/${children.length} clauses satisfied`,
+        children,
+      };
+    }
+    case "if": {
+      const conditionMet = evaluateCondition(policy.condition, context.content);
+      const branch = conditionMet ? policy.then : policy.else;
+      const description = `IF ${describeCondition(policy.condition)}`;
+      const child = evaluateApprovalPolicy(branch, context);
+      return {
+        satisfied: child.satisfied,
+        description,
+        detail: conditionMet
+          ? "condition met — applying then clause"
+          : "condition not met — applying else clause",
+        children: [child],
+      };
+    }
+  }
+}
+
+/**
+ * Signature weight the policy asks for, given the statement content
+ * (and = sum over clauses with disjoint signer sets, or = smallest clause)
+ *
+ * Clauses of an AND whose signers may overlap can be met by the same
+ * signers, so they only count once (the heaviest of them): "3 of any
+ * signer AND the creator" needs 3, not 4.
+ */
+export function countRequiredWeight(
+  policy: ApprovalPolicy,
+  content: unknown,
+  creatorId?: string,
+): number {
+  return countDemand(policy, content, creatorId).weight;
+}
+
+// Weight a clause asks for, and the signers it may be met by
+interface WeightDemand {
+  weight: number;
+  selectors: SignerSelector[];
+}
+
+function countDemand(
+  policy: ApprovalPolicy,
+  content: unknown,
+  creatorId: string | undefined,
+): WeightDemand {
+  switch (policy.type) {
+    case "quorum":
+      return {
+        weight: policy.threshold,
+        selectors: [policy.signers ?? { type: "any" }],
+      };
+    case "and": {
+      // Merge clauses whose signers may overlap into one group each
+      let groups: WeightDemand[] = [];
+      for (const clause of policy.clauses) {
+        const demand = countDemand(clause, content, creatorId);
+        const overlapping = groups.filter((group) =>
+          group.selectors.some((a) =>
+            demand.selectors.some((b) => selectorsMayOverlap(a, b, creatorId)),
+          ),
+        );
+        groups = [
+          ...groups.filter((group) => !overlapping.includes(group)),
+          {
+            weight: Math.max(
+              demand.weight,
+              ...overlapping.map((g) => g.weight),
+            ),
+            selectors: [
+              ...demand.selectors,
+              ...overlapping.flatMap((g) => g.selectors),
+            ],
+          },
+        ];
+      }
+      return {
+        weight: groups.reduce((sum, group) => sum + group.weight, 0),
+        selectors: groups.flatMap((group) => group.selectors),
+      };
+    }
+    case "or":
+      return policy.clauses
+        .map((clause) => countDemand(clause, content, creatorId))
+        .reduce((min, demand) => (demand.weight < min.weight ? demand : min));
+    case "if": {
+      const branch = evaluateCondition(policy.condition, content)
+        ? policy.then
+        : policy.else;
+      return countDemand(branch, content, creatorId);
+    }
+  }
+}
+
+/**
+ * Whether one signer could match both selectors
+ * Creators have the "creator" role; the roles of listed users are unknown
+ * here, so they may match any role.
+ */
+function selectorsMayOverlap(
+  a: SignerSelector,
+  b: SignerSelector,
+  creatorId: string | undefined,
+): boolean {
+  if (a.type === "any" || b.type === "any") return true;
+  if (b.type === "creator" || (b.type === "users" && a.type === "role")) {
+    [a, b] = [b, a];
+  }
+
+  switch (a.type) {
+    case "creator":
+      if (b.type === "role") return b.role === "creator";
+      if (b.type === "users") {
+        return creatorId === undefined || b.userIds.includes(creatorId);
+      }
+      return true;
+    case "role":
+      return b.type === "role" && a.role === b.role;
+    case "users":
+      return (
+        b.type === "role" ||
+        (b.type === "users" && a.userIds.some((id) => b.userIds.includes(id)))
+      );
+  }
+}
+
+/**
+ * Declining signers who hold a veto under the policy
+ * (only clauses that apply to the statement content are considered)
+ */
+export function findVetoes(
+  policy: ApprovalPolicy,
+  context: PolicyContext,
+): PolicySigner[] {
+  switch (policy.type) {
+    case "quorum": {
+      if (!policy.veto) return [];
+      const selector = policy.signers ?? { type: "any" };
+      return (context.declines ?? []).filter((sig) =>
+        matchesSelector(sig, selector, context),
+      );
+    }
+    case "and":
+    case "or": {
+      const vetoes = policy.clauses.flatMap((clause) =>
+        findVetoes(clause, context),
+      );
+      return vetoes.filter(
+        (sig, i) => vetoes.findIndex((v) => v.userId === sig.userId) === i,
+      );
+    }
+    case "if": {
+      const branch = evaluateCondition(policy.condition, context.content)
+        ? policy.then
+        : policy.else;
+      return findVetoes(branch, context);
+    }
+  }
+}
+
+/**
+ * User IDs referenced by "users" selectors (for display name lookup)
+ */
+export function collectPolicyUserIds(policy: ApprovalPolicy): string[] {
+  switch (policy.type) {
+    case "quorum":
+      return policy.signers?.type === "users" ? policy.signers.userIds : [];
+    case "and":
+    case "or":
+      return Array.from(
+        new Set(
+          policy.clauses.flatMap((clause) => collectPolicyUserIds(clause)),
+        ),
+      );
+    case "if":
+      return Array.from(
+        new Set([
+          ...collectPolicyUserIds(policy.then),
+          ...collectPolicyUserIds(policy.else),
+        ]),
+      );
+  }
+}
+
+/**
+ * Resolve a JSON Pointer (RFC 6901) against a JSON value
+ * Returns undefined if the path does not exist
+ */
+export function resolveJsonPointer(value: unknown, pointer: string): unknown {
+  if (pointer === "") return value;
+
+  let current = value;
+  for (const rawToken of pointer.slice(1).split("/")) {
+    const token = rawToken.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (Array.isArray(current)) {
+      if (!/^(0|[1-9][0-9]*)$/.test(token)) return undefined;
+      current = current[Number(token)];
+    } else if (isObject(current) && Object.hasOwn(current, token)) {
+      current = current[token];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function evaluateCondition(
+  condition: ContentCondition,
+  content: unknown,
+): boolean {
+  const actual = resolveJsonPointer(content, condition.pointer);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case "exists":
+      return actual !== undefined;
+    case "==":
+      return JSON.stringify(actual) === JSON.stringify(expected);
+    case "!=":
+      return JSON.stringify(actual) !== JSON.stringify(expected);
+    case ">":
+    case ">=":
+    case "<":
+    case "<=": {
+      if (typeof actual !== "number" || typeof expected !== "number") {
+        return false;
+      }
+      if (condition.operator === ">") return actual > expected;
+      if (condition.operator === ">=") return actual >= expected;
+      if (condition.operator === "<") return actual < expected;
+      return actual <= expected;
+    }
+  }
+}
+
+function matchesSelector(
+  signer: PolicySigner,
+  selector: SignerSelector,
+  context: PolicyContext,
+): boolean {
+  switch (selector.type) {
+    case "any":
+      return true;
+    case "role":
+      return signer.userRole === selector.role;
+    case "users":
+      return selector.userIds.includes(signer.userId);
+    case "creator":
+      return signer.userId === context.creatorId;
+  }
+}
+
+function describeSigner(signer: PolicySigner): string {
+  const weight = signer.weight ?? 1;
+  return weight === 1 ? signer.userName : `${signer.userName} (×${weight})`;
+}
+
+function describeSelector(
+  selector: SignerSelector,
+  context: PolicyContext,
+): string {
+  switch (selector.type) {
+    case "any":
+      return "any signer";
+    case "role":
+      return `role "${selector.role}"`;
+    case "users":
+      return `{${selector.userIds
+        .map((id) => context.userNames?.[id] ?? id)
+        .join(", ")}}`;
+    case "creator":
+      return "the creator";
+  }
+}
+
+function describeCondition(condition: ContentCondition): string {
+  if (condition.operator === "exists") {
+    return `${condition.pointer} exists`;
+  }
+  return `${condition.pointer} ${condition.operator} ${JSON.stringify(
+    condition.value,
+  )}`;
+}
+
+function isJsonPointer(pointer: string): boolean {
+  return pointer === "" || pointer.startsWith("/");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -14,7 +14,7 @@ import { getWebAuthnConfig, getExpectedOrigin } from "./webauthn-config";
 
 export const getAuthenticationOptions = async (
   customChallengeBase64url?: string,
-  credentialId?: string,
+  credentialIds?: string | string[],
 ): Promise<PublicKeyCredentialRequestOptionsJSON> => {
   const { rpId } = getWebAuthnConfig();
 
@@ -24,13 +24,12 @@ export const getAuthenticationOptions = async (
     userVerification: "preferred",
   };
 
-  // If a specific credential ID is provided, constrain to only that credential
-  if (credentialId) {
-    authenticationOptionsParameters.allowCredentials = [
-      {
-        id: credentialId,
-      },
-    ];
+  // If credential IDs are provided (e.g. all passkeys of one user),
+  // constrain to only those credentials
+  if (credentialIds?.length) {
+    authenticationOptionsParameters.allowCredentials = (
+      Array.isArray(credentialIds) ? credentialIds : [credentialIds]
+    ).map((id) => ({ id }));
   }
 
   const authenticationOptions = await generateAuthenticationOptions(
@@ -77,6 +76,10 @@ export const verifyAuthentication = async (
     throw new Error("Credential not found in database");
   }
 
+  if (storedCredential.removedAt !== undefined) {
+    throw new Error("This passkey has been removed");
+  }
+
   // Convert stored public key back to buffer
   const credentialPublicKey = isoBase64URL.toBuffer(storedCredential.publicKey);
 
@@ -0,0 +1,67 @@
+/**
+ * JSON Canonicalization Scheme (RFC 8785)
+ *
+ * Statements are signed by hash, so every party has to serialize the same
+ * JSON to the same bytes. JCS gets there by:
+ * - sorting object keys by their UTF-16 code units
+ * - writing numbers the way ECMAScript does (no exponent tweaking)
+ * - escaping strings minimally and leaving out all whitespace
+ *
+ * Works in both the browser and Node (uses WebCrypto for hashing).
+ */
+
+/**
+ * Serialize a JSON value in canonical form
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value === "boolean") {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error("Cannot canonicalize non-finite number");
+    }
+    // ECMAScript number serialization is exactly what RFC 8785 requires
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === "string") {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalize(item ?? null)).join(",")}]`;
+  }
+
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      // String comparison uses UTF-16 code units, as the RFC requires
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalize(item)}`)
+      .join(",")}}`;
+  }
+
+  throw new Error(`Cannot canonicalize value of type ${typeof value}`);
+}
+
+/**
+ * Canonicalize statement content given as a JSON string
+ */
+export function canonicalizeContent(content: string): string {
+  return canonicalize(JSON.parse(content));
+}
+
+/**
+ * SHA-256 of the canonical statement content, hex encoded
+ * This is the `contentHash` claim signers put in their JWTs
+ */
+export async function computeContentHash(content: string): Promise<string> {
+  const bytes = new TextEncoder().encode(canonicalizeContent(content));
+  const hashBuffer = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
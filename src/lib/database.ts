@@ -4,6 +4,15 @@ import Database from "better-sqlite3";
 import { type PublicKeyCredentialCreationOptionsJSON } from "@simplewebauthn/server";
 import * as fs from "fs";
 import * as path from "path";
+import { createHash } from "crypto";
+import type { SigningMethod, StatementState } from "./statement-lifecycle";
+import type { KeyBinding } from "./key-binding";
+import { canonicalizeContent } from "./canonical-json";
+import { jwkThumbprintInput } from "./key-thumbprint";
+import {
+  getSigningAlgorithm,
+  type SigningAlgorithm,
+} from "./signing-algorithms";
 
 // Use absolute path to ensure consistency across different execution contexts
 // Use a separate database file for tests
@@ -58,6 +67,9 @@ const initializeDatabase = (database: Database.Database) => {
   `);
 
   // Create users table
+  // credential_id is the user's primary passkey (the one they registered
+  // with, or another of theirs once it is removed); every passkey of a user
+  // is linked to them through passkey_credentials.user_id
   database.exec(`
     CREATE TABLE IF NOT EXISTS users (
       user_id TEXT PRIMARY KEY,
@@ -69,16 +81,35 @@ const initializeDatabase = (database: Database.Database) => {
     )
   `);
 
+  // A user can have several passkeys (e.g. a backup authenticator)
+  if (ensureColumn(database, "passkey_credentials", "user_id", "TEXT")) {
+    database.exec(`
+      UPDATE passkey_credentials
+      SET user_id = (
+        SELECT user_id FROM users
+        WHERE users.credential_id = passkey_credentials.credential_id
+      )
+    `);
+  }
+  ensureColumn(database, "passkey_credentials", "label", "TEXT");
+  // Removed passkeys can no longer log in or approve anything, but stay
+  // stored so the attestations they made can still be verified
+  ensureColumn(database, "passkey_credentials", "removed_at", "INTEGER");
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_passkey_credentials_user
+    ON passkey_credentials (user_id)
+  `);
+
   // Create attested JWT keys table
-  // This stores JWT signing keys that are attested by passkeys
-  // 1:1 relationship between user and JWT key
+  // This stores the public half of JWT signing keys attested by passkeys.
+  // Private keys never leave the device, so each device a user logs in on
+  // enrols its own key
   database.exec(`
     CREATE TABLE IF NOT EXISTS attested_jwt_keys (
       key_id TEXT PRIMARY KEY,
-      user_id TEXT NOT NULL UNIQUE,
-      credential_id TEXT NOT NULL UNIQUE,
+      user_id TEXT NOT NULL,
+      credential_id TEXT NOT NULL,
       public_key_jwk TEXT NOT NULL,
-      private_key_jwk TEXT,
       public_key_pem TEXT NOT NULL,
       public_key_fingerprint TEXT NOT NULL,
       passkey_attestation TEXT NOT NULL,
@@ -87,6 +118,92 @@ const initializeDatabase = (database: Database.Database) => {
       FOREIGN KEY (user_id) REFERENCES users (user_id)
     )
   `);
+  removeStoredPrivateKeys(database);
+  // Set when a key is rotated out; signatures issued after it are invalid
+  ensureColumn(database, "attested_jwt_keys", "valid_until", "INTEGER");
+  // The device holding the key: a random ID the browser keeps across key
+  // rotations and a readable label. Legacy keys have neither
+  ensureColumn(database, "attested_jwt_keys", "device_id", "TEXT");
+  ensureColumn(database, "attested_jwt_keys", "device_label", "TEXT");
+  // Last time the key signed a statement (or a withdrawal)
+  ensureColumn(database, "attested_jwt_keys", "last_used_at", "INTEGER");
+  // Key binding the passkey signed (JSON, see key-binding.ts). Legacy keys
+  // were attested over the bare fingerprint and have none
+  ensureColumn(database, "attested_jwt_keys", "key_binding", "TEXT");
+  // Algorithm the key signs with, chosen per key at enrolment (see
+  // signing-algorithms.ts); older keys get the one their JWK implies
+  if (
+    ensureColumn(database, "attested_jwt_keys", "signing_algorithm", "TEXT")
+  ) {
+    const rows = database
+      .prepare(`SELECT key_id, public_key_jwk FROM attested_jwt_keys`)
+      .all() as Array<{ key_id: string; public_key_jwk: string }>;
+    const update = database.prepare(
+      `UPDATE attested_jwt_keys SET signing_algorithm = ? WHERE key_id = ?`,
+    );
+    for (const row of rows) {
+      try {
+        update.run(
+          getSigningAlgorithm(JSON.parse(row.public_key_jwk)),
+          row.key_id,
+        );
+      } catch {
+        // Not a supported signing key: it never verified anything
+      }
+    }
+  }
+  // Fingerprints are RFC 7638 thumbprints (see key-thumbprint.ts). Keys
+  // attested before keep the hex fingerprint their passkey signed here
+  if (
+    ensureColumn(database, "attested_jwt_keys", "legacy_fingerprint", "TEXT")
+  ) {
+    const rows = database
+      .prepare(
+        `SELECT key_id, public_key_jwk, public_key_fingerprint FROM attested_jwt_keys`,
+      )
+      .all() as Array<{
+      key_id: string;
+      public_key_jwk: string;
+      public_key_fingerprint: string;
+    }>;
+    const update = database.prepare(`
+      UPDATE attested_jwt_keys
+      SET public_key_fingerprint = ?, legacy_fingerprint = ?
+      WHERE key_id = ?
+    `);
+    for (const row of rows) {
+      let thumbprint: string;
+      try {
+        thumbprint = createHash("sha256")
+          .update(jwkThumbprintInput(JSON.parse(row.public_key_jwk)))
+          .digest("base64url");
+      } catch {
+        // Not a usable public key: it never verified anything
+        continue;
+      }
+      if (thumbprint !== row.public_key_fingerprint) {
+        update.run(thumbprint, row.public_key_fingerprint, row.key_id);
+      }
+    }
+  }
+  database.exec(`
+    CREATE INDEX IF NOT EXISTS idx_attested_jwt_keys_user
+    ON attested_jwt_keys (user_id)
+  `);
+
+  // Key revocation registry: a signing key is invalid for JWTs issued at
+  // or after revoked_at (the effective time, which may predate the entry)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS key_revocations (
+      key_id TEXT PRIMARY KEY,
+      reason TEXT NOT NULL,
+      revoked_at INTEGER NOT NULL,
+      revoked_by TEXT NOT NULL,
+      passkey_assertion TEXT,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (key_id) REFERENCES attested_jwt_keys (key_id)
+    )
+  `);
 
   // Create statements table
   database.exec(`
@@ -94,26 +211,197 @@ const initializeDatabase = (database: Database.Database) => {
       statement_id TEXT PRIMARY KEY,
       title TEXT,
       content TEXT NOT NULL,
+      content_hash TEXT,
       creator_id TEXT NOT NULL,
+      required_signatures INTEGER NOT NULL DEFAULT 2,
+      eligible_signers INTEGER NOT NULL DEFAULT 3,
+      policy TEXT,
+      required_weight INTEGER,
+      state TEXT NOT NULL DEFAULT 'open',
+      expires_at INTEGER,
+      version INTEGER NOT NULL DEFAULT 1,
+      supersedes TEXT,
       created_at INTEGER NOT NULL,
       FOREIGN KEY (creator_id) REFERENCES users (user_id)
     )
   `);
 
+  // Threshold columns were added after the initial schema
+  ensureColumn(
+    database,
+    "statements",
+    "required_signatures",
+    "INTEGER NOT NULL DEFAULT 2",
+  );
+  ensureColumn(
+    database,
+    "statements",
+    "eligible_signers",
+    "INTEGER NOT NULL DEFAULT 3",
+  );
+  // Approval policy (JSON), NULL means a plain k-of-N threshold
+  ensureColumn(database, "statements", "policy", "TEXT");
+  // Weight threshold, NULL means required_signatures (every signer weighs 1)
+  ensureColumn(database, "statements", "required_weight", "INTEGER");
+  // Lifecycle state; statements that already met their threshold before
+  // states were stored are backfilled as approved
+  if (
+    ensureColumn(
+      database,
+      "statements",
+      "state",
+      "TEXT NOT NULL DEFAULT 'open'",
+    )
+  ) {
+    database.exec(`
+      UPDATE statements
+      SET state = 'approved'
+      WHERE (
+        SELECT COUNT(*) FROM statement_signatures ss
+        WHERE ss.statement_id = statements.statement_id
+      ) >= COALESCE(required_weight, required_signatures)
+    `);
+  }
+
+  // Signing deadline (ms since epoch), NULL means no deadline
+  ensureColumn(database, "statements", "expires_at", "INTEGER");
+  // Amendments: version number and the statement this version replaces
+  ensureColumn(database, "statements", "version", "INTEGER NOT NULL DEFAULT 1");
+  ensureColumn(database, "statements", "supersedes", "TEXT");
+  // SHA-256 of the canonical (RFC 8785) content that signers sign
+  if (ensureColumn(database, "statements", "content_hash", "TEXT")) {
+    const rows = database
+      .prepare(`SELECT statement_id, content FROM statements`)
+      .all() as Array<{ statement_id: string; content: string }>;
+    const update = database.prepare(
+      `UPDATE statements SET content_hash = ? WHERE statement_id = ?`,
+    );
+    for (const row of rows) {
+      const contentHash = createHash("sha256")
+        .update(canonicalizeContent(row.content))
+        .digest("hex");
+      update.run(contentHash, row.statement_id);
+    }
+  }
+  // How approvals are signed (see statement-lifecycle.ts)
+  ensureColumn(
+    database,
+    "statements",
+    "signing_method",
+    "TEXT NOT NULL DEFAULT 'jwt'",
+  );
+
+  // Create statement transitions table
+  // Audit log of lifecycle state changes (actor_id is NULL for the system)
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS statement_transitions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      statement_id TEXT NOT NULL,
+      from_state TEXT,
+      to_state TEXT NOT NULL,
+      actor_id TEXT,
+      reason TEXT,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (statement_id) REFERENCES statements (statement_id),
+      FOREIGN KEY (actor_id) REFERENCES users (user_id)
+    )
+  `);
+
   // Create statement signatures table
+  // Withdrawn signatures keep their row (with the revocation JWT) for audit.
+  // Direct passkey signatures have no JWT: they keep the raw assertion, and
+  // signature is the assertion's signature
   database.exec(`
     CREATE TABLE IF NOT EXISTS statement_signatures (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       statement_id TEXT NOT NULL,
       user_id TEXT NOT NULL,
       signature TEXT NOT NULL,
-      jwt TEXT NOT NULL,
+      jwt TEXT,
+      decision TEXT NOT NULL DEFAULT 'approve',
+      reason TEXT,
       signed_at INTEGER NOT NULL,
-      UNIQUE(statement_id, user_id),
+      revocation_jwt TEXT,
+      revoked_at INTEGER,
+      content_signature TEXT,
+      signing_method TEXT NOT NULL DEFAULT 'jwt',
+      passkey_assertion TEXT,
+      passkey_nonce TEXT,
+      FOREIGN KEY (statement_id) REFERENCES statements (statement_id),
+      FOREIGN KEY (user_id) REFERENCES users (user_id)
+    )
+  `);
+
+  // Signed decisions were added later; older rows are approvals
+  ensureColumn(
+    database,
+    "statement_signatures",
+    "decision",
+    "TEXT NOT NULL DEFAULT 'approve'",
+  );
+  ensureColumn(database, "statement_signatures", "reason", "TEXT");
+  ensureColumn(database, "statement_signatures", "revocation_jwt", "TEXT");
+  ensureColumn(database, "statement_signatures", "revoked_at", "INTEGER");
+  dropSignatureUniqueConstraint(database);
+  // JWS over the canonical content (JSON), used for approval certificates
+  ensureColumn(database, "statement_signatures", "content_signature", "TEXT");
+  // Direct passkey signatures: the assertion (JSON) over the approval
+  // request, and the signing nonce it included
+  ensureColumn(
+    database,
+    "statement_signatures",
+    "signing_method",
+    "TEXT NOT NULL DEFAULT 'jwt'",
+  );
+  ensureColumn(database, "statement_signatures", "passkey_assertion", "TEXT");
+  ensureColumn(database, "statement_signatures", "passkey_nonce", "TEXT");
+  allowSignaturesWithoutJWT(database);
+
+  // One active (not withdrawn) signature per user and statement
+  database.exec(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_statement_signatures_active
+    ON statement_signatures (statement_id, user_id)
+    WHERE revoked_at IS NULL
+  `);
+
+  // Create statement signers table
+  // Designated users who are eligible to sign a statement
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS statement_signers (
+      statement_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      weight INTEGER NOT NULL DEFAULT 1,
+      PRIMARY KEY (statement_id, user_id),
       FOREIGN KEY (statement_id) REFERENCES statements (statement_id),
       FOREIGN KEY (user_id) REFERENCES users (user_id)
     )
   `);
+  ensureColumn(
+    database,
+    "statement_signers",
+    "weight",
+    "INTEGER NOT NULL DEFAULT 1",
+  );
+
+  // Replay protection: single-use signing nonces issued per statement, and
+  // the jti of every accepted JWT until it could no longer pass the exp check
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS signing_nonces (
+      nonce TEXT PRIMARY KEY,
+      statement_id TEXT NOT NULL,
+      expires_at INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (statement_id) REFERENCES statements (statement_id)
+    )
+  `);
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS used_jtis (
+      jti TEXT PRIMARY KEY,
+      key_id TEXT NOT NULL,
+      expires_at INTEGER NOT NULL,
+      used_at INTEGER NOT NULL
+    )
+  `);
 
   // Create pending passkey registrations table for temporary storage
   database.exec(`
@@ -123,6 +411,150 @@ const initializeDatabase = (database: Database.Database) => {
       created_at INTEGER NOT NULL
     )
   `);
+  // Sign-up options are for a new user, add-passkey options for an
+  // existing one; only the former may complete a registration
+  ensureColumn(
+    database,
+    "pending_passkey_registrations",
+    "purpose",
+    "TEXT NOT NULL DEFAULT 'sign-up'",
+  );
+};
+
+// Older schemas allowed one signature row per user and statement ever,
+// which blocks re-signing after a withdrawal; rebuild the table without it
+const dropSignatureUniqueConstraint = (database: Database.Database) => {
+  const table = database
+    .prepare(
+      "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'statement_signatures'",
+    )
+    .get() as { sql: string } | undefined;
+  if (!table?.sql.includes("UNIQUE(statement_id, user_id)")) return;
+
+  // Recommended SQLite table rebuild: foreign keys off outside the transaction
+  database.pragma("foreign_keys = OFF");
+  database.transaction(() => {
+    database.exec(`
+      CREATE TABLE statement_signatures_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        statement_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        jwt TEXT NOT NULL,
+        decision TEXT NOT NULL DEFAULT 'approve',
+        reason TEXT,
+        signed_at INTEGER NOT NULL,
+        revocation_jwt TEXT,
+        revoked_at INTEGER,
+        FOREIGN KEY (statement_id) REFERENCES statements (statement_id),
+        FOREIGN KEY (user_id) REFERENCES users (user_id)
+      );
+      INSERT INTO statement_signatures_new
+        (id, statement_id, user_id, signature, jwt, decision, reason, signed_at, revocation_jwt, revoked_at)
+      SELECT id, statement_id, user_id, signature, jwt, decision, reason, signed_at, revocation_jwt, revoked_at
+      FROM statement_signatures;
+      DROP TABLE statement_signatures;
+      ALTER TABLE statement_signatures_new RENAME TO statement_signatures;
+    `);
+  })();
+  database.pragma("foreign_keys = ON");
+};
+
+// Older schemas required a JWT for every signature, which direct passkey
+// signatures do not have; rebuild the table with a nullable jwt column
+const allowSignaturesWithoutJWT = (database: Database.Database) => {
+  const table = database
+    .prepare(
+      "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'statement_signatures'",
+    )
+    .get() as { sql: string } | undefined;
+  if (!table?.sql.includes("jwt TEXT NOT NULL")) return;
+
+  database.pragma("foreign_keys = OFF");
+  database.transaction(() => {
+    database.exec(`
+      CREATE TABLE statement_signatures_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        statement_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        jwt TEXT,
+        decision TEXT NOT NULL DEFAULT 'approve',
+        reason TEXT,
+        signed_at INTEGER NOT NULL,
+        revocation_jwt TEXT,
+        revoked_at INTEGER,
+        content_signature TEXT,
+        signing_method TEXT NOT NULL DEFAULT 'jwt',
+        passkey_assertion TEXT,
+        passkey_nonce TEXT,
+        FOREIGN KEY (statement_id) REFERENCES statements (statement_id),
+        FOREIGN KEY (user_id) REFERENCES users (user_id)
+      );
+      INSERT INTO statement_signatures_new
+        (id, statement_id, user_id, signature, jwt, decision, reason, signed_at, revocation_jwt, revoked_at, content_signature, signing_method, passkey_assertion, passkey_nonce)
+      SELECT id, statement_id, user_id, signature, jwt, decision, reason, signed_at, revocation_jwt, revoked_at, content_signature, signing_method, passkey_assertion, passkey_nonce
+      FROM statement_signatures;
+      DROP TABLE statement_signatures;
+      ALTER TABLE statement_signatures_new RENAME TO statement_signatures;
+    `);
+  })();
+  database.pragma("foreign_keys = ON");
+};
+
+// Older schemas kept the user's private JWK on the server and allowed only
+// one key per user; rebuild the table without both, discarding stored
+// private keys (those users enrol a new device key at their next login)
+const removeStoredPrivateKeys = (database: Database.Database) => {
+  const table = database
+    .prepare(
+      "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'attested_jwt_keys'",
+    )
+    .get() as { sql: string } | undefined;
+  if (!table?.sql.includes("private_key_jwk")) return;
+
+  database.pragma("foreign_keys = OFF");
+  database.transaction(() => {
+    database.exec(`
+      CREATE TABLE attested_jwt_keys_new (
+        key_id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        credential_id TEXT NOT NULL,
+        public_key_jwk TEXT NOT NULL,
+        public_key_pem TEXT NOT NULL,
+        public_key_fingerprint TEXT NOT NULL,
+        passkey_attestation TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (credential_id) REFERENCES passkey_credentials (credential_id),
+        FOREIGN KEY (user_id) REFERENCES users (user_id)
+      );
+      INSERT INTO attested_jwt_keys_new
+        (key_id, user_id, credential_id, public_key_jwk, public_key_pem, public_key_fingerprint, passkey_attestation, created_at)
+      SELECT key_id, user_id, credential_id, public_key_jwk, public_key_pem, public_key_fingerprint, passkey_attestation, created_at
+      FROM attested_jwt_keys;
+      DROP TABLE attested_jwt_keys;
+      ALTER TABLE attested_jwt_keys_new RENAME TO attested_jwt_keys;
+    `);
+  })();
+  database.pragma("foreign_keys = ON");
+};
+
+// Add a column to a table created by an older schema version
+// Returns true if the column was added
+const ensureColumn = (
+  database: Database.Database,
+  table: string,
+  column: string,
+  definition: string,
+): boolean => {
+  const columns = database
+    .prepare(`PRAGMA table_info(${table})`)
+    .all() as Array<{ name: string }>;
+  if (columns.some((c) => c.name === column)) {
+    return false;
+  }
+  database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
 };
 
 // Passkey credential operations
@@ -134,9 +566,15 @@ export const saveCredential = async (
   algorithm?: number,
 ) => {
   const db = await getDatabase();
+  // Keeps the owner and label of an existing credential
   const stmt = db.prepare(`
-    INSERT OR REPLACE INTO passkey_credentials (credential_id, public_key_cose_format, algorithm, counter, transports, created_at)
+    INSERT INTO passkey_credentials (credential_id, public_key_cose_format, algorithm, counter, transports, created_at)
     VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (credential_id) DO UPDATE SET
+      public_key_cose_format = excluded.public_key_cose_format,
+      algorithm = excluded.algorithm,
+      counter = excluded.counter,
+      transports = excluded.transports
   `);
   stmt.run(
     credentialId,
@@ -151,7 +589,7 @@ export const saveCredential = async (
 export const getCredential = async (credentialId: string) => {
   const db = await getDatabase();
   const stmt = db.prepare(`
-    SELECT credential_id, public_key_cose_format, algorithm, counter, transports
+    SELECT credential_id, public_key_cose_format, algorithm, counter, transports, user_id, removed_at
     FROM passkey_credentials
     WHERE credential_id = ?
   `);
@@ -162,6 +600,8 @@ export const getCredential = async (credentialId: string) => {
         algorithm: number;
         counter: number;
         transports: string;
+        user_id: string | null;
+        removed_at: number | null;
       }
     | undefined;
 
@@ -173,9 +613,72 @@ export const getCredential = async (credentialId: string) => {
     algorithm: row.algorithm,
     counter: row.counter,
     transports: JSON.parse(row.transports),
+    userId: row.user_id ?? undefined,
+    removedAt: row.removed_at ?? undefined,
   };
 };
 
+// The passkeys a user can log in with, oldest first
+export const getUserCredentials = async (userId: string) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    SELECT credential_id, algorithm, label, created_at
+    FROM passkey_credentials
+    WHERE user_id = ? AND removed_at IS NULL
+    ORDER BY created_at ASC, rowid ASC
+  `);
+  const rows = stmt.all(userId) as Array<{
+    credential_id: string;
+    algorithm: number;
+    label: string | null;
+    created_at: number;
+  }>;
+
+  return rows.map((row) => ({
+    credentialId: row.credential_id,
+    algorithm: row.algorithm,
+    label: row.label ?? undefined,
+    createdAt: row.created_at,
+  }));
+};
+
+export const linkCredentialToUser = async (
+  credentialId: string,
+  userId: string,
+  label?: string,
+) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    UPDATE passkey_credentials
+    SET user_id = ?, label = ?
+    WHERE credential_id = ?
+  `);
+  stmt.run(userId, label ?? null, credentialId);
+};
+
+// Remove one of a user's passkeys; if it was their primary passkey, the
+// oldest remaining one takes its place
+export const removeCredential = async (credentialId: string) => {
+  const db = await getDatabase();
+  db.transaction(() => {
+    db.prepare(
+      `UPDATE passkey_credentials SET removed_at = ? WHERE credential_id = ?`,
+    ).run(Date.now(), credentialId);
+    db.prepare(
+      `
+      UPDATE users
+      SET credential_id = (
+        SELECT pc.credential_id FROM passkey_credentials pc
+        WHERE pc.user_id = users.user_id AND pc.removed_at IS NULL
+        ORDER BY pc.created_at ASC, pc.rowid ASC
+        LIMIT 1
+      )
+      WHERE credential_id = ?
+    `,
+    ).run(credentialId);
+  })();
+};
+
 export const updateCredentialCounter = async (
   credentialId: string,
   counter: number,
@@ -202,6 +705,9 @@ export const saveUser = async (
     VALUES (?, ?, ?, ?, ?)
   `);
   stmt.run(userId, name, role, credentialId, Date.now());
+  db.prepare(
+    `UPDATE passkey_credentials SET user_id = ? WHERE credential_id = ?`,
+  ).run(userId, credentialId);
 };
 
 export const getUser = async (userId: string) => {
@@ -232,12 +738,15 @@ export const getUser = async (userId: string) => {
   };
 };
 
+// The user owning a passkey (any of theirs that is not removed); the
+// returned credentialId is that passkey
 export const getUserByCredentialId = async (credentialId: string) => {
   const db = await getDatabase();
   const stmt = db.prepare(`
-    SELECT user_id, name, role, credential_id, created_at
-    FROM users
-    WHERE credential_id = ?
+    SELECT u.user_id, u.name, u.role, pc.credential_id, u.created_at
+    FROM passkey_credentials pc
+    JOIN users u ON u.user_id = pc.user_id
+    WHERE pc.credential_id = ? AND pc.removed_at IS NULL
   `);
   const row = stmt.get(credentialId) as
     | {
@@ -287,7 +796,9 @@ export const saveJWTKey = async (
   publicKeyPEMOrFingerprint?: string,
   publicKeyFingerprintOrAttestation?: string,
   passkeyAttestation?: string,
-  privateKeyJWK?: string,
+  device?: { deviceId?: string; deviceLabel?: string },
+  keyBinding?: string,
+  signingAlgorithm?: SigningAlgorithm,
 ) => {
   const db = await getDatabase();
 
@@ -319,36 +830,38 @@ export const saveJWTKey = async (
     }
 
     const stmt = db.prepare(`
-      INSERT OR REPLACE INTO attested_jwt_keys (key_id, user_id, credential_id, public_key_jwk, private_key_jwk, public_key_pem, public_key_fingerprint, passkey_attestation, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT OR REPLACE INTO attested_jwt_keys (key_id, user_id, credential_id, public_key_jwk, public_key_pem, public_key_fingerprint, passkey_attestation, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
     stmt.run(
       keyId,
       testUserId, // Default user ID for tests
       credId, // credentialId
       credentialIdOrPublicKeyJWK, // publicKeyJWK
-      null, // No private key for tests
       "", // Empty PEM for tests
       publicKeyJWKOrPEM, // publicKeyFingerprint
       publicKeyPEMOrFingerprint || "", // passkeyAttestation
       Date.now(),
     );
   } else {
-    // New signature: (keyId, userId, credentialId, publicKeyJWK, publicKeyPEM, publicKeyFingerprint, passkeyAttestation, privateKeyJWK)
+    // New signature: (keyId, userId, credentialId, publicKeyJWK, publicKeyPEM, publicKeyFingerprint, passkeyAttestation, device?, keyBinding?, signingAlgorithm?)
     const stmt = db.prepare(`
-      INSERT OR REPLACE INTO attested_jwt_keys (key_id, user_id, credential_id, public_key_jwk, private_key_jwk, public_key_pem, public_key_fingerprint, passkey_attestation, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT OR REPLACE INTO attested_jwt_keys (key_id, user_id, credential_id, public_key_jwk, public_key_pem, public_key_fingerprint, passkey_attestation, created_at, device_id, device_label, key_binding, signing_algorithm)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
     stmt.run(
       keyId,
       userIdOrCredentialId, // userId
       credentialIdOrPublicKeyJWK, // credentialId
       publicKeyJWKOrPEM, // publicKeyJWK
-      privateKeyJWK || null, // privateKeyJWK
       publicKeyPEMOrFingerprint!, // publicKeyPEM
       publicKeyFingerprintOrAttestation!, // publicKeyFingerprint
       passkeyAttestation, // passkeyAttestation
       Date.now(),
+      device?.deviceId ?? null,
+      device?.deviceLabel ?? null,
+      keyBinding ?? null,
+      signingAlgorithm ?? null,
     );
   }
 };
@@ -365,9 +878,21 @@ export const getJWTKey = async (keyId: string) => {
       ajk.public_key_fingerprint, 
       ajk.passkey_attestation, 
       ajk.created_at,
-      pc.public_key_cose_format
+      ajk.valid_until,
+      ajk.device_id,
+      ajk.device_label,
+      ajk.last_used_at,
+      ajk.key_binding,
+      ajk.legacy_fingerprint,
+      ajk.signing_algorithm,
+      pc.public_key_cose_format,
+      pc.algorithm,
+      pc.removed_at AS passkey_removed_at,
+      kr.revoked_at,
+      kr.reason AS revocation_reason
     FROM attested_jwt_keys ajk
     LEFT JOIN passkey_credentials pc ON ajk.credential_id = pc.credential_id
+    LEFT JOIN key_revocations kr ON ajk.key_id = kr.key_id
     WHERE ajk.key_id = ?
   `);
   const row = stmt.get(keyId) as
@@ -380,7 +905,18 @@ export const getJWTKey = async (keyId: string) => {
         public_key_fingerprint: string;
         passkey_attestation: string;
         created_at: number;
+        valid_until: number | null;
+        device_id: string | null;
+        device_label: string | null;
+        last_used_at: number | null;
+        key_binding: string | null;
+        legacy_fingerprint: string | null;
+        signing_algorithm: SigningAlgorithm | null;
         public_key_cose_format: string | null;
+        algorithm: number | null;
+        passkey_removed_at: number | null;
+        revoked_at: number | null;
+        revocation_reason: string | null;
       }
     | undefined;
 
@@ -395,16 +931,35 @@ export const getJWTKey = async (keyId: string) => {
     publicKeyFingerprint: row.public_key_fingerprint,
     passkeyAttestation: JSON.parse(row.passkey_attestation),
     createdAt: row.created_at,
+    validUntil: row.valid_until ?? undefined,
+    deviceId: row.device_id ?? undefined,
+    deviceLabel: row.device_label ?? undefined,
+    lastUsedAt: row.last_used_at ?? undefined,
+    keyBinding: row.key_binding
+      ? (JSON.parse(row.key_binding) as KeyBinding)
+      : undefined,
+    legacyFingerprint: row.legacy_fingerprint ?? undefined,
+    signingAlgorithm: row.signing_algorithm ?? undefined,
     passkeyPublicKey: row.public_key_cose_format,
+    passkeyAlgorithm: row.algorithm,
+    // Set once the attesting passkey was removed from its user
+    passkeyRemovedAt: row.passkey_removed_at ?? undefined,
+    revokedAt: row.revoked_at ?? undefined,
+    revocationReason: row.revocation_reason ?? undefined,
   };
 };
 
+// Most recently enrolled key attested by a passkey that is not retired or
+// revoked
 export const getJWTKeyByCredentialId = async (credentialId: string) => {
   const db = await getDatabase();
   const stmt = db.prepare(`
-    SELECT key_id, user_id, credential_id, public_key_jwk, private_key_jwk, public_key_pem, public_key_fingerprint, passkey_attestation, created_at
+    SELECT key_id, user_id, credential_id, public_key_jwk, public_key_pem, public_key_fingerprint, passkey_attestation, created_at
     FROM attested_jwt_keys
-    WHERE credential_id = ?
+    WHERE credential_id = ? AND valid_until IS NULL
+      AND key_id NOT IN (SELECT key_id FROM key_revocations)
+    ORDER BY created_at DESC, rowid DESC
+    LIMIT 1
   `);
   const row = stmt.get(credentialId) as
     | {
@@ -412,7 +967,6 @@ export const getJWTKeyByCredentialId = async (credentialId: string) => {
         user_id: string;
         credential_id: string;
         public_key_jwk: string;
-        private_key_jwk: string | null;
         public_key_pem: string;
         public_key_fingerprint: string;
         passkey_attestation: string;
@@ -427,7 +981,6 @@ export const getJWTKeyByCredentialId = async (credentialId: string) => {
     userId: row.user_id,
     credentialId: row.credential_id,
     publicKeyJWK: JSON.parse(row.public_key_jwk),
-    privateKeyJWK: row.private_key_jwk ? JSON.parse(row.private_key_jwk) : null,
     publicKeyPEM: row.public_key_pem,
     publicKeyFingerprint: row.public_key_fingerprint,
     passkeyAttestation: JSON.parse(row.passkey_attestation),
@@ -435,12 +988,17 @@ export const getJWTKeyByCredentialId = async (credentialId: string) => {
   };
 };
 
+// Most recently enrolled key of a user (one per device) that is not retired
+// or revoked
 export const getJWTKeyByUserId = async (userId: string) => {
   const db = await getDatabase();
   const stmt = db.prepare(`
     SELECT key_id, user_id, credential_id, public_key_jwk, public_key_pem, public_key_fingerprint, passkey_attestation, created_at
     FROM attested_jwt_keys
-    WHERE user_id = ?
+    WHERE user_id = ? AND valid_until IS NULL
+      AND key_id NOT IN (SELECT key_id FROM key_revocations)
+    ORDER BY created_at DESC, rowid DESC
+    LIMIT 1
   `);
   const row = stmt.get(userId) as
     | {
@@ -469,6 +1027,141 @@ export const getJWTKeyByUserId = async (userId: string) => {
   };
 };
 
+// Every key a user has enrolled, including retired ones, oldest first
+export const getJWTKeysByUserId = async (userId: string) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    SELECT ajk.key_id, ajk.user_id, ajk.credential_id, ajk.public_key_jwk, ajk.public_key_pem, ajk.public_key_fingerprint, ajk.passkey_attestation, ajk.created_at, ajk.valid_until, ajk.device_id, ajk.device_label, ajk.last_used_at, ajk.key_binding, ajk.legacy_fingerprint, ajk.signing_algorithm, kr.revoked_at, kr.reason AS revocation_reason
+    FROM attested_jwt_keys ajk
+    LEFT JOIN key_revocations kr ON ajk.key_id = kr.key_id
+    WHERE ajk.user_id = ?
+    ORDER BY ajk.created_at ASC, ajk.rowid ASC
+  `);
+  const rows = stmt.all(userId) as Array<{
+    key_id: string;
+    user_id: string;
+    credential_id: string;
+    public_key_jwk: string;
+    public_key_pem: string;
+    public_key_fingerprint: string;
+    passkey_attestation: string;
+    created_at: number;
+    valid_until: number | null;
+    device_id: string | null;
+    device_label: string | null;
+    last_used_at: number | null;
+    key_binding: string | null;
+    legacy_fingerprint: string | null;
+    signing_algorithm: SigningAlgorithm | null;
+    revoked_at: number | null;
+    revocation_reason: string | null;
+  }>;
+
+  return rows.map((row) => ({
+    keyId: row.key_id,
+    userId: row.user_id,
+    credentialId: row.credential_id,
+    publicKeyJWK: JSON.parse(row.public_key_jwk),
+    publicKeyPEM: row.public_key_pem,
+    publicKeyFingerprint: row.public_key_fingerprint,
+    passkeyAttestation: JSON.parse(row.passkey_attestation),
+    createdAt: row.created_at,
+    validUntil: row.valid_until ?? undefined,
+    deviceId: row.device_id ?? undefined,
+    deviceLabel: row.device_label ?? undefined,
+    lastUsedAt: row.last_used_at ?? undefined,
+    keyBinding: row.key_binding
+      ? (JSON.parse(row.key_binding) as KeyBinding)
+      : undefined,
+    legacyFingerprint: row.legacy_fingerprint ?? undefined,
+    signingAlgorithm: row.signing_algorithm ?? undefined,
+    revokedAt: row.revoked_at ?? undefined,
+    revocationReason: row.revocation_reason ?? undefined,
+  }));
+};
+
+export const recordJWTKeyUse = async (keyId: string, usedAt: number) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    UPDATE attested_jwt_keys SET last_used_at = ?
+    WHERE key_id = ?
+  `);
+  stmt.run(usedAt, keyId);
+};
+
+// Retire a key: it stays available to verify signatures issued before
+// validUntil, but cannot sign anything newer
+export const retireJWTKey = async (keyId: string, validUntil: number) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    UPDATE attested_jwt_keys SET valid_until = ?
+    WHERE key_id = ? AND valid_until IS NULL
+  `);
+  return stmt.run(validUntil, keyId).changes > 0;
+};
+
+// Key revocation operations
+export const saveKeyRevocation = async (
+  keyId: string,
+  reason: string,
+  revokedAt: number,
+  revokedBy: string,
+  passkeyAssertion?: string,
+) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO key_revocations (key_id, reason, revoked_at, revoked_by, passkey_assertion, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  stmt.run(
+    keyId,
+    reason,
+    revokedAt,
+    revokedBy,
+    passkeyAssertion || null,
+    Date.now(),
+  );
+};
+
+export const getKeyRevocation = async (keyId: string) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    SELECT key_id, reason, revoked_at, revoked_by, passkey_assertion, created_at
+    FROM key_revocations
+    WHERE key_id = ?
+  `);
+  return stmt.get(keyId) as
+    | {
+        key_id: string;
+        reason: string;
+        revoked_at: number;
+        revoked_by: string;
+        passkey_assertion: string | null;
+        created_at: number;
+      }
+    | undefined;
+};
+
+// The published revocation list, newest entries first
+export const getKeyRevocations = async () => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    SELECT kr.key_id, ajk.user_id, kr.reason, kr.revoked_at, kr.revoked_by, kr.passkey_assertion, kr.created_at
+    FROM key_revocations kr
+    JOIN attested_jwt_keys ajk ON kr.key_id = ajk.key_id
+    ORDER BY kr.created_at DESC
+  `);
+  return stmt.all() as Array<{
+    key_id: string;
+    user_id: string;
+    reason: string;
+    revoked_at: number;
+    revoked_by: string;
+    passkey_assertion: string | null;
+    created_at: number;
+  }>;
+};
+
 export const deleteJWTKey = async (keyId: string) => {
   const db = await getDatabase();
   const stmt = db.prepare(`DELETE FROM attested_jwt_keys WHERE key_id = ?`);
@@ -479,21 +1172,47 @@ export const deleteJWTKey = async (keyId: string) => {
 export const saveStatement = async (
   statementId: string,
   content: string,
+  contentHash: string,
   creatorId: string,
-  title?: string,
+  title: string | undefined,
+  requiredSignatures: number,
+  eligibleSigners: number,
+  policy: string | undefined,
+  requiredWeight: number,
+  state: string,
+  expiresAt: number | undefined,
+  signingMethod: SigningMethod,
+  version: number = 1,
+  supersedes?: string,
 ) => {
   const db = await getDatabase();
   const stmt = db.prepare(`
-    INSERT INTO statements (statement_id, title, content, creator_id, created_at)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO statements (statement_id, title, content, content_hash, creator_id, required_signatures, eligible_signers, policy, required_weight, state, expires_at, signing_method, version, supersedes, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
-  stmt.run(statementId, title || null, content, creatorId, Date.now());
+  stmt.run(
+    statementId,
+    title || null,
+    content,
+    contentHash,
+    creatorId,
+    requiredSignatures,
+    eligibleSigners,
+    policy || null,
+    requiredWeight,
+    state,
+    expiresAt ?? null,
+    signingMethod,
+    version,
+    supersedes || null,
+    Date.now(),
+  );
 };
 
 export const getStatement = async (statementId: string) => {
   const db = await getDatabase();
   const stmt = db.prepare(`
-    SELECT statement_id, title, content, creator_id, created_at
+    SELECT statement_id, title, content, content_hash, creator_id, required_signatures, eligible_signers, policy, required_weight, state, expires_at, signing_method, version, supersedes, created_at
     FROM statements
     WHERE statement_id = ?
   `);
@@ -502,7 +1221,17 @@ export const getStatement = async (statementId: string) => {
         statement_id: string;
         title: string | null;
         content: string;
+        content_hash: string;
         creator_id: string;
+        required_signatures: number;
+        eligible_signers: number;
+        policy: string | null;
+        required_weight: number | null;
+        state: string;
+        expires_at: number | null;
+        signing_method: string;
+        version: number;
+        supersedes: string | null;
         created_at: number;
       }
     | undefined;
@@ -513,7 +1242,17 @@ export const getStatement = async (statementId: string) => {
     statementId: row.statement_id,
     title: row.title || undefined,
     content: row.content,
+    contentHash: row.content_hash,
     creatorId: row.creator_id,
+    requiredSignatures: row.required_signatures,
+    eligibleSigners: row.eligible_signers,
+    policy: row.policy ? JSON.parse(row.policy) : undefined,
+    requiredWeight: row.required_weight ?? row.required_signatures,
+    state: row.state as StatementState,
+    expiresAt: row.expires_at ?? undefined,
+    signingMethod: row.signing_method as SigningMethod,
+    version: row.version,
+    supersedes: row.supersedes || undefined,
     createdAt: row.created_at,
   };
 };
@@ -521,7 +1260,7 @@ export const getStatement = async (statementId: string) => {
 export const getAllStatements = async () => {
   const db = await getDatabase();
   const stmt = db.prepare(`
-    SELECT statement_id, title, content, creator_id, created_at
+    SELECT statement_id, title, content, content_hash, creator_id, required_signatures, eligible_signers, policy, required_weight, state, expires_at, signing_method, version, supersedes, created_at
     FROM statements
     ORDER BY created_at DESC
   `);
@@ -529,24 +1268,199 @@ export const getAllStatements = async () => {
     statement_id: string;
     title: string | null;
     content: string;
+    content_hash: string;
     creator_id: string;
+    required_signatures: number;
+    eligible_signers: number;
+    policy: string | null;
+    required_weight: number | null;
+    state: string;
+    expires_at: number | null;
+    signing_method: string;
+    version: number;
+    supersedes: string | null;
     created_at: number;
   }>;
 };
 
+export const updateStatementDraft = async (
+  statementId: string,
+  title: string | undefined,
+  content: string,
+  contentHash: string,
+  requiredSignatures: number,
+  requiredWeight: number,
+  expiresAt: number | undefined,
+) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    UPDATE statements
+    SET title = ?, content = ?, content_hash = ?, required_signatures = ?, required_weight = ?, expires_at = ?
+    WHERE statement_id = ?
+  `);
+  stmt.run(
+    title || null,
+    content,
+    contentHash,
+    requiredSignatures,
+    requiredWeight,
+    expiresAt ?? null,
+    statementId,
+  );
+};
+
+// The amended version that replaced a statement, if any
+export const getSupersedingStatementId = async (statementId: string) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    SELECT statement_id
+    FROM statements
+    WHERE supersedes = ?
+  `);
+  const row = stmt.get(statementId) as { statement_id: string } | undefined;
+  return row?.statement_id ?? null;
+};
+
+// Open statements whose signing deadline has passed
+export const getOverdueStatementIds = async (now: number) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    SELECT statement_id
+    FROM statements
+    WHERE state = 'open' AND expires_at IS NOT NULL AND expires_at <= ?
+  `);
+  return (stmt.all(now) as Array<{ statement_id: string }>).map(
+    (row) => row.statement_id,
+  );
+};
+
+// Statement lifecycle operations
+// Updates the state only if it is still fromState, and records the transition
+// Returns false if the statement was not in fromState
+export const saveStatementTransition = async (
+  statementId: string,
+  fromState: string | null,
+  toState: string,
+  actorId: string | null,
+  reason?: string,
+): Promise<boolean> => {
+  const db = await getDatabase();
+  const update = db.prepare(`
+    UPDATE statements
+    SET state = ?
+    WHERE statement_id = ? AND state = ?
+  `);
+  const insert = db.prepare(`
+    INSERT INTO statement_transitions (statement_id, from_state, to_state, actor_id, reason, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const transition = db.transaction(() => {
+    if (fromState !== null) {
+      const info = update.run(toState, statementId, fromState);
+      if (info.changes === 0) return false;
+    }
+    insert.run(
+      statementId,
+      fromState,
+      toState,
+      actorId,
+      reason || null,
+      Date.now(),
+    );
+    return true;
+  });
+  return transition();
+};
+
+export const getStatementTransitions = async (statementId: string) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    SELECT st.id, st.from_state, st.to_state, st.actor_id, st.reason, st.created_at, u.name
+    FROM statement_transitions st
+    LEFT JOIN users u ON st.actor_id = u.user_id
+    WHERE st.statement_id = ?
+    ORDER BY st.created_at ASC, st.id ASC
+  `);
+  return stmt.all(statementId) as Array<{
+    id: number;
+    from_state: string | null;
+    to_state: string;
+    actor_id: string | null;
+    reason: string | null;
+    created_at: number;
+    name: string | null;
+  }>;
+};
+
+// Statement signer operations
+export const saveStatementSigners = async (
+  statementId: string,
+  signers: Array<{ userId: string; weight: number }>,
+) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO statement_signers (statement_id, user_id, weight)
+    VALUES (?, ?, ?)
+  `);
+  const insertAll = db.transaction(
+    (rows: Array<{ userId: string; weight: number }>) => {
+      for (const { userId, weight } of rows) {
+        stmt.run(statementId, userId, weight);
+      }
+    },
+  );
+  insertAll(signers);
+};
+
+export const getStatementSigners = async (statementId: string) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    SELECT ss.user_id, ss.weight, u.name, u.role
+    FROM statement_signers ss
+    INNER JOIN users u ON ss.user_id = u.user_id
+    WHERE ss.statement_id = ?
+    ORDER BY u.created_at ASC
+  `);
+  return stmt.all(statementId) as Array<{
+    user_id: string;
+    weight: number;
+    name: string;
+    role: string;
+  }>;
+};
+
 // Statement signature operations
+// A passkey assertion (JSON) makes it a direct passkey signature, which has
+// no JWT
 export const saveStatementSignature = async (
   statementId: string,
   userId: string,
   signature: string,
-  jwt: string,
+  jwt: string | undefined,
+  decision: string,
+  reason: string | undefined,
+  contentSignature?: string,
+  passkeyAssertion?: string,
+  passkeyNonce?: string,
 ) => {
   const db = await getDatabase();
   const stmt = db.prepare(`
-    INSERT INTO statement_signatures (statement_id, user_id, signature, jwt, signed_at)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO statement_signatures (statement_id, user_id, signature, jwt, decision, reason, content_signature, signing_method, passkey_assertion, passkey_nonce, signed_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
-  const info = stmt.run(statementId, userId, signature, jwt, Date.now());
+  const info = stmt.run(
+    statementId,
+    userId,
+    signature,
+    jwt ?? null,
+    decision,
+    reason || null,
+    contentSignature || null,
+    passkeyAssertion ? "passkey" : "jwt",
+    passkeyAssertion ?? null,
+    passkeyNonce ?? null,
+    Date.now(),
+  );
   return info.lastInsertRowid;
 };
 
@@ -559,11 +1473,22 @@ export const getStatementSignatures = async (statementId: string) => {
       ss.user_id,
       ss.signature,
       ss.jwt,
+      ss.decision,
+      ss.reason,
       ss.signed_at,
+      ss.revocation_jwt,
+      ss.revoked_at,
+      ss.content_signature,
+      ss.signing_method,
+      ss.passkey_assertion,
+      ss.passkey_nonce,
       u.name,
-      u.role
+      u.role,
+      COALESCE(sgn.weight, 1) AS weight
     FROM statement_signatures ss
     INNER JOIN users u ON ss.user_id = u.user_id
+    LEFT JOIN statement_signers sgn
+      ON sgn.statement_id = ss.statement_id AND sgn.user_id = ss.user_id
     WHERE ss.statement_id = ?
     ORDER BY ss.signed_at ASC
   `);
@@ -572,13 +1497,37 @@ export const getStatementSignatures = async (statementId: string) => {
     statement_id: string;
     user_id: string;
     signature: string;
-    jwt: string;
+    jwt: string | null;
+    decision: string;
+    reason: string | null;
     signed_at: number;
+    revocation_jwt: string | null;
+    revoked_at: number | null;
+    content_signature: string | null;
+    signing_method: string;
+    passkey_assertion: string | null;
+    passkey_nonce: string | null;
     name: string;
     role: string;
+    weight: number;
   }>;
 };
 
+// Mark a signature as withdrawn, keeping the original JWT
+// Returns false if the signature was already withdrawn
+export const revokeStatementSignature = async (
+  signatureId: number,
+  revocationJwt: string,
+): Promise<boolean> => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    UPDATE statement_signatures
+    SET revocation_jwt = ?, revoked_at = ?
+    WHERE id = ? AND revoked_at IS NULL
+  `);
+  return stmt.run(revocationJwt, Date.now(), signatureId).changes > 0;
+};
+
 export const hasUserSignedStatement = async (
   statementId: string,
   userId: string,
@@ -587,36 +1536,95 @@ export const hasUserSignedStatement = async (
   const stmt = db.prepare(`
     SELECT COUNT(*) as count
     FROM statement_signatures
-    WHERE statement_id = ? AND user_id = ?
+    WHERE statement_id = ? AND user_id = ? AND revoked_at IS NULL
   `);
   const row = stmt.get(statementId, userId) as { count: number } | undefined;
   return (row?.count ?? 0) > 0;
 };
 
+// Replay protection operations
+export const saveSigningNonce = async (
+  nonce: string,
+  statementId: string,
+  expiresAt: number,
+) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO signing_nonces (nonce, statement_id, expires_at, created_at)
+    VALUES (?, ?, ?, ?)
+  `);
+  stmt.run(nonce, statementId, expiresAt, Date.now());
+};
+
+// Delete the nonce if it was issued for the statement and has not expired
+// Returns false if there was no such nonce (unknown, used, expired or
+// issued for another statement)
+export const consumeSigningNonce = async (
+  nonce: string,
+  statementId: string,
+  now: number,
+) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    DELETE FROM signing_nonces
+    WHERE nonce = ? AND statement_id = ? AND expires_at > ?
+  `);
+  return stmt.run(nonce, statementId, now).changes === 1;
+};
+
+// Returns false if the jti was already used
+export const saveUsedJti = async (
+  jti: string,
+  keyId: string,
+  expiresAt: number,
+) => {
+  const db = await getDatabase();
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO used_jtis (jti, key_id, expires_at, used_at)
+    VALUES (?, ?, ?, ?)
+  `);
+  return stmt.run(jti, keyId, expiresAt, Date.now()).changes === 1;
+};
+
+export const deleteExpiredReplayRecords = async (now: number) => {
+  const db = await getDatabase();
+  const nonces = db
+    .prepare(`DELETE FROM signing_nonces WHERE expires_at <= ?`)
+    .run(now);
+  const jtis = db
+    .prepare(`DELETE FROM used_jtis WHERE expires_at <= ?`)
+    .run(now);
+  return { nonces: nonces.changes, jtis: jtis.changes };
+};
+
 // Pending passkey registration operations
+export type RegistrationPurpose = "sign-up" | "add-passkey";
+
 export const saveRegistrationOptions = async (
   userId: string,
   registrationOptions: PublicKeyCredentialCreationOptionsJSON,
+  purpose: RegistrationPurpose,
 ) => {
   const db = await getDatabase();
   // Use the original userId string, not the encoded user.id from registrationOptions
   const stmt = db.prepare(`
-    INSERT OR REPLACE INTO pending_passkey_registrations (user_id, options, created_at)
-    VALUES (?, ?, ?)
+    INSERT OR REPLACE INTO pending_passkey_registrations (user_id, options, created_at, purpose)
+    VALUES (?, ?, ?, ?)
   `);
-  stmt.run(userId, JSON.stringify(registrationOptions), Date.now());
+  stmt.run(userId, JSON.stringify(registrationOptions), Date.now(), purpose);
 };
 
 export const getRegistrationOptions = async (
   userID: string,
+  purpose: RegistrationPurpose,
 ): Promise<PublicKeyCredentialCreationOptionsJSON | null> => {
   const db = await getDatabase();
   const stmt = db.prepare(`
     SELECT options
     FROM pending_passkey_registrations
-    WHERE user_id = ?
+    WHERE user_id = ? AND purpose = ?
   `);
-  const row = stmt.get(userID) as { options: string } | undefined;
+  const row = stmt.get(userID, purpose) as { options: string } | undefined;
 
   if (!row) return null;
 
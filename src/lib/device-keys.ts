@@ -0,0 +1,239 @@
+/**
+ * Device Signing Keys (browser only)
+ *
+ * Each device holds its own JWT signing key. The private key is generated as
+ * a non-extractable WebCrypto key and kept in IndexedDB: it can sign on this
+ * device but can never be exported, so neither the server nor other callers
+ * ever see it. The server only stores the public key, its key binding (see
+ * key-binding.ts) and the passkey assertion over that binding.
+ *
+ * Logging in on a device without a key enrols a new one: the passkey
+ * ceremony that logs the user in also attests the new key. Keys carry a
+ * random ID of the browser and a readable label, so the server can tell a
+ * user's devices apart.
+ */
+
+import { startAuthentication } from "@simplewebauthn/browser";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/browser";
+import { exportJWK, type JWK, type KeyLike } from "jose";
+import {
+  computeKeyBindingChallenge,
+  createKeyBinding,
+  type KeyBinding,
+} from "./key-binding";
+import { computePublicKeyFingerprint } from "./key-thumbprint";
+import {
+  generateSigningKeyPair,
+  getSigningAlgorithm,
+  parseSigningAlgorithm,
+  type SigningAlgorithm,
+} from "./signing-algorithms";
+
+const DB_NAME = "passkeys-jwt-poc";
+const DB_VERSION = 1;
+const STORE_NAME = "device-keys";
+// Random ID of this browser, kept across key rotations and users
+const DEVICE_ID_STORAGE_KEY = "deviceId";
+// Algorithm offered for new keys; each key is enrolled with the one chosen
+// for it and keeps it
+export const DEFAULT_DEVICE_KEY_ALGORITHM = parseSigningAlgorithm(
+  process.env.NEXT_PUBLIC_SIGNING_KEY_ALGORITHM,
+);
+
+export interface DeviceKey {
+  keyId: string;
+  deviceId: string;
+  deviceLabel: string;
+  // Non-extractable CryptoKey
+  privateKey: KeyLike;
+  publicKeyJWK: JWK;
+  publicKeyFingerprint: string;
+  // The owner, period and actions the passkey attests the key for
+  keyBinding: KeyBinding;
+  createdAt: number;
+}
+
+/**
+ * Public key data sent to the server to register a device key
+ */
+export interface DeviceKeyRegistration {
+  keyId: string;
+  publicKeyJWK: JWK;
+  publicKeyFingerprint: string;
+  keyBinding: KeyBinding;
+  algorithm: SigningAlgorithm;
+  deviceId: string;
+  deviceLabel: string;
+}
+
+/**
+ * Generate a new signing key for this device and a user (not yet stored)
+ */
+export async function generateDeviceKey(
+  userId: string,
+  algorithm: SigningAlgorithm = DEFAULT_DEVICE_KEY_ALGORITHM,
+): Promise<DeviceKey> {
+  const keyPair = await generateSigningKeyPair(algorithm, {
+    extractable: false,
+  });
+  // Public keys stay exportable even when the private key is not
+  const publicKeyJWK = await exportJWK(keyPair.publicKey);
+  // The RFC 7638 thumbprint doubles as the kid
+  const publicKeyFingerprint = await computePublicKeyFingerprint(publicKeyJWK);
+  const keyId = publicKeyFingerprint;
+
+  return {
+    keyId,
+    deviceId: getDeviceId(),
+    deviceLabel: describeDevice(navigator.userAgent),
+    privateKey: keyPair.privateKey,
+    publicKeyJWK,
+    publicKeyFingerprint,
+    keyBinding: createKeyBinding({ keyId, publicKeyFingerprint }, userId),
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Have one of the user's passkeys sign the key binding (the attestation)
+ */
+export async function attestDeviceKey(
+  deviceKey: DeviceKey,
+  credentialIds: string[],
+): Promise<AuthenticationResponseJSON> {
+  return await signWithPasskey(
+    credentialIds,
+    await computeKeyBindingChallenge(deviceKey.keyBinding),
+  );
+}
+
+/**
+ * Passkey assertion over a challenge built by the client (a key binding
+ * or change request hash); the response's id is the passkey that was used
+ */
+export async function signWithPasskey(
+  credentialIds: string[],
+  challenge: string,
+): Promise<AuthenticationResponseJSON> {
+  return await startAuthentication({
+    optionsJSON: {
+      challenge,
+      rpId: window.location.hostname,
+      timeout: 60000,
+      // The server and the offline verifier reject assertions without UV
+      userVerification: "required",
+      allowCredentials: credentialIds.map((id) => ({
+        id,
+        type: "public-key",
+      })),
+    },
+  });
+}
+
+export function toRegistration(deviceKey: DeviceKey): DeviceKeyRegistration {
+  return {
+    keyId: deviceKey.keyId,
+    publicKeyJWK: deviceKey.publicKeyJWK,
+    publicKeyFingerprint: deviceKey.publicKeyFingerprint,
+    keyBinding: deviceKey.keyBinding,
+    algorithm: getSigningAlgorithm(deviceKey.publicKeyJWK),
+    deviceId: deviceKey.deviceId,
+    deviceLabel: deviceKey.deviceLabel,
+  };
+}
+
+/**
+ * Store a user's device key once the server has accepted it
+ */
+export async function saveDeviceKey(
+  userId: string,
+  deviceKey: DeviceKey,
+): Promise<void> {
+  await runTransaction("readwrite", (store) =>
+    store.put({ ...deviceKey, userId }),
+  );
+}
+
+/**
+ * The signing key this device holds for a user, if any
+ */
+export async function loadDeviceKey(
+  userId: string,
+): Promise<DeviceKey | undefined> {
+  return (await runTransaction("readonly", (store) => store.get(userId))) as
+    DeviceKey | undefined;
+}
+
+export async function deleteDeviceKey(userId: string): Promise<void> {
+  await runTransaction("readwrite", (store) => store.delete(userId));
+}
+
+function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+  if (!deviceId) {
+    deviceId = randomHex(16);
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+// Checked in order: Edge and Chrome user agents also mention Safari
+const BROWSER_PATTERNS: Array<[string, RegExp]> = [
+  ["Edge", /Edg\//],
+  ["Firefox", /Firefox\//],
+  ["Chrome", /Chrome\//],
+  ["Safari", /Safari\//],
+];
+const OS_PATTERNS: Array<[string, RegExp]> = [
+  ["iOS", /iPhone|iPad/],
+  ["Android", /Android/],
+  ["macOS", /Mac OS X/],
+  ["Windows", /Windows/],
+  ["Linux", /Linux/],
+];
+
+/**
+ * Readable device label from the user agent, e.g. "Chrome on macOS"
+ */
+export function describeDevice(userAgent: string): string {
+  const match = (patterns: Array<[string, RegExp]>) =>
+    patterns.find(([, pattern]) => pattern.test(userAgent))?.[0];
+  return `${match(BROWSER_PATTERNS) ?? "Browser"} on ${
+    match(OS_PATTERNS) ?? "unknown OS"
+  }`;
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "userId" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runTransaction(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest,
+): Promise<unknown> {
+  const db = await openDatabase();
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = operation(
+        db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
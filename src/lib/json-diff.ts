@@ -0,0 +1,96 @@
+/**
+ * Side-by-side JSON diff
+ *
+ * Both documents are pretty-printed and compared line by line using the
+ * longest common subsequence. Runs of removed and added lines are paired
+ * into "changed" rows so the two columns stay aligned.
+ */
+
+export type DiffRowType = "unchanged" | "removed" | "added" | "changed";
+
+export interface DiffLine {
+  // 1-based line number in its document
+  number: number;
+  text: string;
+}
+
+export interface DiffRow {
+  type: DiffRowType;
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+/**
+ * Diff two JSON values as pretty-printed text
+ */
+export function diffJson(before: unknown, after: unknown): DiffRow[] {
+  return diffLines(
+    JSON.stringify(before, null, 2).split("\n"),
+    JSON.stringify(after, null, 2).split("\n"),
+  );
+}
+
+/**
+ * Diff two lists of lines into side-by-side rows
+ */
+export function diffLines(before: string[], after: string[]): DiffRow[] {
+  // lcs[i][j] = length of the LCS of before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        before[i] === after[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  // Pair pending removals with additions, then emit the leftovers
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ type: "changed", left: removed[k], right: added[k] });
+    }
+    for (const line of removed.slice(paired)) {
+      rows.push({ type: "removed", left: line });
+    }
+    for (const line of added.slice(paired)) {
+      rows.push({ type: "added", right: line });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      flush();
+      rows.push({
+        type: "unchanged",
+        left: { number: i + 1, text: before[i] },
+        right: { number: j + 1, text: after[j] },
+      });
+      i++;
+      j++;
+    } else if (
+      j >= after.length ||
+      (i < before.length && lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      removed.push({ number: i + 1, text: before[i] });
+      i++;
+    } else {
+      added.push({ number: j + 1, text: after[j] });
+      j++;
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -4,8 +4,10 @@
  * This module handles registering JWT signing keys that are attested by passkeys.
  *
  * Flow:
- * 1. Generate a JWT signing key pair (EdDSA)
- * 2. Passkey signs the JWT public key fingerprint
+ * 1. Generate a JWT signing key pair (EdDSA or ES256, see
+ *    signing-algorithms.ts)
+ * 2. Passkey signs the key binding, which names the JWT public key by its
+ *    RFC 7638 thumbprint (see key-thumbprint.ts)
  * 3. Store: JWT public key + passkey signature in DB
  * 4. JWT signing only needs the JWT private key (no passkey interaction)
  * 5. Verification: Check JWT signature + lookup passkey authorization in DB
@@ -14,70 +16,48 @@
  * - Register once, sign many times
  * - No passkey interaction needed for each JWT
  * - Passkey attestation stored separately from JWT
- * - 1:1 relationship between passkey and JWT key
+ * - One JWT key per device (see device-keys.ts); a user's passkeys may
+ *   attest any number of them, and each key names the passkey that did
  */
 
-import { generateKeyPair, exportJWK, type JWK, type KeyLike } from "jose";
-import crypto from "crypto";
+import { exportJWK, type JWK, type KeyLike } from "jose";
+import { computePublicKeyFingerprint } from "./key-thumbprint";
+import {
+  DEFAULT_SIGNING_ALGORITHM,
+  generateSigningKeyPair,
+  type SigningAlgorithm,
+} from "./signing-algorithms";
 
 export interface JWTKeyPair {
   publicKey: KeyLike;
   privateKey: KeyLike;
   publicKeyJWK: JWK;
   publicKeyFingerprint: string;
-  keyId: string; // Unique identifier for this key pair
+  keyId: string; // The fingerprint, so a kid names exactly one public key
+  algorithm: SigningAlgorithm;
 }
 
 /**
- * Generate a JWT signing key pair (EdDSA/Ed25519)
+ * Generate a JWT signing key pair (Ed25519 unless ES256 is asked for)
  * This key pair is persistent and can be used to sign multiple JWTs
  */
-export async function generateJWTKeyPair(): Promise<JWTKeyPair> {
-  // Generate Ed25519 key pair
-  const keyPair = await generateKeyPair("EdDSA", { crv: "Ed25519" });
+export async function generateJWTKeyPair(
+  algorithm: SigningAlgorithm = DEFAULT_SIGNING_ALGORITHM,
+): Promise<JWTKeyPair> {
+  const keyPair = await generateSigningKeyPair(algorithm);
 
   // Export public key as JWK
   const publicKeyJWK = await exportJWK(keyPair.publicKey);
 
-  // Create a fingerprint of the public key (for passkey to sign)
-  const publicKeyFingerprint = await createPublicKeyFingerprint(publicKeyJWK);
-
-  // Generate a unique key ID
-  const keyId = crypto.randomBytes(16).toString("hex");
+  // RFC 7638 thumbprint of the public key, also used as its kid
+  const publicKeyFingerprint = await computePublicKeyFingerprint(publicKeyJWK);
 
   return {
     publicKey: keyPair.publicKey,
     privateKey: keyPair.privateKey,
     publicKeyJWK,
     publicKeyFingerprint,
-    keyId,
+    keyId: publicKeyFingerprint,
+    algorithm,
   };
 }
-
-/**
- * Create a canonical fingerprint of a public key
- * This is what the passkey will sign to attest the JWT key
- */
-async function createPublicKeyFingerprint(jwk: JWK): Promise<string> {
-  // Create a canonical JSON representation
-  const canonical = JSON.stringify({
-    kty: jwk.kty,
-    crv: jwk.crv,
-    x: jwk.x,
-  });
-
-  // Hash it to create a fingerprint
-  const hash = crypto.createHash("sha256").update(canonical).digest("hex");
-  return hash;
-}
-
-/**
- * Verify that a fingerprint matches a public key
- */
-export async function verifyPublicKeyFingerprint(
-  jwk: JWK,
-  fingerprint: string,
-): Promise<boolean> {
-  const computedFingerprint = await createPublicKeyFingerprint(jwk);
-  return computedFingerprint === fingerprint;
-}
@@ -5,14 +5,62 @@
  *
  * This verifier checks:
  * 1. JWT signature is valid (standard JWT verification)
- * 2. JWT signing key is authorized (exists in DB with passkey attestation)
+ * 2. JWT signing key is authorized: it exists in the DB and its stored
+ *    passkey assertion is re-verified against the passkey's COSE public key
+ *    (challenge = hash of the key binding, whose fingerprint must
+ *    recompute from the JWK)
+ * 3. Time claims (iat / nbf / exp) are within the clock-skew allowance, and
+ *    a key that was rotated out or revoked, or whose attesting passkey was
+ *    removed, is only accepted for JWTs issued before its validUntil / the
+ *    revocation's effective time / the removal
+ * 4. The JWT was issued within the key binding's notBefore / notAfter, and
+ *    an approval or decline is among the actions the binding permits
+ * 5. Optionally, the JWT follows the statement signature profile for the
+ *    expected statement (see signature-profile.ts) and is bound to its
+ *    canonical content hash
  *
  * The passkey attestation (stored separately in DB) proves the JWT signing key
  * is legitimate. The JWT itself is a statement signature made with that key.
+ *
+ * Statements with the passkey signing method are approved by direct passkey
+ * signatures instead: a WebAuthn assertion whose challenge is the hash of
+ * the approval request (see passkey-approval.ts), re-verified against the
+ * stored COSE public key of a passkey of the signer. Use
+ * verifySignatureRecord to check a stored signature of either kind.
+ * Attestation results are cached per stored key row, so a modified row is
+ * verified again.
  */
 
-import { jwtVerify, importJWK, decodeProtectedHeader, decodeJwt } from "jose";
-import { getJWTKey } from "./database";
+import {
+  compactVerify,
+  decodeProtectedHeader,
+  decodeJwt,
+  type JWTPayload,
+} from "jose";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/server";
+import { getCredential, getJWTKey } from "./database";
+import { getWebAuthnConfig } from "./webauthn-config";
+import {
+  computePasskeyApprovalChallenge,
+  type PasskeyApprovalRequest,
+} from "./passkey-approval";
+import {
+  verifyKeyAttestation,
+  verifyPasskeyAssertion,
+  type VerificationSection,
+} from "./offline-verifier";
+import type { SigningMethod } from "./statement-lifecycle";
+import {
+  STATEMENT_APPROVAL_TYP,
+  checkSignatureProfile,
+  checkTimeClaims,
+  checkContentBinding,
+  checkKeyValidity,
+  checkKeyRevocation,
+  type ClaimCheck,
+} from "./signature-profile";
+import { checkKeyBindingScope } from "./key-binding";
+import { importSigningKey } from "./signing-algorithms";
 
 export interface PasskeyVerificationResult {
   valid: boolean;
@@ -26,30 +74,82 @@ export interface PasskeyVerificationResult {
   details?: {
     jwtVerification?: string;
     keyAuthorization?: string;
+    // One result per attestation check
+    attestation?: ClaimCheck[];
+    contentBinding?: string;
+    // One result per checked claim
+    claims?: ClaimCheck[];
+  };
+}
+
+export interface DirectPasskeyVerificationResult {
+  valid: boolean;
+  credentialId: string;
+  // Owner of the passkey
+  userId?: string;
+  error?: string;
+  details?: {
+    // One result per assertion check
+    assertion?: ClaimCheck[];
   };
 }
 
+/**
+ * A stored statement signature: a JWT, or a direct passkey assertion
+ */
+export interface SignatureRecord {
+  signingMethod: SigningMethod;
+  // The signer; a direct passkey signature must use one of their passkeys
+  userId: string;
+  jwt?: string;
+  passkeyAssertion?: AuthenticationResponseJSON;
+  // Signing nonce of a direct passkey signature's approval request
+  passkeyNonce?: string;
+}
+
+export type SignatureRecordVerificationResult =
+  | ({ signingMethod: "jwt" } & PasskeyVerificationResult)
+  | ({ signingMethod: "passkey" } & DirectPasskeyVerificationResult);
+
+/**
+ * Statement the JWT must be bound to
+ *
+ * When statementId is given, the full statement signature profile is
+ * enforced (typ defaults to statement-approval+jwt). When contentHash is
+ * given, the `contentHash` claim is required.
+ */
+export interface ExpectedStatementClaims {
+  statementId?: string;
+  typ?: string;
+  contentHash?: string;
+}
+
 /**
  * Verify a statement signature (JWT) made with a passkey-attested signing key
  *
  * Steps:
  * 1. Extract kid from JWT header
  * 2. Lookup JWT signing key in DB
- * 3. Verify JWT signature with public key
- * 4. Confirm key is authorized (has passkey attestation in DB)
+ * 3. Confirm key is authorized (its passkey attestation verifies)
+ * 4. Verify JWT signature with public key, and that it was issued before
+ *    the attesting passkey was removed (if it was)
+ * 5. Check the claims (full profile when a statement is expected) and the
+ *    key binding
+ * 6. Check the content hash binding, if expected
  */
 export async function verifyPasskeyJWT(
   jwt: string,
+  expected: ExpectedStatementClaims = {},
 ): Promise<PasskeyVerificationResult> {
-  const details: { jwtVerification?: string; keyAuthorization?: string } = {};
+  const details: NonNullable<PasskeyVerificationResult["details"]> = {};
 
   try {
     console.log("🔍 Stage 1: Extracting key ID from JWT...");
 
     // Decode header to get kid (key ID)
-    const header = decodeProtectedHeader(jwt);
+    const unverifiedHeader = decodeProtectedHeader(jwt);
 
-    if (!header.kid) {
+    if (!unverifiedHeader.kid) {
       return {
         valid: false,
         jwtVerified: false,
@@ -58,7 +158,7 @@ export async function verifyPasskeyJWT(
       };
     }
 
-    const keyId = header.kid as string;
+    const keyId = unverifiedHeader.kid as string;
     console.log("✅ Key ID:", keyId);
 
     console.log("\n🔍 Stage 2: Looking up JWT public key in database...");
@@ -80,36 +180,48 @@ export async function verifyPasskeyJWT(
     console.log("   Credential ID:", jwtKey.credentialId);
     console.log("   Created:", new Date(jwtKey.createdAt).toISOString());
 
-    // Check that passkey attestation exists (key is authorized)
-    if (!jwtKey.passkeyAttestation) {
+    // Re-verify the passkey attestation instead of trusting the stored row
+    const attestation = await checkKeyAttestation(jwtKey);
+    details.attestation = attestation.checks;
+    if (!attestation.valid) {
+      const failedCheck = attestation.checks.find((check) => !check.valid);
+      console.error("❌ Passkey attestation check failed:", failedCheck);
       return {
         valid: false,
         jwtVerified: false,
         keyAuthorized: false,
-        error: "JWT key missing passkey attestation",
+        keyId,
+        credentialId: jwtKey.credentialId,
+        error: `JWT key attestation is invalid: ${failedCheck?.claim}: ${failedCheck?.message}`,
         details,
       };
     }
 
-    console.log("✅ Key is authorized (has passkey attestation)");
+    console.log("✅ Key is authorized (passkey attestation verified)");
     details.keyAuthorization = `Key attested by passkey ${jwtKey.credentialId}`;
 
     console.log("\n🔍 Stage 3: Verifying JWT signature...");
 
-    // Import the public key
-    const publicKey = await importJWK(jwtKey.publicKeyJWK, "EdDSA");
+    // Import the public key; its type decides the algorithm (EdDSA or
+    // ES256), whatever the JWT header claims
+    const { algorithm, publicKey } = await importSigningKey(
+      jwtKey.publicKeyJWK,
+    );
 
-    // Verify JWT signature using jose.jwtVerify
-    // This is STANDARD JWT verification!
-    let verifyResult;
+    // Verify the JWS signature using jose.compactVerify
+    // Claims are checked below so that each one gets its own result
+    let header: Record<string, unknown>;
+    let payload: JWTPayload;
     try {
-      verifyResult = await jwtVerify(jwt, publicKey, {
-        algorithms: ["EdDSA"],
+      const verifyResult = await compactVerify(jwt, publicKey, {
+        algorithms: [algorithm],
       });
+      header = verifyResult.protectedHeader;
+      payload = decodeJwt(jwt);
 
       console.log("✅ JWT signature verified successfully");
-      console.log("   Algorithm: EdDSA");
-      console.log("   Verified with standard jose.jwtVerify()");
+      console.log("   Algorithm:", algorithm);
+      console.log("   Verified with standard jose.compactVerify()");
 
       details.jwtVerification =
         "JWT signature verified with registered public key";
@@ -128,6 +240,97 @@ export async function verifyPasskeyJWT(
       };
     }
 
+    // Removing the attesting passkey withdraws its authorization of the
+    // key: only JWTs issued before the removal still verify (iat has whole
+    // seconds, so the second of the removal already counts as after it)
+    if (
+      jwtKey.passkeyRemovedAt !== undefined &&
+      !(
+        typeof payload.iat === "number" &&
+        (payload.iat + 1) * 1000 <= jwtKey.passkeyRemovedAt
+      )
+    ) {
+      console.error("❌ Attesting passkey was removed");
+      return {
+        valid: false,
+        jwtVerified: true,
+        keyAuthorized: false,
+        keyId,
+        credentialId: jwtKey.credentialId,
+        payload,
+        header,
+        error: `JWT key is no longer authorized: passkey ${jwtKey.credentialId} that attested it was removed`,
+        details,
+      };
+    }
+
+    console.log("\n🔍 Stage 4: Checking claims...");
+
+    let claimChecks: ClaimCheck[];
+    if (expected.statementId !== undefined) {
+      // The issuer must be the user who owns the signing key
+      claimChecks = checkSignatureProfile(header, payload, {
+        typ: expected.typ ?? STATEMENT_APPROVAL_TYP,
+        audience: getWebAuthnConfig().rpId,
+        subject: expected.statementId,
+        issuer: jwtKey.userId,
+      });
+    } else {
+      claimChecks = checkTimeClaims(payload, false);
+    }
+    // A rotated-out key only covers JWTs issued before its validUntil, a
+    // revoked one only those issued before the revocation took effect, and
+    // every key only what its binding permits
+    claimChecks.push(
+      checkKeyValidity(payload, jwtKey.validUntil),
+      checkKeyRevocation(payload, jwtKey.revokedAt),
+      checkKeyBindingScope(header, payload, jwtKey.keyBinding),
+    );
+    details.claims = claimChecks;
+
+    const failedClaim = claimChecks.find((check) => !check.valid);
+    if (failedClaim) {
+      console.error("❌ Claim check failed:", failedClaim);
+      return {
+        valid: false,
+        jwtVerified: true,
+        keyAuthorized: true,
+        keyId,
+        credentialId: jwtKey.credentialId,
+        payload,
+        header,
+        error: `Invalid '${failedClaim.claim}' claim: ${failedClaim.message}`,
+        details,
+      };
+    }
+    console.log(`✅ ${claimChecks.length} claims checked`);
+
+    if (expected.contentHash) {
+      console.log("\n🔍 Stage 5: Checking content binding...");
+
+      const bindingError = await checkContentBinding(
+        payload,
+        expected.contentHash,
+      );
+      if (bindingError) {
+        console.error("❌ Content binding failed:", bindingError);
+        return {
+          valid: false,
+          jwtVerified: true,
+          keyAuthorized: true,
+          keyId,
+          credentialId: jwtKey.credentialId,
+          payload,
+          header,
+          error: bindingError,
+          details,
+        };
+      }
+
+      console.log("✅ JWT is bound to the statement content");
+      details.contentBinding = `Signed content hash matches ${expected.contentHash}`;
+    }
+
     console.log("\n🎉 VERIFICATION COMPLETE!");
     console.log("   ✅ JWT signature valid");
     console.log("   ✅ Key is authorized by passkey");
@@ -138,8 +341,8 @@ export async function verifyPasskeyJWT(
       keyAuthorized: true,
       keyId,
       credentialId: jwtKey.credentialId,
-      payload: verifyResult.payload,
-      header: verifyResult.protectedHeader,
+      payload,
+      header,
       details,
     };
   } catch (error) {
@@ -154,6 +357,182 @@ export async function verifyPasskeyJWT(
   }
 }
 
+/**
+ * Verify a direct passkey signature over a statement's approval request
+ *
+ * Steps:
+ * 1. Lookup the passkey by the assertion's credential ID (removed passkeys
+ *    keep their public key, so what they signed still verifies) and check
+ *    that it belongs to the signer
+ * 2. Re-verify the assertion against its COSE public key, with the hash of
+ *    the approval request as the expected challenge
+ */
+export async function verifyPasskeySignature(
+  passkeyAssertion: AuthenticationResponseJSON,
+  request: PasskeyApprovalRequest,
+): Promise<DirectPasskeyVerificationResult> {
+  const credentialId = passkeyAssertion.id;
+
+  try {
+    const credential = await getCredential(credentialId);
+    if (!credential) {
+      return {
+        valid: false,
+        credentialId,
+        error: `Passkey not found: ${credentialId}`,
+      };
+    }
+
+    if (credential.userId !== request.userId) {
+      return {
+        valid: false,
+        credentialId,
+        userId: credential.userId,
+        error: `Passkey ${credentialId} does not belong to ${request.userId}`,
+      };
+    }
+
+    const checks = await verifyPasskeyAssertion(
+      passkeyAssertion,
+      credential.publicKey,
+      await computePasskeyApprovalChallenge(request),
+      "approval request",
+      {
+        rpId: getWebAuthnConfig().rpId,
+        origin: process.env.WEBAUTHN_ORIGIN,
+      },
+    );
+    const failedCheck = checks.find((check) => !check.valid);
+
+    return {
+      valid: !failedCheck,
+      credentialId,
+      userId: credential.userId,
+      ...(failedCheck && {
+        error: `Passkey signature is invalid: ${failedCheck.claim}: ${failedCheck.message}`,
+      }),
+      details: { assertion: checks },
+    };
+  } catch (error) {
+    return {
+      valid: false,
+      credentialId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Verify a stored statement signature of either kind
+ *
+ * JWTs get the full checks of verifyPasskeyJWT, direct passkey signatures
+ * those of verifyPasskeySignature; both must be bound to the statement and
+ * its content hash.
+ */
+export async function verifySignatureRecord(
+  record: SignatureRecord,
+  expected: ExpectedStatementClaims & {
+    statementId: string;
+    contentHash: string;
+  },
+): Promise<SignatureRecordVerificationResult> {
+  if (record.signingMethod === "passkey") {
+    if (!record.passkeyAssertion || !record.passkeyNonce) {
+      return {
+        signingMethod: "passkey",
+        valid: false,
+        credentialId: record.passkeyAssertion?.id ?? "",
+        error: "Passkey signature has no assertion or signing nonce",
+      };
+    }
+    return {
+      signingMethod: "passkey",
+      ...(await verifyPasskeySignature(record.passkeyAssertion, {
+        statementId: expected.statementId,
+        contentHash: expected.contentHash,
+        userId: record.userId,
+        nonce: record.passkeyNonce,
+      })),
+    };
+  }
+
+  if (!record.jwt) {
+    return {
+      signingMethod: "jwt",
+      valid: false,
+      jwtVerified: false,
+      keyAuthorized: false,
+      error: "Signature has no JWT",
+    };
+  }
+  return {
+    signingMethod: "jwt",
+    ...(await verifyPasskeyJWT(record.jwt, expected)),
+  };
+}
+
+// Attestation results by the stored key row they were computed from
+const attestationCache = new Map<string, VerificationSection>();
+const MAX_CACHED_ATTESTATIONS = 1000;
+
+/**
+ * Verify the passkey assertion stored with a signing key (cached)
+ *
+ * The origin is only checked when WEBAUTHN_ORIGIN is configured, otherwise
+ * registration derived it from the request host.
+ */
+async function checkKeyAttestation(
+  jwtKey: NonNullable<Awaited<ReturnType<typeof getJWTKey>>>,
+): Promise<VerificationSection> {
+  if (!jwtKey.passkeyAttestation || !jwtKey.passkeyPublicKey) {
+    return {
+      title: `Key ${jwtKey.keyId} (passkey attestation)`,
+      valid: false,
+      checks: [
+        {
+          claim: "assertion",
+          valid: false,
+          message: "passkey attestation or passkey public key missing",
+        },
+      ],
+    };
+  }
+
+  const key = {
+    keyId: jwtKey.keyId,
+    credentialId: jwtKey.credentialId,
+    publicKeyJWK: jwtKey.publicKeyJWK,
+    publicKeyFingerprint: jwtKey.publicKeyFingerprint,
+    legacyFingerprint: jwtKey.legacyFingerprint,
+    keyBinding: jwtKey.keyBinding,
+    passkeyAttestation: jwtKey.passkeyAttestation,
+    passkeyPublicKey: jwtKey.passkeyPublicKey,
+  };
+  const relyingParty = {
+    rpId: getWebAuthnConfig().rpId,
+    origin: process.env.WEBAUTHN_ORIGIN,
+  };
+
+  const cacheKey = JSON.stringify([key, relyingParty]);
+  const cached = attestationCache.get(cacheKey);
+  if (cached) return cached;
+
+  const result = await verifyKeyAttestation(key, relyingParty);
+  if (attestationCache.size >= MAX_CACHED_ATTESTATIONS) {
+    // Evict the oldest entry
+    attestationCache.delete(attestationCache.keys().next().value!);
+  }
+  attestationCache.set(cacheKey, result);
+  return result;
+}
+
+/**
+ * Forget cached attestation results
+ */
+export function clearAttestationCache(): void {
+  attestationCache.clear();
+}
+
 /**
  * Inspect a JWT without full verification
  * Useful for debugging
@@ -0,0 +1,202 @@
+/**
+ * Signing Key Binding
+ *
+ * The document a passkey signs to attest a JWT signing key. Instead of
+ * vouching for a bare fingerprint forever, the passkey approves a key for a
+ * user, a period and a set of actions:
+ * - thumbprint: the key fingerprint (see jwt-key-registration.ts)
+ * - keyId / userId: the kid the key signs with and the user it signs for
+ * - notBefore / notAfter: ms since epoch; a JWT's iat must fall in between
+ * - actions: what the key may sign (approve, decline, comment)
+ *
+ * The passkey challenge is the SHA-256 of the canonical binding, so the
+ * stored assertion proves these limits were part of the attestation. Keys
+ * enrolled before bindings existed were attested over the bare fingerprint
+ * and keep verifying without limits.
+ *
+ * This module is shared by the browser (building the binding) and the
+ * server and offline verifier (checking it).
+ */
+
+import type { JWTPayload } from "jose";
+import { computeContentHash } from "./canonical-json";
+import { STATEMENT_APPROVAL_TYP, type ClaimCheck } from "./signature-profile";
+
+export const KEY_BINDING_ACTION = "bind-key";
+
+export const KEY_ACTIONS = ["approve", "decline", "comment"] as const;
+export type KeyAction = (typeof KEY_ACTIONS)[number];
+
+// Longest allowed notAfter - notBefore; clients use it as the key lifetime
+export const MAX_KEY_BINDING_LIFETIME_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface KeyBinding {
+  keyId: string;
+  userId: string;
+  thumbprint: string;
+  notBefore: number;
+  notAfter: number;
+  actions: KeyAction[];
+}
+
+/**
+ * Binding for a new key: valid from now for the longest allowed lifetime,
+ * for every action
+ */
+export function createKeyBinding(
+  key: { keyId: string; publicKeyFingerprint: string },
+  userId: string,
+  now: number = Date.now(),
+): KeyBinding {
+  return {
+    keyId: key.keyId,
+    userId,
+    thumbprint: key.publicKeyFingerprint,
+    notBefore: now,
+    notAfter: now + MAX_KEY_BINDING_LIFETIME_MS,
+    actions: [...KEY_ACTIONS],
+  };
+}
+
+/**
+ * Challenge the passkey signs to attest a key
+ */
+export async function computeKeyBindingChallenge(
+  binding: KeyBinding,
+): Promise<string> {
+  return await computeContentHash(
+    JSON.stringify({
+      action: KEY_BINDING_ACTION,
+      keyId: binding.keyId,
+      userId: binding.userId,
+      thumbprint: binding.thumbprint,
+      notBefore: binding.notBefore,
+      notAfter: binding.notAfter,
+      actions: binding.actions,
+    }),
+  );
+}
+
+/**
+ * Check that a binding describes the given key and is well formed
+ * userId is only compared when known.
+ */
+export function checkKeyBinding(
+  binding: KeyBinding,
+  key: { keyId: string; publicKeyFingerprint: string; userId?: string },
+): ClaimCheck[] {
+  const checks: ClaimCheck[] = [
+    binding.thumbprint === key.publicKeyFingerprint
+      ? pass("thumbprint", "binding names the key fingerprint")
+      : fail("thumbprint", "binding names another key fingerprint"),
+    binding.keyId === key.keyId
+      ? pass("keyId", `binding names key ${key.keyId}`)
+      : fail("keyId", `binding names key ${binding.keyId}, not ${key.keyId}`),
+  ];
+
+  if (key.userId !== undefined) {
+    checks.push(
+      binding.userId === key.userId
+        ? pass("userId", `binding names user ${key.userId}`)
+        : fail(
+            "userId",
+            `binding names user ${binding.userId}, not ${key.userId}`,
+          ),
+    );
+  }
+
+  const { notBefore, notAfter } = binding;
+  if (!Number.isInteger(notBefore) || !Number.isInteger(notAfter)) {
+    checks.push(fail("period", "notBefore and notAfter must be timestamps"));
+  } else if (notAfter <= notBefore) {
+    checks.push(fail("period", "notAfter must be later than notBefore"));
+  } else if (notAfter - notBefore > MAX_KEY_BINDING_LIFETIME_MS) {
+    checks.push(
+      fail(
+        "period",
+        `longer than ${MAX_KEY_BINDING_LIFETIME_MS / 86_400_000} days`,
+      ),
+    );
+  } else {
+    checks.push(
+      pass("period", `${formatTime(notBefore)} to ${formatTime(notAfter)}`),
+    );
+  }
+
+  const { actions } = binding;
+  checks.push(
+    Array.isArray(actions) &&
+      actions.length > 0 &&
+      actions.every((action) => KEY_ACTIONS.includes(action))
+      ? pass("actions", actions.join(", "))
+      : fail(
+          "actions",
+          `must be a non-empty list of ${KEY_ACTIONS.join(", ")}`,
+        ),
+  );
+
+  return checks;
+}
+
+/**
+ * Check that a JWT falls within the key's binding
+ *
+ * The iat must lie in [notBefore, notAfter]. Statement approvals and
+ * declines also need their decision among the permitted actions; other
+ * tokens, such as withdrawals, are only held to the period.
+ */
+export function checkKeyBindingScope(
+  header: { typ?: string },
+  payload: JWTPayload,
+  binding?: KeyBinding,
+): ClaimCheck {
+  if (binding === undefined) {
+    return pass("binding", "key was attested without a binding");
+  }
+  if (typeof payload.iat !== "number") {
+    return fail("binding", "cannot place a JWT without iat in the binding");
+  }
+
+  // iat has whole seconds: a JWT from the second the key was bound is in
+  if (payload.iat < Math.floor(binding.notBefore / 1000)) {
+    return fail(
+      "binding",
+      `issued before the key became valid at ${formatTime(binding.notBefore)}`,
+    );
+  }
+  if (payload.iat * 1000 > binding.notAfter) {
+    return fail(
+      "binding",
+      `issued after the key expired at ${formatTime(binding.notAfter)}`,
+    );
+  }
+
+  if (header.typ === STATEMENT_APPROVAL_TYP) {
+    // Tokens without the claim are approvals
+    const decision = String(payload.decision ?? "approve");
+    if (!(binding.actions as string[]).includes(decision)) {
+      return fail(
+        "binding",
+        `key may only ${binding.actions.join(", ")}, not ${decision}`,
+      );
+    }
+    return pass(
+      "binding",
+      `key may ${decision} until ${formatTime(binding.notAfter)}`,
+    );
+  }
+
+  return pass("binding", `key is valid until ${formatTime(binding.notAfter)}`);
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toISOString();
+}
+
+function pass(claim: string, message: string): ClaimCheck {
+  return { claim, valid: true, message };
+}
+
+function fail(claim: string, message: string): ClaimCheck {
+  return { claim, valid: false, message };
+}
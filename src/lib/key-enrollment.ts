@@ -0,0 +1,343 @@
+"use server";
+
+/**
+ * JWT Key Enrolment
+ *
+ * Registers a device's JWT signing key. The device generates the key pair
+ * and keeps the private key; the server only receives the public key, its
+ * key binding (see key-binding.ts) and the passkey assertion over that
+ * binding, and verifies that assertion against the stored passkey before
+ * saving the key.
+ *
+ * Used at registration (first device), when a user logs in on a device
+ * that holds no key for them yet, and to rotate a key: the new key is
+ * enrolled the same way and the old one is retired with a validUntil time,
+ * after which it only verifies signatures issued before that time.
+ *
+ * Keys are revoked here too (see key-revocation.ts): by their owner with a
+ * passkey assertion over the revocation request, or by an admin.
+ */
+
+import type { JWK } from "jose";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/server";
+import {
+  getJWTKey,
+  getKeyRevocations,
+  getUserByCredentialId,
+  retireJWTKey,
+  saveJWTKey,
+  saveKeyRevocation,
+} from "./database";
+import { verifyAuthentication } from "./authentication";
+import { verifyPublicKeyFingerprint } from "./key-thumbprint";
+import { jwkToPemServer } from "./pem-utils";
+import {
+  getSigningAlgorithm,
+  parseSigningAlgorithm,
+  type SigningAlgorithm,
+} from "./signing-algorithms";
+import {
+  computeRevocationChallenge,
+  type KeyRevocation,
+  type KeyRevocationRequest,
+} from "./key-revocation";
+import {
+  checkKeyBinding,
+  computeKeyBindingChallenge,
+  type KeyBinding,
+} from "./key-binding";
+import { CLOCK_SKEW_SECONDS } from "./signature-profile";
+
+export interface JWTKeyEnrollment {
+  keyId: string;
+  publicKeyJWK: JWK;
+  publicKeyFingerprint: string;
+  // What the passkey attests: the key, its owner, period and actions
+  keyBinding: KeyBinding;
+  // Algorithm the device chose for this key; it must be the one the public
+  // key signs with (taken from the key when left out)
+  algorithm?: SigningAlgorithm;
+  // Identifies the device across key rotations
+  deviceId?: string;
+  // e.g. "Chrome on macOS"
+  deviceLabel?: string;
+}
+
+export interface EnrolledJWTKey {
+  keyId: string;
+  userId: string;
+  credentialId: string;
+  publicKeyPEM: string;
+  keyBinding: KeyBinding;
+  algorithm: SigningAlgorithm;
+  deviceId?: string;
+  deviceLabel?: string;
+}
+
+const MAX_DEVICE_LABEL_LENGTH = 100;
+
+export interface RotatedJWTKey extends EnrolledJWTKey {
+  retiredKeyId: string;
+  validUntil: number;
+}
+
+// Who authorized a revocation
+export type RevocationAuthorization =
+  | { revokedBy: "owner"; passkeyAssertion: AuthenticationResponseJSON }
+  | { revokedBy: "admin" };
+
+/**
+ * Verify the passkey attestation of a device key and save its public half
+ */
+export async function enrollJWTKey(
+  passkeyAttestation: AuthenticationResponseJSON,
+  jwtKeyData: JWTKeyEnrollment,
+): Promise<EnrolledJWTKey> {
+  const user = await getUserByCredentialId(passkeyAttestation.id);
+  if (!user) {
+    throw new Error("No user is registered with this passkey");
+  }
+
+  const enrolledKey = await verifyJWTKeyEnrollment(
+    passkeyAttestation,
+    jwtKeyData,
+    user.userId,
+  );
+  await saveJWTKeyEnrollment(passkeyAttestation, jwtKeyData, enrolledKey);
+
+  return enrolledKey;
+}
+
+/**
+ * Verify the passkey attestation of a device key for a user, without saving
+ * anything
+ *
+ * Registration verifies the first key before the user exists, so that a
+ * failed enrolment leaves no user behind.
+ */
+export async function verifyJWTKeyEnrollment(
+  passkeyAttestation: AuthenticationResponseJSON,
+  jwtKeyData: JWTKeyEnrollment,
+  userId: string,
+): Promise<EnrolledJWTKey> {
+  // Only keys a verifier can pick an algorithm for (EdDSA or ES256)
+  const algorithm = getSigningAlgorithm(jwtKeyData.publicKeyJWK);
+  if (
+    jwtKeyData.algorithm !== undefined &&
+    parseSigningAlgorithm(jwtKeyData.algorithm) !== algorithm
+  ) {
+    throw new Error(
+      `JWT key signs with ${algorithm}, not ${jwtKeyData.algorithm}`,
+    );
+  }
+
+  // The key binding names the fingerprint, so it must belong to this key
+  if (
+    !(await verifyPublicKeyFingerprint(
+      jwtKeyData.publicKeyJWK,
+      jwtKeyData.publicKeyFingerprint,
+    ))
+  ) {
+    throw new Error("JWT key fingerprint does not match its public key");
+  }
+  // Verifiers find the key by kid, which must also identify it
+  if (jwtKeyData.keyId !== jwtKeyData.publicKeyFingerprint) {
+    throw new Error("JWT key ID must be its public key thumbprint");
+  }
+
+  if (await getJWTKey(jwtKeyData.keyId)) {
+    throw new Error(`JWT key ${jwtKeyData.keyId} is already registered`);
+  }
+
+  const deviceLabel = jwtKeyData.deviceLabel?.trim() || undefined;
+  if (deviceLabel && deviceLabel.length > MAX_DEVICE_LABEL_LENGTH) {
+    throw new Error(
+      `Device label must be at most ${MAX_DEVICE_LABEL_LENGTH} characters`,
+    );
+  }
+  const device = { deviceId: jwtKeyData.deviceId, deviceLabel };
+
+  const { keyBinding } = jwtKeyData;
+  if (!keyBinding) {
+    throw new Error("A key binding is required");
+  }
+  const failedCheck = checkKeyBinding(keyBinding, {
+    keyId: jwtKeyData.keyId,
+    publicKeyFingerprint: jwtKeyData.publicKeyFingerprint,
+    userId,
+  }).find((check) => !check.valid);
+  if (failedCheck) {
+    throw new Error(
+      `Invalid key binding: ${failedCheck.claim}: ${failedCheck.message}`,
+    );
+  }
+  if (keyBinding.notAfter <= Date.now()) {
+    throw new Error("Key binding has already expired");
+  }
+
+  // Challenge = hash of the key binding; also updates the passkey counter
+  const attestationResult = await verifyAuthentication(
+    passkeyAttestation,
+    await computeKeyBindingChallenge(keyBinding),
+  );
+  if (!attestationResult.verified) {
+    throw new Error("JWT key attestation verification failed");
+  }
+
+  return {
+    keyId: jwtKeyData.keyId,
+    userId,
+    credentialId: passkeyAttestation.id,
+    publicKeyPEM: jwkToPemServer(jwtKeyData.publicKeyJWK),
+    keyBinding,
+    algorithm,
+    ...device,
+  };
+}
+
+/**
+ * Save a device key checked by verifyJWTKeyEnrollment
+ */
+export async function saveJWTKeyEnrollment(
+  passkeyAttestation: AuthenticationResponseJSON,
+  jwtKeyData: JWTKeyEnrollment,
+  enrolledKey: EnrolledJWTKey,
+): Promise<void> {
+  await saveJWTKey(
+    enrolledKey.keyId,
+    enrolledKey.userId,
+    enrolledKey.credentialId,
+    JSON.stringify(jwtKeyData.publicKeyJWK),
+    enrolledKey.publicKeyPEM,
+    jwtKeyData.publicKeyFingerprint,
+    JSON.stringify(passkeyAttestation),
+    { deviceId: enrolledKey.deviceId, deviceLabel: enrolledKey.deviceLabel },
+    JSON.stringify(enrolledKey.keyBinding),
+    enrolledKey.algorithm,
+  );
+}
+
+/**
+ * Replace a key with a new one attested by a passkey of the same user
+ */
+export async function rotateJWTKey(
+  retiredKeyId: string,
+  passkeyAttestation: AuthenticationResponseJSON,
+  jwtKeyData: JWTKeyEnrollment,
+): Promise<RotatedJWTKey> {
+  const currentKey = await getJWTKey(retiredKeyId);
+  if (!currentKey) {
+    throw new Error(`JWT key not found: ${retiredKeyId}`);
+  }
+  if (currentKey.validUntil !== undefined) {
+    throw new Error(`JWT key ${retiredKeyId} is already retired`);
+  }
+  if (currentKey.revokedAt !== undefined) {
+    throw new Error(`JWT key ${retiredKeyId} is revoked`);
+  }
+
+  const user = await getUserByCredentialId(passkeyAttestation.id);
+  if (user?.userId !== currentKey.userId) {
+    throw new Error("The new key must be attested by the key owner's passkey");
+  }
+
+  // The new key replaces the old one on the same device
+  const enrolledKey = await enrollJWTKey(passkeyAttestation, {
+    ...jwtKeyData,
+    deviceId: jwtKeyData.deviceId ?? currentKey.deviceId,
+    deviceLabel: jwtKeyData.deviceLabel ?? currentKey.deviceLabel,
+  });
+
+  const validUntil = Date.now();
+  await retireJWTKey(retiredKeyId, validUntil);
+
+  return { ...enrolledKey, retiredKeyId, validUntil };
+}
+
+/**
+ * Revoke a key from the revocation's effective time on
+ */
+export async function revokeJWTKey(
+  request: KeyRevocationRequest,
+  authorization: RevocationAuthorization,
+): Promise<KeyRevocation> {
+  // Stored as given: the owner's assertion covers the exact text
+  const { reason } = request;
+  if (typeof reason !== "string" || !reason.trim()) {
+    throw new Error("A revocation reason is required");
+  }
+  if (
+    !Number.isInteger(request.effectiveAt) ||
+    request.effectiveAt > Date.now() + CLOCK_SKEW_SECONDS * 1000
+  ) {
+    throw new Error(
+      "effectiveAt must be a timestamp that is not in the future",
+    );
+  }
+
+  const jwtKey = await getJWTKey(request.keyId);
+  if (!jwtKey) {
+    throw new Error(`JWT key not found: ${request.keyId}`);
+  }
+  if (jwtKey.revokedAt !== undefined) {
+    throw new Error(`JWT key ${request.keyId} is already revoked`);
+  }
+
+  if (authorization.revokedBy === "owner") {
+    const { passkeyAssertion } = authorization;
+    const user = await getUserByCredentialId(passkeyAssertion.id);
+    if (user?.userId !== jwtKey.userId) {
+      throw new Error(
+        "The revocation must be signed by the key owner's passkey",
+      );
+    }
+
+    // The assertion covers exactly this key, reason and effective time
+    const result = await verifyAuthentication(
+      passkeyAssertion,
+      await computeRevocationChallenge(request),
+    );
+    if (!result.verified) {
+      throw new Error("Revocation assertion verification failed");
+    }
+  }
+
+  const passkeyAssertion =
+    authorization.revokedBy === "owner"
+      ? authorization.passkeyAssertion
+      : undefined;
+  await saveKeyRevocation(
+    request.keyId,
+    reason,
+    request.effectiveAt,
+    authorization.revokedBy,
+    passkeyAssertion && JSON.stringify(passkeyAssertion),
+  );
+
+  return {
+    keyId: request.keyId,
+    userId: jwtKey.userId,
+    reason,
+    effectiveAt: request.effectiveAt,
+    revokedBy: authorization.revokedBy,
+    ...(passkeyAssertion && { passkeyAssertion }),
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * The published revocation list
+ */
+export async function listKeyRevocations(): Promise<KeyRevocation[]> {
+  return (await getKeyRevocations()).map((row) => ({
+    keyId: row.key_id,
+    userId: row.user_id,
+    reason: row.reason,
+    effectiveAt: row.revoked_at,
+    revokedBy: row.revoked_by as KeyRevocation["revokedBy"],
+    ...(row.passkey_assertion && {
+      passkeyAssertion: JSON.parse(row.passkey_assertion),
+    }),
+    createdAt: row.created_at,
+  }));
+}
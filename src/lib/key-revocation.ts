@@ -0,0 +1,54 @@
+/**
+ * Signing Key Revocation
+ *
+ * A revocation says "this signing key must not be trusted for anything it
+ * signed from effectiveAt on" (e.g. the time the device was lost, which
+ * may be earlier than the report). JWTs are judged by their iat, so
+ * signatures made before that time stay valid.
+ *
+ * The key owner revokes a key with a passkey assertion whose challenge is
+ * the SHA-256 of the canonical revocation request, so the stored assertion
+ * proves the owner asked for exactly this reason and effective time. An
+ * admin can revoke any key with the server's admin token.
+ *
+ * This module is shared by the browser (building the challenge) and the
+ * server (checking it).
+ */
+
+import { computeContentHash } from "./canonical-json";
+
+export const KEY_REVOCATION_ACTION = "revoke-key";
+
+export interface KeyRevocationRequest {
+  keyId: string;
+  reason: string;
+  // First moment (ms since epoch) the key is no longer trusted
+  effectiveAt: number;
+}
+
+/**
+ * An entry of the published revocation list
+ */
+export interface KeyRevocation extends KeyRevocationRequest {
+  userId: string;
+  revokedBy: "owner" | "admin";
+  // Owner revocations: assertion over computeRevocationChallenge(request)
+  passkeyAssertion?: unknown;
+  createdAt: number;
+}
+
+/**
+ * Challenge the owner's passkey signs to revoke a key
+ */
+export async function computeRevocationChallenge(
+  request: KeyRevocationRequest,
+): Promise<string> {
+  return await computeContentHash(
+    JSON.stringify({
+      action: KEY_REVOCATION_ACTION,
+      keyId: request.keyId,
+      reason: request.reason,
+      effectiveAt: request.effectiveAt,
+    }),
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * JWK Thumbprints (RFC 7638)
+ *
+ * A signing key's fingerprint is its RFC 7638 thumbprint: the SHA-256 of
+ * the key's required public members, serialized in lexicographic order
+ * without whitespace, base64url encoded. It is also the key's kid, and the
+ * thumbprint the key binding (key-binding.ts) names, so every party can
+ * recompute both from the public JWK alone.
+ *
+ * Keys attested before thumbprints were used signed a hex SHA-256 of
+ * {kty, crv, x}; computeLegacyFingerprint only exists to check those
+ * attestations.
+ *
+ * Works in both the browser and Node (uses WebCrypto for hashing).
+ */
+
+import { base64url, type JWK } from "jose";
+
+// Required members per key type (RFC 7638 section 3.2), in sorted order
+const THUMBPRINT_MEMBERS: Record<string, string[]> = {
+  EC: ["crv", "kty", "x", "y"],
+  OKP: ["crv", "kty", "x"],
+  RSA: ["e", "kty", "n"],
+  oct: ["k", "kty"],
+};
+
+/**
+ * The JSON string the thumbprint is the SHA-256 of
+ */
+export function jwkThumbprintInput(jwk: JWK): string {
+  const members = jwk.kty ? THUMBPRINT_MEMBERS[jwk.kty] : undefined;
+  if (!members) {
+    throw new Error(`Unsupported JWK key type: ${jwk.kty ?? "none"}`);
+  }
+
+  const required: Record<string, unknown> = {};
+  for (const member of members) {
+    const value = jwk[member as keyof JWK];
+    if (typeof value !== "string" || !value) {
+      throw new Error(`JWK is missing the "${member}" member`);
+    }
+    required[member] = value;
+  }
+  return JSON.stringify(required);
+}
+
+/**
+ * RFC 7638 thumbprint of a public key (SHA-256, base64url)
+ */
+export async function computePublicKeyFingerprint(jwk: JWK): Promise<string> {
+  return base64url.encode(await sha256(jwkThumbprintInput(jwk)));
+}
+
+/**
+ * Verify that a fingerprint is the thumbprint of a public key
+ */
+export async function verifyPublicKeyFingerprint(
+  jwk: JWK,
+  fingerprint: string,
+): Promise<boolean> {
+  try {
+    return (await computePublicKeyFingerprint(jwk)) === fingerprint;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fingerprint attested before RFC 7638: hex SHA-256 of {kty, crv, x}
+ */
+export async function computeLegacyFingerprint(jwk: JWK): Promise<string> {
+  const canonical = JSON.stringify({ kty: jwk.kty, crv: jwk.crv, x: jwk.x });
+  return Array.from(await sha256(canonical))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+async function sha256(text: string): Promise<Uint8Array> {
+  return new Uint8Array(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)),
+  );
+}
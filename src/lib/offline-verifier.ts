@@ -0,0 +1,895 @@
+/**
+ * Offline Statement Verification
+ *
+ * Checks a verification bundle (see verification-bundle.ts) or a single
+ * signature JWT using only the key material it comes with: no database,
+ * no network. This is what the command-line verifier runs
+ * (src/cli/verify-statement.ts).
+ *
+ * For every signing key, the WebAuthn assertion that attested it is
+ * re-verified from scratch:
+ * - the key fingerprint is the RFC 7638 thumbprint of the public JWK (and
+ *   the legacy fingerprint, for keys attested before thumbprints, matches it)
+ * - the key binding (see key-binding.ts) names this key and its owner
+ * - clientDataJSON is a webauthn.get whose challenge is the hash of the key
+ *   binding (the fingerprint for keys without one), made on the expected
+ *   origin
+ * - authenticatorData carries the SHA-256 of the RP ID and the user
+ *   presence / user verification flags
+ * - the passkey's COSE public key verifies the assertion signature
+ *
+ * Signature JWTs go through the same profile and content-binding checks as
+ * on the server (signature-profile.ts), but as of their own iat: a bundle
+ * is verified long after its tokens expired. For the same reason a key that
+ * was rotated out still verifies what it signed before its validUntil, and a
+ * key binding is judged by the iat rather than by today's date.
+ *
+ * Direct passkey signatures (statements with the passkey signing method)
+ * have no JWT or signing key: their assertion is re-verified the same way,
+ * with the hash of the approval request (statement, content hash, signer
+ * and signing nonce; see passkey-approval.ts) as the expected challenge,
+ * against the bundled passkey of the signer. Whether the nonce was fresh
+ * and used once was for the server to check when the signature was made.
+ * A passkey that the bundle gives more than one owner vouches for nobody.
+ */
+
+import {
+  compactVerify,
+  decodeJwt,
+  decodeProtectedHeader,
+  type JWTPayload,
+} from "jose";
+import {
+  decodeClientDataJSON,
+  parseAuthenticatorData,
+  toHash,
+  verifySignature,
+  isoBase64URL,
+  isoUint8Array,
+} from "@simplewebauthn/server/helpers";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/server";
+import {
+  computeLegacyFingerprint,
+  verifyPublicKeyFingerprint,
+} from "./key-thumbprint";
+import { computeContentHash } from "./canonical-json";
+import { computePasskeyApprovalChallenge } from "./passkey-approval";
+import { importSigningKey } from "./signing-algorithms";
+import {
+  checkKeyBinding,
+  checkKeyBindingScope,
+  computeKeyBindingChallenge,
+} from "./key-binding";
+import {
+  buildApprovalCertificate,
+  verifyContentSignature,
+} from "./approval-certificate";
+import {
+  evaluateApprovalPolicy,
+  findVetoes,
+  type PolicyContext,
+  type PolicyEvaluation,
+  type PolicySigner,
+} from "./approval-policy";
+import {
+  STATEMENT_APPROVAL_TYP,
+  STATEMENT_REVOCATION_TYP,
+  checkSignatureProfile,
+  checkContentBinding,
+  checkKeyValidity,
+  type ClaimCheck,
+} from "./signature-profile";
+import {
+  VERIFICATION_BUNDLE_FORMAT,
+  VERIFICATION_BUNDLE_VERSION,
+  type BundleKey,
+  type BundlePasskey,
+  type BundleSignature,
+  type VerificationBundle,
+} from "./verification-bundle";
+
+export interface RelyingParty {
+  rpId: string;
+  origin: string;
+}
+
+/**
+ * Key material needed to check a signature: a bundle key, or the response
+ * of GET /api/jwt-keys/:keyId
+ */
+export type AttestedKey = Pick<
+  BundleKey,
+  | "keyId"
+  | "publicKeyJWK"
+  | "publicKeyFingerprint"
+  | "passkeyAttestation"
+  | "passkeyPublicKey"
+> &
+  Partial<
+    Pick<
+      BundleKey,
+      | "userId"
+      | "credentialId"
+      | "validUntil"
+      | "keyBinding"
+      | "legacyFingerprint"
+    >
+  >;
+
+/**
+ * Results for one verified item (the statement, a key, a signature, ...)
+ */
+export interface VerificationSection {
+  title: string;
+  valid: boolean;
+  checks: ClaimCheck[];
+}
+
+export interface OfflineVerificationReport {
+  valid: boolean;
+  sections: VerificationSection[];
+  // Policy re-evaluated with the signatures that verified (bundles only)
+  policyEvaluation?: PolicyEvaluation;
+}
+
+export interface ExpectedSignature {
+  typ: string;
+  statementId: string;
+  issuer: string;
+  audience: string;
+  contentHash?: string;
+}
+
+/**
+ * Re-verify the passkey assertion that attested a signing key
+ * The origin is only checked when one is given.
+ */
+export async function verifyKeyAttestation(
+  key: AttestedKey,
+  relyingParty: Pick<RelyingParty, "rpId"> & Partial<RelyingParty>,
+): Promise<VerificationSection> {
+  const checks: ClaimCheck[] = [];
+  const attestation = key.passkeyAttestation;
+
+  checks.push(
+    check(
+      "fingerprint",
+      await verifyPublicKeyFingerprint(
+        key.publicKeyJWK,
+        key.publicKeyFingerprint,
+      ),
+      `fingerprint of the public key is ${key.publicKeyFingerprint}`,
+      "fingerprint does not match the public key",
+    ),
+  );
+
+  // Older attestations name the hex fingerprint the key had back then
+  const attestedFingerprint = key.legacyFingerprint ?? key.publicKeyFingerprint;
+  if (key.legacyFingerprint !== undefined) {
+    checks.push(
+      check(
+        "legacyFingerprint",
+        (await computeLegacyFingerprint(key.publicKeyJWK)) ===
+          key.legacyFingerprint,
+        `attested as ${key.legacyFingerprint}`,
+        "legacy fingerprint does not match the public key",
+      ),
+    );
+  }
+
+  // The passkey signed the key binding, or the bare fingerprint before
+  // bindings existed
+  let expectedChallenge = attestedFingerprint;
+  let challengeName = "key fingerprint";
+  if (key.keyBinding) {
+    try {
+      checks.push(
+        ...checkKeyBinding(key.keyBinding, {
+          ...key,
+          publicKeyFingerprint: attestedFingerprint,
+        }),
+      );
+      expectedChallenge = await computeKeyBindingChallenge(key.keyBinding);
+      challengeName = "key binding";
+    } catch (error) {
+      checks.push(fail("binding", `malformed: ${errorMessage(error)}`));
+    }
+  }
+
+  if (key.credentialId !== undefined) {
+    checks.push(
+      check(
+        "credential",
+        attestation.id === key.credentialId,
+        `asserted by passkey ${key.credentialId}`,
+        `asserted by passkey ${attestation.id}, not ${key.credentialId}`,
+      ),
+    );
+  }
+
+  checks.push(
+    ...(await verifyPasskeyAssertion(
+      attestation,
+      key.passkeyPublicKey,
+      expectedChallenge,
+      challengeName,
+      relyingParty,
+    )),
+  );
+
+  return section(`Key ${key.keyId} (passkey attestation)`, checks);
+}
+
+/**
+ * Re-verify a WebAuthn assertion over an expected challenge with the
+ * passkey's COSE public key
+ * The origin is only checked when one is given.
+ */
+export async function verifyPasskeyAssertion(
+  assertion: AuthenticationResponseJSON,
+  passkeyPublicKey: string,
+  expectedChallenge: string,
+  challengeName: string,
+  relyingParty: Pick<RelyingParty, "rpId"> & Partial<RelyingParty>,
+): Promise<ClaimCheck[]> {
+  const checks: ClaimCheck[] = [];
+
+  try {
+    const clientDataBytes = isoBase64URL.toBuffer(
+      assertion.response.clientDataJSON,
+    );
+    const clientData = decodeClientDataJSON(assertion.response.clientDataJSON);
+    checks.push(
+      check(
+        "type",
+        clientData.type === "webauthn.get",
+        "webauthn.get",
+        `expected webauthn.get, got ${clientData.type}`,
+      ),
+    );
+    checks.push(
+      check(
+        "challenge",
+        clientData.challenge === expectedChallenge,
+        `passkey signed the ${challengeName}`,
+        `passkey signed ${clientData.challenge}, not the ${challengeName}`,
+      ),
+    );
+    if (relyingParty.origin !== undefined) {
+      checks.push(
+        check(
+          "origin",
+          clientData.origin === relyingParty.origin,
+          relyingParty.origin,
+          `expected ${relyingParty.origin}, got ${clientData.origin}`,
+        ),
+      );
+    }
+
+    const authenticatorData = isoBase64URL.toBuffer(
+      assertion.response.authenticatorData,
+    );
+    const { rpIdHash, flags } = parseAuthenticatorData(authenticatorData);
+    const expectedRpIdHash = await toHash(
+      isoUint8Array.fromUTF8String(relyingParty.rpId),
+    );
+    checks.push(
+      check(
+        "rpIdHash",
+        isoUint8Array.areEqual(rpIdHash, expectedRpIdHash),
+        `SHA-256 of ${relyingParty.rpId}`,
+        `not the SHA-256 of ${relyingParty.rpId}`,
+      ),
+    );
+    checks.push(
+      check(
+        "flags",
+        flags.up && flags.uv,
+        "user present and verified",
+        `user ${flags.up ? "present" : "not present"} and ${
+          flags.uv ? "verified" : "not verified"
+        }`,
+      ),
+    );
+
+    // The authenticator signs authenticatorData || SHA-256(clientDataJSON)
+    const signatureValid = await verifySignature({
+      signature: isoBase64URL.toBuffer(assertion.response.signature),
+      data: isoUint8Array.concat([
+        authenticatorData,
+        await toHash(clientDataBytes),
+      ]),
+      credentialPublicKey: isoBase64URL.toBuffer(passkeyPublicKey),
+    });
+    checks.push(
+      check(
+        "assertion",
+        signatureValid,
+        "passkey signature verified with its COSE public key",
+        "passkey signature does not verify",
+      ),
+    );
+  } catch (error) {
+    checks.push(
+      fail("assertion", `malformed assertion: ${errorMessage(error)}`),
+    );
+  }
+
+  return checks;
+}
+
+/**
+ * Verify a signature JWT with a given key, as of the JWT's own iat
+ */
+export async function verifyStatementSignature(
+  jwt: string,
+  key: AttestedKey,
+  expected: ExpectedSignature,
+): Promise<{ checks: ClaimCheck[]; payload?: JWTPayload }> {
+  const checks: ClaimCheck[] = [];
+
+  let header: { typ?: string; kid?: string };
+  let payload: JWTPayload;
+  try {
+    // The key decides the algorithm, not the JWT header
+    const { algorithm, publicKey } = await importSigningKey(key.publicKeyJWK);
+    const result = await compactVerify(jwt, publicKey, {
+      algorithms: [algorithm],
+    });
+    header = result.protectedHeader;
+    payload = decodeJwt(jwt);
+  } catch (error) {
+    checks.push(fail("signature", errorMessage(error)));
+    return { checks };
+  }
+
+  checks.push(
+    check(
+      "signature",
+      header.kid === key.keyId,
+      `signed with key ${key.keyId}`,
+      `kid ${header.kid ?? "none"} does not name key ${key.keyId}`,
+    ),
+  );
+
+  // Long expired by now: check the time claims as of issuance
+  const issuedAt = typeof payload.iat === "number" ? payload.iat : undefined;
+  checks.push(
+    ...checkSignatureProfile(
+      header,
+      payload,
+      {
+        typ: expected.typ,
+        audience: expected.audience,
+        subject: expected.statementId,
+        issuer: expected.issuer,
+      },
+      issuedAt,
+    ),
+  );
+  // A rotated-out key only covers what it signed before retirement, and
+  // only what its binding permits
+  checks.push(
+    checkKeyValidity(payload, key.validUntil),
+    checkKeyBindingScope(header, payload, key.keyBinding),
+  );
+
+  if (expected.contentHash !== undefined) {
+    const bindingError = await checkContentBinding(
+      payload,
+      expected.contentHash,
+    );
+    checks.push(
+      bindingError
+        ? fail("contentHash", bindingError)
+        : pass("contentHash", expected.contentHash),
+    );
+  }
+
+  return { checks, payload };
+}
+
+/**
+ * Verify a single signature JWT with its key (no threshold evaluation)
+ *
+ * Without a statement to compare against, the JWT's own sub is expected
+ * unless statementId is given.
+ */
+export async function verifyJWTOffline(
+  jwt: string,
+  key: AttestedKey,
+  relyingParty: RelyingParty,
+  expected: { statementId?: string; contentHash?: string } = {},
+): Promise<OfflineVerificationReport> {
+  const sections = [await verifyKeyAttestation(key, relyingParty)];
+
+  let typ = STATEMENT_APPROVAL_TYP;
+  let claims: JWTPayload = {};
+  try {
+    if (decodeProtectedHeader(jwt).typ === STATEMENT_REVOCATION_TYP) {
+      typ = STATEMENT_REVOCATION_TYP;
+    }
+    claims = decodeJwt(jwt);
+  } catch (error) {
+    sections.push(section("Signature JWT", [fail("jwt", errorMessage(error))]));
+    return { valid: false, sections };
+  }
+
+  const statementId = expected.statementId ?? claims.sub ?? "";
+  const { checks } = await verifyStatementSignature(jwt, key, {
+    typ,
+    statementId,
+    issuer: key.userId ?? claims.iss ?? "",
+    audience: relyingParty.rpId,
+    contentHash: expected.contentHash,
+  });
+  sections.push(section(`Signature JWT for statement ${statementId}`, checks));
+
+  return { valid: sections.every((s) => s.valid), sections };
+}
+
+/**
+ * Verify everything in a bundle and re-evaluate the approval policy
+ *
+ * Only signatures whose key attestation and JWT both verify count towards
+ * the policy, and a signer or signature listed twice invalidates the bundle.
+ */
+export async function verifyBundle(
+  bundle: VerificationBundle,
+): Promise<OfflineVerificationReport> {
+  const sections: VerificationSection[] = [];
+  const { statement, relyingParty } = bundle;
+
+  let computedHash: string | undefined;
+  try {
+    computedHash = await computeContentHash(statement.content);
+  } catch {
+    computedHash = undefined;
+  }
+  sections.push(
+    section(`Statement ${statement.statementId}`, [
+      check(
+        "format",
+        bundle.format === VERIFICATION_BUNDLE_FORMAT &&
+          bundle.version === VERIFICATION_BUNDLE_VERSION,
+        `${VERIFICATION_BUNDLE_FORMAT} v${VERIFICATION_BUNDLE_VERSION}`,
+        `unsupported bundle ${bundle.format} v${bundle.version}`,
+      ),
+      check(
+        "contentHash",
+        computedHash === statement.contentHash,
+        statement.contentHash,
+        "content does not hash to the bundled contentHash",
+      ),
+    ]),
+  );
+
+  // Only keys whose attestation verifies may vouch for signatures
+  const trustedKeys = new Map<string, BundleKey>();
+  for (const [keyId, key] of Object.entries(bundle.keys)) {
+    const keySection = await verifyKeyAttestation(key, relyingParty);
+    if (key.keyId !== keyId) {
+      keySection.checks.unshift(
+        fail("keyId", `listed as ${keyId} but names itself ${key.keyId}`),
+      );
+      keySection.valid = false;
+    }
+    sections.push(keySection);
+    if (keySection.valid) trustedKeys.set(keyId, key);
+  }
+
+  // Only passkeys with a single owner across the bundle may vouch for
+  // direct passkey signatures
+  const owners = new Map<string, Set<string>>();
+  const addOwner = (credentialId: string, userId: string) =>
+    owners.set(
+      credentialId,
+      (owners.get(credentialId) ?? new Set()).add(userId),
+    );
+  for (const key of Object.values(bundle.keys)) {
+    addOwner(key.credentialId, key.userId);
+  }
+  const passkeys = Object.entries(bundle.passkeys ?? {});
+  for (const [credentialId, passkey] of passkeys) {
+    addOwner(credentialId, passkey.userId);
+  }
+  const trustedPasskeys = new Map<string, BundlePasskey>();
+  for (const [credentialId, passkey] of passkeys) {
+    const credentialOwners = [...owners.get(credentialId)!];
+    const passkeySection = section(`Passkey ${credentialId}`, [
+      check(
+        "credentialId",
+        passkey.credentialId === credentialId,
+        credentialId,
+        `listed as ${credentialId} but names itself ${passkey.credentialId}`,
+      ),
+      check(
+        "owner",
+        credentialOwners.length === 1,
+        `registered to ${passkey.userId}`,
+        `listed under more than one signer (${credentialOwners.join(", ")})`,
+      ),
+    ]);
+    sections.push(passkeySection);
+    if (passkeySection.valid) trustedPasskeys.set(credentialId, passkey);
+  }
+
+  const approvals: PolicySigner[] = [];
+  const declines: PolicySigner[] = [];
+  // Each signer, and each JWT or assertion, counts once
+  const seenSigners = new Set<string>();
+  const seenSignatures = new Set<string>();
+  for (const sig of bundle.signatures) {
+    const sigSection = await verifyBundleSignature(
+      bundle,
+      sig,
+      trustedKeys,
+      trustedPasskeys,
+    );
+    const signature = sig.jwt ?? sig.passkeyAssertion?.response.signature;
+    if (seenSigners.has(sig.userId)) {
+      sigSection.checks.push(
+        fail("duplicate", `${sig.userId} is listed more than once`),
+      );
+      sigSection.valid = false;
+    } else if (signature !== undefined && seenSignatures.has(signature)) {
+      sigSection.checks.push(
+        fail("duplicate", "signature is listed more than once"),
+      );
+      sigSection.valid = false;
+    }
+    seenSigners.add(sig.userId);
+    if (signature !== undefined) seenSignatures.add(signature);
+    sections.push(sigSection);
+    if (sigSection.valid) {
+      const signer = {
+        userId: sig.userId,
+        userName: sig.userName,
+        userRole: sig.userRole,
+        weight: sig.weight,
+      };
+      (sig.decision === "decline" ? declines : approvals).push(signer);
+    }
+  }
+
+  for (const sig of bundle.withdrawnSignatures) {
+    sections.push(
+      await verifyBundleSignature(bundle, sig, trustedKeys, trustedPasskeys),
+    );
+  }
+
+  if (bundle.certificate) {
+    sections.push(await verifyCertificate(bundle, trustedKeys));
+  }
+
+  const context: PolicyContext = {
+    creatorId: statement.creatorId,
+    content: parseContent(statement.content),
+    signatures: approvals,
+    declines,
+  };
+  const policyEvaluation = evaluateApprovalPolicy(
+    bundle.policy.policy,
+    context,
+  );
+  const vetoes = findVetoes(bundle.policy.policy, context);
+  sections.push(
+    section("Approval policy", [
+      check(
+        "threshold",
+        policyEvaluation.satisfied,
+        policyEvaluation.detail,
+        policyEvaluation.detail,
+      ),
+      check(
+        "veto",
+        vetoes.length === 0,
+        "no veto holder declined",
+        `vetoed by ${vetoes.map((v) => v.userName).join(", ")}`,
+      ),
+    ]),
+  );
+
+  return {
+    valid: sections.every((s) => s.valid),
+    sections,
+    policyEvaluation,
+  };
+}
+
+/**
+ * Verify a bundled signature (and its revocation, once withdrawn)
+ */
+async function verifyBundleSignature(
+  bundle: VerificationBundle,
+  sig: BundleSignature,
+  trustedKeys: Map<string, BundleKey>,
+  trustedPasskeys: Map<string, BundlePasskey>,
+): Promise<VerificationSection> {
+  const { statement, relyingParty, policy } = bundle;
+  const kind = sig.decision === "decline" ? "Decline" : "Approval";
+  const title = `${sig.revokedAt ? "Withdrawn " + kind.toLowerCase() : kind} by ${sig.userName} (${sig.userId})`;
+
+  const checks: ClaimCheck[] = [];
+  // The key that signed the JWT also signs its revocation; direct passkey
+  // signatures are withdrawn with one of the signer's keys
+  let key: BundleKey | undefined;
+  if (sig.signingMethod === "passkey") {
+    checks.push(...(await checkPasskeySignature(bundle, sig, trustedPasskeys)));
+    key = sig.revocationJwt
+      ? findKey(sig.revocationJwt, trustedKeys)
+      : undefined;
+  } else {
+    key = sig.jwt ? findKey(sig.jwt, trustedKeys) : undefined;
+    if (!key) {
+      return section(title, [
+        fail("key", "signing key is missing or its attestation failed"),
+      ]);
+    }
+    checks.push(...(await checkJWTSignature(bundle, sig, key)));
+  }
+
+  if (policy.signers.length > 0) {
+    const signer = policy.signers.find((s) => s.userId === sig.userId);
+    checks.push(
+      check(
+        "signer",
+        signer !== undefined && (signer.weight ?? 1) === sig.weight,
+        `designated signer with weight ${sig.weight}`,
+        signer
+          ? `weight ${sig.weight} differs from the signer set (${signer.weight ?? 1})`
+          : "not a designated signer",
+      ),
+    );
+  }
+
+  if (sig.revokedAt !== undefined) {
+    if (!sig.revocationJwt) {
+      checks.push(fail("revocation", "withdrawn without a revocation JWT"));
+    } else if (key?.userId !== sig.userId) {
+      checks.push(
+        fail("revocation", "revocation key is missing or not the signer's"),
+      );
+    } else {
+      const revocation = await verifyStatementSignature(
+        sig.revocationJwt,
+        key,
+        {
+          typ: STATEMENT_REVOCATION_TYP,
+          statementId: statement.statementId,
+          issuer: sig.userId,
+          audience: relyingParty.rpId,
+        },
+      );
+      const failed = revocation.checks.find((c) => !c.valid);
+      checks.push(
+        failed
+          ? fail("revocation", `${failed.claim}: ${failed.message}`)
+          : check(
+              "revocation",
+              revocation.payload?.action === "revoke",
+              "withdrawn by the signer",
+              "revocation JWT is not a revoke action",
+            ),
+      );
+    }
+  }
+
+  return section(title, checks);
+}
+
+/**
+ * Check a signature JWT, its decision and its content signature
+ */
+async function checkJWTSignature(
+  bundle: VerificationBundle,
+  sig: BundleSignature,
+  key: BundleKey,
+): Promise<ClaimCheck[]> {
+  const { statement, relyingParty } = bundle;
+  const checks: ClaimCheck[] = [
+    check(
+      "key",
+      key.userId === sig.userId,
+      `key ${key.keyId} of ${key.userId}`,
+      `key ${key.keyId} belongs to ${key.userId}`,
+    ),
+  ];
+
+  const { checks: jwtChecks, payload } = await verifyStatementSignature(
+    sig.jwt!,
+    key,
+    {
+      typ: STATEMENT_APPROVAL_TYP,
+      statementId: statement.statementId,
+      issuer: sig.userId,
+      audience: relyingParty.rpId,
+      contentHash: statement.contentHash,
+    },
+  );
+  checks.push(...jwtChecks);
+
+  if (payload) {
+    // Tokens without the claim are approvals
+    const decision = payload.decision ?? "approve";
+    checks.push(
+      check(
+        "decision",
+        payload.action === undefined && decision === sig.decision,
+        String(decision),
+        `JWT says ${String(decision)}, bundle says ${sig.decision}`,
+      ),
+    );
+  }
+
+  if (sig.contentSignature) {
+    const { algorithm, publicKey } = await importSigningKey(key.publicKeyJWK);
+    const error = await verifyContentSignature(
+      statement.content,
+      sig.contentSignature,
+      key.keyId,
+      publicKey,
+      algorithm,
+    );
+    checks.push(
+      error
+        ? fail("contentSignature", error)
+        : pass("contentSignature", "signs the canonical content"),
+    );
+  }
+
+  return checks;
+}
+
+/**
+ * Check a direct passkey signature: an approval whose assertion challenge
+ * is the approval request, made with a passkey of the signer
+ */
+async function checkPasskeySignature(
+  bundle: VerificationBundle,
+  sig: BundleSignature,
+  trustedPasskeys: Map<string, BundlePasskey>,
+): Promise<ClaimCheck[]> {
+  if (!sig.passkeyAssertion || !sig.passkeyNonce) {
+    return [fail("assertion", "passkey assertion or signing nonce missing")];
+  }
+
+  const credentialId = sig.passkeyAssertion.id;
+  const passkey = trustedPasskeys.get(credentialId);
+  if (!passkey) {
+    return [
+      fail(
+        "credential",
+        `passkey ${credentialId} is missing or has more than one owner`,
+      ),
+    ];
+  }
+
+  return [
+    check(
+      "credential",
+      passkey.userId === sig.userId,
+      `passkey ${credentialId} of ${sig.userId}`,
+      `passkey ${credentialId} belongs to ${passkey.userId}`,
+    ),
+    check(
+      "decision",
+      sig.decision === "approve",
+      "approve",
+      `passkey signatures only approve, bundle says ${sig.decision}`,
+    ),
+    ...(await verifyPasskeyAssertion(
+      sig.passkeyAssertion,
+      passkey.publicKey,
+      await computePasskeyApprovalChallenge({
+        statementId: bundle.statement.statementId,
+        contentHash: bundle.statement.contentHash,
+        userId: sig.userId,
+        nonce: sig.passkeyNonce,
+      }),
+      "approval request",
+      bundle.relyingParty,
+    )),
+  ];
+}
+
+/**
+ * Verify every entry of the approval certificate against the content
+ */
+async function verifyCertificate(
+  bundle: VerificationBundle,
+  trustedKeys: Map<string, BundleKey>,
+): Promise<VerificationSection> {
+  const certificate = bundle.certificate!;
+  const { content } = bundle.statement;
+  const checks: ClaimCheck[] = [];
+
+  let expectedPayload: string | undefined;
+  try {
+    expectedPayload = buildApprovalCertificate(content, []).payload;
+  } catch {
+    expectedPayload = undefined;
+  }
+  checks.push(
+    check(
+      "payload",
+      certificate.payload === expectedPayload,
+      "canonical statement content",
+      "payload is not the canonical statement content",
+    ),
+  );
+
+  for (const entry of certificate.signatures) {
+    let kid: string | undefined;
+    try {
+      kid = decodeProtectedHeader({ protected: entry.protected }).kid;
+    } catch {
+      kid = undefined;
+    }
+    const key = kid ? trustedKeys.get(kid) : undefined;
+    if (!key) {
+      checks.push(fail("signature", `no attested key for ${kid ?? "entry"}`));
+      continue;
+    }
+    const { algorithm, publicKey } = await importSigningKey(key.publicKeyJWK);
+    const error = await verifyContentSignature(
+      content,
+      entry,
+      key.keyId,
+      publicKey,
+      algorithm,
+    );
+    checks.push(
+      error
+        ? fail("signature", `${key.keyId}: ${error}`)
+        : pass("signature", `signed by ${key.userId} (key ${key.keyId})`),
+    );
+  }
+
+  return section("Approval certificate", checks);
+}
+
+function findKey(
+  jwt: string,
+  trustedKeys: Map<string, BundleKey>,
+): BundleKey | undefined {
+  try {
+    const { kid } = decodeProtectedHeader(jwt);
+    return kid ? trustedKeys.get(kid) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function parseContent(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+}
+
+function section(title: string, checks: ClaimCheck[]): VerificationSection {
+  return { title, valid: checks.every((c) => c.valid), checks };
+}
+
+function check(
+  claim: string,
+  valid: boolean,
+  message: string,
+  failure: string,
+): ClaimCheck {
+  return valid ? pass(claim, message) : fail(claim, failure);
+}
+
+function pass(claim: string, message: string): ClaimCheck {
+  return { claim, valid: true, message };
+}
+
+function fail(claim: string, message: string): ClaimCheck {
+  return { claim, valid: false, message };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
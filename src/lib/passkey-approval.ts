@@ -0,0 +1,44 @@
+/**
+ * Direct Passkey Approvals
+ *
+ * Statements with the passkey signing method are approved by a passkey
+ * assertion, with no signing key in between. The assertion signs the
+ * SHA-256 of the canonical approval request: the statement, its content
+ * hash, the signer and a single-use signing nonce the server issued for
+ * the statement (see replay-protection.ts). An assertion therefore only
+ * approves this version of this statement, in this signer's name, once.
+ *
+ * This module is shared by the browser (building the challenge), the
+ * server and the offline verifier (checking it).
+ */
+
+import { computeContentHash } from "./canonical-json";
+
+export const PASSKEY_APPROVAL_ACTION = "approve-statement";
+
+export interface PasskeyApprovalRequest {
+  statementId: string;
+  // SHA-256 of the canonical content, hex encoded
+  contentHash: string;
+  // The signer (owner of the passkey)
+  userId: string;
+  // Signing nonce issued for the statement
+  nonce: string;
+}
+
+/**
+ * Challenge the signer's passkey signs to approve the statement
+ */
+export async function computePasskeyApprovalChallenge(
+  request: PasskeyApprovalRequest,
+): Promise<string> {
+  return await computeContentHash(
+    JSON.stringify({
+      action: PASSKEY_APPROVAL_ACTION,
+      statementId: request.statementId,
+      contentHash: request.contentHash,
+      userId: request.userId,
+      nonce: request.nonce,
+    }),
+  );
+}
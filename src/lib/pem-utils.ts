@@ -5,25 +5,142 @@
  * Both formats are stored in the database:
  * - JWK: Used for signing and verification
  * - PEM: Used for user-friendly display
+ *
+ * Supports Ed25519, EC P-256 / P-384 and RSA public keys, encoded as an
+ * X.509 SubjectPublicKeyInfo ("BEGIN PUBLIC KEY").
  */
 
 import { type JWK } from "jose";
 
+// DER-encoded algorithm OIDs
+const OID_ED25519 = [0x06, 0x03, 0x2b, 0x65, 0x70]; // 1.3.101.112
+const OID_EC_PUBLIC_KEY = [
+  0x06, 0x07, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x02, 0x01,
+]; // 1.2.840.10045.2.1
+const OID_RSA_ENCRYPTION = [
+  0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01,
+]; // 1.2.840.113549.1.1.1
+const EC_CURVE_OIDS: Record<string, number[]> = {
+  "P-256": [0x06, 0x08, 0x2a, 0x86, 0x48, 0xce, 0x3d, 0x03, 0x01, 0x07], // 1.2.840.10045.3.1.7
+  "P-384": [0x06, 0x05, 0x2b, 0x81, 0x04, 0x00, 0x22], // 1.3.132.0.34
+};
+
 /**
  * Convert a JWK public key to PEM format
- * Supports Ed25519 keys (EdDSA algorithm)
+ * Supports Ed25519 (EdDSA), EC P-256 / P-384 (ES256 / ES384) and RSA keys
  */
 export function jwkToPem(jwk: JWK): string {
-  if (jwk.kty === "OKP" && jwk.crv === "Ed25519" && jwk.x) {
-    // Ed25519 public key
-    // The 'x' parameter contains the base64url-encoded public key
-    const publicKeyBytes = base64UrlToBytes(jwk.x);
-    const base64Key = bytesToBase64(publicKeyBytes);
+  assertSupportedKey(jwk);
+  return toPem(bytesToBase64(subjectPublicKeyInfo(jwk)));
+}
 
-    return `-----BEGIN PUBLIC KEY-----\n${formatBase64(base64Key)}\n-----END PUBLIC KEY-----`;
+/**
+ * DER SubjectPublicKeyInfo of a supported public key
+ */
+function subjectPublicKeyInfo(jwk: JWK): Uint8Array {
+  if (jwk.kty === "OKP") {
+    // The 'x' parameter contains the raw 32-byte public key
+    return der(0x30, [
+      der(0x30, [Uint8Array.from(OID_ED25519)]),
+      bitString(base64UrlToBytes(jwk.x!)),
+    ]);
   }
 
-  throw new Error(`Unsupported key type: ${jwk.kty} ${jwk.crv}`);
+  if (jwk.kty === "EC") {
+    // Uncompressed point: 0x04 || x || y
+    return der(0x30, [
+      der(0x30, [
+        Uint8Array.from(OID_EC_PUBLIC_KEY),
+        Uint8Array.from(EC_CURVE_OIDS[jwk.crv!]),
+      ]),
+      bitString(
+        concatBytes([
+          Uint8Array.of(0x04),
+          base64UrlToBytes(jwk.x!),
+          base64UrlToBytes(jwk.y!),
+        ]),
+      ),
+    ]);
+  }
+
+  // RSA: the key is the DER SEQUENCE { modulus, publicExponent }
+  return der(0x30, [
+    der(0x30, [Uint8Array.from(OID_RSA_ENCRYPTION), Uint8Array.of(0x05, 0x00)]),
+    bitString(
+      der(0x30, [
+        derInteger(base64UrlToBytes(jwk.n!)),
+        derInteger(base64UrlToBytes(jwk.e!)),
+      ]),
+    ),
+  ]);
+}
+
+/**
+ * Throw unless the JWK is a public key type this module can encode
+ */
+function assertSupportedKey(jwk: JWK): void {
+  const supported =
+    (jwk.kty === "OKP" && jwk.crv === "Ed25519" && !!jwk.x) ||
+    (jwk.kty === "EC" &&
+      !!jwk.crv &&
+      jwk.crv in EC_CURVE_OIDS &&
+      !!jwk.x &&
+      !!jwk.y) ||
+    (jwk.kty === "RSA" && !!jwk.n && !!jwk.e);
+
+  if (!supported) {
+    throw new Error(`Unsupported key type: ${jwk.kty} ${jwk.crv}`);
+  }
+}
+
+/**
+ * DER element: tag, definite length, then the concatenated contents
+ */
+function der(tag: number, contents: Uint8Array[]): Uint8Array {
+  const body = concatBytes(contents);
+  return concatBytes([Uint8Array.of(tag), derLength(body.length), body]);
+}
+
+function derLength(length: number): Uint8Array {
+  if (length < 0x80) {
+    return Uint8Array.of(length);
+  }
+  const bytes: number[] = [];
+  for (let rest = length; rest > 0; rest >>= 8) {
+    bytes.unshift(rest & 0xff);
+  }
+  return Uint8Array.from([0x80 | bytes.length, ...bytes]);
+}
+
+/**
+ * BIT STRING with no unused bits
+ */
+function bitString(bytes: Uint8Array): Uint8Array {
+  return der(0x03, [Uint8Array.of(0x00), bytes]);
+}
+
+/**
+ * Unsigned big-endian INTEGER (a leading zero keeps it positive)
+ */
+function derInteger(bytes: Uint8Array): Uint8Array {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) {
+    start++;
+  }
+  const value = bytes.subarray(start);
+  return der(0x02, value[0] & 0x80 ? [Uint8Array.of(0x00), value] : [value]);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((length, part) => length + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
 }
 
 /**
@@ -69,37 +186,15 @@ function formatBase64(base64: string): string {
   return lines.join("\n");
 }
 
+function toPem(base64Key: string): string {
+  return `-----BEGIN PUBLIC KEY-----\n${formatBase64(base64Key)}\n-----END PUBLIC KEY-----`;
+}
+
 /**
- * Server-side version using Node.js crypto
+ * Server-side version using Node.js Buffers
  * Use this in API routes and server components
  */
 export function jwkToPemServer(jwk: JWK): string {
-  if (jwk.kty === "OKP" && jwk.crv === "Ed25519" && jwk.x) {
-    // Ed25519 public key - 32 bytes
-    const publicKeyBuffer = Buffer.from(jwk.x, "base64url");
-
-    // ASN.1 DER encoding for Ed25519 public key
-    // SubjectPublicKeyInfo structure
-    const header = Buffer.from([
-      0x30,
-      0x2a, // SEQUENCE, 42 bytes
-      0x30,
-      0x05, // SEQUENCE, 5 bytes (algorithm identifier)
-      0x06,
-      0x03,
-      0x2b,
-      0x65,
-      0x70, // OID 1.3.101.112 (Ed25519)
-      0x03,
-      0x21, // BIT STRING, 33 bytes
-      0x00, // No padding
-    ]);
-
-    const derKey = Buffer.concat([header, publicKeyBuffer]);
-    const base64Key = derKey.toString("base64");
-
-    return `-----BEGIN PUBLIC KEY-----\n${formatBase64(base64Key)}\n-----END PUBLIC KEY-----`;
-  }
-
-  throw new Error(`Unsupported key type: ${jwk.kty} ${jwk.crv}`);
+  assertSupportedKey(jwk);
+  return toPem(Buffer.from(subjectPublicKeyInfo(jwk)).toString("base64"));
 }
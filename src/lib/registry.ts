@@ -19,6 +19,7 @@ import {
   removeRegistrationOptions,
   saveRegistrationOptions,
   saveCredential,
+  type RegistrationPurpose,
 } from "./database";
 import { getWebAuthnConfig, getExpectedOrigin } from "./webauthn-config";
 
@@ -26,6 +27,12 @@ export const getRegistrationOptions = async (
   userId: string,
   name: string,
   role: "creator" | "investor",
+  // Passkeys the user already has, so the authenticator does not create a
+  // second one for them
+  excludeCredentialIds: string[] = [],
+  // Whether the options are for a new user or another passkey of an
+  // existing one
+  purpose: RegistrationPurpose = "sign-up",
 ): Promise<PublicKeyCredentialCreationOptionsJSON> => {
   // Generate a random challenge
   const challenge = crypto.getRandomValues(new Uint8Array(32));
@@ -56,6 +63,7 @@ export const getRegistrationOptions = async (
     userDisplayName: displayName,
     timeout: 60000,
     supportedAlgorithmIDs: [-7, -257],
+    excludeCredentials: excludeCredentialIds.map((id) => ({ id })),
   };
 
   const registrationOptions = await generateRegistrationOptions(
@@ -64,7 +72,7 @@ export const getRegistrationOptions = async (
 
   // Registration options are saved in the database for later verification
   // Use the original userId (not the encoded one) as the key
-  await saveRegistrationOptions(userId, registrationOptions);
+  await saveRegistrationOptions(userId, registrationOptions, purpose);
 
   return registrationOptions;
 };
@@ -72,12 +80,13 @@ export const getRegistrationOptions = async (
 export const verifyRegistration = async (
   userId: string,
   registrationResponse: RegistrationResponseJSON,
+  purpose: RegistrationPurpose = "sign-up",
 ): Promise<VerifiedRegistrationResponse> => {
   if (registrationResponse == null) {
     throw new Error("Invalid credentials");
   }
 
-  const storedOptions = await getStoredRegistrationOptions(userId);
+  const storedOptions = await getStoredRegistrationOptions(userId, purpose);
 
   if (!storedOptions) {
     throw new Error("No registration options found for this user ID in DB");
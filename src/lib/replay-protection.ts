@@ -0,0 +1,117 @@
+"use server";
+
+/**
+ * Replay Protection for Signing Submissions
+ *
+ * A captured signature JWT must not be accepted twice:
+ * - Signing nonce: the client fetches a nonce for one statement and signs it
+ *   as the `nonce` claim; submitting consumes it, so each nonce is accepted
+ *   once and only for the statement it was issued for
+ * - jti registry: every accepted JWT's `jti` is recorded until the token
+ *   could no longer pass the exp check anyway
+ *
+ * Expired records are garbage-collected whenever a nonce is issued.
+ */
+
+import crypto from "crypto";
+import type { JWTPayload } from "jose";
+import {
+  saveSigningNonce,
+  consumeSigningNonce,
+  saveUsedJti,
+  deleteExpiredReplayRecords,
+} from "./database";
+import { getStatementById } from "./statements";
+import { CLOCK_SKEW_SECONDS } from "./signature-profile";
+
+// How long a client has to sign and submit after fetching a nonce
+const NONCE_LIFETIME_MS = 5 * 60 * 1000;
+
+export interface SigningNonce {
+  nonce: string;
+  statementId: string;
+  expiresAt: number;
+}
+
+export interface ReplayCheckOptions {
+  // Statement the JWT is submitted to
+  statementId: string;
+  // Key that signed the JWT
+  keyId: string;
+  // Whether the JWT must carry a nonce issued for the statement
+  requireNonce: boolean;
+}
+
+/**
+ * Issue a single-use signing nonce for an open statement
+ */
+export async function issueSigningNonce(
+  statementId: string,
+): Promise<SigningNonce> {
+  await purgeExpiredReplayRecords();
+
+  const statement = await getStatementById(statementId);
+  if (!statement) {
+    throw new Error("Statement not found");
+  }
+
+  if (statement.status !== "open") {
+    throw new Error(`Statement is ${statement.status}, not open for signing`);
+  }
+
+  const nonce = crypto.randomBytes(16).toString("hex");
+  const expiresAt = Date.now() + NONCE_LIFETIME_MS;
+  await saveSigningNonce(nonce, statementId, expiresAt);
+
+  return { nonce, statementId, expiresAt };
+}
+
+/**
+ * Consume the nonce and register the jti of a verified JWT
+ * Returns an error message when the JWT is a replay
+ */
+export async function checkReplay(
+  payload: JWTPayload,
+  options: ReplayCheckOptions,
+): Promise<string | undefined> {
+  if (options.requireNonce) {
+    if (typeof payload.nonce !== "string") {
+      return "JWT is missing the signing nonce";
+    }
+
+    const consumed = await consumeSigningNonce(
+      payload.nonce,
+      options.statementId,
+      Date.now(),
+    );
+    if (!consumed) {
+      return "Signing nonce is unknown, expired, already used or issued for another statement";
+    }
+  }
+
+  if (typeof payload.jti !== "string" || typeof payload.exp !== "number") {
+    return "JWT is missing the jti or exp claim";
+  }
+
+  // Past exp plus the skew allowance the verifier rejects the token anyway
+  const recorded = await saveUsedJti(
+    payload.jti,
+    options.keyId,
+    (payload.exp + CLOCK_SKEW_SECONDS) * 1000,
+  );
+  if (!recorded) {
+    return `JWT ${payload.jti} has already been used`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Delete expired nonces and jti records
+ */
+export async function purgeExpiredReplayRecords(): Promise<{
+  nonces: number;
+  jtis: number;
+}> {
+  return await deleteExpiredReplayRecords(Date.now());
+}
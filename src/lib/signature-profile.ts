@@ -0,0 +1,304 @@
+/**
+ * Statement Signature JWT Profile
+ *
+ * Every JWT that acts on a statement follows this profile:
+ *
+ * Header:
+ * - typ: "statement-approval+jwt" (approve / decline) or
+ *        "statement-revocation+jwt" (withdrawal)
+ * - kid: the attested signing key
+ * - alg: EdDSA or ES256, whichever the key signs with
+ *
+ * Claims:
+ * - iss: the signer's user ID (must own the signing key)
+ * - sub: the statement ID
+ * - aud: the WebAuthn RP ID of the deployment
+ * - iat / exp: issued-at and a short expiry (at most 5 minutes apart)
+ * - jti: unique token ID
+ *
+ * Time claims are checked with a fixed clock-skew allowance. Approvals also
+ * carry the `contentHash` of the statement they approve. This module is
+ * shared by the browser (building tokens) and the server (checking them).
+ */
+
+import { SignJWT, type JWTPayload, type KeyLike } from "jose";
+import { computeContentHash } from "./canonical-json";
+import {
+  DEFAULT_SIGNING_ALGORITHM,
+  type SigningAlgorithm,
+} from "./signing-algorithms";
+
+export const STATEMENT_APPROVAL_TYP = "statement-approval+jwt";
+export const STATEMENT_REVOCATION_TYP = "statement-revocation+jwt";
+
+// Longest allowed exp - iat; clients use it as the token lifetime
+export const SIGNATURE_LIFETIME_SECONDS = 5 * 60;
+// Allowed difference between the signer's and the verifier's clocks
+export const CLOCK_SKEW_SECONDS = 60;
+
+export interface ClaimCheck {
+  claim: string;
+  valid: boolean;
+  message: string;
+}
+
+export interface SignatureProfileExpectation {
+  typ: string;
+  audience: string;
+  subject: string;
+  issuer: string;
+}
+
+export interface StatementJWTOptions {
+  typ: string;
+  statementId: string;
+  signerId: string;
+  audience: string;
+  keyId: string;
+  // The signing key's algorithm (see signing-algorithms.ts)
+  algorithm?: SigningAlgorithm;
+}
+
+/**
+ * Sign a profile-conformant JWT for a statement
+ */
+export async function signStatementJWT(
+  claims: Record<string, unknown>,
+  options: StatementJWTOptions,
+  privateKey: KeyLike | Uint8Array,
+): Promise<string> {
+  return await new SignJWT(claims)
+    .setProtectedHeader({
+      alg: options.algorithm ?? DEFAULT_SIGNING_ALGORITHM,
+      typ: options.typ,
+      kid: options.keyId,
+    })
+    .setIssuer(options.signerId)
+    .setSubject(options.statementId)
+    .setAudience(options.audience)
+    .setIssuedAt()
+    .setExpirationTime(`${SIGNATURE_LIFETIME_SECONDS}s`)
+    .setJti(crypto.randomUUID())
+    .sign(privateKey);
+}
+
+/**
+ * Check the iat / nbf / exp claims against the current time
+ *
+ * When required is false, only the claims that are present are checked.
+ * now is in seconds since epoch.
+ */
+export function checkTimeClaims(
+  payload: JWTPayload,
+  required: boolean,
+  now: number = Math.floor(Date.now() / 1000),
+): ClaimCheck[] {
+  const checks: ClaimCheck[] = [];
+
+  if (payload.iat !== undefined || required) {
+    if (typeof payload.iat !== "number") {
+      checks.push(fail("iat", "missing or not a number"));
+    } else if (payload.iat > now + CLOCK_SKEW_SECONDS) {
+      checks.push(fail("iat", "issued in the future"));
+    } else {
+      checks.push(pass("iat", `issued ${formatTime(payload.iat)}`));
+    }
+  }
+
+  if (payload.nbf !== undefined) {
+    if (typeof payload.nbf !== "number") {
+      checks.push(fail("nbf", "not a number"));
+    } else if (payload.nbf > now + CLOCK_SKEW_SECONDS) {
+      checks.push(fail("nbf", `not valid before ${formatTime(payload.nbf)}`));
+    } else {
+      checks.push(pass("nbf", `valid from ${formatTime(payload.nbf)}`));
+    }
+  }
+
+  if (payload.exp !== undefined || required) {
+    if (typeof payload.exp !== "number") {
+      checks.push(fail("exp", "missing or not a number"));
+    } else if (payload.exp <= now - CLOCK_SKEW_SECONDS) {
+      checks.push(fail("exp", `expired ${formatTime(payload.exp)}`));
+    } else if (
+      required &&
+      typeof payload.iat === "number" &&
+      payload.exp - payload.iat > SIGNATURE_LIFETIME_SECONDS
+    ) {
+      checks.push(
+        fail(
+          "exp",
+          `lifetime exceeds ${SIGNATURE_LIFETIME_SECONDS} seconds after iat`,
+        ),
+      );
+    } else {
+      checks.push(pass("exp", `expires ${formatTime(payload.exp)}`));
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Check a token against the statement signature profile
+ * Returns one result per profile claim (including the time claims)
+ */
+export function checkSignatureProfile(
+  header: { typ?: string },
+  payload: JWTPayload,
+  expected: SignatureProfileExpectation,
+  now: number = Math.floor(Date.now() / 1000),
+): ClaimCheck[] {
+  const checks: ClaimCheck[] = [];
+
+  checks.push(
+    header.typ === expected.typ
+      ? pass("typ", expected.typ)
+      : fail("typ", `expected ${expected.typ}, got ${header.typ ?? "none"}`),
+  );
+
+  checks.push(
+    payload.iss === expected.issuer
+      ? pass("iss", `signer ${expected.issuer}`)
+      : fail(
+          "iss",
+          `expected key owner ${expected.issuer}, got ${payload.iss ?? "none"}`,
+        ),
+  );
+
+  checks.push(
+    payload.sub === expected.subject
+      ? pass("sub", `statement ${expected.subject}`)
+      : fail(
+          "sub",
+          `signed for statement ${payload.sub ?? "none"}, not ${expected.subject}`,
+        ),
+  );
+
+  // aud may be a single value or a list (RFC 7519)
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  checks.push(
+    audiences.includes(expected.audience)
+      ? pass("aud", `relying party ${expected.audience}`)
+      : fail(
+          "aud",
+          `expected ${expected.audience}, got ${audiences.join(", ") || "none"}`,
+        ),
+  );
+
+  checks.push(...checkTimeClaims(payload, true, now));
+
+  checks.push(
+    typeof payload.jti === "string" && payload.jti.length > 0
+      ? pass("jti", payload.jti)
+      : fail("jti", "missing"),
+  );
+
+  return checks;
+}
+
+/**
+ * Check that a JWT was issued while its signing key was valid
+ * validUntil (milliseconds) is set once the key has been rotated out; the
+ * signature is judged by its own iat, so historic signatures stay valid
+ */
+export function checkKeyValidity(
+  payload: JWTPayload,
+  validUntil?: number,
+): ClaimCheck {
+  if (validUntil === undefined) {
+    return pass("validUntil", "signing key is current");
+  }
+  if (typeof payload.iat !== "number") {
+    return fail(
+      "validUntil",
+      "cannot place a JWT without iat before retirement",
+    );
+  }
+  return payload.iat * 1000 <= validUntil
+    ? pass(
+        "validUntil",
+        `issued before the key was retired at ${formatTime(validUntil / 1000)}`,
+      )
+    : fail(
+        "validUntil",
+        `signing key was retired at ${formatTime(validUntil / 1000)}`,
+      );
+}
+
+/**
+ * Check that a JWT was issued before its signing key was revoked
+ * revokedAt (milliseconds) is the effective time of the revocation. iat
+ * only has whole seconds, so a JWT from the second the revocation took
+ * effect is treated as made after it.
+ */
+export function checkKeyRevocation(
+  payload: JWTPayload,
+  revokedAt?: number,
+): ClaimCheck {
+  if (revokedAt === undefined) {
+    return pass("revocation", "signing key is not revoked");
+  }
+  if (typeof payload.iat !== "number") {
+    return fail(
+      "revocation",
+      "cannot place a JWT without iat before revocation",
+    );
+  }
+  return (payload.iat + 1) * 1000 <= revokedAt
+    ? pass(
+        "revocation",
+        `issued before the key was revoked at ${formatTime(revokedAt / 1000)}`,
+      )
+    : fail(
+        "revocation",
+        `signing key was revoked at ${formatTime(revokedAt / 1000)}`,
+      );
+}
+
+/**
+ * Compare the contentHash claim with the expected statement content
+ * Returns an error message, or undefined when the JWT is bound correctly
+ */
+export async function checkContentBinding(
+  payload: JWTPayload,
+  expectedContentHash: string,
+): Promise<string | undefined> {
+  if (typeof payload.contentHash !== "string") {
+    return "JWT is missing the contentHash claim";
+  }
+
+  if (payload.contentHash !== expectedContentHash) {
+    return "contentHash claim does not match the statement content";
+  }
+
+  // A content claim, when present, must be what the hash covers
+  if (payload.content !== undefined) {
+    let contentHash: string | undefined;
+    try {
+      contentHash =
+        typeof payload.content === "string"
+          ? await computeContentHash(payload.content)
+          : undefined;
+    } catch {
+      contentHash = undefined;
+    }
+    if (contentHash !== payload.contentHash) {
+      return "content claim does not match the contentHash claim";
+    }
+  }
+
+  return undefined;
+}
+
+function pass(claim: string, message: string): ClaimCheck {
+  return { claim, valid: true, message };
+}
+
+function fail(claim: string, message: string): ClaimCheck {
+  return { claim, valid: false, message };
+}
+
+function formatTime(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
@@ -0,0 +1,87 @@
+/**
+ * Signing Key Algorithms
+ *
+ * JWT signing keys are Ed25519 (EdDSA) by default, or P-256 (ES256) for
+ * verifiers that only accept NIST curves (e.g. HSM-based ones). The
+ * algorithm is a property of each key, chosen when it is enrolled and
+ * stored with it: verifiers derive it from the stored public JWK instead of
+ * trusting the JWT header, so a token cannot choose the algorithm it is
+ * checked with.
+ *
+ * Shared by the browser (generating keys and signing) and the server and
+ * offline verifier (checking signatures).
+ */
+
+import {
+  generateKeyPair,
+  importJWK,
+  type GenerateKeyPairResult,
+  type JWK,
+  type KeyLike,
+} from "jose";
+
+export const SIGNING_ALGORITHMS = ["EdDSA", "ES256"] as const;
+export type SigningAlgorithm = (typeof SIGNING_ALGORITHMS)[number];
+
+export const DEFAULT_SIGNING_ALGORITHM: SigningAlgorithm = "EdDSA";
+
+/**
+ * Algorithm requested for a key (at enrolment, or the preselected one from
+ * NEXT_PUBLIC_SIGNING_KEY_ALGORITHM)
+ * Unset means the default; anything else must be a supported algorithm.
+ */
+export function parseSigningAlgorithm(value?: string): SigningAlgorithm {
+  if (!value) {
+    return DEFAULT_SIGNING_ALGORITHM;
+  }
+  if (!(SIGNING_ALGORITHMS as readonly string[]).includes(value)) {
+    throw new Error(
+      `Unsupported signing algorithm: ${value} (use ${SIGNING_ALGORITHMS.join(" or ")})`,
+    );
+  }
+  return value as SigningAlgorithm;
+}
+
+/**
+ * The algorithm a public key signs with, from its key type and curve
+ */
+export function getSigningAlgorithm(jwk: JWK): SigningAlgorithm {
+  let algorithm: SigningAlgorithm;
+  if (jwk.kty === "OKP" && jwk.crv === "Ed25519") {
+    algorithm = "EdDSA";
+  } else if (jwk.kty === "EC" && jwk.crv === "P-256") {
+    algorithm = "ES256";
+  } else {
+    throw new Error(
+      `Unsupported signing key: ${jwk.kty ?? "no kty"} ${jwk.crv ?? "no crv"}`,
+    );
+  }
+
+  // An alg member is optional, but must not contradict the key
+  if (jwk.alg !== undefined && jwk.alg !== algorithm) {
+    throw new Error(`Key type ${jwk.kty} ${jwk.crv} cannot sign ${jwk.alg}`);
+  }
+  return algorithm;
+}
+
+/**
+ * Generate a signing key pair for an algorithm
+ */
+export async function generateSigningKeyPair(
+  algorithm: SigningAlgorithm,
+  options: { extractable?: boolean } = {},
+): Promise<GenerateKeyPairResult<KeyLike>> {
+  return algorithm === "EdDSA"
+    ? await generateKeyPair("EdDSA", { crv: "Ed25519", ...options })
+    : await generateKeyPair("ES256", options);
+}
+
+/**
+ * Import a stored public JWK with the algorithm it signs with
+ */
+export async function importSigningKey(
+  jwk: JWK,
+): Promise<{ algorithm: SigningAlgorithm; publicKey: KeyLike | Uint8Array }> {
+  const algorithm = getSigningAlgorithm(jwk);
+  return { algorithm, publicKey: await importJWK(jwk, algorithm) };
+}
@@ -0,0 +1,115 @@
+/**
+ * Statement Lifecycle
+ *
+ * Every statement is in exactly one state:
+ * - draft: being prepared by its creator, editable, not signable
+ * - open: published and collecting signatures
+ * - approved: its approval policy was satisfied (terminal)
+ * - rejected: declined by a veto holder (terminal)
+ * - expired: the signing period ended before approval (terminal)
+ * - withdrawn: retracted by its creator (terminal)
+ * - superseded: replaced by an amended version (terminal)
+ *
+ * Allowed transitions:
+ *   draft → open | withdrawn
+ *   open  → approved | rejected | expired | withdrawn | superseded
+ *
+ * Open statements with a signing deadline expire once it passes.
+ */
+
+export type StatementState =
+  | "draft"
+  | "open"
+  | "approved"
+  | "rejected"
+  | "expired"
+  | "withdrawn"
+  | "superseded";
+
+// Decision carried by a signature JWT in its `decision` claim
+export type SignatureDecision = "approve" | "decline";
+
+// How approvals are signed: with a passkey-attested JWT key, or directly
+// by the passkey over the approval request hash of {action, statementId,
+// contentHash, userId, nonce} (high assurance, see passkey-approval.ts)
+export type SigningMethod = "jwt" | "passkey";
+
+export const STATEMENT_STATES: StatementState[] = [
+  "draft",
+  "open",
+  "approved",
+  "rejected",
+  "expired",
+  "withdrawn",
+  "superseded",
+];
+
+const TRANSITIONS: Record<StatementState, StatementState[]> = {
+  draft: ["open", "withdrawn"],
+  open: ["approved", "rejected", "expired", "withdrawn", "superseded"],
+  approved: [],
+  rejected: [],
+  expired: [],
+  withdrawn: [],
+  superseded: [],
+};
+
+export function isStatementState(value: unknown): value is StatementState {
+  return STATEMENT_STATES.includes(value as StatementState);
+}
+
+export function isSigningMethod(value: unknown): value is SigningMethod {
+  return value === "jwt" || value === "passkey";
+}
+
+export function isSignatureDecision(
+  value: unknown,
+): value is SignatureDecision {
+  return value === "approve" || value === "decline";
+}
+
+/**
+ * Check whether a statement may move from one state to another
+ */
+export function canTransition(
+  from: StatementState,
+  to: StatementState,
+): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * States reachable from the given state
+ */
+export function getAllowedTransitions(from: StatementState): StatementState[] {
+  return [...TRANSITIONS[from]];
+}
+
+/**
+ * Terminal states have no outgoing transitions
+ */
+export function isTerminalState(state: StatementState): boolean {
+  return TRANSITIONS[state].length === 0;
+}
+
+/**
+ * Parse a signing deadline given as ms since epoch or an ISO 8601 string
+ * Returns NaN for unparseable input so that validation rejects it
+ */
+export function parseDeadline(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  return typeof value === "string" ? Date.parse(value) : Number(value);
+}
+
+/**
+ * Time left until a deadline, e.g. "2d 4h", "3h 15m", "45m"
+ */
+export function formatTimeRemaining(expiresAt: number, now: number): string {
+  const minutes = Math.max(0, Math.floor((expiresAt - now) / 60000));
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return minutes > 0 ? `${minutes}m` : "less than a minute";
+}
@@ -4,18 +4,89 @@ import {
   saveStatement,
   getStatement,
   getAllStatements,
+  updateStatementDraft,
+  getSupersedingStatementId,
+  getOverdueStatementIds,
+  saveStatementTransition,
+  getStatementTransitions,
+  saveStatementSigners,
+  getStatementSigners,
   saveStatementSignature,
   getStatementSignatures,
+  revokeStatementSignature,
   hasUserSignedStatement,
   getUser,
+  getUserByCredentialId,
+  getCredential,
+  getJWTKey,
+  getKeyRevocation,
+  recordJWTKeyUse,
+  consumeSigningNonce,
 } from "./database";
+import {
+  parseApprovalPolicy,
+  evaluateApprovalPolicy,
+  findVetoes,
+  countRequiredWeight,
+  collectPolicyUserIds,
+  type ApprovalPolicy,
+  type PolicyContext,
+  type PolicyEvaluation,
+} from "./approval-policy";
+import {
+  canTransition,
+  isSigningMethod,
+  type SignatureDecision,
+  type SigningMethod,
+  type StatementState,
+} from "./statement-lifecycle";
+import { verifyAuthentication } from "./authentication";
+import { canonicalize, computeContentHash } from "./canonical-json";
+import { computePasskeyApprovalChallenge } from "./passkey-approval";
+import {
+  buildApprovalCertificate,
+  type ContentSignature,
+  type GeneralJWS,
+} from "./approval-certificate";
+import {
+  VERIFICATION_BUNDLE_FORMAT,
+  VERIFICATION_BUNDLE_VERSION,
+  collectBundleKeyIds,
+  type BundleKey,
+  type BundlePasskey,
+  type BundleSignature,
+  type VerificationBundle,
+} from "./verification-bundle";
+import { checkKeyRevocation } from "./signature-profile";
+import { decodeJwt, decodeProtectedHeader } from "jose";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/server";
 import crypto from "crypto";
 
 export interface Statement {
   statementId: string;
   title?: string;
+  // Canonical (RFC 8785) JSON content
   content: string;
+  // SHA-256 of the canonical content, signed as the `contentHash` claim
+  contentHash: string;
   creatorId: string;
+  requiredSignatures: number;
+  eligibleSigners: number;
+  // Approval policy; when absent, requiredWeight from any signer applies
+  policy?: ApprovalPolicy;
+  // Combined signer weight needed for approval (equals requiredSignatures
+  // when every signer weighs 1)
+  requiredWeight: number;
+  state: StatementState;
+  // Signing deadline (ms since epoch); open statements expire after it
+  expiresAt?: number;
+  // "passkey": approvals are direct passkey assertions (see
+  // passkey-approval.ts)
+  signingMethod: SigningMethod;
+  // Amendment version, starting at 1
+  version: number;
+  // Statement ID of the previous version
+  supersedes?: string;
   createdAt: number;
 }
 
@@ -25,28 +96,443 @@ export interface StatementSignature {
   userId: string;
   userName: string;
   userRole: string;
+  weight: number;
+  decision: SignatureDecision;
+  reason?: string;
+  signingMethod: SigningMethod;
+  // JWS signature part, or the passkey's signature for direct signatures
   signature: string;
-  jwt: string;
+  // Absent for direct passkey signatures
+  jwt?: string;
+  // Direct passkey signatures only: the WebAuthn assertion over the
+  // approval request, and the signing nonce that request included
+  passkeyAssertion?: AuthenticationResponseJSON;
+  passkeyNonce?: string;
   signedAt: number;
+  // Set once the signer withdrew the signature
+  revocationJwt?: string;
+  revokedAt?: number;
+  // JWS over the canonical content (approvals only)
+  contentSignature?: ContentSignature;
+  // Set when the signing key was revoked before this JWT was issued
+  keyRevocation?: {
+    keyId: string;
+    revokedAt: number;
+    reason: string;
+  };
 }
 
-export type StatementStatus = "approved" | "pending";
+export interface StatementSigner {
+  userId: string;
+  userName: string;
+  userRole: string;
+  weight: number;
+}
+
+export type StatementStatus = StatementState;
+
+export interface StatementTransition {
+  id: number;
+  fromState: StatementState | null;
+  toState: StatementState;
+  // null when the system made the transition
+  actorId: string | null;
+  actorName: string | null;
+  reason?: string;
+  createdAt: number;
+}
 
 export interface StatementWithSignatures extends Statement {
+  // Active approvals and declines, in signing order
   signatures: StatementSignature[];
+  // Signatures withdrawn by their signers (kept for audit)
+  withdrawnSignatures: StatementSignature[];
+  // Active signatures made with a key after its revocation took effect;
+  // they do not count towards the policy
+  invalidatedSignatures: StatementSignature[];
+  // Number of approvals
   signatureCount: number;
+  declineCount: number;
+  // Combined weight of the approvals
+  accumulatedWeight: number;
   status: StatementStatus;
   creatorName: string;
+  // Designated signers (empty when any registered user may sign)
+  signers: StatementSigner[];
+  policyEvaluation: PolicyEvaluation;
+  // Lifecycle history, oldest first
+  transitions: StatementTransition[];
+  // Statement ID of the amended version that replaced this one
+  supersededBy?: string;
+  // Approved, but key revocations have since invalidated enough signatures
+  // that the policy is no longer satisfied
+  approvalBelowThreshold: boolean;
+}
+
+export interface CreateStatementOptions {
+  title?: string;
+  requiredSignatures?: number;
+  // Weight threshold, takes precedence over requiredSignatures
+  requiredWeight?: number;
+  // Ignored when signerIds is provided (derived from the signer set)
+  eligibleSigners?: number;
+  // User IDs of the designated signers
+  signerIds?: string[];
+  // Voting weight per designated signer (defaults to 1)
+  signerWeights?: Record<string, number>;
+  // Approval policy (validated with parseApprovalPolicy)
+  policy?: unknown;
+  // Save as a draft instead of opening for signatures
+  draft?: boolean;
+  // Signing deadline (ms since epoch)
+  expiresAt?: number;
+  // Defaults to "jwt"; "passkey" requires direct passkey approvals
+  signingMethod?: SigningMethod;
+}
+
+export interface UpdateDraftOptions {
+  title?: string;
+  content?: string;
+  requiredSignatures?: number;
+  requiredWeight?: number;
+  expiresAt?: number;
+}
+
+export interface AmendStatementOptions {
+  title?: string;
+  content: string;
+}
+
+export interface StatementFilter {
+  // Only return statements in one of these states
+  states?: StatementState[];
+  // Leave out expired statements
+  hideExpired?: boolean;
+}
+
+// Threshold applied when the creator does not specify one (2-of-3)
+const DEFAULT_REQUIRED_SIGNATURES = 2;
+const DEFAULT_ELIGIBLE_SIGNERS = 3;
+
+/**
+ * Policy applied to a statement (plain k-of-N when none was given)
+ */
+function getEffectivePolicy(statement: Statement): ApprovalPolicy {
+  return (
+    statement.policy ?? {
+      type: "quorum",
+      threshold: statement.requiredWeight,
+    }
+  );
+}
+
+/**
+ * Signatures that have not been withdrawn
+ */
+async function getActiveSignatures(statementId: string) {
+  const signatures = await getStatementSignatures(statementId);
+  return signatures.filter((sig) => sig.revoked_at === null);
+}
+
+// Note when the signing key (the JWT's kid) was last used
+async function recordKeyUse(jwt: string): Promise<void> {
+  const keyId = decodeProtectedHeader(jwt).kid;
+  if (keyId) {
+    await recordJWTKeyUse(keyId, Date.now());
+  }
+}
+
+/**
+ * Revocations of the keys that signed each signature, for the signatures
+ * recorded (or whose JWT claims to be issued) after the revocation took
+ * effect; the iat is chosen by the signer, so the server's signed_at
+ * decides (direct passkey signatures involve no key)
+ */
+async function findKeyRevokedSignatures(
+  signatures: Array<{ id: number; jwt: string | null; signed_at: number }>,
+): Promise<Map<number, NonNullable<StatementSignature["keyRevocation"]>>> {
+  const revokedSignatures = new Map<
+    number,
+    NonNullable<StatementSignature["keyRevocation"]>
+  >();
+  for (const sig of signatures) {
+    if (!sig.jwt) continue;
+    const keyId = decodeProtectedHeader(sig.jwt).kid;
+    const revocation = keyId ? await getKeyRevocation(keyId) : undefined;
+    if (
+      keyId &&
+      revocation &&
+      (sig.signed_at >= revocation.revoked_at ||
+        !checkKeyRevocation(decodeJwt(sig.jwt), revocation.revoked_at).valid)
+    ) {
+      revokedSignatures.set(sig.id, {
+        keyId,
+        revokedAt: revocation.revoked_at,
+        reason: revocation.reason,
+      });
+    }
+  }
+  return revokedSignatures;
+}
+
+/**
+ * Active signatures that still count: not made with a revoked key
+ */
+async function getCountedSignatures(statementId: string) {
+  const signatures = await getActiveSignatures(statementId);
+  const revoked = await findKeyRevokedSignatures(signatures);
+  return signatures.filter((sig) => !revoked.has(sig.id));
+}
+
+function toStatementSignature(
+  sig: Awaited<ReturnType<typeof getStatementSignatures>>[number],
+): StatementSignature {
+  return {
+    id: sig.id,
+    statementId: sig.statement_id,
+    userId: sig.user_id,
+    userName: sig.name,
+    userRole: sig.role,
+    weight: sig.weight,
+    decision: sig.decision as SignatureDecision,
+    reason: sig.reason || undefined,
+    signingMethod: sig.signing_method as SigningMethod,
+    signature: sig.signature,
+    jwt: sig.jwt ?? undefined,
+    passkeyAssertion: sig.passkey_assertion
+      ? JSON.parse(sig.passkey_assertion)
+      : undefined,
+    passkeyNonce: sig.passkey_nonce ?? undefined,
+    signedAt: sig.signed_at,
+    revocationJwt: sig.revocation_jwt || undefined,
+    revokedAt: sig.revoked_at ?? undefined,
+    contentSignature: sig.content_signature
+      ? JSON.parse(sig.content_signature)
+      : undefined,
+  };
+}
+
+/**
+ * Build the policy context from a statement's approvals and declines
+ */
+async function getPolicyContext(
+  statement: Statement,
+  signatures: Array<{
+    user_id: string;
+    name: string;
+    role: string;
+    weight: number;
+    decision: string;
+  }>,
+): Promise<PolicyContext> {
+  // Resolve display names of users referenced by the policy
+  const userNames: Record<string, string> = {};
+  for (const userId of collectPolicyUserIds(getEffectivePolicy(statement))) {
+    const user = await getUser(userId);
+    if (user) userNames[userId] = user.name;
+  }
+
+  const toSigner = (sig: (typeof signatures)[number]) => ({
+    userId: sig.user_id,
+    userName: sig.name,
+    userRole: sig.role,
+    weight: sig.weight,
+  });
+
+  return {
+    creatorId: statement.creatorId,
+    content: JSON.parse(statement.content),
+    signatures: signatures
+      .filter((sig) => sig.decision !== "decline")
+      .map(toSigner),
+    declines: signatures
+      .filter((sig) => sig.decision === "decline")
+      .map(toSigner),
+    userNames,
+  };
+}
+
+/**
+ * Smallest number of signers whose combined weight reaches requiredWeight
+ */
+function countSignersForWeight(
+  weights: number[],
+  requiredWeight: number,
+): number {
+  const sorted = [...weights].sort((a, b) => b - a);
+  let total = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    total += sorted[i];
+    if (total >= requiredWeight) return i + 1;
+  }
+  return sorted.length;
+}
+
+/**
+ * Derive k and the weight threshold from the policy, or validate the
+ * requested weight against the eligible signers
+ *
+ * Either way the eligible signers must be able to reach the threshold.
+ */
+function resolveThreshold(
+  policy: ApprovalPolicy | undefined,
+  parsedContent: unknown,
+  creatorId: string,
+  signerWeights: number[],
+  eligibleSigners: number,
+  requestedWeight: number,
+): { requiredSignatures: number; requiredWeight: number } {
+  const weights =
+    signerWeights.length > 0
+      ? signerWeights
+      : new Array<number>(eligibleSigners).fill(1);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  if (policy) {
+    const requiredWeight = countRequiredWeight(
+      policy,
+      parsedContent,
+      creatorId,
+    );
+    if (requiredWeight > totalWeight) {
+      throw new Error(
+        `Approval policy needs a signer weight of ${requiredWeight}, more than the eligible signers hold (${totalWeight})`,
+      );
+    }
+    return { requiredSignatures: requiredWeight, requiredWeight };
+  }
+
+  if (
+    !Number.isInteger(requestedWeight) ||
+    requestedWeight < 1 ||
+    requestedWeight > totalWeight
+  ) {
+    throw new Error(
+      "Required signatures must be between 1 and the total weight of eligible signers",
+    );
+  }
+
+  return {
+    requiredSignatures: countSignersForWeight(weights, requestedWeight),
+    requiredWeight: requestedWeight,
+  };
+}
+
+function validateDeadline(expiresAt: number | undefined): void {
+  if (expiresAt === undefined) return;
+  if (!Number.isInteger(expiresAt) || expiresAt <= Date.now()) {
+    throw new Error("Signing deadline must be a future timestamp");
+  }
+}
+
+function isPastDeadline(statement: Statement): boolean {
+  return statement.expiresAt !== undefined && statement.expiresAt <= Date.now();
+}
+
+/**
+ * Move open statements past their signing deadline to expired
+ * (run lazily before statements are read or signed)
+ */
+async function expireOverdueStatements(): Promise<void> {
+  for (const statementId of await getOverdueStatementIds(Date.now())) {
+    await saveStatementTransition(
+      statementId,
+      "open",
+      "expired",
+      null,
+      "Signing deadline passed",
+    );
+  }
+}
+
+function parseStatementContent(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error("Statement content must be valid JSON");
+  }
+}
+
+/**
+ * Load signatures, signers and creator name for a statement
+ */
+async function buildStatementWithSignatures(
+  statement: Statement,
+): Promise<StatementWithSignatures> {
+  const allSignatures = await getStatementSignatures(statement.statementId);
+  const activeSignatures = allSignatures.filter(
+    (sig) => sig.revoked_at === null,
+  );
+  const keyRevocations = await findKeyRevokedSignatures(activeSignatures);
+  const signatures = activeSignatures.filter(
+    (sig) => !keyRevocations.has(sig.id),
+  );
+  const signers = await getStatementSigners(statement.statementId);
+  const creator = await getUser(statement.creatorId);
+  const policyEvaluation = evaluateApprovalPolicy(
+    getEffectivePolicy(statement),
+    await getPolicyContext(statement, signatures),
+  );
+  const approvals = signatures.filter((sig) => sig.decision !== "decline");
+  const transitions = await getStatementTransitions(statement.statementId);
+  const supersededBy = await getSupersedingStatementId(statement.statementId);
+
+  return {
+    ...statement,
+    signatures: signatures.map(toStatementSignature),
+    withdrawnSignatures: allSignatures
+      .filter((sig) => sig.revoked_at !== null)
+      .map(toStatementSignature),
+    invalidatedSignatures: activeSignatures
+      .filter((sig) => keyRevocations.has(sig.id))
+      .map((sig) => ({
+        ...toStatementSignature(sig),
+        keyRevocation: keyRevocations.get(sig.id),
+      })),
+    signatureCount: approvals.length,
+    declineCount: signatures.length - approvals.length,
+    accumulatedWeight: approvals.reduce((sum, sig) => sum + sig.weight, 0),
+    status: statement.state,
+    creatorName: creator?.name || "Unknown",
+    signers: signers.map((signer) => ({
+      userId: signer.user_id,
+      userName: signer.name,
+      userRole: signer.role,
+      weight: signer.weight,
+    })),
+    policyEvaluation,
+    transitions: transitions.map((transition) => ({
+      id: transition.id,
+      fromState: transition.from_state as StatementState | null,
+      toState: transition.to_state as StatementState,
+      actorId: transition.actor_id,
+      actorName: transition.name,
+      reason: transition.reason || undefined,
+      createdAt: transition.created_at,
+    })),
+    supersededBy: supersededBy ?? undefined,
+    approvalBelowThreshold:
+      statement.state === "approved" && !policyEvaluation.satisfied,
+  };
 }
 
 /**
  * Create a new statement (Creator only)
+ *
+ * requiredSignatures (k) and eligibleSigners (N) define a k-of-N threshold.
+ * When signerIds is provided, only those users may sign and N is the size
+ * of the signer set. Signers may carry weights, in which case the threshold
+ * is requiredWeight and k is the fewest signers able to reach it.
+ * When a policy is provided, the thresholds are derived from it.
+ * The statement opens for signatures immediately unless saved as a draft.
  */
 export async function createStatement(
   content: string,
   creatorId: string,
-  title?: string,
+  options: CreateStatementOptions = {},
 ): Promise<Statement> {
+  const { title } = options;
+
   // Verify creator exists
   const creator = await getUser(creatorId);
   if (!creator) {
@@ -59,66 +545,372 @@ export async function createStatement(
 
   const statementId = crypto.randomBytes(16).toString("hex");
 
-  // Validate JSON content
-  try {
-    JSON.parse(content);
-  } catch {
-    throw new Error("Statement content must be valid JSON");
+  // Validate JSON content and hash its canonical form
+  const parsedContent = parseStatementContent(content);
+  const canonicalContent = canonicalize(parsedContent);
+  const contentHash = await computeContentHash(canonicalContent);
+
+  validateDeadline(options.expiresAt);
+
+  const signingMethod = options.signingMethod ?? "jwt";
+  if (!isSigningMethod(signingMethod)) {
+    throw new Error('Signing method must be "jwt" or "passkey"');
+  }
+
+  // Validate approval policy
+  const policy =
+    options.policy !== undefined
+      ? parseApprovalPolicy(options.policy)
+      : undefined;
+
+  // Validate designated signers and their weights
+  const signerIds = Array.from(new Set(options.signerIds ?? []));
+  for (const signerId of signerIds) {
+    const signer = await getUser(signerId);
+    if (!signer) {
+      throw new Error(`Designated signer not found: ${signerId}`);
+    }
+  }
+
+  const signerWeights = options.signerWeights ?? {};
+  for (const [userId, weight] of Object.entries(signerWeights)) {
+    if (!signerIds.includes(userId)) {
+      throw new Error(`Weight given for a non-designated signer: ${userId}`);
+    }
+    if (!Number.isInteger(weight) || weight < 1) {
+      throw new Error("Signer weights must be positive integers");
+    }
+  }
+
+  const signers = signerIds.map((userId) => ({
+    userId,
+    weight: signerWeights[userId] ?? 1,
+  }));
+
+  // Without designated signers, a policy makes room for as many signers
+  // as it needs unless N is given
+  const eligibleSigners =
+    signerIds.length > 0
+      ? signerIds.length
+      : (options.eligibleSigners ??
+        (policy
+          ? Math.max(
+              DEFAULT_ELIGIBLE_SIGNERS,
+              countRequiredWeight(policy, parsedContent, creatorId),
+            )
+          : DEFAULT_ELIGIBLE_SIGNERS));
+
+  // Validate threshold
+  if (!Number.isInteger(eligibleSigners) || eligibleSigners < 1) {
+    throw new Error("Eligible signers must be a positive integer");
+  }
+
+  const { requiredSignatures, requiredWeight } = resolveThreshold(
+    policy,
+    parsedContent,
+    creatorId,
+    signers.map((signer) => signer.weight),
+    eligibleSigners,
+    options.requiredWeight ??
+      options.requiredSignatures ??
+      DEFAULT_REQUIRED_SIGNATURES,
+  );
+
+  const state: StatementState = options.draft ? "draft" : "open";
+
+  await saveStatement(
+    statementId,
+    canonicalContent,
+    contentHash,
+    creatorId,
+    title,
+    requiredSignatures,
+    eligibleSigners,
+    policy ? JSON.stringify(policy) : undefined,
+    requiredWeight,
+    state,
+    options.expiresAt,
+    signingMethod,
+  );
+
+  if (signers.length > 0) {
+    await saveStatementSigners(statementId, signers);
   }
 
-  await saveStatement(statementId, content, creatorId, title);
+  await saveStatementTransition(statementId, null, state, creatorId);
 
   const statement = await getStatement(statementId);
   if (!statement) {
     throw new Error("Failed to create statement");
   }
 
-  return {
-    statementId: statement.statementId,
-    title: statement.title,
-    content: statement.content,
-    creatorId: statement.creatorId,
-    createdAt: statement.createdAt,
-  };
+  return statement;
+}
+
+/**
+ * Update a draft statement (Creator only)
+ *
+ * The threshold is recomputed from the policy or the new requested weight.
+ */
+export async function updateDraftStatement(
+  statementId: string,
+  editorId: string,
+  updates: UpdateDraftOptions,
+): Promise<Statement> {
+  const statement = await getStatement(statementId);
+  if (!statement) {
+    throw new Error("Statement not found");
+  }
+
+  if (statement.creatorId !== editorId) {
+    throw new Error("Only the creator can edit this statement");
+  }
+
+  if (statement.state !== "draft") {
+    throw new Error("Only draft statements can be edited");
+  }
+
+  const parsedContent = parseStatementContent(
+    updates.content ?? statement.content,
+  );
+  const content = canonicalize(parsedContent);
+  validateDeadline(updates.expiresAt);
+  const signers = await getStatementSigners(statementId);
+
+  const { requiredSignatures, requiredWeight } = resolveThreshold(
+    statement.policy,
+    parsedContent,
+    statement.creatorId,
+    signers.map((signer) => signer.weight),
+    statement.eligibleSigners,
+    updates.requiredWeight ??
+      updates.requiredSignatures ??
+      statement.requiredWeight,
+  );
+
+  await updateStatementDraft(
+    statementId,
+    updates.title ?? statement.title,
+    content,
+    await computeContentHash(content),
+    requiredSignatures,
+    requiredWeight,
+    updates.expiresAt ?? statement.expiresAt,
+  );
+
+  const updated = await getStatement(statementId);
+  if (!updated) {
+    throw new Error("Failed to update statement");
+  }
+
+  return updated;
+}
+
+/**
+ * Amend an open statement (Creator only)
+ *
+ * Creates the next version with the new content, keeping the signer set,
+ * policy, threshold, deadline and signing method. Signatures stay with the
+ * version they were made for, so signers have to sign the new version
+ * again. The previous version becomes superseded.
+ */
+export async function amendStatement(
+  statementId: string,
+  editorId: string,
+  amendment: AmendStatementOptions,
+): Promise<Statement> {
+  const previous = await getStatement(statementId);
+  if (!previous) {
+    throw new Error("Statement not found");
+  }
+
+  if (previous.creatorId !== editorId) {
+    throw new Error("Only the creator can amend this statement");
+  }
+
+  if (previous.state !== "open" || isPastDeadline(previous)) {
+    throw new Error("Only open statements can be amended");
+  }
+
+  const parsedContent = parseStatementContent(amendment.content);
+  const content = canonicalize(parsedContent);
+  const contentHash = await computeContentHash(content);
+
+  if (contentHash === previous.contentHash) {
+    throw new Error("Amendment does not change the statement content");
+  }
+
+  const signers = await getStatementSigners(statementId);
+
+  const { requiredSignatures, requiredWeight } = resolveThreshold(
+    previous.policy,
+    parsedContent,
+    previous.creatorId,
+    signers.map((signer) => signer.weight),
+    previous.eligibleSigners,
+    previous.requiredWeight,
+  );
+
+  const newStatementId = crypto.randomBytes(16).toString("hex");
+  const version = previous.version + 1;
+
+  // Supersede first so that concurrent amendments cannot fork the history
+  const superseded = await saveStatementTransition(
+    statementId,
+    "open",
+    "superseded",
+    editorId,
+    `Amended as version ${version}`,
+  );
+  if (!superseded) {
+    throw new Error("Statement state changed concurrently, please retry");
+  }
+
+  await saveStatement(
+    newStatementId,
+    content,
+    contentHash,
+    previous.creatorId,
+    amendment.title ?? previous.title,
+    requiredSignatures,
+    previous.eligibleSigners,
+    previous.policy ? JSON.stringify(previous.policy) : undefined,
+    requiredWeight,
+    "open",
+    previous.expiresAt,
+    previous.signingMethod,
+    version,
+    statementId,
+  );
+
+  if (signers.length > 0) {
+    await saveStatementSigners(
+      newStatementId,
+      signers.map((signer) => ({
+        userId: signer.user_id,
+        weight: signer.weight,
+      })),
+    );
+  }
+
+  await saveStatementTransition(newStatementId, null, "open", editorId);
+
+  const statement = await getStatement(newStatementId);
+  if (!statement) {
+    throw new Error("Failed to amend statement");
+  }
+
+  return statement;
+}
+
+/**
+ * Move a statement to another lifecycle state
+ *
+ * - open / withdrawn: the creator only
+ * - approved / rejected: only reached by signing (see signStatement)
+ * - expired: only the system (actorId null)
+ * - superseded: only by amending (see amendStatement)
+ */
+export async function transitionStatementState(
+  statementId: string,
+  to: StatementState,
+  actorId: string | null,
+  reason?: string,
+): Promise<Statement> {
+  const statement = await getStatement(statementId);
+  if (!statement) {
+    throw new Error("Statement not found");
+  }
+
+  const from = statement.state;
+  if (!canTransition(from, to)) {
+    throw new Error(`Cannot move statement from ${from} to ${to}`);
+  }
+
+  if (actorId !== null) {
+    const actor = await getUser(actorId);
+    if (!actor) {
+      throw new Error("User not found");
+    }
+
+    switch (to) {
+      case "open":
+      case "withdrawn":
+        if (statement.creatorId !== actorId) {
+          throw new Error(`Only the creator can move a statement to ${to}`);
+        }
+        if (to === "open" && isPastDeadline(statement)) {
+          throw new Error("Signing deadline has passed");
+        }
+        break;
+      case "approved":
+        throw new Error(
+          "Statements are approved once their approval policy is satisfied",
+        );
+      case "rejected":
+        throw new Error("Statements are rejected by a veto holder's decline");
+      case "superseded":
+        throw new Error("Statements are superseded by amending them");
+      case "expired":
+        throw new Error("Statements expire automatically");
+    }
+  }
+
+  const changed = await saveStatementTransition(
+    statementId,
+    from,
+    to,
+    actorId,
+    reason,
+  );
+  if (!changed) {
+    throw new Error("Statement state changed concurrently, please retry");
+  }
+
+  const updated = await getStatement(statementId);
+  if (!updated) {
+    throw new Error("Statement not found");
+  }
+
+  return updated;
 }
 
 /**
  * Get all statements with their signatures
  */
-export async function getStatements(): Promise<StatementWithSignatures[]> {
-  const statements = await getAllStatements();
+export async function getStatements(
+  filter: StatementFilter = {},
+): Promise<StatementWithSignatures[]> {
+  await expireOverdueStatements();
 
-  const statementsWithSignatures = await Promise.all(
-    statements.map(async (stmt) => {
-      const signatures = await getStatementSignatures(stmt.statement_id);
-      const creator = await getUser(stmt.creator_id);
+  const statements = (await getAllStatements()).filter(
+    (stmt) =>
+      (!filter.states ||
+        filter.states.includes(stmt.state as StatementState)) &&
+      !(filter.hideExpired && stmt.state === "expired"),
+  );
 
-      return {
+  return await Promise.all(
+    statements.map((stmt) =>
+      buildStatementWithSignatures({
         statementId: stmt.statement_id,
         title: stmt.title || undefined,
         content: stmt.content,
+        contentHash: stmt.content_hash,
         creatorId: stmt.creator_id,
+        requiredSignatures: stmt.required_signatures,
+        eligibleSigners: stmt.eligible_signers,
+        policy: stmt.policy ? JSON.parse(stmt.policy) : undefined,
+        requiredWeight: stmt.required_weight ?? stmt.required_signatures,
+        state: stmt.state as StatementState,
+        expiresAt: stmt.expires_at ?? undefined,
+        signingMethod: stmt.signing_method as SigningMethod,
+        version: stmt.version,
+        supersedes: stmt.supersedes || undefined,
         createdAt: stmt.created_at,
-        signatures: signatures.map((sig) => ({
-          id: sig.id,
-          statementId: sig.statement_id,
-          userId: sig.user_id,
-          userName: sig.name,
-          userRole: sig.role,
-          signature: sig.signature,
-          jwt: sig.jwt,
-          signedAt: sig.signed_at,
-        })),
-        signatureCount: signatures.length,
-        status: (signatures.length >= 2
-          ? "approved"
-          : "pending") as StatementStatus,
-        creatorName: creator?.name || "Unknown",
-      };
-    }),
+      }),
+    ),
   );
-
-  return statementsWithSignatures;
 }
 
 /**
@@ -127,42 +919,113 @@ export async function getStatements(): Promise<StatementWithSignatures[]> {
 export async function getStatementById(
   statementId: string,
 ): Promise<StatementWithSignatures | null> {
+  await expireOverdueStatements();
+
   const statement = await getStatement(statementId);
   if (!statement) return null;
 
-  const signatures = await getStatementSignatures(statementId);
-  const creator = await getUser(statement.creatorId);
+  return await buildStatementWithSignatures(statement);
+}
 
-  return {
-    statementId: statement.statementId,
-    title: statement.title,
-    content: statement.content,
-    creatorId: statement.creatorId,
-    createdAt: statement.createdAt,
-    signatures: signatures.map((sig) => ({
-      id: sig.id,
-      statementId: sig.statement_id,
-      userId: sig.user_id,
-      userName: sig.name,
-      userRole: sig.role,
-      signature: sig.signature,
-      jwt: sig.jwt,
-      signedAt: sig.signed_at,
-    })),
-    signatureCount: signatures.length,
-    status: signatures.length >= 2 ? "approved" : "pending",
-    creatorName: creator?.name || "Unknown",
-  };
+/**
+ * Check that a user may add a signature to a statement
+ *
+ * Only open statements accept signatures, and only before their deadline.
+ */
+async function checkCanSign(
+  statement: Statement,
+  userId: string,
+): Promise<void> {
+  const { statementId } = statement;
+
+  if (statement.state === "open" && isPastDeadline(statement)) {
+    await expireOverdueStatements();
+    throw new Error("Signing deadline has passed");
+  }
+
+  if (statement.state !== "open") {
+    throw new Error(`Statement is ${statement.state} and cannot be signed`);
+  }
+
+  // Verify user exists
+  const user = await getUser(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  // Verify user is a designated signer (if the statement has a signer set)
+  const signers = await getStatementSigners(statementId);
+  if (
+    signers.length > 0 &&
+    !signers.some((signer) => signer.user_id === userId)
+  ) {
+    throw new Error("User is not a designated signer for this statement");
+  }
+
+  // Check if user already signed
+  const alreadySigned = await hasUserSignedStatement(statementId, userId);
+  if (alreadySigned) {
+    throw new Error("User has already signed this statement");
+  }
+
+  // Check that the statement still has room for another eligible signer
+  // (a policy decides on its own who may still sign)
+  const signatures = await getActiveSignatures(statementId);
+  if (!statement.policy && signatures.length >= statement.eligibleSigners) {
+    throw new Error("All eligible signers have already signed this statement");
+  }
 }
 
 /**
- * Sign a statement
+ * Decide the statement after a new signature: approved as soon as its
+ * policy is satisfied, rejected when a veto holder declined
+ */
+async function applySignature(
+  statement: Statement,
+  userId: string,
+  decision: SignatureDecision,
+  reason?: string,
+): Promise<void> {
+  const { statementId } = statement;
+  const policy = getEffectivePolicy(statement);
+  const context = await getPolicyContext(
+    statement,
+    await getCountedSignatures(statementId),
+  );
+
+  if (decision === "decline") {
+    // A veto holder's decline rejects the statement outright
+    if (findVetoes(policy, context).some((sig) => sig.userId === userId)) {
+      await saveStatementTransition(
+        statementId,
+        "open",
+        "rejected",
+        userId,
+        reason,
+      );
+    }
+  } else if (evaluateApprovalPolicy(policy, context).satisfied) {
+    // Approve once the policy is satisfied, credited to the final signer
+    await saveStatementTransition(statementId, "open", "approved", userId);
+  }
+}
+
+/**
+ * Sign a statement with a JWT, approving or declining it
+ *
+ * Only open statements accept signatures, and only before their deadline.
+ * The statement moves to approved as soon as its approval policy is
+ * satisfied, or to rejected when a veto holder declines. Statements with
+ * the passkey signing method only take declines this way.
  */
 export async function signStatement(
   statementId: string,
   userId: string,
   signature: string,
   jwt: string,
+  decision: SignatureDecision = "approve",
+  reason?: string,
+  contentSignature?: ContentSignature,
 ): Promise<number | bigint> {
   // Verify statement exists
   const statement = await getStatement(statementId);
@@ -170,29 +1033,300 @@ export async function signStatement(
     throw new Error("Statement not found");
   }
 
-  // Verify user exists
-  const user = await getUser(userId);
+  await checkCanSign(statement, userId);
+
+  if (statement.signingMethod === "passkey" && decision === "approve") {
+    throw new Error(
+      "Approvals of this statement must be signed directly with a passkey",
+    );
+  }
+
+  const signatureId = await saveStatementSignature(
+    statementId,
+    userId,
+    signature,
+    jwt,
+    decision,
+    reason,
+    contentSignature ? JSON.stringify(contentSignature) : undefined,
+  );
+  await recordKeyUse(jwt);
+  await applySignature(statement, userId, decision, reason);
+
+  return signatureId;
+}
+
+/**
+ * Approve a statement with a direct passkey signature
+ *
+ * The passkey signs the approval request (statement, content hash, signer
+ * and signing nonce; see passkey-approval.ts) as the WebAuthn challenge,
+ * with no JWT key in between; the signer is the passkey's owner. The nonce
+ * must have been issued for this statement, and is consumed.
+ */
+export async function signStatementWithPasskey(
+  statementId: string,
+  passkeyAssertion: AuthenticationResponseJSON,
+  nonce: string,
+): Promise<{ signatureId: number | bigint; userId: string }> {
+  const statement = await getStatement(statementId);
+  if (!statement) {
+    throw new Error("Statement not found");
+  }
+
+  if (statement.signingMethod !== "passkey") {
+    throw new Error("Statement is not signed directly with passkeys");
+  }
+
+  const user = await getUserByCredentialId(passkeyAssertion.id);
   if (!user) {
-    throw new Error("User not found");
+    throw new Error("No user is registered with this passkey");
   }
 
-  // Check if user already signed
-  const alreadySigned = await hasUserSignedStatement(statementId, userId);
-  if (alreadySigned) {
-    throw new Error("User has already signed this statement");
+  await checkCanSign(statement, user.userId);
+
+  // Also updates the passkey counter
+  const result = await verifyAuthentication(
+    passkeyAssertion,
+    await computePasskeyApprovalChallenge({
+      statementId,
+      contentHash: statement.contentHash,
+      userId: user.userId,
+      nonce,
+    }),
+  );
+  if (!result.verified) {
+    throw new Error("Passkey signature verification failed");
+  }
+
+  if (!(await consumeSigningNonce(nonce, statementId, Date.now()))) {
+    throw new Error(
+      "Signing nonce is unknown, expired, already used or issued for another statement",
+    );
   }
 
-  return await saveStatementSignature(statementId, userId, signature, jwt);
+  const signatureId = await saveStatementSignature(
+    statementId,
+    user.userId,
+    passkeyAssertion.response.signature,
+    undefined,
+    "approve",
+    undefined,
+    undefined,
+    JSON.stringify(passkeyAssertion),
+    nonce,
+  );
+  await applySignature(statement, user.userId, "approve");
+
+  return { signatureId, userId: user.userId };
 }
 
 /**
- * Check if a statement is approved (has 2 or more signatures)
+ * Combine the approvals of an approved statement into one JWS document
+ * (General JSON Serialization) over the canonical content
+ */
+export async function getApprovalCertificate(
+  statementId: string,
+): Promise<GeneralJWS> {
+  const statement = await getStatementById(statementId);
+  if (!statement) {
+    throw new Error("Statement not found");
+  }
+
+  if (statement.status !== "approved") {
+    throw new Error(`Statement is ${statement.status}, not approved`);
+  }
+
+  const contentSignatures = statement.signatures
+    .filter((sig) => sig.decision === "approve" && sig.contentSignature)
+    .map((sig) => sig.contentSignature!);
+  if (contentSignatures.length === 0) {
+    throw new Error("Statement has no content signatures");
+  }
+
+  return buildApprovalCertificate(statement.content, contentSignatures);
+}
+
+/**
+ * Export everything needed to verify an approved statement offline
+ *
+ * The relying party is passed in by the caller since the expected origin
+ * may depend on the request.
+ */
+export async function getVerificationBundle(
+  statementId: string,
+  relyingParty: { rpId: string; origin: string },
+): Promise<VerificationBundle> {
+  const statement = await getStatementById(statementId);
+  if (!statement) {
+    throw new Error("Statement not found");
+  }
+
+  if (statement.status !== "approved") {
+    throw new Error(`Statement is ${statement.status}, not approved`);
+  }
+
+  const toBundleSignature = (sig: StatementSignature): BundleSignature => ({
+    userId: sig.userId,
+    userName: sig.userName,
+    userRole: sig.userRole,
+    weight: sig.weight,
+    decision: sig.decision,
+    reason: sig.reason,
+    signedAt: sig.signedAt,
+    signingMethod: sig.signingMethod,
+    jwt: sig.jwt,
+    passkeyAssertion: sig.passkeyAssertion,
+    passkeyNonce: sig.passkeyNonce,
+    contentSignature: sig.contentSignature,
+    revocationJwt: sig.revocationJwt,
+    revokedAt: sig.revokedAt,
+  });
+  const signatures = statement.signatures.map(toBundleSignature);
+  const withdrawnSignatures =
+    statement.withdrawnSignatures.map(toBundleSignature);
+
+  // Removed passkeys keep their public key, so their signatures still verify
+  const passkeys: Record<string, BundlePasskey> = {};
+  for (const sig of [...signatures, ...withdrawnSignatures]) {
+    if (!sig.passkeyAssertion) continue;
+    const credentialId = sig.passkeyAssertion.id;
+    const credential = await getCredential(credentialId);
+    if (!credential || credential.userId !== sig.userId) {
+      throw new Error(`Passkey ${credentialId} of ${sig.userId} is missing`);
+    }
+    passkeys[credentialId] = {
+      credentialId,
+      userId: credential.userId,
+      publicKey: credential.publicKey,
+      algorithm: credential.algorithm,
+    };
+  }
+
+  const keys: Record<string, BundleKey> = {};
+  for (const keyId of collectBundleKeyIds([
+    ...signatures,
+    ...withdrawnSignatures,
+  ])) {
+    const jwtKey = await getJWTKey(keyId);
+    if (!jwtKey || !jwtKey.passkeyPublicKey) {
+      throw new Error(`Signing key ${keyId} or its passkey is missing`);
+    }
+    keys[keyId] = {
+      keyId,
+      userId: jwtKey.userId,
+      credentialId: jwtKey.credentialId,
+      publicKeyJWK: jwtKey.publicKeyJWK,
+      publicKeyFingerprint: jwtKey.publicKeyFingerprint,
+      ...(jwtKey.legacyFingerprint && {
+        legacyFingerprint: jwtKey.legacyFingerprint,
+      }),
+      ...(jwtKey.keyBinding && { keyBinding: jwtKey.keyBinding }),
+      passkeyAttestation: jwtKey.passkeyAttestation,
+      passkeyPublicKey: jwtKey.passkeyPublicKey,
+      passkeyAlgorithm: jwtKey.passkeyAlgorithm ?? -7,
+      createdAt: jwtKey.createdAt,
+      ...(jwtKey.validUntil !== undefined && {
+        validUntil: jwtKey.validUntil,
+      }),
+    };
+  }
+
+  const contentSignatures = signatures
+    .filter((sig) => sig.decision === "approve" && sig.contentSignature)
+    .map((sig) => sig.contentSignature!);
+
+  return {
+    format: VERIFICATION_BUNDLE_FORMAT,
+    version: VERIFICATION_BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    relyingParty,
+    statement: {
+      statementId: statement.statementId,
+      title: statement.title,
+      content: statement.content,
+      contentHash: statement.contentHash,
+      creatorId: statement.creatorId,
+      creatorName: statement.creatorName,
+      state: statement.state,
+      version: statement.version,
+      supersedes: statement.supersedes,
+      createdAt: statement.createdAt,
+      expiresAt: statement.expiresAt,
+    },
+    policy: {
+      policy: getEffectivePolicy(statement),
+      requiredSignatures: statement.requiredSignatures,
+      requiredWeight: statement.requiredWeight,
+      eligibleSigners: statement.eligibleSigners,
+      signers: statement.signers,
+    },
+    signatures,
+    withdrawnSignatures,
+    keys,
+    ...(Object.keys(passkeys).length > 0 && { passkeys }),
+    certificate:
+      contentSignatures.length > 0
+        ? buildApprovalCertificate(statement.content, contentSignatures)
+        : undefined,
+  };
+}
+
+/**
+ * Withdraw a signature (approval or decline) before the statement is decided
+ *
+ * The revocation JWT must already be verified by the caller. The original
+ * signature is kept alongside it and no longer counts towards the policy.
+ */
+export async function withdrawSignature(
+  statementId: string,
+  userId: string,
+  revocationJwt: string,
+): Promise<void> {
+  const statement = await getStatement(statementId);
+  if (!statement) {
+    throw new Error("Statement not found");
+  }
+
+  if (statement.state === "open" && isPastDeadline(statement)) {
+    await expireOverdueStatements();
+    throw new Error("Signing deadline has passed");
+  }
+
+  if (statement.state !== "open") {
+    throw new Error(
+      `Statement is ${statement.state} and its signatures can no longer be withdrawn`,
+    );
+  }
+
+  const signature = (await getActiveSignatures(statementId)).find(
+    (sig) => sig.user_id === userId,
+  );
+  if (!signature) {
+    throw new Error("User has no signature to withdraw on this statement");
+  }
+
+  const revoked = await revokeStatementSignature(signature.id, revocationJwt);
+  if (!revoked) {
+    throw new Error("Signature was already withdrawn");
+  }
+  await recordKeyUse(revocationJwt);
+}
+
+/**
+ * Get the lifecycle state of a statement
  */
 export async function getStatementStatus(
   statementId: string,
 ): Promise<StatementStatus> {
-  const signatures = await getStatementSignatures(statementId);
-  return signatures.length >= 2 ? "approved" : "pending";
+  await expireOverdueStatements();
+
+  const statement = await getStatement(statementId);
+  if (!statement) {
+    throw new Error("Statement not found");
+  }
+
+  return statement.state;
 }
 
 /**
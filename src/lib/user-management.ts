@@ -1,11 +1,29 @@
 "use server";
 
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  RegistrationResponseJSON,
+} from "@simplewebauthn/server";
 import {
   saveUser,
   getUser,
   getUserByCredentialId,
   getAllUsers,
+  getCredential,
+  getUserCredentials,
+  linkCredentialToUser,
+  removeCredential,
 } from "./database";
+import { verifyAuthentication } from "./authentication";
+import { getRegistrationOptions, verifyRegistration } from "./registry";
+import {
+  computePasskeyChangeChallenge,
+  computePasskeyOptionsChallenge,
+  PASSKEY_OPTIONS_REQUEST_LIFETIME_MS,
+  type PasskeyOptionsRequest,
+  type UserPasskey,
+} from "./user-passkeys";
 import crypto from "crypto";
 
 export interface User {
@@ -13,21 +31,27 @@ export interface User {
   name: string;
   role: "creator" | "investor";
   credentialId: string;
+  // All passkeys the user can log in with
+  credentialIds: string[];
   createdAt: number;
 }
 
 /**
  * Create or update a user profile
+ * A new user gets newUserId when given (the ID their passkey was registered
+ * and their first key bound for), otherwise a random one.
  */
 export async function createOrUpdateUser(
   name: string,
   role: "creator" | "investor",
   credentialId: string,
+  newUserId?: string,
 ): Promise<User> {
   // Check if user already exists with this credential
   const existingUser = await getUserByCredentialId(credentialId);
 
-  const userId = existingUser?.userId || crypto.randomBytes(16).toString("hex");
+  const userId =
+    existingUser?.userId || newUserId || crypto.randomBytes(16).toString("hex");
 
   await saveUser(userId, name, role, credentialId);
 
@@ -41,12 +65,13 @@ export async function createOrUpdateUser(
     name: user.name,
     role: user.role as "creator" | "investor",
     credentialId: user.credentialId,
+    credentialIds: await getCredentialIds(user.userId),
     createdAt: user.createdAt,
   };
 }
 
 /**
- * Get user by credential ID
+ * Get user by credential ID (any of the user's passkeys)
  */
 export async function getUserInfo(credentialId: string): Promise<User | null> {
   const user = await getUserByCredentialId(credentialId);
@@ -57,6 +82,7 @@ export async function getUserInfo(credentialId: string): Promise<User | null> {
     name: user.name,
     role: user.role as "creator" | "investor",
     credentialId: user.credentialId,
+    credentialIds: await getCredentialIds(user.userId),
     createdAt: user.createdAt,
   };
 }
@@ -66,11 +92,161 @@ export async function getUserInfo(credentialId: string): Promise<User | null> {
  */
 export async function listAllUsers(): Promise<User[]> {
   const users = await getAllUsers();
-  return users.map((u) => ({
-    userId: u.user_id,
-    name: u.name,
-    role: u.role as "creator" | "investor",
-    credentialId: u.credential_id,
-    createdAt: u.created_at,
+  return Promise.all(
+    users.map(async (u) => ({
+      userId: u.user_id,
+      name: u.name,
+      role: u.role as "creator" | "investor",
+      credentialId: u.credential_id,
+      credentialIds: await getCredentialIds(u.user_id),
+      createdAt: u.created_at,
+    })),
+  );
+}
+
+/**
+ * The passkeys a user can log in with, oldest first
+ */
+export async function listUserPasskeys(userId: string): Promise<UserPasskey[]> {
+  const user = await getUser(userId);
+  if (!user) {
+    throw new Error(`User not found: ${userId}`);
+  }
+
+  return (await getUserCredentials(userId)).map((credential) => ({
+    ...credential,
+    primary: credential.credentialId === user.credentialId,
   }));
 }
+
+/**
+ * Registration options for another passkey of an existing user, requested
+ * with one of the passkeys they already have
+ */
+export async function getPasskeyRegistrationOptions(
+  request: PasskeyOptionsRequest,
+  passkeyAssertion: AuthenticationResponseJSON,
+): Promise<PublicKeyCredentialCreationOptionsJSON> {
+  const user = await getUser(request.userId);
+  if (!user) {
+    throw new Error(`User not found: ${request.userId}`);
+  }
+
+  if (
+    Math.abs(Date.now() - request.requestedAt) >
+    PASSKEY_OPTIONS_REQUEST_LIFETIME_MS
+  ) {
+    throw new Error("The passkey options request has expired");
+  }
+  await verifyUserPasskey(
+    user.userId,
+    await computePasskeyOptionsChallenge(request),
+    passkeyAssertion,
+  );
+
+  return await getRegistrationOptions(
+    user.userId,
+    user.name,
+    user.role as "creator" | "investor",
+    await getCredentialIds(user.userId),
+    "add-passkey",
+  );
+}
+
+/**
+ * Register another passkey for a user, approved by one they already have
+ */
+export async function addUserPasskey(
+  userId: string,
+  registrationResponse: RegistrationResponseJSON,
+  passkeyAssertion: AuthenticationResponseJSON,
+  label?: string,
+): Promise<UserPasskey> {
+  if (await getCredential(registrationResponse.id)) {
+    throw new Error("This passkey is already registered");
+  }
+
+  await verifyUserPasskey(
+    userId,
+    await computePasskeyChangeChallenge({
+      action: "add-passkey",
+      userId,
+      credentialId: registrationResponse.id,
+    }),
+    passkeyAssertion,
+  );
+
+  // Checks the challenge issued by getPasskeyRegistrationOptions and saves
+  // the new credential
+  const verification = await verifyRegistration(
+    userId,
+    registrationResponse,
+    "add-passkey",
+  );
+  const credentialId = verification.registrationInfo?.credential.id;
+  if (!credentialId) {
+    throw new Error("Passkey registration verification failed");
+  }
+  await linkCredentialToUser(credentialId, userId, label?.trim() || undefined);
+
+  const passkey = (await listUserPasskeys(userId)).find(
+    (p) => p.credentialId === credentialId,
+  );
+  if (!passkey) {
+    throw new Error("Failed to add passkey");
+  }
+  return passkey;
+}
+
+/**
+ * Remove one of a user's passkeys, approved by one of theirs (possibly the
+ * one being removed); the last passkey cannot be removed
+ */
+export async function removeUserPasskey(
+  userId: string,
+  credentialId: string,
+  passkeyAssertion: AuthenticationResponseJSON,
+): Promise<void> {
+  const passkeys = await getUserCredentials(userId);
+  if (!passkeys.some((p) => p.credentialId === credentialId)) {
+    throw new Error(`Passkey not found: ${credentialId}`);
+  }
+  if (passkeys.length === 1) {
+    throw new Error("A user's last passkey cannot be removed");
+  }
+
+  await verifyUserPasskey(
+    userId,
+    await computePasskeyChangeChallenge({
+      action: "remove-passkey",
+      userId,
+      credentialId,
+    }),
+    passkeyAssertion,
+  );
+
+  await removeCredential(credentialId);
+}
+
+// Check that one of the user's passkeys signed the challenge
+async function verifyUserPasskey(
+  userId: string,
+  challenge: string,
+  passkeyAssertion: AuthenticationResponseJSON,
+): Promise<void> {
+  const approver = await getUserByCredentialId(passkeyAssertion.id);
+  if (approver?.userId !== userId) {
+    throw new Error(
+      "The change must be approved with one of the user's passkeys",
+    );
+  }
+
+  const result = await verifyAuthentication(passkeyAssertion, challenge);
+  if (!result.verified) {
+    throw new Error("Passkey assertion verification failed");
+  }
+}
+
+async function getCredentialIds(userId: string): Promise<string[]> {
+  return (await getUserCredentials(userId)).map((c) => c.credentialId);
+}
@@ -0,0 +1,79 @@
+/**
+ * Passkey Changes
+ *
+ * A user can hold several passkeys, e.g. a backup authenticator in case a
+ * device is lost. Adding or removing one must be approved with one of the
+ * user's existing passkeys: its assertion signs the SHA-256 of the canonical
+ * change request, so it covers exactly this user and credential. Before the
+ * new passkey exists, its registration options are requested the same way,
+ * over the user and the time of the request.
+ *
+ * This module is shared by the browser (building the challenge) and the
+ * server (checking it).
+ */
+
+import { computeContentHash } from "./canonical-json";
+
+export type PasskeyChangeAction = "add-passkey" | "remove-passkey";
+
+export interface PasskeyChangeRequest {
+  action: PasskeyChangeAction;
+  userId: string;
+  // The passkey being added or removed
+  credentialId: string;
+}
+
+/**
+ * Request for registration options for another passkey of the user
+ */
+export interface PasskeyOptionsRequest {
+  userId: string;
+  // When the options were requested (ms since epoch)
+  requestedAt: number;
+}
+
+// How long an approved options request can be used
+export const PASSKEY_OPTIONS_REQUEST_LIFETIME_MS = 5 * 60 * 1000;
+
+/**
+ * A passkey as listed for its owner
+ */
+export interface UserPasskey {
+  credentialId: string;
+  label?: string;
+  // COSE algorithm identifier
+  algorithm: number;
+  createdAt: number;
+  // The passkey the user registered with (or its replacement)
+  primary: boolean;
+}
+
+/**
+ * Challenge an existing passkey signs to approve the change
+ */
+export async function computePasskeyChangeChallenge(
+  request: PasskeyChangeRequest,
+): Promise<string> {
+  return await computeContentHash(
+    JSON.stringify({
+      action: request.action,
+      userId: request.userId,
+      credentialId: request.credentialId,
+    }),
+  );
+}
+
+/**
+ * Challenge an existing passkey signs to request options for a new one
+ */
+export async function computePasskeyOptionsChallenge(
+  request: PasskeyOptionsRequest,
+): Promise<string> {
+  return await computeContentHash(
+    JSON.stringify({
+      action: "request-passkey-options",
+      userId: request.userId,
+      requestedAt: request.requestedAt,
+    }),
+  );
+}
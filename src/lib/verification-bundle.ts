@@ -0,0 +1,175 @@
+/**
+ * Offline Verification Bundle
+ *
+ * Everything needed to check an approved statement without contacting the
+ * server, so the proof outlives the deployment:
+ * - the statement (canonical content and its hash)
+ * - the approval policy that was applied, with the signer roles and weights
+ *   it was evaluated against
+ * - every signature JWT (including withdrawn ones and their revocations)
+ *   and the content signatures / approval certificate
+ * - for direct passkey signatures: the assertion over the approval request
+ *   (see passkey-approval.ts) with its signing nonce, and each signer's
+ *   passkey credential (ID, owner and COSE public key)
+ * - for every signing key: the public JWK, its fingerprint, its key binding,
+ *   the passkey assertion over that binding and the passkey's COSE public
+ *   key
+ * - the WebAuthn relying party the assertions were made for
+ *
+ * Verifying a bundle:
+ * 1. Check each passkey assertion with a WebAuthn library (challenge =
+ *    SHA-256 of the key binding, or the key fingerprint for keys without
+ *    one; credential public key = passkeyPublicKey, or the bundled passkey
+ *    of the signer for direct passkey signatures)
+ * 2. Verify each JWT against the key named by its kid, using the JWT's
+ *    iat rather than the current time for the time claims, and check that
+ *    the iat and decision fall within the key binding
+ * 3. Recompute the content hash and compare it with the contentHash claims,
+ *    and check that each direct passkey signature's challenge is the hash of
+ *    its approval request
+ * 4. Re-evaluate the policy with the approvals and declines
+ */
+
+import { decodeProtectedHeader, type JWK } from "jose";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/server";
+import type { ApprovalPolicy, PolicySigner } from "./approval-policy";
+import type {
+  SignatureDecision,
+  SigningMethod,
+  StatementState,
+} from "./statement-lifecycle";
+import type { ContentSignature, GeneralJWS } from "./approval-certificate";
+import type { KeyBinding } from "./key-binding";
+
+export const VERIFICATION_BUNDLE_FORMAT = "statement-verification-bundle";
+export const VERIFICATION_BUNDLE_VERSION = 1;
+
+export interface BundleStatement {
+  statementId: string;
+  title?: string;
+  // Canonical (RFC 8785) JSON content
+  content: string;
+  // SHA-256 of the canonical content, hex encoded
+  contentHash: string;
+  creatorId: string;
+  creatorName: string;
+  state: StatementState;
+  version: number;
+  supersedes?: string;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+export interface BundlePolicy {
+  // Policy the statement was evaluated with (k-of-N as a quorum when the
+  // statement had no explicit policy)
+  policy: ApprovalPolicy;
+  requiredSignatures: number;
+  requiredWeight: number;
+  eligibleSigners: number;
+  // Designated signers (empty when any registered user could sign)
+  signers: PolicySigner[];
+}
+
+export interface BundleSignature {
+  userId: string;
+  userName: string;
+  userRole: string;
+  weight: number;
+  decision: SignatureDecision;
+  reason?: string;
+  signedAt: number;
+  // Bundles without it only hold JWT signatures
+  signingMethod?: SigningMethod;
+  // Absent for direct passkey signatures
+  jwt?: string;
+  // Direct passkey signatures: the assertion over the approval request
+  // (its credential is listed in the bundle's passkeys), and the signing
+  // nonce the request included
+  passkeyAssertion?: AuthenticationResponseJSON;
+  passkeyNonce?: string;
+  // JWS over the canonical content (approvals only)
+  contentSignature?: ContentSignature;
+  // Set when the signature was withdrawn
+  revocationJwt?: string;
+  revokedAt?: number;
+}
+
+export interface BundleKey {
+  keyId: string;
+  userId: string;
+  credentialId: string;
+  publicKeyJWK: JWK;
+  // RFC 7638 thumbprint of the public JWK (see key-thumbprint.ts)
+  publicKeyFingerprint: string;
+  // Hex fingerprint the passkey attested, for keys enrolled before
+  // thumbprints were used
+  legacyFingerprint?: string;
+  // What the passkey signed; keys enrolled before bindings existed have
+  // none and were attested over the bare fingerprint
+  keyBinding?: KeyBinding;
+  passkeyAttestation: AuthenticationResponseJSON;
+  // Passkey public key (COSE, base64url)
+  passkeyPublicKey: string;
+  // COSE algorithm identifier of the passkey (e.g. -7 for ES256)
+  passkeyAlgorithm: number;
+  createdAt: number;
+  // Set when the key was rotated out (ms); it only covers earlier iats
+  validUntil?: number;
+}
+
+/**
+ * Passkey that made a direct passkey signature
+ */
+export interface BundlePasskey {
+  credentialId: string;
+  // The signer the passkey is registered to
+  userId: string;
+  // COSE public key, base64url
+  publicKey: string;
+  // COSE algorithm identifier (e.g. -7 for ES256)
+  algorithm: number;
+}
+
+export interface VerificationBundle {
+  format: typeof VERIFICATION_BUNDLE_FORMAT;
+  version: typeof VERIFICATION_BUNDLE_VERSION;
+  exportedAt: number;
+  relyingParty: {
+    rpId: string;
+    origin: string;
+  };
+  statement: BundleStatement;
+  policy: BundlePolicy;
+  // Active approvals and declines, in signing order
+  signatures: BundleSignature[];
+  withdrawnSignatures: BundleSignature[];
+  // Signing keys by kid
+  keys: Record<string, BundleKey>;
+  // Passkeys of direct passkey signatures by credential ID (bundles without
+  // it only hold JWT signatures)
+  passkeys?: Record<string, BundlePasskey>;
+  // Approval certificate (approved statements only)
+  certificate?: GeneralJWS;
+}
+
+/**
+ * Key IDs referenced by a bundle's signatures, revocations and content
+ * signatures
+ */
+export function collectBundleKeyIds(signatures: BundleSignature[]): string[] {
+  const keyIds = new Set<string>();
+  for (const sig of signatures) {
+    const headers = [
+      sig.jwt,
+      sig.revocationJwt,
+      sig.contentSignature && { protected: sig.contentSignature.protected },
+    ];
+    for (const header of headers) {
+      if (!header) continue;
+      const { kid } = decodeProtectedHeader(header);
+      if (kid) keyIds.add(kid);
+    }
+  }
+  return [...keyIds];
+}